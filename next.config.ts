@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ["pdf-parse"],
+  serverExternalPackages: ["pdf-parse", "tesseract.js", "@tesseract.js-data/eng"],
   experimental: {
     optimizePackageImports: ["lucide-react", "framer-motion"],
   },
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+
+import { crawlWebsite } from "@/lib/parsing/crawl";
+import { normalizeCrawlOptions } from "@/lib/parsing/crawl-options";
+import { ingestUrlContent } from "@/lib/parsing/url";
+
+import { startCrawlFixtureServer } from "./crawl-fixture";
+
+/**
+ * Crawls the fixture site over http://127.0.0.1 and checks the limits a
+ * website source relies on: the private-network policy, robots.txt rules, the
+ * same-origin link filter and the page cap. Run with `npm run check:crawl`.
+ */
+
+async function main() {
+  // A second server on another port is another origin; the crawler must never call it.
+  const offOrigin = await startCrawlFixtureServer();
+  const site = await startCrawlFixtureServer(`${offOrigin.origin}/unit-1.html`);
+
+  try {
+    delete process.env.FETCH_PRIVATE_HOSTS;
+    await assert.rejects(
+      crawlWebsite(`${site.origin}/`, normalizeCrawlOptions({ maxDepth: 1, maxPages: 25 })),
+      /private or local network/,
+    );
+    assert.equal(site.requests.length, 0, "a private-network site was fetched");
+    console.log("ok - a site on a private network is refused");
+
+    // The fixture servers listen on loopback, so the rest of the checks allow it explicitly.
+    process.env.FETCH_PRIVATE_HOSTS = "127.0.0.1";
+    const full = await crawlWebsite(`${site.origin}/`, normalizeCrawlOptions({ maxDepth: 1, maxPages: 25 }));
+    assert.equal(full.pages.length, 6, "start page plus five units");
+    assert.ok(full.pages.every((page) => !page.errorMessage), "every fixture page is readable");
+
+    assert.equal(full.robotsBlocked, 1, "the /private/ link is counted as blocked");
+    assert.ok(!site.requests.some((path) => path.startsWith("/private/")), "robots.txt disallowed path was fetched");
+
+    assert.ok(full.pages.every((page) => page.url.startsWith(site.origin)), "an off-origin page was crawled");
+    assert.deepEqual(offOrigin.requests, [], "the off-origin server was contacted");
+    assert.ok(!site.requests.includes("/handout.pdf"), "a non-HTML link was fetched");
+    console.log("ok - robots.txt disallow and off-origin links are skipped");
+
+    const capped = await crawlWebsite(`${site.origin}/`, normalizeCrawlOptions({ maxDepth: 1, maxPages: 3 }));
+    assert.equal(capped.pages.length, 3, "maxPages caps the crawl");
+    assert.equal(capped.truncated, 3, "the remaining units stay queued");
+    console.log("ok - the crawl stops at maxPages");
+
+    const requestsBefore = site.requests.length;
+    await assert.rejects(ingestUrlContent(`${site.origin}/moved.html`), /localhost is on a private or local network/);
+    assert.deepEqual(site.requests.slice(requestsBefore), ["/moved.html"], "the redirect target was fetched");
+    console.log("ok - a redirect to a private-network host is refused");
+  } finally {
+    await Promise.all([site.close(), offOrigin.close()]);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+
+import { recordModelCallsWith, reportModelCall } from "@/lib/ai/usage-recorder";
+import {
+  checkStudyQuota,
+  DAILY_AI_CALL_LIMITS,
+  type QuotaDecision,
+  quotaExceededResponse,
+  withDailyAiCallCount,
+} from "@/lib/server/quota";
+import { createMemoryQuotaStore, type QuotaStore } from "@/lib/server/quota-store";
+
+/**
+ * Runs the study quota against the in-memory store: the per-route token
+ * bucket, the daily cap on model calls reported inside a usage scope, the
+ * `Retry-After` header on a refusal, and a store outage refusing requests.
+ * Run with `npm run check:quota`.
+ */
+
+function assertDenied(decision: QuotaDecision, reason: string): asserts decision is Extract<QuotaDecision, { allowed: false }> {
+  assert.equal(decision.allowed, false);
+  assert.equal(decision.reason, reason);
+}
+
+async function main() {
+  // The memory store prunes daily counters against the clock, so the checks run at the real time.
+  const now = Date.now();
+
+  const bucketStore = createMemoryQuotaStore();
+  const reader = { uid: "bucket-user", plan: "free" as const };
+  for (let request = 0; request < 10; request += 1) {
+    assert.deepEqual(await checkStudyQuota(reader, "ask", bucketStore, now), { allowed: true });
+  }
+  const burst = await checkStudyQuota(reader, "ask", bucketStore, now);
+  assertDenied(burst, "rate_limited");
+  assert.deepEqual(await checkStudyQuota(reader, "topic", bucketStore, now), { allowed: true });
+  assert.deepEqual(
+    await checkStudyQuota(reader, "ask", bucketStore, now + burst.retryAfterSeconds * 1000),
+    { allowed: true },
+  );
+  console.log("ok - a burst past the route's bucket is refused until it refills");
+
+  const dailyStore = createMemoryQuotaStore();
+  const student = { uid: "daily-user", plan: "free" as const };
+  const limit = DAILY_AI_CALL_LIMITS.free;
+  // One request that makes every call of the day: a single check, many reported calls.
+  assert.deepEqual(await checkStudyQuota(student, "topic", dailyStore, now), { allowed: true });
+  const forwarded: string[] = [];
+  await recordModelCallsWith(
+    withDailyAiCallCount(student.uid, (call) => forwarded.push(call.taskType), dailyStore),
+    async () => {
+      for (let call = 0; call < limit; call += 1) {
+        reportModelCall("gemini", "gemini-2.5-flash", undefined, { taskType: "topic_ranking" });
+      }
+    },
+  );
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(forwarded.length, limit);
+  const capped = await checkStudyQuota(student, "ask", dailyStore, now);
+  assertDenied(capped, "daily_limit");
+  assert.match(capped.message, new RegExp(`${limit} AI calls`));
+  assert.deepEqual(await checkStudyQuota({ ...student, plan: "pro" }, "ask", dailyStore, now), { allowed: true });
+  console.log("ok - model calls reported in the scope count toward the plan's daily cap");
+
+  const response = quotaExceededResponse(capped);
+  assert.equal(response.status, 429);
+  assert.equal(response.headers.get("Retry-After"), String(capped.retryAfterSeconds));
+  assert.equal((await response.json()).code, "daily_limit");
+  console.log("ok - a refusal is a 429 with a Retry-After header");
+
+  const brokenStore: QuotaStore = {
+    updateBucket: () => Promise.reject(new Error("store offline")),
+    updateDailyCounter: () => Promise.reject(new Error("store offline")),
+  };
+  const originalError = console.error;
+  console.error = () => undefined;
+  let outage: QuotaDecision;
+  try {
+    outage = await checkStudyQuota(student, "ask", brokenStore, now);
+  } finally {
+    console.error = originalError;
+  }
+  assertDenied(outage, "quota_unavailable");
+  const unavailable = quotaExceededResponse(outage);
+  assert.equal(unavailable.status, 503);
+  assert.equal(unavailable.headers.get("Retry-After"), String(outage.retryAfterSeconds));
+  console.log("ok - a quota store outage refuses the request with a 503");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+
+import type { UploadedFile } from "@/lib/ai/types";
+import { recordModelCallsWith } from "@/lib/ai/usage-recorder";
+import { parseUploadedFiles } from "@/lib/parsing";
+import { toUploadKey } from "@/lib/parsing/upload-batches";
+
+/**
+ * Uploads the fixture lecture recording through the same path as a real
+ * upload (download to disk, hash, transcribe, chunk) with
+ * TRANSCRIPTION_PROVIDER=fixture, and checks that the prepared transcript
+ * comes back as timed chunks, and that nothing is transcribed outside a
+ * signed-in request's usage scope. Run with `npm run check:transcription`.
+ */
+
+const FIXTURES = path.join(process.cwd(), "scripts", "fixtures");
+const RECORDING = "lecture-normalization.wav";
+
+async function main() {
+  process.env.TRANSCRIPTION_PROVIDER = "fixture";
+  process.env.TRANSCRIPTION_FIXTURE_DIR = path.join(FIXTURES, "transcripts");
+  // The fixture server listens on loopback, which uploads may not fetch otherwise.
+  process.env.FETCH_PRIVATE_HOSTS = "127.0.0.1";
+
+  const bytes = await readFile(path.join(FIXTURES, "recordings", RECORDING));
+  // Any other path serves the recording with one extra sample, so its hash differs
+  // and the transcript memo does not answer for it.
+  const server = createServer((request, response) => {
+    const body = request.url === `/${RECORDING}` ? bytes : Buffer.concat([bytes, Buffer.alloc(2)]);
+    response.writeHead(200, { "Content-Type": "audio/wav", "Content-Length": String(body.length) });
+    response.end(body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const upload = (name: string): UploadedFile => ({
+    name,
+    type: "audio/wav",
+    url: `${origin}/${name}`,
+    extension: "wav",
+    category: "studyMaterial",
+  });
+
+  // What an authenticated route does around its parsing.
+  const parseSignedIn = (files: UploadedFile[]) => recordModelCallsWith(() => undefined, () => parseUploadedFiles(files));
+
+  try {
+    const anonymous = await parseUploadedFiles([upload(RECORDING)]);
+    assert.equal(anonymous.sourceChunks.length, 0);
+    assert.match(anonymous.warnings[0] ?? "", /only transcribed for signed-in requests/);
+    console.log("ok - a recording outside a signed-in request is not transcribed");
+
+    const named = await parseSignedIn([upload(RECORDING)]);
+    assert.deepEqual(named.warnings, []);
+    assert.equal(named.fileHashes[toUploadKey(upload(RECORDING))], createHash("sha256").update(bytes).digest("hex"));
+    assert.equal(named.sourceChunks.length, 1);
+    const [chunk] = named.sourceChunks;
+    assert.equal(chunk.startSeconds, 0);
+    assert.equal(chunk.endSeconds, 22);
+    assert.match(chunk.text, /second normal form/);
+    assert.match(chunk.section, /0:00–0:22/);
+    console.log("ok - a fixture recording is transcribed into timed chunks");
+
+    const unknown = await parseSignedIn([upload("unlabelled-recording.wav")]);
+    assert.equal(unknown.sourceChunks.length, 0);
+    assert.match(unknown.warnings[0] ?? "", /No fixture transcript for unlabelled-recording\.wav/);
+    console.log("ok - a recording without a transcript comes back as a warning");
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
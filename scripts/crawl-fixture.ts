@@ -0,0 +1,78 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * A tiny website for exercising the crawler over plain http://127.0.0.1: a
+ * course index linking to five unit pages, a robots.txt that disallows
+ * /private/, a PDF link, a link to `offOriginUrl` on another host and a
+ * /moved.html that redirects to the same server under the name localhost.
+ * Every request path is recorded so checks can tell what the crawler fetched.
+ */
+
+export type CrawlFixtureServer = {
+  origin: string;
+  requests: string[];
+  close(): Promise<void>;
+};
+
+const UNIT_COUNT = 5;
+
+function page(title: string, body: string, links: string[]): string {
+  const anchors = links.map((href) => `<li><a href="${href}">${href}</a></li>`).join("");
+  return `<!doctype html><html><head><title>${title}</title></head><body><main><article><h1>${title}</h1><p>${body}</p><ul>${anchors}</ul></article></main></body></html>`;
+}
+
+function unitBody(unit: number): string {
+  return `Unit ${unit} lecture notes. ${"Normalization removes update anomalies by splitting relations along functional dependencies. ".repeat(4)}`;
+}
+
+type FixtureResponse = { status: number; type: string; body: string; location?: string };
+
+function route(path: string, offOriginUrl: string, port: number): FixtureResponse {
+  if (path === "/robots.txt") {
+    return { status: 200, type: "text/plain", body: "User-agent: *\nDisallow: /private/\n" };
+  }
+  if (path === "/" || path === "/index.html") {
+    const units = Array.from({ length: UNIT_COUNT }, (_, index) => `/unit-${index + 1}.html`);
+    return {
+      status: 200,
+      type: "text/html",
+      body: page(
+        "Database Systems course notes",
+        "Start here for the database systems notes. Each unit below covers one part of the syllabus in detail.",
+        [...units, "/private/answers.html", "/handout.pdf", offOriginUrl],
+      ),
+    };
+  }
+  const unit = /^\/unit-(\d+)\.html$/.exec(path);
+  if (unit && Number(unit[1]) <= UNIT_COUNT) {
+    return { status: 200, type: "text/html", body: page(`Unit ${unit[1]}`, unitBody(Number(unit[1])), ["/"]) };
+  }
+  if (path === "/private/answers.html") {
+    return { status: 200, type: "text/html", body: page("Answers", unitBody(0), []) };
+  }
+  if (path === "/moved.html") {
+    return { status: 302, type: "text/plain", body: "", location: `http://localhost:${port}/unit-1.html` };
+  }
+  return { status: 404, type: "text/plain", body: "not found" };
+}
+
+export async function startCrawlFixtureServer(offOriginUrl = "http://example.invalid/notes.html"): Promise<CrawlFixtureServer> {
+  const requests: string[] = [];
+  const server: Server = createServer((request, response) => {
+    const path = new URL(request.url ?? "/", "http://fixture").pathname;
+    requests.push(path);
+    const { status, type, body, location } = route(path, offOriginUrl, (server.address() as AddressInfo).port);
+    response.writeHead(status, { "Content-Type": `${type}; charset=utf-8`, ...(location ? { Location: location } : {}) });
+    response.end(body);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,16 @@
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { createJiti } from "jiti";
+
+// Runs a TypeScript check script outside Next, resolving the "@/" alias the way tsconfig does.
+const [script] = process.argv.slice(2);
+if (!script) {
+  console.error("Usage: node scripts/run-ts.mjs <script.ts>");
+  process.exit(1);
+}
+
+const jiti = createJiti(import.meta.url, {
+  alias: { "@/": fileURLToPath(new URL("../src/", import.meta.url)) },
+});
+await jiti.import(resolve(script));
@@ -1,22 +1,17 @@
 import { NextResponse } from "next/server";
 
 import { createStrategyJob, getStrategyJob, type StrategyPipelineRequest } from "@/lib/ai/strategy-orchestrator";
+import { RequestAuthError, getAuthenticatedUid } from "@/lib/server/auth";
 
 export const runtime = "nodejs";
 
-type CreateJobRequestBody = StrategyPipelineRequest & {
-  userId?: string;
-};
-
 export async function POST(request: Request) {
   try {
-    const body = (await request.json()) as CreateJobRequestBody;
-
-    if (!body.userId?.trim()) {
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
+    // The job parses uploads (recordings included) and calls models on this user's account.
+    const userId = await getAuthenticatedUid(request);
+    const body = (await request.json()) as StrategyPipelineRequest;
 
-    const job = await createStrategyJob(body.userId, {
+    const job = await createStrategyJob(userId, {
       hoursLeft: body.hoursLeft,
       syllabusFiles: body.syllabusFiles ?? [],
       syllabusTextInput: body.syllabusTextInput ?? "",
@@ -31,18 +26,30 @@ export async function POST(request: Request) {
       stage: job.stage,
       progress: job.progress,
     });
-  } catch {
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     return NextResponse.json({ error: "Unable to create strategy job" }, { status: 500 });
   }
 }
 
 export async function GET(request: Request) {
+  let userId: string;
+  try {
+    userId = await getAuthenticatedUid(request);
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
   const { searchParams } = new URL(request.url);
   const jobId = searchParams.get("id");
-  const userId = searchParams.get("userId");
 
-  if (!jobId || !userId?.trim()) {
-    return NextResponse.json({ error: "Missing job id or userId" }, { status: 400 });
+  if (!jobId) {
+    return NextResponse.json({ error: "Missing job id" }, { status: 400 });
   }
 
   const job = await getStrategyJob(userId, jobId);
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { parseTaskRoutingTable } from "@/lib/ai/task-routing";
+import { setTaskRoutingAdmin } from "@/lib/firestore/user-preferences-admin";
+import { RequestAuthError, getAuthenticatedUid } from "@/lib/server/auth";
+
+export const runtime = "nodejs";
+
+type ModelRoutingRequest = {
+  routing?: unknown;
+};
+
+export async function PUT(request: Request) {
+  try {
+    const authenticatedUid = await getAuthenticatedUid(request);
+    const body = (await request.json()) as ModelRoutingRequest;
+
+    // Reject the whole table rather than silently saving part of it.
+    const { table, errors } = parseTaskRoutingTable(body.routing ?? {});
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid routing table", detail: errors.join("; ") }, { status: 400 });
+    }
+
+    await setTaskRoutingAdmin(authenticatedUid, table);
+    return NextResponse.json({ routing: table });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("[api/settings/model-routing] Unhandled error:", error);
+    return NextResponse.json({ error: "Unable to save model routing" }, { status: 500 });
+  }
+}
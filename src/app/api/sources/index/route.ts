@@ -1,10 +1,22 @@
+import { createHash } from "node:crypto";
+
 import { NextResponse } from "next/server";
 
 import { UploadedFile } from "@/lib/ai/types";
-import { splitIntoChunks } from "@/lib/parsing/chunker";
+import { recordModelCallsWith, reportEmbeddingCall } from "@/lib/ai/usage-recorder";
+import { createAiUsageSink } from "@/lib/firestore/ai-usage-admin";
+import { CHUNKING_PROFILES, chunkText } from "@/lib/parsing/chunker";
 import { parseUploadedFiles } from "@/lib/parsing";
-import { ingestUrlContent } from "@/lib/parsing/url";
-import { ingestYouTubeTranscript } from "@/lib/parsing/youtube";
+import { crawlWebsite } from "@/lib/parsing/crawl";
+import { normalizeCrawlOptions, WebsiteCrawlRequest } from "@/lib/parsing/crawl-options";
+import { IMAGE_EXTENSIONS, RECORDING_EXTENSIONS } from "@/lib/parsing/file-types";
+import { groupUploadBatches, toUploadKey } from "@/lib/parsing/upload-batches";
+import { ingestUrlContent, LinkedFileType } from "@/lib/parsing/url";
+import { extractYouTubeVideoId, ingestYouTubeTranscript } from "@/lib/parsing/youtube";
+import { expandYouTubePlaylist, extractYouTubePlaylistId, PLAYLIST_VIDEO_LIMITS } from "@/lib/parsing/youtube-playlist";
+import { type AuthenticatedUser, getAuthenticatedUser, RequestAuthError } from "@/lib/server/auth";
+import { checkStudyQuota, quotaExceededResponse, withDailyAiCallCount } from "@/lib/server/quota";
+import { resolveEmbeddingProvider } from "@/lib/study/embeddings";
 import { precomputeEmbeddingVectors } from "@/lib/study/precompute";
 
 type SourceIndexRequest = {
@@ -12,17 +24,39 @@ type SourceIndexRequest = {
   syllabusTextInput?: string;
   youtubeUrls?: string[];
   websiteUrls?: string[];
+  /** Website sources crawled across linked pages; each page becomes a child source. */
+  websiteCrawls?: WebsiteCrawlRequest[];
+  /** Videos taken from each playlist URL in `youtubeUrls`, capped at PLAYLIST_VIDEO_LIMITS.max. */
+  playlistVideoLimit?: number;
+  /** Answer as a server-sent event stream with per-source status events instead of one JSON body. */
+  stream?: boolean;
+  /** Sources already in the strategy; content matching one of their hashes is linked to it rather than indexed again. */
+  existingSources?: KnownSource[];
+};
+
+type KnownSource = {
+  id: string;
+  title: string;
+  contentHash?: string;
+};
+
+/** A submitted source whose content is already indexed under another source. */
+type SourceDuplicate = {
+  title: string;
+  duplicateOfSourceId: string;
+  duplicateOfTitle: string;
 };
 
 type IndexedSource = {
   id: string;
-  type: "pdf" | "ppt" | "docx" | "text" | "youtube" | "url";
+  type: "pdf" | "ppt" | "docx" | "image" | "markdown" | "epub" | "html" | "text" | "recording" | "youtube" | "url";
   title: string;
   status: "indexed" | "error";
   enabled: boolean;
   fileUrl?: string;
   youtubeUrl?: string;
   websiteUrl?: string;
+  parentSourceId?: string;
   videoId?: string;
   aiGeneratedTranscript?: boolean;
   transcriptSource?: "captions" | "ai-reconstructed";
@@ -30,6 +64,9 @@ type IndexedSource = {
   translatedToEnglish?: boolean;
   chunkCount: number;
   errorMessage?: string;
+  warningMessage?: string;
+  /** SHA-256 of the source's content (file bytes, article text or video id), used to spot re-added sources. */
+  contentHash?: string;
 };
 
 type SourceIndexLifecycle =
@@ -39,11 +76,13 @@ type SourceIndexLifecycle =
   | "fetching-transcript"
   | "fetching-metadata"
   | "ai-reconstruction"
+  | "crawling"
   | "chunking"
   | "indexing"
   | "saving"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled";
 
 type IndexedChunk = {
   sourceId: string;
@@ -52,8 +91,83 @@ type IndexedChunk = {
   sourceName: string;
   sourceYear?: string;
   section: string;
+  page?: number;
+  slide?: number;
+  heading?: string;
+  videoId?: string;
+  startSeconds?: number;
+  endSeconds?: number;
+  embedding?: number[];
+  embeddingModel?: string;
+};
+
+type SourceIndexStatus = {
+  sourceId: string;
+  parentSourceId?: string;
+  title: string;
+  state: SourceIndexLifecycle;
+  /** 1-based position of a playlist video, with `total` the videos taken from the playlist. */
+  index?: number;
+  total?: number;
+  errorMessage?: string;
+};
+
+type SourceIndexPayload = {
+  sources: IndexedSource[];
+  chunks: IndexedChunk[];
+  warnings: string[];
+  duplicates: SourceDuplicate[];
+};
+
+/** What one request collects while its sources are ingested. */
+type IndexBatch = {
+  sourceMap: Map<string, IndexedSource>;
+  chunks: IndexedChunk[];
+  duplicates: SourceDuplicate[];
+  /** Content hash → the source holding that content, seeded from the strategy's existing sources. */
+  knownContent: Map<string, KnownSource>;
+  onStatus: (status: SourceIndexStatus) => void;
+  /** Aborted when the client disconnects; no new source is started after that. */
+  signal: AbortSignal;
 };
 
+type IndexedVideo = {
+  source: IndexedSource;
+  chunks: IndexedChunk[];
+};
+
+// Videos of one playlist ingested at a time; each runs its own transcript fetch and, without captions, a model call.
+const PLAYLIST_CONCURRENCY = 3;
+
+// Each playlist can expand to 50 videos and each crawl to its page cap, so one request carries only a few.
+const MAX_PLAYLISTS_PER_REQUEST = 3;
+const MAX_WEBSITE_CRAWLS_PER_REQUEST = 3;
+
+function hashContentKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Returns the source that already holds `contentHash`, or records `source` as
+ * its holder when the content is new. Sources without a hash never match.
+ */
+function claimContent(batch: IndexBatch, contentHash: string | undefined, source: KnownSource): KnownSource | undefined {
+  if (!contentHash) {
+    return undefined;
+  }
+  const known = batch.knownContent.get(contentHash);
+  if (known) {
+    return known;
+  }
+  batch.knownContent.set(contentHash, { ...source, contentHash });
+  return undefined;
+}
+
+function recordDuplicate(batch: IndexBatch, title: string, known: KnownSource) {
+  console.info("[source-index] duplicate source linked", { title, duplicateOfSourceId: known.id });
+  batch.duplicates.push({ title, duplicateOfSourceId: known.id, duplicateOfTitle: known.title });
+}
+
 function sourceIdFromLabel(label: string): string {
   return label
     .toLowerCase()
@@ -66,9 +180,23 @@ function inferSourceType(file: UploadedFile): IndexedSource["type"] {
   const extension = file.extension.toLowerCase().replace(".", "");
   if (extension === "pdf") return "pdf";
   if (extension === "docx") return "docx";
+  if (IMAGE_EXTENSIONS.has(extension)) return "image";
+  if (extension === "md" || extension === "markdown") return "markdown";
+  if (extension === "epub") return "epub";
+  if (extension === "html" || extension === "htm") return "html";
+  if (extension === "txt") return "text";
+  if (RECORDING_EXTENSIONS.has(extension)) return "recording";
   return "ppt";
 }
 
+const LINKED_FILE_SOURCE_TYPES: Record<LinkedFileType, IndexedSource["type"]> = {
+  pdf: "pdf",
+  docx: "docx",
+  pptx: "ppt",
+  md: "markdown",
+  txt: "text",
+};
+
 function toFriendlySourceError(raw: string): string {
   const value = raw.toLowerCase();
   if (value.includes("transcript") && (value.includes("unavailable") || value.includes("disabled"))) {
@@ -80,6 +208,12 @@ function toFriendlySourceError(raw: string): string {
   if (value.includes("timeout") || value.includes("aborted")) {
     return "Analyzing video structure took too long. Please retry in a moment.";
   }
+  if (value.includes("not publicly downloadable") || value.includes("larger than 25 mb")) {
+    return raw;
+  }
+  if (value.includes("unsupported content")) {
+    return "This link is not a web page or a PDF, Word or PowerPoint file.";
+  }
   return "Could not process this source right now. Please retry.";
 }
 
@@ -99,179 +233,479 @@ function formatIndexError(error: unknown): string {
   return "Unable to index sources";
 }
 
-export const runtime = "nodejs";
+function createSseResponse(stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+function enqueueSseEvent(
+  controller: ReadableStreamDefaultController<Uint8Array>,
+  encoder: TextEncoder,
+  payload: Record<string, unknown>,
+) {
+  controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  signal: AbortSignal,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<Array<R | undefined>> {
+  const results = new Array<R | undefined>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length && !signal.aborted) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/** Ingests one video; failures come back as an error source so the rest of the batch carries on. */
+async function indexYouTubeVideo(
+  youtubeUrl: string,
+  id: string,
+  parentSourceId: string | undefined,
+  report: (state: SourceIndexLifecycle, errorMessage?: string) => void,
+): Promise<IndexedVideo> {
+  try {
+    logStage("FIRESTORE_WRITE_START", { kind: "youtube", url: youtubeUrl });
+    const result = await ingestYouTubeTranscript(youtubeUrl, (stage) => {
+      logLifecycle(stage, { kind: "youtube", url: youtubeUrl });
+      report(stage);
+    });
+    logStage("FIRESTORE_WRITE_DONE", { kind: "youtube", url: youtubeUrl, chunks: result.chunks.length });
+    report("completed");
+    return {
+      source: {
+        id,
+        type: "youtube",
+        title: result.title,
+        status: "indexed",
+        enabled: true,
+        youtubeUrl,
+        parentSourceId,
+        videoId: result.videoId,
+        aiGeneratedTranscript: result.transcriptSource === "ai-reconstructed",
+        transcriptSource: result.transcriptSource,
+        videoLanguage: result.originalLanguage,
+        translatedToEnglish: result.translatedToEnglish,
+        chunkCount: result.chunks.length,
+        contentHash: hashContentKey(`youtube:${result.videoId}`),
+      },
+      chunks: result.chunks.map((chunk) => ({
+        sourceId: id,
+        text: chunk.text,
+        sourceType: chunk.sourceType,
+        sourceName: chunk.sourceName,
+        sourceYear: chunk.sourceYear,
+        section: chunk.section,
+        heading: chunk.heading,
+        videoId: chunk.videoId,
+        startSeconds: chunk.startSeconds,
+        endSeconds: chunk.endSeconds,
+      })),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Transcript unavailable";
+    const errorMessage = toFriendlySourceError(message);
+    console.warn("[source-index] video failed", { url: youtubeUrl, message });
+    report("failed", errorMessage);
+    return {
+      source: {
+        id,
+        type: "youtube",
+        title: youtubeUrl,
+        status: "error",
+        enabled: false,
+        youtubeUrl,
+        parentSourceId,
+        chunkCount: 0,
+        errorMessage,
+      },
+      chunks: [],
+    };
+  }
+}
+
+/**
+ * A playlist becomes a parent source with one child per video. Videos are
+ * ingested a few at a time and each reports its own status, so one video
+ * without a usable transcript does not fail the playlist. Videos already in
+ * the strategy are left out rather than indexed twice.
+ */
+async function indexYouTubePlaylist(playlistUrl: string, playlistId: string, videoLimit: number | undefined, batch: IndexBatch) {
+  const { sourceMap, chunks, onStatus } = batch;
+  const parentId = sourceIdFromLabel(`playlist:${playlistUrl}`);
+  const playlistHash = hashContentKey(`youtube-playlist:${playlistId}`);
+  const knownPlaylist = claimContent(batch, playlistHash, { id: parentId, title: playlistUrl });
+  if (knownPlaylist) {
+    recordDuplicate(batch, playlistUrl, knownPlaylist);
+    return;
+  }
 
-export async function POST(request: Request) {
-  logLifecycle("idle");
   try {
-    logStage("START_INDEX");
-    logLifecycle("preparing");
-    const body = (await request.json()) as SourceIndexRequest;
-    const files = body.files ?? [];
-    const youtubeUrls = body.youtubeUrls ?? [];
-    const websiteUrls = body.websiteUrls ?? [];
-
-    logLifecycle("parsing", { fileCount: files.length, youtubeCount: youtubeUrls.length, websiteCount: websiteUrls.length });
-    const parsed = await parseUploadedFiles(files);
-    logStage("PARSE_COMPLETE", { parsedChunkCount: parsed.sourceChunks.length, warningCount: parsed.warnings.length });
-
-    if (files.length > 0 && parsed.sourceChunks.length === 0) {
-      const warningSummary = parsed.warnings.length
-        ? ` Warnings: ${parsed.warnings.join(" | ")}`
-        : "";
-      throw new Error(`Parser produced zero chunks for uploaded files.${warningSummary}`);
+    logLifecycle("fetching-metadata", { kind: "playlist", url: playlistUrl });
+    onStatus({ sourceId: parentId, title: playlistUrl, state: "fetching-metadata" });
+    const playlist = await expandYouTubePlaylist(playlistId, videoLimit ?? PLAYLIST_VIDEO_LIMITS.default);
+    const total = playlist.videos.length;
+
+    const videos = await mapWithConcurrency(playlist.videos, PLAYLIST_CONCURRENCY, batch.signal, async (video, index) => {
+      const id = `${parentId}-${video.videoId.toLowerCase()}`;
+      const videoHash = hashContentKey(`youtube:${video.videoId}`);
+      const report = (state: SourceIndexLifecycle, errorMessage?: string) =>
+        onStatus({ sourceId: id, parentSourceId: parentId, title: video.title ?? video.url, state, index: index + 1, total, errorMessage });
+      if (claimContent(batch, videoHash, { id, title: video.title ?? video.url })) {
+        report("completed");
+        return undefined;
+      }
+      const indexed = await indexYouTubeVideo(video.url, id, parentId, report);
+      if (indexed.source.status === "error") {
+        batch.knownContent.delete(videoHash);
+      }
+      return indexed;
+    });
+
+    const indexedVideos = videos.filter((video) => video?.source.status === "indexed").length;
+    const duplicateVideos = videos.filter((video) => !video).length;
+    const parentChunkCount = videos.reduce((sum, video) => sum + (video?.chunks.length ?? 0), 0);
+    const skipped = [
+      total - indexedVideos - duplicateVideos ? `${total - indexedVideos - duplicateVideos} video(s) failed` : "",
+      duplicateVideos ? `${duplicateVideos} video(s) already in your sources` : "",
+      playlist.skipped ? `${playlist.skipped} video(s) past the ${total}-video limit` : "",
+    ].filter(Boolean);
+    sourceMap.set(parentId, {
+      id: parentId,
+      type: "youtube",
+      title: `${playlist.title ?? "YouTube playlist"} · ${indexedVideos} video${indexedVideos === 1 ? "" : "s"}`,
+      status: indexedVideos ? "indexed" : "error",
+      enabled: indexedVideos > 0,
+      youtubeUrl: playlistUrl,
+      chunkCount: parentChunkCount,
+      errorMessage: indexedVideos ? undefined : "No new video in this playlist could be read.",
+      warningMessage: skipped.length ? skipped.join("; ") : undefined,
+      contentHash: indexedVideos ? playlistHash : undefined,
+    });
+    videos.forEach((video) => {
+      if (video) {
+        sourceMap.set(video.source.id, video.source);
+        chunks.push(...video.chunks);
+      }
+    });
+    if (!indexedVideos) {
+      batch.knownContent.delete(playlistHash);
     }
+    onStatus({ sourceId: parentId, title: playlist.title ?? playlistUrl, state: indexedVideos ? "completed" : "failed", total });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "YouTube playlist unavailable";
+    const errorMessage = message.includes("playlist") ? message : toFriendlySourceError(message);
+    batch.knownContent.delete(playlistHash);
+    onStatus({ sourceId: parentId, title: playlistUrl, state: "failed", errorMessage });
+    sourceMap.set(parentId, {
+      id: parentId,
+      type: "youtube",
+      title: playlistUrl,
+      status: "error",
+      enabled: false,
+      youtubeUrl: playlistUrl,
+      chunkCount: 0,
+      errorMessage,
+    });
+  }
+}
+
+export const runtime = "nodejs";
+
+async function indexSources(
+  body: SourceIndexRequest,
+  onStatus: (status: SourceIndexStatus) => void,
+  signal: AbortSignal,
+): Promise<SourceIndexPayload> {
+  logStage("START_INDEX");
+  logLifecycle("preparing");
+  const files = body.files ?? [];
+  const youtubeUrls = body.youtubeUrls ?? [];
+  const websiteUrls = body.websiteUrls ?? [];
+  const websiteCrawls = body.websiteCrawls ?? [];
+
+  logLifecycle("parsing", {
+    fileCount: files.length,
+    youtubeCount: youtubeUrls.length,
+    websiteCount: websiteUrls.length,
+    crawlCount: websiteCrawls.length,
+  });
+  const parsed = await parseUploadedFiles(files);
+  signal.throwIfAborted();
+  logStage("PARSE_COMPLETE", { parsedChunkCount: parsed.sourceChunks.length, warningCount: parsed.warnings.length });
 
-    logLifecycle("chunking");
-    const sourceMap = new Map<string, IndexedSource>();
-    const fileSourceIdByName = new Map<string, string>();
-    const chunks: IndexedChunk[] = [];
+  if (files.length > 0 && parsed.sourceChunks.length === 0) {
+    const warningSummary = parsed.warnings.length
+      ? ` Warnings: ${parsed.warnings.join(" | ")}`
+      : "";
+    throw new Error(`Parser produced zero chunks for uploaded files.${warningSummary}`);
+  }
+
+  logLifecycle("chunking");
+  const batch: IndexBatch = {
+    sourceMap: new Map<string, IndexedSource>(),
+    chunks: [],
+    duplicates: [],
+    knownContent: new Map(
+      (body.existingSources ?? [])
+        .filter((source) => source.contentHash)
+        .map((source) => [source.contentHash!, source]),
+    ),
+    onStatus,
+    signal,
+  };
+  const { sourceMap, chunks } = batch;
+  const fileSourceIdByUpload = new Map<string, string>();
+  // Uploads whose bytes match a source indexed earlier; their chunks are dropped. Keyed by upload,
+  // not file name, so the copy that is kept under another category keeps its chunks.
+  const duplicateUploads = new Set<string>();
+
+  for (const { file } of groupUploadBatches(files)) {
+    const uploadKey = toUploadKey(file);
+    const id = sourceIdFromLabel(uploadKey);
+    const contentHash = parsed.fileHashes[uploadKey];
+    const known = claimContent(batch, contentHash, { id, title: file.name });
+    if (known) {
+      recordDuplicate(batch, file.name, known);
+      duplicateUploads.add(uploadKey);
+      continue;
+    }
+    fileSourceIdByUpload.set(uploadKey, id);
+    sourceMap.set(id, {
+      id,
+      type: inferSourceType(file),
+      title: file.name,
+      status: "indexed",
+      enabled: true,
+      fileUrl: file.url,
+      chunkCount: 0,
+      warningMessage: parsed.fileWarnings[uploadKey],
+      contentHash,
+    });
+  }
 
-    for (const file of files) {
-      const id = sourceIdFromLabel(`${file.category}:${file.name}`);
-      fileSourceIdByName.set(file.name.trim().toLowerCase(), id);
+  parsed.sourceChunks.forEach((chunk) => {
+    if (chunk.uploadKey && duplicateUploads.has(chunk.uploadKey)) {
+      return;
+    }
+    const matchedId = chunk.uploadKey ? fileSourceIdByUpload.get(chunk.uploadKey) : undefined;
+    const id = matchedId ?? sourceIdFromLabel(`chunk:${chunk.sourceType}:${chunk.sourceName}`);
+    if (!matchedId) {
+      console.warn("[source-index] file source id lookup miss", {
+        sourceName: chunk.sourceName,
+        uploadKey: chunk.uploadKey,
+        fallbackId: id,
+      });
+    }
+    if (!sourceMap.has(id)) {
       sourceMap.set(id, {
         id,
-        type: inferSourceType(file),
-        title: file.name,
+        type: "text",
+        title: chunk.sourceName,
         status: "indexed",
         enabled: true,
-        fileUrl: file.url,
         chunkCount: 0,
       });
     }
 
-    parsed.sourceChunks.forEach((chunk) => {
-      const normalizedSourceName = chunk.sourceName.trim().toLowerCase();
-      const matchedId = fileSourceIdByName.get(normalizedSourceName);
-      const id = matchedId ?? sourceIdFromLabel(`chunk:${chunk.sourceType}:${chunk.sourceName}`);
-      if (!matchedId) {
-        console.warn("[source-index] file source id lookup miss", {
-          sourceName: chunk.sourceName,
-          normalizedSourceName,
-          fallbackId: id,
-        });
-      }
-      if (!sourceMap.has(id)) {
-        sourceMap.set(id, {
-          id,
-          type: "text",
-          title: chunk.sourceName,
-          status: "indexed",
-          enabled: true,
-          chunkCount: 0,
-        });
-      }
+    chunks.push({
+      sourceId: id,
+      text: chunk.text,
+      sourceType: chunk.sourceType,
+      sourceName: chunk.sourceName,
+      sourceYear: chunk.sourceYear,
+      section: chunk.section,
+      page: chunk.page,
+      slide: chunk.slide,
+      heading: chunk.heading,
+      startSeconds: chunk.startSeconds,
+      endSeconds: chunk.endSeconds,
+    });
+
+    const existing = sourceMap.get(id);
+    if (existing) {
+      existing.chunkCount += 1;
+      sourceMap.set(id, existing);
+    }
+  });
+
+  const syllabusText = body.syllabusTextInput?.trim() ?? "";
+  const textSourceId = sourceIdFromLabel("text:manual-syllabus");
+  const textHash = syllabusText ? hashContentKey(`text:${syllabusText.replace(/\s+/g, " ")}`) : undefined;
+  const knownText = claimContent(batch, textHash, { id: textSourceId, title: "Manual Syllabus Text" });
+  if (knownText) {
+    recordDuplicate(batch, "Manual Syllabus Text", knownText);
+  } else if (syllabusText) {
+    const textChunks = chunkText(syllabusText, CHUNKING_PROFILES.text);
+    sourceMap.set(textSourceId, {
+      id: textSourceId,
+      type: "text",
+      title: "Manual Syllabus Text",
+      status: "indexed",
+      enabled: true,
+      chunkCount: textChunks.length,
+      contentHash: textHash,
+    });
 
+    textChunks.forEach((chunk, index) => {
       chunks.push({
-        sourceId: id,
+        sourceId: textSourceId,
         text: chunk.text,
-        sourceType: chunk.sourceType,
-        sourceName: chunk.sourceName,
-        sourceYear: chunk.sourceYear,
-        section: chunk.section,
+        sourceType: "Syllabus Derived",
+        sourceName: "Manual Syllabus Text",
+        section: chunk.heading ?? `Text Chunk ${index + 1}`,
+        heading: chunk.heading,
       });
+    });
+  }
+
+  logStage("CHUNK_COMPLETE", { chunkCount: chunks.length, sourceCount: sourceMap.size });
+  logLifecycle("indexing");
+  for (const youtubeUrl of youtubeUrls) {
+    signal.throwIfAborted();
+    const playlistId = extractYouTubePlaylistId(youtubeUrl);
+    if (playlistId) {
+      await indexYouTubePlaylist(youtubeUrl, playlistId, body.playlistVideoLimit, batch);
+      continue;
+    }
 
-      const existing = sourceMap.get(id);
-      if (existing) {
-        existing.chunkCount += 1;
-        sourceMap.set(id, existing);
+    const id = sourceIdFromLabel(`youtube:${youtubeUrl}`);
+    const videoId = extractYouTubeVideoId(youtubeUrl);
+    const videoHash = videoId ? hashContentKey(`youtube:${videoId}`) : undefined;
+    const known = claimContent(batch, videoHash, { id, title: youtubeUrl });
+    if (known) {
+      recordDuplicate(batch, youtubeUrl, known);
+      continue;
+    }
+    const video = await indexYouTubeVideo(youtubeUrl, id, undefined, (state, errorMessage) =>
+      onStatus({ sourceId: id, title: youtubeUrl, state, errorMessage }),
+    );
+    if (videoHash) {
+      if (video.source.status === "error") {
+        batch.knownContent.delete(videoHash);
+      } else {
+        batch.knownContent.set(videoHash, { id, title: video.source.title, contentHash: videoHash });
       }
-    });
+    }
+    sourceMap.set(id, video.source);
+    chunks.push(...video.chunks);
+  }
 
-    const syllabusText = body.syllabusTextInput?.trim() ?? "";
-    if (syllabusText) {
-      const textSourceId = sourceIdFromLabel("text:manual-syllabus");
-      const textChunks = splitIntoChunks(syllabusText);
-      sourceMap.set(textSourceId, {
-        id: textSourceId,
-        type: "text",
-        title: "Manual Syllabus Text",
+  for (const websiteUrl of websiteUrls) {
+    signal.throwIfAborted();
+    const id = sourceIdFromLabel(`url:${websiteUrl}`);
+    try {
+      logStage("FIRESTORE_WRITE_START", { kind: "url", url: websiteUrl });
+      const result = await ingestUrlContent(websiteUrl);
+      const known = claimContent(batch, result.contentHash, { id, title: result.title });
+      if (known) {
+        recordDuplicate(batch, result.title, known);
+        continue;
+      }
+      sourceMap.set(id, {
+        id,
+        type: result.fileType ? LINKED_FILE_SOURCE_TYPES[result.fileType] : "url",
+        title: result.title,
         status: "indexed",
         enabled: true,
-        chunkCount: textChunks.length,
+        websiteUrl: result.canonicalUrl ?? websiteUrl,
+        chunkCount: result.chunks.length,
+        warningMessage: result.warning,
+        contentHash: result.contentHash,
       });
 
-      textChunks.forEach((text, index) => {
+      result.chunks.forEach((chunk) => {
         chunks.push({
-          sourceId: textSourceId,
-          text,
-          sourceType: "Syllabus Derived",
-          sourceName: "Manual Syllabus Text",
-          section: `Text Chunk ${index + 1}`,
+          sourceId: id,
+          text: chunk.text,
+          sourceType: chunk.sourceType,
+          sourceName: chunk.sourceName,
+          sourceYear: chunk.sourceYear,
+          section: chunk.section,
+          page: chunk.page,
+          slide: chunk.slide,
+          heading: chunk.heading,
         });
       });
+      logStage("FIRESTORE_WRITE_DONE", { kind: "url", url: websiteUrl, chunks: result.chunks.length });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "URL extraction failed";
+      sourceMap.set(id, {
+        id,
+        type: "url",
+        title: websiteUrl,
+        status: "error",
+        enabled: false,
+        websiteUrl,
+        chunkCount: 0,
+        errorMessage: toFriendlySourceError(message),
+      });
     }
+  }
 
-    logStage("CHUNK_COMPLETE", { chunkCount: chunks.length, sourceCount: sourceMap.size });
-    logLifecycle("indexing");
-    for (const youtubeUrl of youtubeUrls) {
-      const id = sourceIdFromLabel(`youtube:${youtubeUrl}`);
-      try {
-        logStage("FIRESTORE_WRITE_START", { kind: "youtube", url: youtubeUrl });
-        logLifecycle("fetching-transcript", { kind: "youtube", url: youtubeUrl });
-        const result = await ingestYouTubeTranscript(youtubeUrl);
-        logLifecycle("fetching-metadata", { kind: "youtube", url: youtubeUrl });
-        if (result.transcriptSource === "ai-reconstructed") {
-          logLifecycle("ai-reconstruction", { kind: "youtube", url: youtubeUrl });
-        }
-        sourceMap.set(id, {
-          id,
-          type: "youtube",
-          title: result.title,
-          status: "indexed",
-          enabled: true,
-          youtubeUrl,
-          videoId: result.videoId,
-          aiGeneratedTranscript: result.transcriptSource === "ai-reconstructed",
-          transcriptSource: result.transcriptSource,
-          videoLanguage: result.originalLanguage,
-          translatedToEnglish: result.translatedToEnglish,
-          chunkCount: result.chunks.length,
-        });
+  for (const crawl of websiteCrawls) {
+    signal.throwIfAborted();
+    const parentId = sourceIdFromLabel(`crawl:${crawl.url}`);
+    const options = normalizeCrawlOptions(crawl.options);
+    try {
+      logLifecycle("crawling", { url: crawl.url, ...options });
+      const result = await crawlWebsite(crawl.url, options, signal);
+      const startPage = result.pages[0]?.result;
+      const pageSources: IndexedSource[] = [];
+      const duplicatePages: KnownSource[] = [];
+      let indexedPages = 0;
+      let parentChunkCount = 0;
 
-        result.chunks.forEach((chunk) => {
-          chunks.push({
-            sourceId: id,
-            text: chunk.text,
-            sourceType: chunk.sourceType,
-            sourceName: chunk.sourceName,
-            sourceYear: chunk.sourceYear,
-            section: chunk.section,
+      result.pages.forEach((page, index) => {
+        const id = `${parentId}-page-${index + 1}`;
+        if (!page.result) {
+          pageSources.push({
+            id,
+            type: "url",
+            title: page.url,
+            status: "error",
+            enabled: false,
+            websiteUrl: page.url,
+            parentSourceId: parentId,
+            chunkCount: 0,
+            errorMessage: toFriendlySourceError(page.errorMessage ?? "Page fetch failed"),
           });
-        });
-        logStage("FIRESTORE_WRITE_DONE", { kind: "youtube", url: youtubeUrl, chunks: result.chunks.length });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "Transcript unavailable";
-        sourceMap.set(id, {
-          id,
-          type: "youtube",
-          title: youtubeUrl,
-          status: "error",
-          enabled: false,
-          youtubeUrl,
-          chunkCount: 0,
-          errorMessage: toFriendlySourceError(message),
-        });
-      }
-    }
+          return;
+        }
 
-    for (const websiteUrl of websiteUrls) {
-      const id = sourceIdFromLabel(`url:${websiteUrl}`);
-      try {
-        logStage("FIRESTORE_WRITE_START", { kind: "url", url: websiteUrl });
-        const result = await ingestUrlContent(websiteUrl);
-        sourceMap.set(id, {
+        const known = claimContent(batch, page.result.contentHash, { id, title: page.result.title });
+        if (known) {
+          duplicatePages.push(known);
+          return;
+        }
+        indexedPages += 1;
+        parentChunkCount += page.result.chunks.length;
+        pageSources.push({
           id,
-          type: "url",
-          title: result.title,
+          type: page.result.fileType ? LINKED_FILE_SOURCE_TYPES[page.result.fileType] : "url",
+          title: page.result.title,
           status: "indexed",
           enabled: true,
-          websiteUrl,
-          chunkCount: result.chunks.length,
+          websiteUrl: page.result.canonicalUrl ?? page.url,
+          parentSourceId: parentId,
+          chunkCount: page.result.chunks.length,
+          contentHash: page.result.contentHash,
         });
-
-        result.chunks.forEach((chunk) => {
+        page.result.chunks.forEach((chunk) => {
           chunks.push({
             sourceId: id,
             text: chunk.text,
@@ -281,43 +715,164 @@ export async function POST(request: Request) {
             section: chunk.section,
           });
         });
-        logStage("FIRESTORE_WRITE_DONE", { kind: "url", url: websiteUrl, chunks: result.chunks.length });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "URL extraction failed";
-        sourceMap.set(id, {
-          id,
-          type: "url",
-          title: websiteUrl,
-          status: "error",
-          enabled: false,
-          websiteUrl,
-          chunkCount: 0,
-          errorMessage: toFriendlySourceError(message),
-        });
+      });
+
+      // A re-crawl that only found pages already in the strategy links to the earlier copy of its start page.
+      if (!indexedPages && duplicatePages.length) {
+        recordDuplicate(batch, startPage?.title ?? crawl.url, duplicatePages[0]);
+        continue;
       }
-    }
 
-    if (chunks.length === 0) {
-      const warningSummary = parsed.warnings.length
-        ? ` Warnings: ${parsed.warnings.join(" | ")}`
-        : "";
-      throw new Error(`Parser produced zero chunks.${warningSummary}`);
+      const failedPages = result.pages.length - indexedPages - duplicatePages.length;
+      const skipped = [
+        failedPages ? `${failedPages} page(s) failed` : "",
+        duplicatePages.length ? `${duplicatePages.length} page(s) already in your sources` : "",
+        result.robotsBlocked ? `${result.robotsBlocked} link(s) blocked by robots.txt` : "",
+        result.truncated ? `${result.truncated} link(s) past the ${options.maxPages}-page limit` : "",
+      ].filter(Boolean);
+      sourceMap.set(parentId, {
+        id: parentId,
+        type: "url",
+        title: `${startPage?.title ?? `Website: ${new URL(crawl.url).hostname}`} · ${indexedPages} page${indexedPages === 1 ? "" : "s"}`,
+        status: indexedPages ? "indexed" : "error",
+        enabled: indexedPages > 0,
+        websiteUrl: startPage?.canonicalUrl ?? crawl.url,
+        chunkCount: parentChunkCount,
+        errorMessage: indexedPages ? undefined : "No page on this site could be read.",
+        warningMessage: skipped.length ? skipped.join("; ") : undefined,
+      });
+      pageSources.forEach((source) => sourceMap.set(source.id, source));
+      logStage("FIRESTORE_WRITE_DONE", { kind: "crawl", url: crawl.url, pages: result.pages.length, chunks: parentChunkCount });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Website crawl failed";
+      sourceMap.set(parentId, {
+        id: parentId,
+        type: "url",
+        title: crawl.url,
+        status: "error",
+        enabled: false,
+        websiteUrl: crawl.url,
+        chunkCount: 0,
+        errorMessage: message.includes("robots.txt") ? "This site's robots.txt does not allow crawling it." : toFriendlySourceError(message),
+      });
     }
+  }
 
-    logLifecycle("saving", { sourceCount: sourceMap.size, chunkCount: chunks.length });
-    void precomputeEmbeddingVectors(chunks).catch((error) => {
-      const message = error instanceof Error ? error.message : "unknown";
-      console.warn("[source-index] embedding precompute skipped", { message });
-    });
-    logLifecycle("completed");
-    return NextResponse.json({
-      sources: Array.from(sourceMap.values()),
-      chunks,
-      warnings: parsed.warnings,
-    });
+  signal.throwIfAborted();
+  // A request that only re-submitted existing sources has nothing new to index, which is not an error;
+  // a new source that came out empty still is.
+  const emptySources = Array.from(sourceMap.values()).filter((source) => source.status === "indexed" && !source.chunkCount);
+  if (chunks.length === 0 && (!batch.duplicates.length || emptySources.length)) {
+    const warningSummary = parsed.warnings.length
+      ? ` Warnings: ${parsed.warnings.join(" | ")}`
+      : "";
+    throw new Error(`Parser produced zero chunks.${warningSummary}`);
+  }
+
+  logLifecycle("saving", { sourceCount: sourceMap.size, chunkCount: chunks.length });
+  try {
+    await precomputeEmbeddingVectors(chunks, resolveEmbeddingProvider(undefined, reportEmbeddingCall));
   } catch (error) {
-    const detail = formatIndexError(error);
-    logLifecycle("failed", { error: detail });
-    return NextResponse.json({ error: "Unable to index sources", detail }, { status: 400 });
+    // Clients embed any chunk still missing a vector when they write the index.
+    const message = error instanceof Error ? error.message : "unknown";
+    console.warn("[source-index] embedding precompute skipped", { message });
+  }
+  logLifecycle("completed");
+  return {
+    sources: Array.from(sourceMap.values()),
+    chunks,
+    warnings: parsed.warnings,
+    duplicates: batch.duplicates,
+  };
+}
+
+function findRequestLimitError(body: SourceIndexRequest): string | undefined {
+  const playlists = (body.youtubeUrls ?? []).filter((url) => extractYouTubePlaylistId(url)).length;
+  if (playlists > MAX_PLAYLISTS_PER_REQUEST) {
+    return `Add at most ${MAX_PLAYLISTS_PER_REQUEST} YouTube playlists at a time.`;
+  }
+  if ((body.websiteCrawls ?? []).length > MAX_WEBSITE_CRAWLS_PER_REQUEST) {
+    return `Crawl at most ${MAX_WEBSITE_CRAWLS_PER_REQUEST} websites at a time.`;
   }
+  return undefined;
+}
+
+export async function POST(request: Request) {
+  logLifecycle("idle");
+  let user: AuthenticatedUser;
+  let body: SourceIndexRequest;
+  try {
+    user = await getAuthenticatedUser(request);
+    body = (await request.json()) as SourceIndexRequest;
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json({ error: "Unable to index sources", detail: "Invalid request body" }, { status: 400 });
+  }
+
+  const limitError = findRequestLimitError(body);
+  if (limitError) {
+    return NextResponse.json({ error: "Unable to index sources", detail: limitError }, { status: 400 });
+  }
+
+  // Refused before any stream starts, so clients read it like any other failed response.
+  const quota = await checkStudyQuota(user, "sources-index");
+  if (!quota.allowed) {
+    return quotaExceededResponse(quota);
+  }
+
+  // Video notes, translation, transcription and embedding calls count toward the user's AI usage.
+  const usageSink = withDailyAiCallCount(user.uid, createAiUsageSink(user.uid));
+  const run = (onStatus: (status: SourceIndexStatus) => void, signal: AbortSignal) =>
+    recordModelCallsWith(usageSink, () => indexSources(body, onStatus, signal));
+
+  if (!body.stream) {
+    try {
+      return NextResponse.json(await run(() => undefined, request.signal));
+    } catch (error) {
+      const detail = formatIndexError(error);
+      logLifecycle("failed", { error: detail });
+      return NextResponse.json({ error: "Unable to index sources", detail }, { status: 400 });
+    }
+  }
+
+  // Streaming mode: one "status" event per source step, so a long playlist shows progress video by video.
+  // A closed tab or a cancelled reader aborts the run; sources not started yet are never fetched.
+  const abort = new AbortController();
+  const onDisconnect = () => abort.abort(request.signal.reason);
+  request.signal.addEventListener("abort", onDisconnect, { once: true });
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const send = (payload: Record<string, unknown>) => {
+        if (!abort.signal.aborted) {
+          enqueueSseEvent(controller, encoder, payload);
+        }
+      };
+      try {
+        send({ type: "started" });
+        const payload = await run((status) => send({ type: "status", status }), abort.signal);
+        send({ type: "done", payload });
+      } catch (error) {
+        if (abort.signal.aborted) {
+          logLifecycle("cancelled");
+        } else {
+          const detail = formatIndexError(error);
+          logLifecycle("failed", { error: detail });
+          send({ type: "error", message: detail });
+        }
+      } finally {
+        request.signal.removeEventListener("abort", onDisconnect);
+        if (!abort.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel(reason) {
+      abort.abort(reason);
+    },
+  });
+
+  return createSseResponse(stream);
 }
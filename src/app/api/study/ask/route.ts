@@ -1,8 +1,13 @@
 import { NextResponse } from "next/server";
 
-import { UploadedFile } from "@/lib/ai/types";
+import { CustomProviderConfig, ModelType, UploadedFile } from "@/lib/ai/types";
 import { resolveModelConfig } from "@/lib/ai/modelRouter";
-import { RequestAuthError, getAuthenticatedUid } from "@/lib/server/auth";
+import { recordModelCallsWith } from "@/lib/ai/usage-recorder";
+import { createAiUsageSink } from "@/lib/firestore/ai-usage-admin";
+import { getTaskRoutingAdmin } from "@/lib/firestore/user-preferences-admin";
+import { RequestAuthError, getAuthenticatedUser } from "@/lib/server/auth";
+import { checkStudyQuota, quotaExceededResponse, quotaExceededSseResponse, withDailyAiCallCount } from "@/lib/server/quota";
+import { parseRerankMode, type RerankMode } from "@/lib/study/rerank";
 import { answerTopicQuestion } from "@/lib/study/rag";
 import { answerTopicQuestionStream } from "@/lib/study/rag";
 
@@ -13,12 +18,8 @@ type TopicQuestionRequest = {
   question?: string;
   files?: UploadedFile[];
   history?: Array<{ role: "user" | "assistant"; content: string }>;
-  modelType?: "gemini" | "custom";
-  modelConfig?: {
-    baseUrl?: string;
-    apiKey?: string;
-    modelName?: string;
-  } | null;
+  modelType?: ModelType;
+  modelConfig?: Partial<CustomProviderConfig> | null;
   currentChapter?: string;
   examTimeRemaining?: string;
   studyMode?: string;
@@ -27,6 +28,7 @@ type TopicQuestionRequest = {
   stream?: boolean;
   userId?: string;
   strategyId?: string;
+  rerank?: RerankMode;
 };
 
 function createSseResponse(stream: ReadableStream<Uint8Array>): Response {
@@ -50,9 +52,11 @@ function enqueueSseEvent(
 
 export async function POST(request: Request) {
   try {
-    const authenticatedUid = await getAuthenticatedUid(request);
+    const user = await getAuthenticatedUser(request);
+    const authenticatedUid = user.uid;
     const debugRetrieval = new URL(request.url).searchParams.get("debugRetrieval") === "true";
     const body = (await request.json()) as TopicQuestionRequest;
+    const rerank = parseRerankMode(body.rerank);
 
     if (body.userId && body.userId !== authenticatedUid) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
@@ -71,18 +75,27 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Missing uploaded files context" }, { status: 400 });
     }
 
-    const modelConfig = resolveModelConfig(body);
+    const quota = await checkStudyQuota(user, "ask");
+    if (!quota.allowed) {
+      return body.stream ? quotaExceededSseResponse(quota) : quotaExceededResponse(quota);
+    }
+
+    const modelConfig = resolveModelConfig(body, await getTaskRoutingAdmin(authenticatedUid));
+    const usageSink = withDailyAiCallCount(authenticatedUid, createAiUsageSink(authenticatedUid, body.strategyId));
     if (!body.stream) {
-      const answer = await answerTopicQuestion(files, body.topic, body.question, modelConfig, body.history ?? [], {
-        currentChapter: body.currentChapter,
-        examTimeRemaining: body.examTimeRemaining,
-        studyMode: body.studyMode,
-        examMode: body.examMode,
-        userIntent: body.userIntent,
-        userId: authenticatedUid,
-        strategyId: body.strategyId,
-        debugRetrieval,
-      });
+      const answer = await recordModelCallsWith(usageSink, () =>
+        answerTopicQuestion(files, body.topic!, body.question!, modelConfig, body.history ?? [], {
+          currentChapter: body.currentChapter,
+          examTimeRemaining: body.examTimeRemaining,
+          studyMode: body.studyMode,
+          examMode: body.examMode,
+          userIntent: body.userIntent,
+          userId: authenticatedUid,
+          strategyId: body.strategyId,
+          debugRetrieval,
+          rerank,
+        }),
+      );
 
       return NextResponse.json(answer);
     }
@@ -94,25 +107,28 @@ export async function POST(request: Request) {
         try {
           enqueueSseEvent(controller, encoder, { type: "started" });
 
-          const answer = await answerTopicQuestionStream(
-            files,
-            body.topic!,
-            body.question!,
-            modelConfig,
-            body.history ?? [],
-            {
-              currentChapter: body.currentChapter,
-              examTimeRemaining: body.examTimeRemaining,
-              studyMode: body.studyMode,
-              examMode: body.examMode,
-              userIntent: body.userIntent,
-              userId: authenticatedUid,
-              strategyId: body.strategyId,
-              debugRetrieval,
-            },
-            (chunk) => {
-              enqueueSseEvent(controller, encoder, { type: "delta", chunk });
-            },
+          const answer = await recordModelCallsWith(usageSink, () =>
+            answerTopicQuestionStream(
+              files,
+              body.topic!,
+              body.question!,
+              modelConfig,
+              body.history ?? [],
+              {
+                currentChapter: body.currentChapter,
+                examTimeRemaining: body.examTimeRemaining,
+                studyMode: body.studyMode,
+                examMode: body.examMode,
+                userIntent: body.userIntent,
+                userId: authenticatedUid,
+                strategyId: body.strategyId,
+                debugRetrieval,
+                rerank,
+              },
+              (chunk) => {
+                enqueueSseEvent(controller, encoder, { type: "delta", chunk });
+              },
+            ),
           );
 
           enqueueSseEvent(controller, encoder, {
@@ -1,8 +1,13 @@
 import { NextResponse } from "next/server";
 
-import { UploadedFile } from "@/lib/ai/types";
+import { CustomProviderConfig, ModelType, UploadedFile } from "@/lib/ai/types";
 import { resolveModelConfig } from "@/lib/ai/modelRouter";
-import { RequestAuthError, getAuthenticatedUid } from "@/lib/server/auth";
+import { recordModelCallsWith } from "@/lib/ai/usage-recorder";
+import { createAiUsageSink } from "@/lib/firestore/ai-usage-admin";
+import { getTaskRoutingAdmin } from "@/lib/firestore/user-preferences-admin";
+import { RequestAuthError, getAuthenticatedUser } from "@/lib/server/auth";
+import { checkStudyQuota, quotaExceededResponse, withDailyAiCallCount } from "@/lib/server/quota";
+import { parseRerankMode, type RerankMode } from "@/lib/study/rerank";
 import { buildExamModeContent } from "@/lib/study/rag";
 
 export const runtime = "nodejs";
@@ -10,12 +15,8 @@ export const runtime = "nodejs";
 type ExamModeRequest = {
   topic?: string;
   files?: UploadedFile[];
-  modelType?: "gemini" | "custom";
-  modelConfig?: {
-    baseUrl?: string;
-    apiKey?: string;
-    modelName?: string;
-  } | null;
+  modelType?: ModelType;
+  modelConfig?: Partial<CustomProviderConfig> | null;
   currentChapter?: string;
   examTimeRemaining?: string;
   studyMode?: string;
@@ -23,13 +24,16 @@ type ExamModeRequest = {
   userIntent?: string;
   userId?: string;
   strategyId?: string;
+  rerank?: RerankMode;
 };
 
 export async function POST(request: Request) {
   try {
-    const authenticatedUid = await getAuthenticatedUid(request);
+    const user = await getAuthenticatedUser(request);
+    const authenticatedUid = user.uid;
     const debugRetrieval = new URL(request.url).searchParams.get("debugRetrieval") === "true";
     const body = (await request.json()) as ExamModeRequest;
+    const rerank = parseRerankMode(body.rerank);
 
     if (body.userId && body.userId !== authenticatedUid) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
@@ -44,17 +48,26 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Missing uploaded files context" }, { status: 400 });
     }
 
-    const modelConfig = resolveModelConfig(body);
-    const result = await buildExamModeContent(files, body.topic, modelConfig, {
-      currentChapter: body.currentChapter,
-      examTimeRemaining: body.examTimeRemaining,
-      studyMode: body.studyMode,
-      examMode: body.examMode,
-      userIntent: body.userIntent,
-      userId: authenticatedUid,
-      strategyId: body.strategyId,
-      debugRetrieval,
-    });
+    const quota = await checkStudyQuota(user, "exam-mode");
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota);
+    }
+
+    const modelConfig = resolveModelConfig(body, await getTaskRoutingAdmin(authenticatedUid));
+    const usageSink = withDailyAiCallCount(authenticatedUid, createAiUsageSink(authenticatedUid, body.strategyId));
+    const result = await recordModelCallsWith(usageSink, () =>
+      buildExamModeContent(files, body.topic!, modelConfig, {
+        currentChapter: body.currentChapter,
+        examTimeRemaining: body.examTimeRemaining,
+        studyMode: body.studyMode,
+        examMode: body.examMode,
+        userIntent: body.userIntent,
+        userId: authenticatedUid,
+        strategyId: body.strategyId,
+        debugRetrieval,
+        rerank,
+      }),
+    );
 
     return NextResponse.json(result);
   } catch (error) {
@@ -1,8 +1,13 @@
 import { NextResponse } from "next/server";
 
-import { UploadedFile } from "@/lib/ai/types";
+import { CustomProviderConfig, ModelType, UploadedFile } from "@/lib/ai/types";
 import { resolveModelConfig } from "@/lib/ai/modelRouter";
-import { RequestAuthError, getAuthenticatedUid } from "@/lib/server/auth";
+import { recordModelCallsWith } from "@/lib/ai/usage-recorder";
+import { createAiUsageSink } from "@/lib/firestore/ai-usage-admin";
+import { getTaskRoutingAdmin } from "@/lib/firestore/user-preferences-admin";
+import { RequestAuthError, getAuthenticatedUser } from "@/lib/server/auth";
+import { checkStudyQuota, quotaExceededResponse, quotaExceededSseResponse, withDailyAiCallCount } from "@/lib/server/quota";
+import { parseRerankMode, type RerankMode } from "@/lib/study/rerank";
 import { buildLearnItemContent } from "@/lib/study/rag";
 import { buildLearnItemContentStream } from "@/lib/study/rag";
 
@@ -12,12 +17,8 @@ type LearnItemRequest = {
   topic?: string;
   item?: string;
   files?: UploadedFile[];
-  modelType?: "gemini" | "custom";
-  modelConfig?: {
-    baseUrl?: string;
-    apiKey?: string;
-    modelName?: string;
-  } | null;
+  modelType?: ModelType;
+  modelConfig?: Partial<CustomProviderConfig> | null;
   currentChapter?: string;
   examTimeRemaining?: string;
   studyMode?: string;
@@ -26,6 +27,7 @@ type LearnItemRequest = {
   stream?: boolean;
   userId?: string;
   strategyId?: string;
+  rerank?: RerankMode;
 };
 
 function createSseResponse(stream: ReadableStream<Uint8Array>): Response {
@@ -49,9 +51,11 @@ function enqueueSseEvent(
 
 export async function POST(request: Request) {
   try {
-    const authenticatedUid = await getAuthenticatedUid(request);
+    const user = await getAuthenticatedUser(request);
+    const authenticatedUid = user.uid;
     const debugRetrieval = new URL(request.url).searchParams.get("debugRetrieval") === "true";
     const body = (await request.json()) as LearnItemRequest;
+    const rerank = parseRerankMode(body.rerank);
 
     if (body.userId && body.userId !== authenticatedUid) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
@@ -70,18 +74,27 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Missing uploaded files context" }, { status: 400 });
     }
 
-    const modelConfig = resolveModelConfig(body);
+    const quota = await checkStudyQuota(user, "learn-item");
+    if (!quota.allowed) {
+      return body.stream ? quotaExceededSseResponse(quota) : quotaExceededResponse(quota);
+    }
+
+    const modelConfig = resolveModelConfig(body, await getTaskRoutingAdmin(authenticatedUid));
+    const usageSink = withDailyAiCallCount(authenticatedUid, createAiUsageSink(authenticatedUid, body.strategyId));
     if (!body.stream) {
-      const content = await buildLearnItemContent(files, body.topic, body.item, modelConfig, {
-        currentChapter: body.currentChapter,
-        examTimeRemaining: body.examTimeRemaining,
-        studyMode: body.studyMode,
-        examMode: body.examMode,
-        userIntent: body.userIntent,
-        userId: authenticatedUid,
-        strategyId: body.strategyId,
-        debugRetrieval,
-      });
+      const content = await recordModelCallsWith(usageSink, () =>
+        buildLearnItemContent(files, body.topic!, body.item!, modelConfig, {
+          currentChapter: body.currentChapter,
+          examTimeRemaining: body.examTimeRemaining,
+          studyMode: body.studyMode,
+          examMode: body.examMode,
+          userIntent: body.userIntent,
+          userId: authenticatedUid,
+          strategyId: body.strategyId,
+          debugRetrieval,
+          rerank,
+        }),
+      );
 
       return NextResponse.json(content);
     }
@@ -93,24 +106,27 @@ export async function POST(request: Request) {
         try {
           enqueueSseEvent(controller, encoder, { type: "started" });
 
-          const content = await buildLearnItemContentStream(
-            files,
-            body.topic!,
-            body.item!,
-            modelConfig,
-            {
-              currentChapter: body.currentChapter,
-              examTimeRemaining: body.examTimeRemaining,
-              studyMode: body.studyMode,
-              examMode: body.examMode,
-              userIntent: body.userIntent,
-              userId: authenticatedUid,
-              strategyId: body.strategyId,
-              debugRetrieval,
-            },
-            (chunk) => {
-              enqueueSseEvent(controller, encoder, { type: "delta", chunk });
-            },
+          const content = await recordModelCallsWith(usageSink, () =>
+            buildLearnItemContentStream(
+              files,
+              body.topic!,
+              body.item!,
+              modelConfig,
+              {
+                currentChapter: body.currentChapter,
+                examTimeRemaining: body.examTimeRemaining,
+                studyMode: body.studyMode,
+                examMode: body.examMode,
+                userIntent: body.userIntent,
+                userId: authenticatedUid,
+                strategyId: body.strategyId,
+                debugRetrieval,
+                rerank,
+              },
+              (chunk) => {
+                enqueueSseEvent(controller, encoder, { type: "delta", chunk });
+              },
+            ),
           );
 
           enqueueSseEvent(controller, encoder, {
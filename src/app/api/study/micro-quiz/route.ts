@@ -1,8 +1,13 @@
 import { NextResponse } from "next/server";
 
-import { UploadedFile } from "@/lib/ai/types";
+import { CustomProviderConfig, ModelType, UploadedFile } from "@/lib/ai/types";
 import { resolveModelConfig } from "@/lib/ai/modelRouter";
-import { RequestAuthError, getAuthenticatedUid } from "@/lib/server/auth";
+import { recordModelCallsWith } from "@/lib/ai/usage-recorder";
+import { createAiUsageSink } from "@/lib/firestore/ai-usage-admin";
+import { getTaskRoutingAdmin } from "@/lib/firestore/user-preferences-admin";
+import { RequestAuthError, getAuthenticatedUser } from "@/lib/server/auth";
+import { checkStudyQuota, quotaExceededResponse, withDailyAiCallCount } from "@/lib/server/quota";
+import { parseRerankMode, type RerankMode } from "@/lib/study/rerank";
 import { buildMicroQuizContent } from "@/lib/study/rag";
 
 export const runtime = "nodejs";
@@ -11,12 +16,8 @@ type MicroQuizRequest = {
   topic?: string;
   files?: UploadedFile[];
   count?: number;
-  modelType?: "gemini" | "custom";
-  modelConfig?: {
-    baseUrl?: string;
-    apiKey?: string;
-    modelName?: string;
-  } | null;
+  modelType?: ModelType;
+  modelConfig?: Partial<CustomProviderConfig> | null;
   currentChapter?: string;
   examTimeRemaining?: string;
   studyMode?: string;
@@ -24,13 +25,16 @@ type MicroQuizRequest = {
   userIntent?: string;
   userId?: string;
   strategyId?: string;
+  rerank?: RerankMode;
 };
 
 export async function POST(request: Request) {
   try {
-    const authenticatedUid = await getAuthenticatedUid(request);
+    const user = await getAuthenticatedUser(request);
+    const authenticatedUid = user.uid;
     const debugRetrieval = new URL(request.url).searchParams.get("debugRetrieval") === "true";
     const body = (await request.json()) as MicroQuizRequest;
+    const rerank = parseRerankMode(body.rerank);
 
     if (body.userId && body.userId !== authenticatedUid) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
@@ -44,18 +48,27 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Missing files" }, { status: 400 });
     }
 
-    const modelConfig = resolveModelConfig(body);
+    const quota = await checkStudyQuota(user, "micro-quiz");
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota);
+    }
+
+    const modelConfig = resolveModelConfig(body, await getTaskRoutingAdmin(authenticatedUid));
+    const usageSink = withDailyAiCallCount(authenticatedUid, createAiUsageSink(authenticatedUid, body.strategyId));
     const count = Math.max(3, Math.min(5, Math.round(body.count ?? 4)));
-    const quiz = await buildMicroQuizContent(files, body.topic, modelConfig, count, {
-      currentChapter: body.currentChapter,
-      examTimeRemaining: body.examTimeRemaining,
-      studyMode: body.studyMode,
-      examMode: body.examMode,
-      userIntent: body.userIntent,
-      userId: authenticatedUid,
-      strategyId: body.strategyId,
-      debugRetrieval,
-    });
+    const quiz = await recordModelCallsWith(usageSink, () =>
+      buildMicroQuizContent(files, body.topic!, modelConfig, count, {
+        currentChapter: body.currentChapter,
+        examTimeRemaining: body.examTimeRemaining,
+        studyMode: body.studyMode,
+        examMode: body.examMode,
+        userIntent: body.userIntent,
+        userId: authenticatedUid,
+        strategyId: body.strategyId,
+        debugRetrieval,
+        rerank,
+      }),
+    );
     return NextResponse.json(quiz);
   } catch (error) {
     if (error instanceof RequestAuthError) {
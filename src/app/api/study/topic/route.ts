@@ -1,8 +1,13 @@
 import { NextResponse } from "next/server";
 
-import { TopicPriority, UploadedFile } from "@/lib/ai/types";
+import { CustomProviderConfig, ModelType, TopicPriority, UploadedFile } from "@/lib/ai/types";
 import { resolveModelConfig } from "@/lib/ai/modelRouter";
-import { RequestAuthError, getAuthenticatedUid } from "@/lib/server/auth";
+import { recordModelCallsWith } from "@/lib/ai/usage-recorder";
+import { createAiUsageSink } from "@/lib/firestore/ai-usage-admin";
+import { getTaskRoutingAdmin } from "@/lib/firestore/user-preferences-admin";
+import { RequestAuthError, getAuthenticatedUser } from "@/lib/server/auth";
+import { checkStudyQuota, quotaExceededResponse, withDailyAiCallCount } from "@/lib/server/quota";
+import { parseRerankMode, type RerankMode } from "@/lib/study/rerank";
 import { buildTopicStudyContent } from "@/lib/study/rag";
 
 export const runtime = "nodejs";
@@ -12,12 +17,8 @@ type TopicStudyRequest = {
   priority?: TopicPriority;
   files?: UploadedFile[];
   outlineOnly?: boolean;
-  modelType?: "gemini" | "custom";
-  modelConfig?: {
-    baseUrl?: string;
-    apiKey?: string;
-    modelName?: string;
-  } | null;
+  modelType?: ModelType;
+  modelConfig?: Partial<CustomProviderConfig> | null;
   currentChapter?: string;
   examTimeRemaining?: string;
   studyMode?: string;
@@ -25,13 +26,16 @@ type TopicStudyRequest = {
   userIntent?: string;
   userId?: string;
   strategyId?: string;
+  rerank?: RerankMode;
 };
 
 export async function POST(request: Request) {
   try {
-    const authenticatedUid = await getAuthenticatedUid(request);
+    const user = await getAuthenticatedUser(request);
+    const authenticatedUid = user.uid;
     const debugRetrieval = new URL(request.url).searchParams.get("debugRetrieval") === "true";
     const body = (await request.json()) as TopicStudyRequest;
+    const rerank = parseRerankMode(body.rerank);
 
     if (body.userId && body.userId !== authenticatedUid) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
@@ -47,20 +51,29 @@ export async function POST(request: Request) {
     }
 
     const priority = body.priority ?? "medium";
-    const modelConfig = resolveModelConfig(body);
-    const content = await buildTopicStudyContent(files, body.topic, priority, modelConfig, {
-      outlineOnly: Boolean(body.outlineOnly),
-      context: {
-        currentChapter: body.currentChapter,
-        examTimeRemaining: body.examTimeRemaining,
-        studyMode: body.studyMode,
-        examMode: body.examMode,
-        userIntent: body.userIntent,
-        userId: authenticatedUid,
-        strategyId: body.strategyId,
-        debugRetrieval,
-      },
-    });
+    const quota = await checkStudyQuota(user, "topic");
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota);
+    }
+
+    const modelConfig = resolveModelConfig(body, await getTaskRoutingAdmin(authenticatedUid));
+    const usageSink = withDailyAiCallCount(authenticatedUid, createAiUsageSink(authenticatedUid, body.strategyId));
+    const content = await recordModelCallsWith(usageSink, () =>
+      buildTopicStudyContent(files, body.topic!, priority, modelConfig, {
+        outlineOnly: Boolean(body.outlineOnly),
+        context: {
+          currentChapter: body.currentChapter,
+          examTimeRemaining: body.examTimeRemaining,
+          studyMode: body.studyMode,
+          examMode: body.examMode,
+          userIntent: body.userIntent,
+          userId: authenticatedUid,
+          strategyId: body.strategyId,
+          debugRetrieval,
+          rerank,
+        },
+      }),
+    );
 
     return NextResponse.json(content);
   } catch (error) {
@@ -14,6 +14,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
 import { useAuth } from "@/components/AuthProvider";
+import { getModelProviderLabel } from "@/lib/ai/providers/catalog";
 import { StrategyResult, normalizeStrategyResult } from "@/lib/ai/types";
 import { getStrategyById, listRecentStrategies } from "@/lib/firestore/strategies";
 import {
@@ -242,7 +243,7 @@ function DashboardContent() {
           return;
         }
 
-        const modelLabel = stored.modelType === "custom" ? "Custom Model" : "Gemini";
+        const modelLabel = getModelProviderLabel(stored.modelType);
         const normalized = normalizeStrategyResult(stored.strategy, stored.hoursLeft, modelLabel);
         setDetailResult(normalized);
         setDetailStudyProgress(stored.studyProgress ?? {});
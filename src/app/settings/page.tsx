@@ -15,21 +15,33 @@ import {
   doc,
 } from "firebase/firestore";
 import { toast } from "sonner";
-import { User, Mail, Shield, Trash2, Loader2, Save, Eye, EyeOff } from "lucide-react";
+import { User, Mail, Shield, Trash2, Loader2, Save, Eye, EyeOff, BarChart3 } from "lucide-react";
 
 import { useAuth } from "@/components/AuthProvider";
 import { RequireAuth } from "@/components/RequireAuth";
 import { AuthenticatedNavBar } from "@/components/AuthenticatedNavBar";
 import { Button } from "@/components/ui/button";
+import { MODEL_PROVIDER_OPTIONS, MODEL_TYPES } from "@/lib/ai/providers/catalog";
+import {
+  AI_TASK_LABELS,
+  AI_TASK_TYPES,
+  TASK_ROUTE_TARGET_LABELS,
+  TaskRoute,
+  TaskRouteTarget,
+  TaskRoutingTable,
+} from "@/lib/ai/task-routing";
+import { AiUsageRollup, DIRECT_CALL_TASK_LABELS, formatUsd } from "@/lib/ai/usage";
 import { getFirebaseDb } from "@/lib/firebase";
+import { getUserAiUsage } from "@/lib/firestore/ai-usage";
 import { getUserPreferences, setUserPreferences, UserPreferences } from "@/lib/firestore/user-preferences";
 
 // ─── Tab types ────────────────────────────────────────────────────────────────
-type Tab = "profile" | "preferences" | "security" | "danger";
+type Tab = "profile" | "preferences" | "usage" | "security" | "danger";
 
 const TABS: { id: Tab; label: string; icon: React.ElementType }[] = [
   { id: "profile", label: "Profile", icon: User },
   { id: "preferences", label: "Preferences", icon: Mail },
+  { id: "usage", label: "AI Usage", icon: BarChart3 },
   { id: "security", label: "Security", icon: Shield },
   { id: "danger", label: "Danger Zone", icon: Trash2 },
 ];
@@ -145,6 +157,80 @@ function ProfileTab() {
   );
 }
 
+// ─── Model routing ────────────────────────────────────────────────────────────
+const ROUTE_TARGETS = Object.keys(TASK_ROUTE_TARGET_LABELS) as TaskRouteTarget[];
+
+function toTaskRoute(target: TaskRouteTarget, previous: TaskRoute | undefined): TaskRoute {
+  if (target !== "ollama") return { target };
+  return previous?.target === "ollama" ? previous : { target: "ollama", modelName: "" };
+}
+
+function ModelRoutingEditor({
+  routing,
+  onChange,
+}: {
+  routing: TaskRoutingTable;
+  onChange: (routing: TaskRoutingTable) => void;
+}) {
+  function setRoute(task: keyof TaskRoutingTable, route: TaskRoute | undefined) {
+    const next = { ...routing };
+    if (route) next[task] = route;
+    else delete next[task];
+    onChange(next);
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm text-neutral-400 font-medium">Model routing</label>
+      <p className="text-xs text-neutral-600">
+        Pick a model per task. Tasks left on &quot;Default&quot; use the fast model and upgrade to the smart model when needed.
+      </p>
+      <div className="space-y-2">
+        {AI_TASK_TYPES.map((task) => {
+          const route = routing[task];
+          return (
+            <div key={task} className="flex flex-wrap items-center gap-2">
+              <span className="w-48 text-sm text-neutral-300">{AI_TASK_LABELS[task]}</span>
+              <select
+                value={route?.target ?? ""}
+                onChange={(e) =>
+                  setRoute(task, e.target.value ? toTaskRoute(e.target.value as TaskRouteTarget, route) : undefined)
+                }
+                className="bg-neutral-900 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-1 focus:ring-orange-500/50"
+              >
+                <option value="">Default</option>
+                {ROUTE_TARGETS.map((target) => (
+                  <option key={target} value={target}>
+                    {TASK_ROUTE_TARGET_LABELS[target]}
+                  </option>
+                ))}
+              </select>
+              {route?.target === "ollama" && (
+                <>
+                  <input
+                    type="text"
+                    value={route.modelName}
+                    onChange={(e) => setRoute(task, { ...route, modelName: e.target.value })}
+                    placeholder={MODEL_PROVIDER_OPTIONS.ollama.fields.modelName?.placeholder}
+                    className="w-36 bg-neutral-900 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-neutral-600 focus:outline-none focus:ring-1 focus:ring-orange-500/50"
+                  />
+                  <input
+                    type="text"
+                    value={route.baseUrl ?? ""}
+                    onChange={(e) => setRoute(task, { ...route, baseUrl: e.target.value || undefined })}
+                    placeholder={MODEL_PROVIDER_OPTIONS.ollama.fields.baseUrl?.placeholder}
+                    className="w-56 bg-neutral-900 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-neutral-600 focus:outline-none focus:ring-1 focus:ring-orange-500/50"
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 // ─── Preferences Tab ──────────────────────────────────────────────────────────
 function PreferencesTab() {
   const { user } = useAuth();
@@ -152,6 +238,7 @@ function PreferencesTab() {
     defaultModelType: "gemini",
     defaultHoursLeft: 6,
   });
+  const [routing, setRouting] = useState<TaskRoutingTable>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -161,6 +248,7 @@ function PreferencesTab() {
     try {
       const p = await getUserPreferences(user.uid);
       setPrefs(p);
+      setRouting(p.modelRouting ?? {});
     } finally {
       setLoading(false);
     }
@@ -176,6 +264,19 @@ function PreferencesTab() {
         defaultModelType: prefs.defaultModelType,
         defaultHoursLeft: prefs.defaultHoursLeft,
       });
+
+      // The routing table is validated server-side, so it goes through the API rather than Firestore.
+      const token = await user.getIdToken();
+      const response = await fetch("/api/settings/model-routing", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ routing }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { detail?: string };
+        toast.error(payload.detail ? `Model routing not saved: ${payload.detail}` : "Failed to save model routing");
+        return;
+      }
       toast.success("Preferences saved");
     } catch {
       toast.error("Failed to save preferences");
@@ -197,9 +298,11 @@ function PreferencesTab() {
       {/* Default AI model */}
       <div className="space-y-2">
         <label className="text-sm text-neutral-400 font-medium">Default AI model</label>
-        <p className="text-xs text-neutral-600">Used when generating a new study strategy.</p>
-        <div className="flex gap-3">
-          {(["gemini", "custom"] as const).map((m) => (
+        <p className="text-xs text-neutral-600">
+          Used when generating a new study strategy. The endpoint and key for other providers are entered on the upload form and kept only for the browser session.
+        </p>
+        <div className="flex flex-wrap gap-3">
+          {MODEL_TYPES.map((m) => (
             <button
               key={m}
               onClick={() => setPrefs((p) => ({ ...p, defaultModelType: m }))}
@@ -209,7 +312,7 @@ function PreferencesTab() {
                   : "border-white/10 bg-white/5 text-neutral-400 hover:bg-white/10"
               }`}
             >
-              {m === "gemini" ? "Gemini (default)" : "Custom model"}
+              {m === "gemini" ? `${MODEL_PROVIDER_OPTIONS[m].label} (default)` : MODEL_PROVIDER_OPTIONS[m].label}
             </button>
           ))}
         </div>
@@ -236,6 +339,8 @@ function PreferencesTab() {
         </div>
       </div>
 
+      <ModelRoutingEditor routing={routing} onChange={setRouting} />
+
       <Button
         onClick={handleSave}
         disabled={saving}
@@ -248,6 +353,98 @@ function PreferencesTab() {
   );
 }
 
+// ─── Usage Tab ────────────────────────────────────────────────────────────────
+function formatTokens(value: number): string {
+  return value.toLocaleString();
+}
+
+function taskLabel(taskType: string): string {
+  return ({ ...AI_TASK_LABELS, ...DIRECT_CALL_TASK_LABELS } as Record<string, string>)[taskType] ?? taskType;
+}
+
+function UsageTab() {
+  const { user } = useAuth();
+  const [usage, setUsage] = useState<AiUsageRollup | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      setUsage(await getUserAiUsage(user.uid));
+    } catch {
+      toast.error("Failed to load AI usage");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => { load(); }, [load]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-neutral-500">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading usage…
+      </div>
+    );
+  }
+
+  if (!usage || !usage.calls) {
+    return <p className="text-sm text-neutral-400">No AI calls recorded yet.</p>;
+  }
+
+  const rows = Object.entries(usage.byTaskType).sort(
+    ([, left], [, right]) => right.estimatedCostUsd - left.estimatedCostUsd || right.calls - left.calls,
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          { label: "AI calls", value: formatTokens(usage.calls) },
+          { label: "Tokens", value: formatTokens(usage.promptTokens + usage.completionTokens) },
+          { label: "Estimated spend", value: formatUsd(usage.estimatedCostUsd) },
+        ].map((stat) => (
+          <div key={stat.label} className="rounded-lg bg-neutral-900 border border-white/10 p-3">
+            <p className="text-xs text-neutral-500">{stat.label}</p>
+            <p className="text-lg font-semibold text-white">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 font-medium">Spend per task</label>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-1.5 font-medium">Task</th>
+              <th className="py-1.5 font-medium text-right">Calls</th>
+              <th className="py-1.5 font-medium text-right">Prompt tokens</th>
+              <th className="py-1.5 font-medium text-right">Output tokens</th>
+              <th className="py-1.5 font-medium text-right">Spend</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([taskType, totals]) => (
+              <tr key={taskType} className="border-t border-white/5 text-neutral-300">
+                <td className="py-1.5">{taskLabel(taskType)}</td>
+                <td className="py-1.5 text-right">{formatTokens(totals.calls)}</td>
+                <td className="py-1.5 text-right">{formatTokens(totals.promptTokens)}</td>
+                <td className="py-1.5 text-right">{formatTokens(totals.completionTokens)}</td>
+                <td className="py-1.5 text-right">{formatUsd(totals.estimatedCostUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-neutral-600">
+          Every model call counts, including fallbacks, retries and background work such as transcription.
+          Estimated from list prices. Models without a known price (most custom endpoints) count tokens but no spend.
+        </p>
+      </div>
+    </div>
+  );
+}
+
 // ─── Security Tab ─────────────────────────────────────────────────────────────
 function SecurityTab() {
   const { user } = useAuth();
@@ -427,9 +624,10 @@ function DangerTab() {
       }
       const sessionsSnap = await getDocs(collection(db, "users", user.uid, "studySessions"));
       sessionsSnap.docs.forEach((s) => batch.delete(s.ref));
-      // Delete preferences doc
+      // Delete preferences and usage docs
       const prefDoc = doc(db, "users", user.uid, "preferences", "settings");
       batch.delete(prefDoc);
+      batch.delete(doc(db, "users", user.uid, "usage", "summary"));
       await batch.commit();
 
       // Delete auth account
@@ -552,6 +750,7 @@ function SettingsContent() {
   const tabContent: Record<Tab, React.ReactNode> = {
     profile: <ProfileTab />,
     preferences: <PreferencesTab />,
+    usage: <UsageTab />,
     security: <SecurityTab />,
     danger: <DangerTab />,
   };
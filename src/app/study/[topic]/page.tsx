@@ -18,13 +18,19 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
 import { useAuth } from "@/components/AuthProvider";
+import { getModelProviderLabel, isModelType, missingProviderFields } from "@/lib/ai/providers/catalog";
+import type { TokenUsage } from "@/lib/ai/usage";
 import {
+  CustomProviderConfig,
+  ExternalModelType,
+  ModelType,
   SourceCitation,
   StrategyResult,
   StudyQuestionCard,
   StudyTopic,
   TopicConfidence,
   UploadedFile,
+  formatCitationLabel,
   normalizeStrategyResult,
 } from "@/lib/ai/types";
 import {
@@ -53,7 +59,10 @@ import {
   updateStudySourceChunkCount,
   upsertStudySource,
 } from "@/lib/firestore/sources";
-import { appendIndexedChunks, replaceIndexedChunks } from "@/lib/firestore/chunks";
+import { IndexedChunk, appendIndexedChunks, replaceIndexedChunks } from "@/lib/firestore/chunks";
+import { WebsiteCrawlOptions } from "@/lib/parsing/crawl-options";
+import { IMAGE_EXTENSIONS, RECORDING_EXTENSIONS } from "@/lib/parsing/file-types";
+import { groupUploadBatches } from "@/lib/parsing/upload-batches";
 import { FALLBACK_MESSAGE } from "@/lib/study/constants";
 import {
   isFallbackLikeChatPayload,
@@ -82,12 +91,8 @@ type StudyModelPayload =
       modelConfig?: undefined;
     }
   | {
-      modelType: "custom";
-      modelConfig: {
-        baseUrl: string;
-        apiKey: string;
-        modelName: string;
-      };
+      modelType: ExternalModelType;
+      modelConfig: CustomProviderConfig;
     };
 
 type TopicStudyApiResponse = {
@@ -124,6 +129,7 @@ type TopicStudyApiResponse = {
     fallbackTriggered: boolean;
     fallbackReason?: string;
     latencyMs: number;
+    usage?: TokenUsage;
   };
 };
 
@@ -139,6 +145,7 @@ type TopicAskApiResponse = {
     fallbackTriggered: boolean;
     fallbackReason?: string;
     latencyMs: number;
+    usage?: TokenUsage;
   };
 };
 
@@ -157,6 +164,7 @@ type LearnItemApiResponse = {
     fallbackTriggered: boolean;
     fallbackReason?: string;
     latencyMs: number;
+    usage?: TokenUsage;
   };
 };
 
@@ -177,6 +185,7 @@ type MicroQuizApiResponse = {
     fallbackTriggered: boolean;
     fallbackReason?: string;
     latencyMs: number;
+    usage?: TokenUsage;
   };
 };
 
@@ -199,6 +208,7 @@ type ExamModeApiResponse = {
     fallbackTriggered: boolean;
     fallbackReason?: string;
     latencyMs: number;
+    usage?: TokenUsage;
   };
 };
 
@@ -228,13 +238,14 @@ type SourceIndexResponse = {
   warnings?: string[];
   sources: Array<{
     id: string;
-    type: "pdf" | "ppt" | "docx" | "text" | "youtube" | "url";
+    type: "pdf" | "ppt" | "docx" | "image" | "markdown" | "epub" | "html" | "text" | "recording" | "youtube" | "url";
     title: string;
     status: "indexed" | "error";
     enabled: boolean;
     fileUrl?: string;
     youtubeUrl?: string;
     websiteUrl?: string;
+    parentSourceId?: string;
     videoId?: string;
     aiGeneratedTranscript?: boolean;
     transcriptSource?: "captions" | "ai-reconstructed";
@@ -242,22 +253,31 @@ type SourceIndexResponse = {
     translatedToEnglish?: boolean;
     chunkCount: number;
     errorMessage?: string;
+    warningMessage?: string;
+    contentHash?: string;
   }>;
-  chunks: Array<{
-    sourceId: string;
-    text: string;
-    sourceType: "Previous Paper" | "Question Bank" | "Study Material" | "Syllabus Derived";
-    sourceName: string;
-    sourceYear?: string;
-    section: string;
-  }>;
+  chunks: IndexedChunk[];
+  /** Submitted sources whose content is already indexed; they are linked to the existing source, not re-indexed. */
+  duplicates?: Array<{ title: string; duplicateOfSourceId: string; duplicateOfTitle: string }>;
+};
+
+/** Per-source progress streamed by /api/sources/index while a playlist is ingested. */
+type SourceIndexStatusEvent = {
+  sourceId: string;
+  parentSourceId?: string;
+  title: string;
+  state: string;
+  index?: number;
+  total?: number;
+  errorMessage?: string;
 };
 
 type StreamEnvelope<TPayload> =
   | { type: "started" }
   | { type: "delta"; chunk?: string }
+  | { type: "status"; status?: SourceIndexStatusEvent }
   | { type: "done"; payload?: TPayload }
-  | { type: "error"; message?: string };
+  | { type: "error"; message?: string; code?: string; retryAfterSeconds?: number };
 
 const STUDY_CACHE_SCHEMA_VERSION = "v3";
 
@@ -265,6 +285,7 @@ type SourceAddStatus =
   | "idle"
   | "validating"
   | "fetching"
+  | "crawling"
   | "fetching-transcript"
   | "fetching-metadata"
   | "ai-reconstruction"
@@ -275,6 +296,22 @@ type SourceAddStatus =
   | "failed";
 type SourceIndexLifecycle = "idle" | "preparing" | "parsing" | "chunking" | "indexing" | "saving" | "completed" | "failed";
 
+const SOURCE_INDEX_STATE_LABELS: Record<string, string> = {
+  "fetching-metadata": "reading video details",
+  "fetching-transcript": "fetching transcript",
+  "ai-reconstruction": "building notes without captions",
+  completed: "done",
+  failed: "failed",
+};
+
+function describeSourceIndexStatus(status: SourceIndexStatusEvent): string {
+  const label = SOURCE_INDEX_STATE_LABELS[status.state] ?? status.state;
+  if (!status.parentSourceId) {
+    return status.state === "fetching-metadata" ? "Reading playlist…" : `${status.title} — ${label}`;
+  }
+  return `Video ${status.index ?? "?"}/${status.total ?? "?"}: ${status.title} — ${label}`;
+}
+
 const INDEXED_CHUNKS_SESSION_CACHE_KEY = "kalexam:indexed-chunks";
 
 function sourceTypeFromFileExtension(extension: string): StudySourceRecord["type"] {
@@ -282,6 +319,11 @@ function sourceTypeFromFileExtension(extension: string): StudySourceRecord["type
   if (normalized === "pdf") return "pdf";
   if (normalized === "docx") return "docx";
   if (normalized === "ppt" || normalized === "pptx") return "ppt";
+  if (IMAGE_EXTENSIONS.has(normalized)) return "image";
+  if (normalized === "md" || normalized === "markdown") return "markdown";
+  if (normalized === "epub") return "epub";
+  if (normalized === "html" || normalized === "htm") return "html";
+  if (RECORDING_EXTENSIONS.has(normalized)) return "recording";
   return "text";
 }
 
@@ -305,7 +347,7 @@ function mergeSessionSources(base: StudySourceRecord[], contextFiles: UploadedFi
   const merged = [...base];
   const existingKeys = new Set(base.map((source) => `${source.title.toLowerCase()}::${source.fileUrl ?? ""}`));
 
-  for (const file of contextFiles) {
+  for (const { file } of groupUploadBatches(contextFiles)) {
     const key = `${file.name.toLowerCase()}::${file.url}`;
     if (!existingKeys.has(key)) {
       merged.push(toContextSourceRecord(file));
@@ -396,8 +438,8 @@ async function readSourceIndexError(response: Response): Promise<string> {
 }
 
 function getModelCacheKey(payload: StudyModelPayload): string {
-  if (payload.modelType === "custom") {
-    return `custom:${payload.modelConfig.modelName || "custom-model"}`;
+  if (payload.modelType !== "gemini") {
+    return `${payload.modelType}:${payload.modelConfig.modelName || "custom-model"}`;
   }
 
   return "gemini";
@@ -456,7 +498,30 @@ async function readSseResponse<TPayload>(
   }
 }
 
-function getSessionModel(strategyId: string, fallbackModelType: "gemini" | "custom"): StudyModelPayload {
+/** Tells the user why a study request was refused when it hit a rate limit or daily quota. */
+async function notifyIfQuotaExceeded(response: Response): Promise<void> {
+  if (response.status !== 429) {
+    return;
+  }
+
+  let message: string | undefined;
+  if (response.headers.get("content-type")?.includes("text/event-stream")) {
+    await readSseResponse<never>(response, (event) => {
+      if (event.type === "error") {
+        message = event.message;
+      }
+    });
+  } else {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    message = body?.error;
+  }
+
+  toast.warning("Study limit reached", {
+    description: message ?? "Too many requests right now. Please try again shortly.",
+  });
+}
+
+function getSessionModel(strategyId: string, fallbackModelType: ModelType): StudyModelPayload {
   if (fallbackModelType === "gemini") {
     return { modelType: "gemini" };
   }
@@ -471,19 +536,21 @@ function getSessionModel(strategyId: string, fallbackModelType: "gemini" | "cust
   }
 
   try {
-    const parsed = JSON.parse(raw) as Partial<StudyModelPayload>;
+    const parsed = JSON.parse(raw) as { modelType?: unknown; modelConfig?: Partial<CustomProviderConfig> };
     if (
-      parsed.modelType === "custom" &&
-      parsed.modelConfig?.baseUrl &&
-      parsed.modelConfig.apiKey &&
-      parsed.modelConfig.modelName
+      isModelType(parsed.modelType) &&
+      parsed.modelType !== "gemini" &&
+      parsed.modelConfig &&
+      !missingProviderFields(parsed.modelType, parsed.modelConfig).length
     ) {
       return {
-        modelType: "custom",
+        modelType: parsed.modelType,
         modelConfig: {
-          baseUrl: parsed.modelConfig.baseUrl,
-          apiKey: parsed.modelConfig.apiKey,
-          modelName: parsed.modelConfig.modelName,
+          baseUrl: parsed.modelConfig.baseUrl ?? "",
+          apiKey: parsed.modelConfig.apiKey ?? "",
+          modelName: parsed.modelConfig.modelName ?? "",
+          apiVersion: parsed.modelConfig.apiVersion,
+          systemPrompt: parsed.modelConfig.systemPrompt,
         },
       };
     }
@@ -644,7 +711,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
         return;
       }
 
-      const modelLabel = stored.modelType === "custom" ? "Custom Model" : "Gemini";
+      const modelLabel = getModelProviderLabel(stored.modelType);
       const normalized = normalizeStrategyResult(stored.strategy, stored.hoursLeft, modelLabel);
       const selectedTopic = normalized.topics.find((item) => item.slug === topicSlug);
 
@@ -738,6 +805,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       });
 
       if (!response.ok) {
+        void notifyIfQuotaExceeded(response);
         setStudyData({
           whatToLearn: [],
           explanation: {
@@ -767,6 +835,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           cacheHit: false,
           fallbackTriggered: apiData.routingMeta.fallbackTriggered,
           fallbackReason: apiData.routingMeta.fallbackReason,
+          usage: apiData.routingMeta.usage,
         });
       }
       setLoading(false);
@@ -873,12 +942,16 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           setIndexLifecycle("parsing");
           const response = await fetch("/api/sources/index", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await getAuthHeaders(),
             body: JSON.stringify({
               files: contextFiles,
               syllabusTextInput: "",
               youtubeUrls: existingYoutubeUrls,
               websiteUrls: [],
+              // The videos are re-submitted above, so only the other sources count as already indexed.
+              existingSources: existingSources
+                .filter((source) => source.contentHash && source.type !== "youtube")
+                .map((source) => ({ id: source.id, title: source.title, contentHash: source.contentHash })),
             }),
           });
 
@@ -889,6 +962,14 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           const payload = (await response.json()) as SourceIndexResponse;
           setIndexLifecycle("chunking");
 
+          // Every upload matched a source the strategy already has; there is nothing new to write.
+          if (!payload.chunks.length && payload.duplicates?.length) {
+            setIndexLifecycle("completed");
+            toast.success("Sources already indexed", { id: toastId });
+            indexed = true;
+            continue;
+          }
+
           if (!payload.chunks.length) {
             throw new Error("Parser produced zero chunks");
           }
@@ -905,6 +986,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
                 fileUrl: source.fileUrl,
                 youtubeUrl: source.youtubeUrl,
                 websiteUrl: source.websiteUrl,
+                parentSourceId: source.parentSourceId,
                 videoId: source.videoId,
                 aiGeneratedTranscript: source.aiGeneratedTranscript,
                 transcriptSource: source.transcriptSource,
@@ -912,6 +994,8 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
                 translatedToEnglish: source.translatedToEnglish,
                 chunkCount: source.chunkCount,
                 errorMessage: source.errorMessage,
+                warningMessage: source.warningMessage,
+                contentHash: source.contentHash,
               });
             }
 
@@ -920,14 +1004,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
               await replaceIndexedChunks(
                 user.uid,
                 strategyId,
-                payload.chunks.map((chunk) => ({
-                  sourceId: chunk.sourceId,
-                  text: chunk.text,
-                  sourceType: chunk.sourceType,
-                  sourceName: chunk.sourceName,
-                  sourceYear: chunk.sourceYear,
-                  section: chunk.section,
-                })),
+                payload.chunks,
               );
             } catch (chunkError) {
               const chunkMessage = chunkError instanceof Error ? chunkError.message : "Index write failed";
@@ -980,7 +1057,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
     }
 
     void backfillSources();
-  }, [contextFiles, setIndexLifecycle, sources.length, strategyId, user]);
+  }, [contextFiles, getAuthHeaders, setIndexLifecycle, sources.length, strategyId, user]);
 
   const handleToggleSource = useCallback(async (sourceId: string, enabled: boolean) => {
     if (!user || !strategyId || !topic) {
@@ -988,7 +1065,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
     }
 
     setSources((current) =>
-      current.map((item) => (item.id === sourceId ? { ...item, enabled } : item)),
+      current.map((item) => (item.id === sourceId || item.parentSourceId === sourceId ? { ...item, enabled } : item)),
     );
 
     try {
@@ -1031,13 +1108,15 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
         if (refreshed.ok) {
           const refreshedData = (await refreshed.json()) as TopicStudyApiResponse;
           setStudyData(refreshedData);
+        } else {
+          void notifyIfQuotaExceeded(refreshed);
         }
       }
 
       toast.info("Sources updated — all content refreshed.");
     } catch {
       setSources((current) =>
-        current.map((item) => (item.id === sourceId ? { ...item, enabled: !enabled } : item)),
+        current.map((item) => (item.id === sourceId || item.parentSourceId === sourceId ? { ...item, enabled: !enabled } : item)),
       );
     }
   }, [user, strategyId, topic, contextFiles, sessionExamDate, strategy, modelPayload, getAuthHeaders]);
@@ -1056,11 +1135,11 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           setSources(previous);
         }
       })();
-      return prev.filter((item) => item.id !== sourceId);
+      return prev.filter((item) => item.id !== sourceId && item.parentSourceId !== sourceId);
     });
   }, [user, strategyId]);
 
-  const handleAddSourceFromUrl = useCallback(async (url: string, attempt = 0) => {
+  const handleAddSourceFromUrl = useCallback(async (url: string, crawl?: WebsiteCrawlOptions, attempt = 0) => {
     if (!user || !strategyId) {
       return;
     }
@@ -1072,26 +1151,35 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
 
     const isHttp = raw.startsWith("http://") || raw.startsWith("https://");
     const isYouTube = isHttp && (raw.includes("youtube.com") || raw.includes("youtu.be"));
-    const youtubeProgressToastId = isYouTube ? toast.loading("Fetching transcript…") : undefined;
+    const isCrawl = Boolean(crawl) && isHttp && !isYouTube;
+    // Playlist links (list= without a single v=) are expanded server-side and stream per-video progress.
+    const isPlaylist = isYouTube && /[?&]list=/.test(raw) && !/[?&]v=/.test(raw);
+    const youtubeProgressToastId = isYouTube ? toast.loading(isPlaylist ? "Reading playlist…" : "Fetching transcript…") : undefined;
 
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30_000);
+    // A crawl fetches up to maxPages pages one after another.
+    const timeout = setTimeout(() => controller.abort(), isCrawl ? 180_000 : 30_000);
 
     setSourceAddStatus("validating");
     try {
-      setSourceAddStatus(isYouTube ? "fetching-transcript" : "fetching");
-      if (youtubeProgressToastId) {
+      setSourceAddStatus(isYouTube ? "fetching-transcript" : isCrawl ? "crawling" : "fetching");
+      if (youtubeProgressToastId && !isPlaylist) {
         toast.message("Fetching transcript…", { id: youtubeProgressToastId });
       }
       const response = await fetch("/api/sources/index", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         signal: controller.signal,
         body: JSON.stringify({
           files: [],
           syllabusTextInput: isHttp ? "" : raw,
           youtubeUrls: isYouTube ? [raw] : [],
-          websiteUrls: isHttp && !isYouTube ? [raw] : [],
+          websiteUrls: isHttp && !isYouTube && !isCrawl ? [raw] : [],
+          websiteCrawls: isCrawl ? [{ url: raw, options: crawl }] : [],
+          stream: isPlaylist,
+          existingSources: sources
+            .filter((source) => source.contentHash)
+            .map((source) => ({ id: source.id, title: source.title, contentHash: source.contentHash })),
         }),
       });
 
@@ -1102,7 +1190,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
         if (attempt < 1) {
           toast.message("Could not index files. Retrying automatically…", { description: msg });
           await new Promise((resolve) => setTimeout(resolve, 2000));
-          return handleAddSourceFromUrl(raw, attempt + 1);
+          return handleAddSourceFromUrl(raw, crawl, attempt + 1);
         }
         toast.error("Could not add source", { description: msg });
         setSourceAddStatus("failed");
@@ -1110,15 +1198,35 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
         return;
       }
 
-      setSourceAddStatus(isYouTube ? "fetching-metadata" : "extracting");
-      if (youtubeProgressToastId) {
-        toast.message("Analyzing video structure…", { id: youtubeProgressToastId });
-      }
-      setSourceAddStatus("indexing");
-      if (youtubeProgressToastId) {
-        toast.message("Indexing…", { id: youtubeProgressToastId });
+      let payload: SourceIndexResponse;
+      if (isPlaylist) {
+        let streamedPayload: SourceIndexResponse | undefined;
+        let streamError: string | undefined;
+        await readSseResponse<SourceIndexResponse>(response, (event) => {
+          if (event.type === "status" && event.status) {
+            toast.message(describeSourceIndexStatus(event.status), { id: youtubeProgressToastId });
+          } else if (event.type === "done") {
+            streamedPayload = event.payload;
+          } else if (event.type === "error") {
+            streamError = event.message ?? "Unable to index sources";
+          }
+        });
+        if (!streamedPayload) {
+          throw new Error(streamError ?? "Source indexing stream ended early");
+        }
+        payload = streamedPayload;
+        setSourceAddStatus("indexing");
+      } else {
+        setSourceAddStatus(isYouTube ? "fetching-metadata" : "extracting");
+        if (youtubeProgressToastId) {
+          toast.message("Analyzing video structure…", { id: youtubeProgressToastId });
+        }
+        setSourceAddStatus("indexing");
+        if (youtubeProgressToastId) {
+          toast.message("Indexing…", { id: youtubeProgressToastId });
+        }
+        payload = (await response.json()) as SourceIndexResponse;
       }
-      const payload = (await response.json()) as SourceIndexResponse;
 
       const usedAiReconstruction = payload.sources.some(
         (source) => source.type === "youtube" && source.status === "indexed" &&
@@ -1133,6 +1241,19 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
 
       setSourceAddStatus("chunking");
 
+      const duplicates = payload.duplicates ?? [];
+      duplicates.forEach((duplicate, index) => {
+        toast.message("Already in your sources", {
+          id: index === 0 && !payload.chunks.length ? youtubeProgressToastId : undefined,
+          description: `"${duplicate.title}" has the same content as "${duplicate.duplicateOfTitle}", so it was not indexed again.`,
+        });
+      });
+      if (!payload.chunks.length && duplicates.length) {
+        setSourceAddStatus("completed");
+        setTimeout(() => setSourceAddStatus("idle"), 2000);
+        return;
+      }
+
       if (!payload.chunks.length) {
         throw new Error("Parser produced zero chunks");
       }
@@ -1141,6 +1262,8 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       for (const source of payload.sources) {
         if (source.status === "error" && source.errorMessage) {
           toast.warning(source.title || "Source error", { description: source.errorMessage });
+        } else if (source.warningMessage) {
+          toast.message(source.title || "Source warning", { description: source.warningMessage });
         }
       }
 
@@ -1149,7 +1272,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
         if (attempt < 1) {
           toast.message("Could not index files. Retrying automatically…");
           await new Promise((resolve) => setTimeout(resolve, 2000));
-          return handleAddSourceFromUrl(raw, attempt + 1);
+          return handleAddSourceFromUrl(raw, crawl, attempt + 1);
         }
         setSourceAddStatus("failed");
         setTimeout(() => setSourceAddStatus("idle"), 3000);
@@ -1173,6 +1296,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
             fileUrl: source.fileUrl,
             youtubeUrl: source.youtubeUrl,
             websiteUrl: source.websiteUrl,
+            parentSourceId: source.parentSourceId,
             videoId: source.videoId,
             aiGeneratedTranscript: source.aiGeneratedTranscript,
             transcriptSource: source.transcriptSource,
@@ -1180,6 +1304,8 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
             translatedToEnglish: source.translatedToEnglish,
             chunkCount: source.chunkCount,
             errorMessage: source.errorMessage,
+            warningMessage: source.warningMessage,
+            contentHash: source.contentHash,
           });
         }
 
@@ -1187,14 +1313,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           await appendIndexedChunks(
             user.uid,
             strategyId,
-            payload.chunks.map((chunk) => ({
-              sourceId: chunk.sourceId,
-              text: chunk.text,
-              sourceType: chunk.sourceType,
-              sourceName: chunk.sourceName,
-              sourceYear: chunk.sourceYear,
-              section: chunk.section,
-            })),
+            payload.chunks,
           );
         } catch (chunkError) {
           const chunkMessage = chunkError instanceof Error ? chunkError.message : "Index write failed";
@@ -1253,15 +1372,15 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       const isAbort = err instanceof Error && err.name === "AbortError";
       if (attempt < 1) {
         await new Promise((resolve) => setTimeout(resolve, 2000));
-        return handleAddSourceFromUrl(raw, attempt + 1);
+        return handleAddSourceFromUrl(raw, crawl, attempt + 1);
       }
       toast.error(
-        isYouTube ? "Could not process this video" : "Could not add source",
+        isPlaylist ? "Could not process this playlist" : isYouTube ? "Could not process this video" : "Could not add source",
         {
           id: youtubeProgressToastId,
           description: isAbort
             ? "Building study notes from video took too long. Please retry."
-            : (isYouTube
+            : (isYouTube && !isPlaylist
               ? "All processing methods failed for this video. Please try a different URL."
               : err instanceof Error
                 ? humanizeSourceError(err.message)
@@ -1271,7 +1390,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       setSourceAddStatus("failed");
       setTimeout(() => setSourceAddStatus("idle"), 3000);
     }
-  }, [contextFiles, strategyId, user]);
+  }, [contextFiles, getAuthHeaders, sources, strategyId, user]);
 
   const activeChapter = useMemo(() => {
     if (!strategy || !topic) {
@@ -1386,6 +1505,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       });
 
       if (!response.ok) {
+        void notifyIfQuotaExceeded(response);
         setQuickActions((current) => ({
           ...current,
           [action]: { ...current[action], loading: false, content: FALLBACK_MESSAGE, confidence: "low" },
@@ -1402,6 +1522,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           cacheHit: false,
           fallbackTriggered: data.routingMeta.fallbackTriggered,
           fallbackReason: data.routingMeta.fallbackReason,
+          usage: data.routingMeta.usage,
         });
       }
       setQuickActions((current) => ({
@@ -1510,6 +1631,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       });
 
       if (!response.ok) {
+        void notifyIfQuotaExceeded(response);
         setChatHistory((current) => [
           ...current,
           { id: `${Date.now()}-assistant`, role: "assistant", content: FALLBACK_MESSAGE, confidence: "low" },
@@ -1588,6 +1710,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           cacheHit: false,
           fallbackTriggered: finalData.routingMeta.fallbackTriggered,
           fallbackReason: finalData.routingMeta.fallbackReason,
+          usage: finalData.routingMeta.usage,
           usedVideoContext: Boolean(finalData.usedVideoContext),
         });
       }
@@ -1604,6 +1727,12 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           sourceName: citation.sourceName,
           sourceYear: citation.sourceYear,
           importanceLevel: citation.importanceLevel,
+          page: citation.page,
+          slide: citation.slide,
+          heading: citation.heading,
+          videoId: citation.videoId,
+          startSeconds: citation.startSeconds,
+          endSeconds: citation.endSeconds,
         })),
       });
     } finally {
@@ -1706,6 +1835,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       });
 
       if (!response.ok) {
+        void notifyIfQuotaExceeded(response);
         setLearnedItems((current) => ({
           ...current,
           [key]: { loading: false, error: "Unable to generate this learning block." },
@@ -1775,6 +1905,12 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
             sourceName: citation.sourceName,
             sourceYear: citation.sourceYear,
             importanceLevel: citation.importanceLevel,
+            page: citation.page,
+            slide: citation.slide,
+            heading: citation.heading,
+            videoId: citation.videoId,
+            startSeconds: citation.startSeconds,
+            endSeconds: citation.endSeconds,
           })),
         },
       });
@@ -1786,6 +1922,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           cacheHit: false,
           fallbackTriggered: finalContent.routingMeta.fallbackTriggered,
           fallbackReason: finalContent.routingMeta.fallbackReason,
+          usage: finalContent.routingMeta.usage,
         });
       }
       setLearnedItems((current) => ({
@@ -1827,6 +1964,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       });
 
       if (!response.ok) {
+        void notifyIfQuotaExceeded(response);
         setExamMode(null);
         return;
       }
@@ -1841,6 +1979,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           cacheHit: false,
           fallbackTriggered: data.routingMeta.fallbackTriggered,
           fallbackReason: data.routingMeta.fallbackReason,
+          usage: data.routingMeta.usage,
         });
       }
 
@@ -1886,6 +2025,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
       });
 
       if (!response.ok) {
+        void notifyIfQuotaExceeded(response);
         setMicroQuizzes((current) => ({
           ...current,
           [key]: { loading: false, error: "Unable to generate quiz from uploaded material." },
@@ -1902,6 +2042,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
           cacheHit: false,
           fallbackTriggered: data.routingMeta.fallbackTriggered,
           fallbackReason: data.routingMeta.fallbackReason,
+          usage: data.routingMeta.usage,
         });
       }
       setMicroQuizzes((current) => ({
@@ -2097,7 +2238,7 @@ function StudyTopicContent({ topicSlug }: { topicSlug: string }) {
                                 <div className="flex flex-wrap gap-2 pt-1">
                                   {learned.content.citations.slice(0, 3).map((source, sourceIndex) => (
                                     <Badge key={`${source.sourceName}-${sourceIndex}`} className="bg-white/10 text-white border-none text-[11px] rounded-xl whitespace-normal h-auto">
-                                      {source.sourceType} — {source.sourceName}
+                                      {source.sourceType} — {formatCitationLabel(source)}
                                       {source.sourceYear ? ` (${source.sourceYear})` : ""}
                                     </Badge>
                                   ))}
@@ -1,9 +1,16 @@
 "use client";
 
 import { AnimatePresence, motion } from "framer-motion";
-import { FileText, Trash2 } from "lucide-react";
+import { FileText, ImageIcon, Trash2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
+import { RECORDING_MIME_TYPES, SUPPORTED_EXTENSIONS } from "@/lib/parsing/file-types";
+
+// Mobile pickers filter recordings by MIME type rather than by extension.
+const ACCEPTED_FILE_TYPES = [
+  ...[...SUPPORTED_EXTENSIONS].map((extension) => `.${extension}`),
+  ...new Set(Object.values(RECORDING_MIME_TYPES)),
+].join(",");
 
 type FileUploadGroupProps = {
   title: string;
@@ -37,7 +44,7 @@ export function FileUploadGroup({
         id={inputId}
         type="file"
         multiple
-        accept=".pdf,.docx,.ppt,.pptx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.ms-powerpoint,application/vnd.openxmlformats-officedocument.presentationml.presentation"
+        accept={ACCEPTED_FILE_TYPES}
         onChange={(event) => {
           const selected = Array.from(event.target.files ?? []);
           if (selected.length) {
@@ -73,7 +80,11 @@ export function FileUploadGroup({
                 className="flex items-center justify-between rounded-xl border border-white/10 bg-black/25 px-3 py-2"
               >
                 <div className="flex items-center gap-2 min-w-0">
-                  <FileText className="w-4 h-4 text-neutral-400 shrink-0" />
+                  {file.type.startsWith("image/") ? (
+                    <ImageIcon className="w-4 h-4 text-neutral-400 shrink-0" />
+                  ) : (
+                    <FileText className="w-4 h-4 text-neutral-400 shrink-0" />
+                  )}
                   <span className="text-xs text-neutral-200 truncate">{file.name}</span>
                 </div>
                 <Button
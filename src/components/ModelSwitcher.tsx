@@ -1,5 +1,6 @@
 "use client";
 
+import { MODEL_PROVIDER_OPTIONS, MODEL_TYPES, ProviderConfigField } from "@/lib/ai/providers/catalog";
 import { ModelType, CustomProviderConfig } from "@/lib/ai/types";
 
 type ModelSwitcherProps = {
@@ -15,68 +16,56 @@ export function ModelSwitcher({
   onModelTypeChange,
   onCustomConfigChange,
 }: ModelSwitcherProps) {
+  const selected = MODEL_PROVIDER_OPTIONS[modelType];
+  const fields = Object.entries(selected.fields) as [ProviderConfigField, NonNullable<(typeof selected.fields)[ProviderConfigField]>][];
+
   return (
     <div className="space-y-4">
       <label className="text-sm text-neutral-300 font-medium">Model Provider</label>
-      <div className="grid grid-cols-2 gap-3">
-        <button
-          type="button"
-          onClick={() => onModelTypeChange("gemini")}
-          className={`rounded-2xl border px-4 py-3 text-sm transition-all ${
-            modelType === "gemini"
-              ? "border-indigo-400/60 bg-indigo-500/20 text-white"
-              : "border-white/10 bg-white/5 text-neutral-300 hover:bg-white/10"
-          }`}
-        >
-          Gemini (default)
-        </button>
-        <button
-          type="button"
-          onClick={() => onModelTypeChange("custom")}
-          className={`rounded-2xl border px-4 py-3 text-sm transition-all ${
-            modelType === "custom"
-              ? "border-indigo-400/60 bg-indigo-500/20 text-white"
-              : "border-white/10 bg-white/5 text-neutral-300 hover:bg-white/10"
-          }`}
-        >
-          Custom Model
-        </button>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {MODEL_TYPES.map((id) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onModelTypeChange(id)}
+            className={`rounded-2xl border px-4 py-3 text-sm transition-all ${
+              modelType === id
+                ? "border-indigo-400/60 bg-indigo-500/20 text-white"
+                : "border-white/10 bg-white/5 text-neutral-300 hover:bg-white/10"
+            }`}
+          >
+            {id === "gemini" ? `${MODEL_PROVIDER_OPTIONS[id].label} (default)` : MODEL_PROVIDER_OPTIONS[id].label}
+          </button>
+        ))}
       </div>
+      <p className="text-xs text-neutral-400">{selected.description}</p>
 
-      {modelType === "custom" ? (
+      {fields.length ? (
         <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+          {fields.map(([field, spec]) => (
+            <div key={field} className="space-y-2">
+              <label className="text-xs text-neutral-400">{spec.label}</label>
+              <input
+                type={spec.secret ? "password" : "text"}
+                value={customConfig[field] ?? ""}
+                onChange={(event) =>
+                  onCustomConfigChange({ ...customConfig, [field]: event.target.value })
+                }
+                placeholder={spec.placeholder}
+                className="h-11 w-full rounded-xl border border-white/10 bg-black/30 px-3 text-sm text-white outline-none transition focus:border-indigo-400/60"
+              />
+            </div>
+          ))}
           <div className="space-y-2">
-            <label className="text-xs text-neutral-400">Base URL</label>
-            <input
-              value={customConfig.baseUrl}
-              onChange={(event) =>
-                onCustomConfigChange({ ...customConfig, baseUrl: event.target.value })
-              }
-              placeholder="https://openrouter.ai/api/v1"
-              className="h-11 w-full rounded-xl border border-white/10 bg-black/30 px-3 text-sm text-white outline-none transition focus:border-indigo-400/60"
-            />
-          </div>
-          <div className="space-y-2">
-            <label className="text-xs text-neutral-400">API Key</label>
-            <input
-              type="password"
-              value={customConfig.apiKey}
-              onChange={(event) =>
-                onCustomConfigChange({ ...customConfig, apiKey: event.target.value })
-              }
-              placeholder="sk-..."
-              className="h-11 w-full rounded-xl border border-white/10 bg-black/30 px-3 text-sm text-white outline-none transition focus:border-indigo-400/60"
-            />
-          </div>
-          <div className="space-y-2">
-            <label className="text-xs text-neutral-400">Model Name</label>
-            <input
-              value={customConfig.modelName}
+            <label className="text-xs text-neutral-400">System prompt (optional)</label>
+            <textarea
+              value={customConfig.systemPrompt ?? ""}
               onChange={(event) =>
-                onCustomConfigChange({ ...customConfig, modelName: event.target.value })
+                onCustomConfigChange({ ...customConfig, systemPrompt: event.target.value })
               }
-              placeholder="openai/gpt-4o-mini"
-              className="h-11 w-full rounded-xl border border-white/10 bg-black/30 px-3 text-sm text-white outline-none transition focus:border-indigo-400/60"
+              placeholder="Leave blank to use the built-in study assistant prompt"
+              rows={2}
+              className="w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none transition focus:border-indigo-400/60"
             />
           </div>
         </div>
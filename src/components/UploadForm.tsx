@@ -1,8 +1,9 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { getDownloadURL, ref, uploadBytesResumable } from "firebase/storage";
+import { toast } from "sonner";
 
 import { useAuth } from "@/components/AuthProvider";
 import { FileUploadGroup } from "@/components/FileUploadGroup";
@@ -10,16 +11,18 @@ import { ModelSwitcher } from "@/components/ModelSwitcher";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CustomProviderConfig, FileCategory, ModelType, StrategyResult, UploadedFile } from "@/lib/ai/types";
-import { FAST_MODEL } from "@/lib/ai/modelRouter";
+import { createEmptyProviderConfig, FAST_MODEL, missingProviderFields } from "@/lib/ai/providers/catalog";
 import { getFirebaseStorage } from "@/lib/firebase";
-import { replaceIndexedChunks } from "@/lib/firestore/chunks";
+import { IndexedChunk, replaceIndexedChunks } from "@/lib/firestore/chunks";
 import { upsertStudySource } from "@/lib/firestore/sources";
 import { createStrategy, saveStudyTopicCache } from "@/lib/firestore/strategies";
+import { getUserPreferences } from "@/lib/firestore/user-preferences";
 import {
   createStudySession,
   saveStudyAnswerCacheToSession,
   saveTopicCacheToSession,
 } from "@/lib/firestore/study-sessions";
+import { IMAGE_EXTENSIONS, SUPPORTED_EXTENSIONS, SUPPORTED_FORMATS_LABEL } from "@/lib/parsing/file-types";
 import { isFallbackLikeLearnPayload, isFallbackLikeTopicPayload } from "@/lib/study/fallback-detection";
 
 type GenerateStrategyApiResponse = {
@@ -54,13 +57,14 @@ type StrategyJobStatusApiResponse = {
 
 type IndexedSourceApiRecord = {
   id: string;
-  type: "pdf" | "ppt" | "docx" | "text" | "youtube" | "url";
+  type: "pdf" | "ppt" | "docx" | "image" | "markdown" | "epub" | "html" | "text" | "recording" | "youtube" | "url";
   title: string;
   status: "indexed" | "error";
   enabled: boolean;
   fileUrl?: string;
   youtubeUrl?: string;
   websiteUrl?: string;
+  parentSourceId?: string;
   videoId?: string;
   aiGeneratedTranscript?: boolean;
   transcriptSource?: "captions" | "ai-reconstructed";
@@ -68,21 +72,19 @@ type IndexedSourceApiRecord = {
   translatedToEnglish?: boolean;
   chunkCount: number;
   errorMessage?: string;
+  warningMessage?: string;
+  contentHash?: string;
 };
 
 type SourceIndexResponse = {
   sources: IndexedSourceApiRecord[];
-  chunks: Array<{
-    sourceId: string;
-    text: string;
-    sourceType: "Previous Paper" | "Question Bank" | "Study Material" | "Syllabus Derived";
-    sourceName: string;
-    sourceYear?: string;
-    section: string;
-  }>;
+  chunks: IndexedChunk[];
+  /** Uploads whose content matched another upload in the same batch; they were not indexed twice. */
+  duplicates?: Array<{ title: string; duplicateOfSourceId: string; duplicateOfTitle: string }>;
 };
 
-const SUPPORTED_EXTENSIONS = new Set(["pdf", "docx", "ppt", "pptx"]);
+// Photos picked in one selection are pages of the same notes or paper.
+const photoBatchIds = new WeakMap<File, string>();
 
 type ProgressStage =
   | "idle"
@@ -120,6 +122,15 @@ function getFileExtension(fileName: string): string {
   return pieces.length > 1 ? pieces[pieces.length - 1].toLowerCase() : "";
 }
 
+function tagPhotoBatch(files: File[]): File[] {
+  const photos = files.filter((file) => IMAGE_EXTENSIONS.has(getFileExtension(file.name)));
+  if (photos.length > 1) {
+    const batchId = `photos-${Date.now()}`;
+    photos.forEach((photo) => photoBatchIds.set(photo, batchId));
+  }
+  return files;
+}
+
 function ensureSupportedFiles(files: File[]): string[] {
   return files
     .filter((file) => !SUPPORTED_EXTENSIONS.has(getFileExtension(file.name)))
@@ -170,6 +181,7 @@ async function uploadSingleFile(
   });
 
   const url = await getDownloadURL(fileRef);
+  const batchId = photoBatchIds.get(file);
 
   return {
     name: file.name,
@@ -177,6 +189,7 @@ async function uploadSingleFile(
     url,
     extension,
     category,
+    ...(batchId ? { batchId } : {}),
   };
 }
 
@@ -217,17 +230,31 @@ export function UploadForm() {
   const [youtubeUrlsInput, setYoutubeUrlsInput] = useState("");
 
   const [modelType, setModelType] = useState<ModelType>("gemini");
-  const [customConfig, setCustomConfig] = useState<CustomProviderConfig>({
-    baseUrl: "",
-    apiKey: "",
-    modelName: "",
-  });
+  const [customConfig, setCustomConfig] = useState<CustomProviderConfig>(createEmptyProviderConfig);
 
   const [loading, setLoading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [progressStage, setProgressStage] = useState<ProgressStage>("idle");
   const [error, setError] = useState<string | null>(null);
 
+  // Start from the provider chosen in settings; the user can still switch per upload.
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+    let cancelled = false;
+    getUserPreferences(user.uid)
+      .then((preferences) => {
+        if (!cancelled) {
+          setModelType(preferences.defaultModelType);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
   const uploadStep = useMemo(() => {
     const hasSyllabus = syllabusFiles.length > 0 || syllabusTextInput.trim().length > 0;
     const hasStudyMaterial = studyMaterialFiles.length > 0;
@@ -276,15 +303,14 @@ export function UploadForm() {
       ...previousPaperFiles,
     ]);
     if (invalid.length) {
-      setError(`Unsupported format found: ${invalid.join(", ")}. Supported: PDF, DOCX, PPT, PPTX.`);
+      setError(`Unsupported format found: ${invalid.join(", ")}. Supported: ${SUPPORTED_FORMATS_LABEL}.`);
       return;
     }
 
-    if (modelType === "custom") {
-      if (!customConfig.baseUrl || !customConfig.apiKey || !customConfig.modelName) {
-        setError("Please fill all custom model fields.");
-        return;
-      }
+    const missingModelFields = missingProviderFields(modelType, customConfig);
+    if (missingModelFields.length) {
+      setError(`Please fill the model fields: ${missingModelFields.join(", ")}.`);
+      return;
     }
 
     setLoading(true);
@@ -343,18 +369,18 @@ export function UploadForm() {
       setProgressStage("strategy");
       await animateProgressTo(72, 450);
 
+      const jobHeaders = { "Content-Type": "application/json", Authorization: `Bearer ${await user.getIdToken()}` };
       const jobResponse = await fetch("/api/generate-strategy/jobs", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: jobHeaders,
         body: JSON.stringify({
-          userId: user.uid,
           hoursLeft,
           syllabusFiles: uploadedSyllabus,
           syllabusTextInput: normalizedSyllabusText,
           studyMaterialFiles: uploadedMaterial,
           previousPaperFiles: uploadedPrevious,
           modelType,
-          modelConfig: modelType === "custom" ? customConfig : null,
+          modelConfig: modelType !== "gemini" ? customConfig : null,
         }),
       });
 
@@ -372,10 +398,10 @@ export function UploadForm() {
 
       for (let attempt = 0; attempt < 180; attempt += 1) {
         const statusResponse = await fetch(
-          `/api/generate-strategy/jobs?id=${encodeURIComponent(createdJob.jobId)}&userId=${encodeURIComponent(user.uid)}`,
+          `/api/generate-strategy/jobs?id=${encodeURIComponent(createdJob.jobId)}`,
           {
             method: "GET",
-            headers: { "Content-Type": "application/json" },
+            headers: jobHeaders,
             cache: "no-store",
           }
         );
@@ -457,7 +483,7 @@ export function UploadForm() {
       try {
         const sourceIndexResponse = await fetch("/api/sources/index", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${await user.getIdToken()}` },
           body: JSON.stringify({
             files: [...uploadedSyllabus, ...uploadedMaterial, ...uploadedPrevious],
             syllabusTextInput: normalizedSyllabusText,
@@ -467,6 +493,11 @@ export function UploadForm() {
 
         if (sourceIndexResponse.ok) {
           const indexedPayload = (await sourceIndexResponse.json()) as SourceIndexResponse;
+          for (const duplicate of indexedPayload.duplicates ?? []) {
+            toast.message("Duplicate upload skipped", {
+              description: `"${duplicate.title}" has the same content as "${duplicate.duplicateOfTitle}", so it was indexed once.`,
+            });
+          }
 
           for (const source of indexedPayload.sources) {
             await upsertStudySource(user.uid, strategyId, {
@@ -478,6 +509,7 @@ export function UploadForm() {
               fileUrl: source.fileUrl,
               youtubeUrl: source.youtubeUrl,
               websiteUrl: source.websiteUrl,
+              parentSourceId: source.parentSourceId,
               videoId: source.videoId,
               aiGeneratedTranscript: source.aiGeneratedTranscript,
               transcriptSource: source.transcriptSource,
@@ -485,20 +517,15 @@ export function UploadForm() {
               translatedToEnglish: source.translatedToEnglish,
               chunkCount: source.chunkCount,
               errorMessage: source.errorMessage,
+              warningMessage: source.warningMessage,
+              contentHash: source.contentHash,
             });
           }
 
           await replaceIndexedChunks(
             user.uid,
             strategyId,
-            indexedPayload.chunks.map((chunk) => ({
-              sourceId: chunk.sourceId,
-              text: chunk.text,
-              sourceType: chunk.sourceType,
-              sourceName: chunk.sourceName,
-              sourceYear: chunk.sourceYear,
-              section: chunk.section,
-            })),
+            indexedPayload.chunks,
           );
         }
       } catch {
@@ -646,9 +673,9 @@ export function UploadForm() {
       setProgressStage("done");
 
       const studyModelContext =
-        modelType === "custom"
+        modelType !== "gemini"
           ? {
-              modelType: "custom" as const,
+              modelType,
               modelConfig: customConfig,
             }
           : {
@@ -712,10 +739,10 @@ export function UploadForm() {
       <CardContent className="space-y-6">
         <FileUploadGroup
           title="Syllabus Files"
-          helperText="Supported: PDF, DOCX, PPT, PPTX"
+          helperText={`Supported: ${SUPPORTED_FORMATS_LABEL}`}
           files={syllabusFiles}
           required
-          onFilesAdd={(files) => setSyllabusFiles((current) => [...current, ...files])}
+          onFilesAdd={(files) => setSyllabusFiles((current) => [...current, ...tagPhotoBatch(files)])}
           onFileRemove={(index) =>
             setSyllabusFiles((current) => current.filter((_, itemIndex) => itemIndex !== index))
           }
@@ -737,10 +764,10 @@ export function UploadForm() {
 
         <FileUploadGroup
           title="Study Material Files"
-          helperText="Supported: PDF, DOCX, PPT, PPTX"
+          helperText={`Supported: ${SUPPORTED_FORMATS_LABEL}`}
           files={studyMaterialFiles}
           required
-          onFilesAdd={(files) => setStudyMaterialFiles((current) => [...current, ...files])}
+          onFilesAdd={(files) => setStudyMaterialFiles((current) => [...current, ...tagPhotoBatch(files)])}
           onFileRemove={(index) =>
             setStudyMaterialFiles((current) =>
               current.filter((_, itemIndex) => itemIndex !== index)
@@ -750,9 +777,9 @@ export function UploadForm() {
 
         <FileUploadGroup
           title="Previous Year Papers (Optional)"
-          helperText="Supported: PDF, DOCX, PPT, PPTX"
+          helperText={`Supported: ${SUPPORTED_FORMATS_LABEL}`}
           files={previousPaperFiles}
-          onFilesAdd={(files) => setPreviousPaperFiles((current) => [...current, ...files])}
+          onFilesAdd={(files) => setPreviousPaperFiles((current) => [...current, ...tagPhotoBatch(files)])}
           onFileRemove={(index) =>
             setPreviousPaperFiles((current) =>
               current.filter((_, itemIndex) => itemIndex !== index)
@@ -8,7 +8,7 @@ import { AIInputWithLoading } from "@/components/ui/ai-input-with-loading";
 import { AnimatedGlowingBorder } from "@/components/ui/animated-glowing-search-bar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { SourceCitation, TopicConfidence } from "@/lib/ai/types";
+import { SourceCitation, TopicConfidence, citationHref, formatCitationLabel } from "@/lib/ai/types";
 
 type ChatMessage = {
   id: string;
@@ -45,15 +45,33 @@ function ChatMessageList({
             <MarkdownRenderer content={message.content} />
             {showAssistantMeta && message.role === "assistant" && message.citations?.length ? (
               <div className="mt-2 flex flex-wrap gap-1">
-                {message.citations.slice(0, 3).map((citation, index) => (
-                  <span
-                    key={`${citation.sourceName}-${index}`}
-                    className="text-[10px] rounded-xl bg-white/10 px-2 py-1 text-neutral-300 leading-snug"
-                  >
-                    {citation.sourceType}: {citation.sourceName}
-                    {citation.sourceYear ? ` (${citation.sourceYear})` : ""}
-                  </span>
-                ))}
+                {message.citations.slice(0, 3).map((citation, index) => {
+                  const href = citationHref(citation);
+                  const label = (
+                    <>
+                      {citation.sourceType}: {formatCitationLabel(citation)}
+                      {citation.sourceYear ? ` (${citation.sourceYear})` : ""}
+                    </>
+                  );
+                  return href ? (
+                    <a
+                      key={`${citation.sourceName}-${index}`}
+                      href={href}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-[10px] rounded-xl bg-violet-500/15 px-2 py-1 text-violet-200 leading-snug hover:bg-violet-500/25"
+                    >
+                      ▶ {label}
+                    </a>
+                  ) : (
+                    <span
+                      key={`${citation.sourceName}-${index}`}
+                      className="text-[10px] rounded-xl bg-white/10 px-2 py-1 text-neutral-300 leading-snug"
+                    >
+                      {label}
+                    </span>
+                  );
+                })}
                 {message.usedVideoContext ? (
                   <span className="text-[10px] rounded-xl bg-violet-500/20 px-2 py-1 text-violet-200 leading-snug">
                     Used video explanation
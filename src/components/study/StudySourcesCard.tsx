@@ -1,15 +1,17 @@
 "use client";
 
-import { memo, useState } from "react";
+import { memo, useMemo, useState } from "react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StudySourceRecord } from "@/lib/firestore/sources";
+import { CRAWL_LIMITS, DEFAULT_CRAWL_OPTIONS, normalizeCrawlOptions, WebsiteCrawlOptions } from "@/lib/parsing/crawl-options";
 
 type SourceAddStatus =
   | "idle"
   | "validating"
   | "fetching"
+  | "crawling"
   | "fetching-transcript"
   | "fetching-metadata"
   | "ai-reconstruction"
@@ -23,6 +25,11 @@ const TYPE_ICON: Record<string, string> = {
   pdf: "📄",
   ppt: "📊",
   docx: "📊",
+  image: "📷",
+  markdown: "🗒️",
+  epub: "📚",
+  html: "🧾",
+  recording: "🎙️",
   youtube: "🎥",
   url: "🌐",
   text: "📝",
@@ -32,6 +39,7 @@ const ADD_STATUS_LABEL: Record<SourceAddStatus, string> = {
   idle: "Add Source",
   validating: "Validating…",
   fetching: "Fetching…",
+  crawling: "Crawling site…",
   "fetching-transcript": "Fetching transcript…",
   "fetching-metadata": "Analyzing video…",
   "ai-reconstruction": "AI reconstruction…",
@@ -79,6 +87,7 @@ function SourceListItem({
             <p className="text-[11px] text-cyan-300">🌐 Hindi → English</p>
           ) : null}
           {source.errorMessage ? <p className="text-[11px] text-amber-300">{source.errorMessage}</p> : null}
+          {source.warningMessage ? <p className="text-[11px] text-neutral-400">⚠ {source.warningMessage}</p> : null}
         </div>
         <div className="flex items-center gap-2">
           <Button
@@ -114,17 +123,42 @@ function StudySourcesCardComponent({
 }: {
   sources: StudySourceRecord[];
   addStatus: SourceAddStatus;
-  onAddSource: (url: string) => void;
+  onAddSource: (url: string, crawl?: WebsiteCrawlOptions) => void;
   onToggleSource: (sourceId: string, enabled: boolean) => void;
   onRemoveSource: (sourceId: string) => void;
 }) {
   const [localUrl, setLocalUrl] = useState("");
+  const [crawlEnabled, setCrawlEnabled] = useState(false);
+  const [crawlDepth, setCrawlDepth] = useState(DEFAULT_CRAWL_OPTIONS.maxDepth);
+  const [crawlPages, setCrawlPages] = useState(DEFAULT_CRAWL_OPTIONS.maxPages);
+  const [crawlInclude, setCrawlInclude] = useState("");
+  const [crawlExclude, setCrawlExclude] = useState("");
   const isBusy = addStatus !== "idle" && addStatus !== "completed" && addStatus !== "failed";
+  const trimmedUrl = localUrl.trim();
+  const isWebsiteUrl = /^https?:\/\//i.test(trimmedUrl) && !/youtube\.com|youtu\.be/i.test(trimmedUrl);
+
+  // Pages of a crawled website are listed under their parent site.
+  const { topLevel, childrenByParent } = useMemo(() => {
+    const ids = new Set(sources.map((source) => source.id));
+    const children = new Map<string, StudySourceRecord[]>();
+    for (const source of sources) {
+      if (source.parentSourceId && ids.has(source.parentSourceId)) {
+        children.set(source.parentSourceId, [...(children.get(source.parentSourceId) ?? []), source]);
+      }
+    }
+    return {
+      topLevel: sources.filter((source) => !source.parentSourceId || !ids.has(source.parentSourceId)),
+      childrenByParent: children,
+    };
+  }, [sources]);
 
   function handleSubmit() {
-    const trimmed = localUrl.trim();
-    if (!trimmed || isBusy) return;
-    onAddSource(trimmed);
+    if (!trimmedUrl || isBusy) return;
+    const crawl =
+      crawlEnabled && isWebsiteUrl
+        ? normalizeCrawlOptions({ maxDepth: crawlDepth, maxPages: crawlPages, include: crawlInclude.split(","), exclude: crawlExclude.split(",") })
+        : undefined;
+    onAddSource(trimmedUrl, crawl);
     setLocalUrl("");
   }
 
@@ -153,15 +187,75 @@ function StudySourcesCardComponent({
           </Button>
         </div>
 
+        {isWebsiteUrl ? (
+          <div className="space-y-2 rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-xs text-neutral-300">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={crawlEnabled} onChange={(event) => setCrawlEnabled(event.target.checked)} />
+              Also index linked pages on this site
+            </label>
+            {crawlEnabled ? (
+              <div className="grid gap-2 md:grid-cols-2">
+                <label className="flex items-center justify-between gap-2">
+                  Link depth
+                  <input
+                    type="number"
+                    min={0}
+                    max={CRAWL_LIMITS.maxDepth}
+                    value={crawlDepth}
+                    onChange={(event) => setCrawlDepth(Number(event.target.value))}
+                    className="h-8 w-16 rounded-lg border border-white/10 bg-black/25 px-2 text-white outline-none"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                  Max pages
+                  <input
+                    type="number"
+                    min={1}
+                    max={CRAWL_LIMITS.maxPages}
+                    value={crawlPages}
+                    onChange={(event) => setCrawlPages(Number(event.target.value))}
+                    className="h-8 w-16 rounded-lg border border-white/10 bg-black/25 px-2 text-white outline-none"
+                  />
+                </label>
+                <input
+                  value={crawlInclude}
+                  onChange={(event) => setCrawlInclude(event.target.value)}
+                  placeholder="Only paths, e.g. /notes/, /unit-*"
+                  className="h-8 rounded-lg border border-white/10 bg-black/25 px-2 text-white outline-none"
+                />
+                <input
+                  value={crawlExclude}
+                  onChange={(event) => setCrawlExclude(event.target.value)}
+                  placeholder="Skip paths, e.g. /blog/"
+                  className="h-8 rounded-lg border border-white/10 bg-black/25 px-2 text-white outline-none"
+                />
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
         {sources.length ? (
           <div className="space-y-2">
-            {sources.map((source) => (
-              <SourceListItem
-                key={source.id}
-                source={source}
-                onToggle={onToggleSource}
-                onRemove={onRemoveSource}
-              />
+            {topLevel.map((source) => (
+              <div key={source.id} className="space-y-2">
+                <SourceListItem
+                  source={source}
+                  onToggle={onToggleSource}
+                  onRemove={onRemoveSource}
+                />
+                {childrenByParent.has(source.id) ? (
+                  <div className="ml-4 space-y-2 border-l border-white/10 pl-3">
+                    {childrenByParent.get(source.id)?.map((child) => (
+                      <SourceListItem
+                        key={child.id}
+                        source={child}
+                        onToggle={onToggleSource}
+                        onRemove={onRemoveSource}
+                      />
+                    ))}
+                  </div>
+                ) : null}
+              </div>
             ))}
           </div>
         ) : (
@@ -1,12 +1,20 @@
-import { generateWithModelRouter } from "@/lib/ai/modelRouter";
+import {
+  generateStructuredWithModelRouter,
+  ModelRouterGenerationError,
+  StructuredOutputError,
+} from "@/lib/ai/modelRouter";
+import { STRATEGY_RESPONSE_SCHEMA, StrategyResponse } from "@/lib/ai/response-schemas";
 import {
   GenerateStrategyInput,
   ModelConfig,
   StrategyResult,
   StrategyResultV1,
+  StudyTopic,
   normalizeStrategyResult,
 } from "@/lib/ai/types";
 
+const MAX_PROMPT_EXAM_QUESTIONS = 40;
+
 function compactTextForPrompt(text: string, maxChars: number): string {
   const normalized = text.trim();
   if (!normalized) {
@@ -39,6 +47,23 @@ function buildPrompt(input: GenerateStrategyInput): string {
         .join(", ")
     : "No repeated topics detected from previous papers.";
 
+  const questionClusters = input.examIntelligence.questionClusters ?? [];
+  const examQuestionsText = questionClusters.length
+    ? questionClusters
+        .slice(0, MAX_PROMPT_EXAM_QUESTIONS)
+        .map((cluster) => {
+          const details = [
+            cluster.years.length ? `asked in ${cluster.years.join(", ")}` : undefined,
+            cluster.paperCount > 1 ? `${cluster.paperCount} papers` : undefined,
+            cluster.averageMarks ? `avg ${cluster.averageMarks} marks` : undefined,
+          ]
+            .filter(Boolean)
+            .join(", ");
+          return `- ${cluster.canonicalText.slice(0, 220)}${details ? ` (${details})` : ""}`;
+        })
+        .join("\n")
+    : "No individual questions could be extracted from previous papers.";
+
   const chapterHintsText = input.chapterHints.length
     ? input.chapterHints
         .map((chapter) => {
@@ -68,6 +93,7 @@ function buildPrompt(input: GenerateStrategyInput): string {
     `Previous paper extracted text:\n${previousPaperSnippet}`,
     `Detected chapter hints:\n${chapterHintsText}`,
     `Repeated topics from previous papers: ${repeatedTopicsText}`,
+    `Questions asked in previous papers (repeated questions first):\n${examQuestionsText}`,
     `Parser warnings: ${input.fileWarnings.join(" | ") || "None"}`,
     "Priority logic MUST consider chapter weightage (if available), syllabus emphasis, material coverage, and exam time available.",
     "Map every topic to a chapter using chapterNumber + chapterTitle.",
@@ -76,39 +102,49 @@ function buildPrompt(input: GenerateStrategyInput): string {
   ].join("\n");
 }
 
-function parseStrategyResult(raw: string): StrategyResult {
-  const cleaned = raw.trim().replace(/^```json\s*/i, "").replace(/```$/, "").trim();
-
-  const candidate = cleaned.match(/\{[\s\S]*\}/)?.[0] ?? cleaned;
-  let parsed: Partial<StrategyResult>;
-  try {
-    parsed = JSON.parse(candidate) as Partial<StrategyResult>;
-  } catch {
-    throw new Error("Model returned invalid strategy format");
-  }
-
-  const partial = normalizeStrategyResult(
-    parsed as StrategyResult,
-    parsed.strategySummary?.hoursLeft ?? 0,
-    parsed.modelUsed ?? "Unknown"
-  );
+type StrategyTopicResponse = StrategyResponse["topics"][number];
 
+function toStudyTopic(topic: StrategyTopicResponse): StudyTopic {
   return {
+    slug: topic.slug,
+    title: topic.title,
+    priority: topic.priority,
+    estimatedTime: topic.estimatedTime,
+    whatToLearn: topic.whatToLearn,
+    explanation: topic.explanation,
+    keyExamPoints: topic.keyExamPoints,
+    confidence: topic.confidence,
+    chapterNumber: topic.chapterNumber,
+    chapterTitle: topic.chapterTitle,
+  };
+}
+
+function toStrategyResult(parsed: StrategyResponse): StrategyResult {
+  const strategy: StrategyResult = {
     strategySummary: {
-      hoursLeft: partial.strategySummary.hoursLeft,
-      estimatedCoverage: partial.strategySummary.estimatedCoverage,
-      highImpactTopics: partial.strategySummary.highImpactTopics,
+      hoursLeft: parsed.strategySummary.hoursLeft,
+      estimatedCoverage: parsed.strategySummary.estimatedCoverage,
+      highImpactTopics: parsed.strategySummary.highImpactTopics,
     },
-    highPriority: partial.highPriority,
-    mediumPriority: partial.mediumPriority,
-    lowPriority: partial.lowPriority,
-    studyOrder: partial.studyOrder,
-    reasoning: partial.reasoning,
-    topics: partial.topics,
-    chapters: partial.chapters,
-    modelUsed: partial.modelUsed,
-    efficiencyScore: partial.efficiencyScore,
+    highPriority: parsed.highPriority,
+    mediumPriority: parsed.mediumPriority,
+    lowPriority: parsed.lowPriority,
+    studyOrder: parsed.studyOrder,
+    reasoning: parsed.reasoning,
+    topics: parsed.topics.map(toStudyTopic),
+    chapters: parsed.chapters.map((chapter) => ({
+      chapterNumber: chapter.chapterNumber,
+      chapterTitle: chapter.chapterTitle,
+      weightage: chapter.weightage,
+      priority: chapter.priority,
+      estimatedTime: chapter.estimatedTime,
+      topics: chapter.topics.map(toStudyTopic),
+    })),
+    modelUsed: parsed.modelUsed,
+    efficiencyScore: parsed.efficiencyScore,
   };
+
+  return normalizeStrategyResult(strategy, parsed.strategySummary.hoursLeft, parsed.modelUsed || "Unknown");
 }
 
 function parseNumericWeightage(weightage?: string): number {
@@ -176,75 +212,38 @@ function buildFallbackStrategy(input: GenerateStrategyInput): StrategyResult {
   return normalizeStrategyResult(fallbackV1, input.hoursLeft, "fallback-planner");
 }
 
-function buildRepairPrompt(input: GenerateStrategyInput, invalidOutput: string): string {
-  return [
-    "Return ONLY valid JSON. No markdown, no explanation, no prose.",
-    "Use this exact schema:",
-    "strategySummary: { hoursLeft: number, estimatedCoverage: string, highImpactTopics: number }",
-    "chapters: Array<{ chapterNumber: number, chapterTitle: string, weightage?: string, priority: 'high' | 'medium' | 'low', estimatedTime: string, topics: Array<{ slug: string, title: string, priority: 'high' | 'medium' | 'low', estimatedTime: string, whatToLearn: string[], explanation: string, keyExamPoints: string[], confidence: 'high' | 'medium' | 'low', chapterNumber: number, chapterTitle: string }> }>",
-    "highPriority: string[]",
-    "mediumPriority: string[]",
-    "lowPriority: string[]",
-    "studyOrder: string[]",
-    "reasoning: string[]",
-    "topics: Array<{ slug: string, title: string, priority: 'high' | 'medium' | 'low', estimatedTime: string, whatToLearn: string[], explanation: string, keyExamPoints: string[], confidence: 'high' | 'medium' | 'low' }>",
-    "modelUsed: string",
-    "efficiencyScore: string",
-    "",
-    `Hours left: ${input.hoursLeft}`,
-    "Invalid output to repair:",
-    invalidOutput,
-  ].join("\n");
-}
-
 export async function generateStrategy(
   input: GenerateStrategyInput,
   modelConfig: ModelConfig
 ): Promise<StrategyResult> {
-  const prompt = buildPrompt(input);
-  const routed = await generateWithModelRouter({
-    prompt,
-    taskType: "strategy_generation",
-    modelConfig,
-    complexityScore: 0.45,
-    qualitySignals: {
-      requiresJson: true,
-      minChars: 180,
-    },
-  });
-  try {
-    const parsed = parseStrategyResult(routed.text);
-    return {
-      ...parsed,
-      modelUsed: routed.meta.modelUsed,
-    };
-  } catch (parseError) {
-    console.warn("[ai-client] strategy JSON parse failed, attempting repair", {
-      message: parseError instanceof Error ? parseError.message : "unknown",
-    });
-  }
-
   try {
-    const repaired = await generateWithModelRouter({
-      prompt: buildRepairPrompt(input, routed.text),
+    const routed = await generateStructuredWithModelRouter<StrategyResponse>({
+      prompt: buildPrompt(input),
       taskType: "strategy_generation",
       modelConfig,
-      complexityScore: 0.6,
+      complexityScore: 0.45,
+      responseSchema: STRATEGY_RESPONSE_SCHEMA,
       qualitySignals: {
-        requiresJson: true,
         minChars: 180,
       },
     });
-
-    const repairedParsed = parseStrategyResult(repaired.text);
     return {
-      ...repairedParsed,
-      modelUsed: repaired.meta.modelUsed,
+      ...toStrategyResult(routed.value),
+      modelUsed: routed.meta.modelUsed,
     };
-  } catch (repairError) {
-    console.warn("[ai-client] strategy repair failed, using fallback strategy", {
-      message: repairError instanceof Error ? repairError.message : "unknown",
-    });
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      console.warn("[ai-client] strategy output invalid after repair, using fallback strategy", {
+        errors: error.validationErrors.slice(0, 5),
+      });
+    } else if (error instanceof ModelRouterGenerationError) {
+      console.warn("[ai-client] strategy generation failed, using fallback strategy", {
+        code: error.code,
+        message: error.message,
+      });
+    } else {
+      throw error;
+    }
   }
 
   return buildFallbackStrategy(input);
@@ -0,0 +1,135 @@
+/**
+ * The JSON Schema subset used for structured model output. It covers every
+ * response shape the app asks models for, translates directly into Gemini's
+ * `responseSchema`, OpenAI's `response_format` and Ollama's `format`, and is
+ * small enough to validate here without a schema library.
+ *
+ * Objects are open: extra keys are ignored rather than rejected, since models
+ * add them freely and nothing reads them.
+ */
+
+export type JsonSchema =
+  | {
+      type: "object";
+      properties: Record<string, JsonSchema>;
+      required?: string[];
+      description?: string;
+    }
+  | { type: "array"; items: JsonSchema; minItems?: number; maxItems?: number; description?: string }
+  | { type: "string"; enum?: string[]; description?: string }
+  | { type: "number" | "integer"; minimum?: number; maximum?: number; description?: string }
+  | { type: "boolean"; description?: string };
+
+/** A named schema; providers that support native structured output need the name. */
+export type StructuredResponseSchema = {
+  name: string;
+  schema: JsonSchema;
+};
+
+const MAX_REPORTED_ERRORS = 12;
+
+/** Strips a Markdown fence and surrounding prose, leaving the outermost JSON object. */
+export function extractJsonCandidate(raw: string): string {
+  const cleaned = raw.trim().replace(/^```json\s*/i, "").replace(/```$/, "").trim();
+  return cleaned.match(/\{[\s\S]*\}/)?.[0] ?? cleaned;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function collectErrors(value: unknown, schema: JsonSchema, path: string, errors: string[]) {
+  if (errors.length >= MAX_REPORTED_ERRORS) {
+    return;
+  }
+
+  switch (schema.type) {
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        errors.push(`${path}: expected object, got ${describeValue(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key}: required property is missing`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined) {
+          collectErrors(record[key], propertySchema, `${path}.${key}`, errors);
+        }
+      }
+      return;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected array, got ${describeValue(value)}`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+      }
+      value.forEach((item, index) => collectErrors(item, schema.items, `${path}[${index}]`, errors));
+      return;
+    }
+    case "string": {
+      if (typeof value !== "string") {
+        errors.push(`${path}: expected string, got ${describeValue(value)}`);
+        return;
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path}: expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+      }
+      return;
+    }
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push(`${path}: expected ${schema.type}, got ${describeValue(value)}`);
+        return;
+      }
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        errors.push(`${path}: expected integer, got ${value}`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path}: must be <= ${schema.maximum}`);
+      }
+      return;
+    }
+    case "boolean": {
+      if (typeof value !== "boolean") {
+        errors.push(`${path}: expected boolean, got ${describeValue(value)}`);
+      }
+      return;
+    }
+  }
+}
+
+/** Every mismatch between `value` and `schema` as a `$.path: problem` line; empty when valid. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  collectErrors(value, schema, "$", errors);
+  return errors;
+}
+
+/** Parses model output and validates it; `value` is only set when there are no errors. */
+export function parseStructuredOutput<T>(raw: string, schema: JsonSchema): { value?: T; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonCandidate(raw));
+  } catch {
+    return { errors: ["$: response is not valid JSON"] };
+  }
+
+  const errors = validateJsonSchema(parsed, schema);
+  return errors.length ? { errors } : { value: parsed as T, errors };
+}
@@ -1,11 +1,25 @@
-import { GeminiGenerationOptions, ModelConfig } from "@/lib/ai/types";
-import { generateWithCustomProvider } from "@/lib/ai/providers/custom";
-import { generateWithCustomProviderStream } from "@/lib/ai/providers/custom";
+import {
+  CustomProviderConfig,
+  GeminiGenerationOptions,
+  ModelConfig,
+  ModelType,
+  ProviderErrorCode as AdapterErrorCode,
+} from "@/lib/ai/types";
+import { extractJsonCandidate, parseStructuredOutput, StructuredResponseSchema } from "@/lib/ai/json-schema";
+import {
+  FAST_MODEL,
+  isModelType,
+  MODEL_PROVIDER_OPTIONS,
+  missingProviderFields,
+  SMART_MODEL,
+} from "@/lib/ai/providers/catalog";
 import { generateWithGeminiModelStreamWithOptions } from "@/lib/ai/providers/gemini";
 import { generateWithGeminiModelWithOptions } from "@/lib/ai/providers/gemini";
+import { getModelProvider } from "@/lib/ai/providers/registry";
+import type { TaskRouteTarget, TaskRoutingTable } from "@/lib/ai/task-routing";
+import { priceUsage, ProviderUsage, sumTokenUsage, TokenUsage } from "@/lib/ai/usage";
 
-export const SMART_MODEL = "gemini-3.1-pro-preview";
-export const FAST_MODEL = "gemini-3.1-flash-lite-preview";
+export { FAST_MODEL, SMART_MODEL };
 
 export type AiTaskType =
   | "strategy_generation"
@@ -23,23 +37,26 @@ export type AiTaskType =
   | "quiz_generation"
   | "source_summarization"
   | "clarification_question"
-  | "exam_mode_generation";
+  | "exam_mode_generation"
+  | "retrieval_rerank";
 
 export type RoutingMeta = {
   taskType: AiTaskType;
   modelUsed: string;
   fallbackTriggered: boolean;
   fallbackReason?: string;
+  /** Set when the user's routing table, not the default router, picked the model. */
+  routeOverride?: TaskRouteTarget;
+  /** Set when the first structured response failed schema validation and a repair call replaced it. */
+  schemaRepaired?: boolean;
   latencyMs: number;
+  /** Summed over every call behind this response; absent when no provider reported tokens. */
+  usage?: TokenUsage;
 };
 
 export type RouteModelSelectionInput = {
-  modelType?: "gemini" | "custom";
-  modelConfig?: {
-    baseUrl?: string;
-    apiKey?: string;
-    modelName?: string;
-  } | null;
+  modelType?: ModelType;
+  modelConfig?: Partial<CustomProviderConfig> | null;
 };
 
 type QualitySignals = {
@@ -54,17 +71,47 @@ type RoutedGenerationInput = {
   modelConfig: ModelConfig;
   complexityScore?: number;
   qualitySignals?: QualitySignals;
+  /** Passed to providers with native structured output; the fast model's answer must also validate against it. */
+  responseSchema?: StructuredResponseSchema;
 };
 
 type DeltaHandler = (chunk: string) => void;
 
-type ProviderErrorCode =
-  | "missing_api_key"
-  | "request_failed"
-  | "empty_response"
-  | "unknown_provider_error";
+type TaskRouteResolution = {
+  modelConfig: ModelConfig;
+  modelName: string;
+  options?: GeminiGenerationOptions;
+  override: TaskRouteTarget;
+};
+
+type ProviderErrorCode = AdapterErrorCode | "unknown_provider_error";
+
+const ADAPTER_ERROR_CODES: ReadonlySet<string> = new Set<AdapterErrorCode>([
+  "missing_api_key",
+  "auth_failed",
+  "rate_limited",
+  "overloaded",
+  "context_length_exceeded",
+  "model_not_found",
+  "content_filtered",
+  "request_failed",
+  "empty_response",
+]);
+
+/** A structured response that still failed its schema after the repair round-trip. */
+export class StructuredOutputError extends Error {
+  readonly code = "schema_validation_failed";
+  readonly validationErrors: string[];
+
+  constructor(schemaName: string, validationErrors: string[]) {
+    super(`${schemaName} failed schema validation: ${validationErrors.slice(0, 3).join("; ")}`);
+    this.name = "StructuredOutputError";
+    this.validationErrors = validationErrors;
+  }
+}
 
-class ModelRouterGenerationError extends Error {
+/** A provider call that failed (network, outage, auth) after the router's own fallbacks. */
+export class ModelRouterGenerationError extends Error {
   readonly code: ProviderErrorCode;
 
   constructor(code: ProviderErrorCode, message: string) {
@@ -111,10 +158,8 @@ function getThinkingLevel(taskType: AiTaskType, complexityScore = 0): GeminiGene
 }
 
 function parseJsonCandidate(raw: string): boolean {
-  const cleaned = raw.trim().replace(/^```json\s*/i, "").replace(/```$/, "").trim();
-  const candidate = cleaned.match(/\{[\s\S]*\}/)?.[0] ?? cleaned;
   try {
-    JSON.parse(candidate);
+    JSON.parse(extractJsonCandidate(raw));
     return true;
   } catch {
     return false;
@@ -131,7 +176,11 @@ function looksGeneric(raw: string): boolean {
   );
 }
 
-function evaluateFastOutputQuality(raw: string, signals?: QualitySignals): { ok: boolean; reason?: string } {
+function evaluateFastOutputQuality(
+  raw: string,
+  signals?: QualitySignals,
+  responseSchema?: StructuredResponseSchema,
+): { ok: boolean; reason?: string } {
   const trimmed = raw.trim();
   if (!trimmed) {
     return { ok: false, reason: "empty explanation" };
@@ -145,6 +194,10 @@ function evaluateFastOutputQuality(raw: string, signals?: QualitySignals): { ok:
     return { ok: false, reason: "missing answer structure" };
   }
 
+  if (responseSchema && parseStructuredOutput(trimmed, responseSchema.schema).errors.length) {
+    return { ok: false, reason: "schema_validation_failed" };
+  }
+
   if (signals?.retrievalConfidence === "low") {
     return { ok: false, reason: "low retrieval confidence" };
   }
@@ -159,8 +212,8 @@ function evaluateFastOutputQuality(raw: string, signals?: QualitySignals): { ok:
 function classifyProviderError(error: unknown): ProviderErrorCode {
   if (typeof error === "object" && error !== null && "code" in error) {
     const code = String((error as { code?: unknown }).code ?? "");
-    if (code === "missing_api_key" || code === "request_failed" || code === "empty_response") {
-      return code;
+    if (ADAPTER_ERROR_CODES.has(code)) {
+      return code as AdapterErrorCode;
     }
   }
 
@@ -180,18 +233,86 @@ function classifyProviderError(error: unknown): ProviderErrorCode {
   return "unknown_provider_error";
 }
 
+/** The user's rule for this task as a concrete model call, or undefined to route as usual. */
+function resolveTaskRoute(input: RoutedGenerationInput): TaskRouteResolution | undefined {
+  const route = input.modelConfig.routing?.[input.taskType];
+  if (!route) {
+    return undefined;
+  }
+
+  if (route.target === "fast" || route.target === "smart") {
+    return {
+      modelConfig: { modelType: "gemini" },
+      modelName: route.target === "fast" ? FAST_MODEL : SMART_MODEL,
+      options: {
+        thinkingLevel: getThinkingLevel(input.taskType, input.complexityScore),
+        responseSchema: input.responseSchema,
+      },
+      override: route.target,
+    };
+  }
+
+  if (route.target === "ollama") {
+    return {
+      modelConfig: {
+        modelType: "ollama",
+        config: {
+          baseUrl: route.baseUrl ?? "",
+          apiKey: "",
+          modelName: route.modelName,
+          systemPrompt: input.modelConfig.config?.systemPrompt,
+        },
+      },
+      modelName: route.modelName,
+      options: { responseSchema: input.responseSchema },
+      override: "ollama",
+    };
+  }
+
+  // A "session" rule only differs from default routing when the session runs on the user's own provider.
+  if (input.modelConfig.modelType === "gemini") {
+    return undefined;
+  }
+  return {
+    modelConfig: input.modelConfig,
+    modelName: input.modelConfig.config.modelName,
+    options: { responseSchema: input.responseSchema },
+    override: "session",
+  };
+}
+
+/** Priced usage of each provider call made for one routed generation. */
+type UsageLedger = { taskType: AiTaskType; entries: TokenUsage[] };
+
+function recordUsageTo(ledger: UsageLedger, modelConfig: ModelConfig, modelName: string) {
+  return (usage: ProviderUsage) => {
+    ledger.entries.push(priceUsage(modelConfig.modelType, modelName, usage));
+  };
+}
+
+function withUsage(meta: RoutingMeta, ledger: UsageLedger): RoutingMeta {
+  const usage = sumTokenUsage(ledger.entries);
+  return usage ? { ...meta, usage } : meta;
+}
+
 async function runWithModel(
+  ledger: UsageLedger,
   prompt: string,
   modelConfig: ModelConfig,
   modelName: string,
   options?: GeminiGenerationOptions,
 ): Promise<string> {
+  const onUsage = recordUsageTo(ledger, modelConfig, modelName);
   try {
-    if (modelConfig.modelType === "custom") {
-      return await generateWithCustomProvider(prompt, modelConfig.config);
+    if (modelConfig.modelType !== "gemini") {
+      return await getModelProvider(modelConfig.modelType).generate(prompt, modelConfig.config, {
+        responseSchema: options?.responseSchema,
+        onUsage,
+        taskType: ledger.taskType,
+      });
     }
 
-    return await generateWithGeminiModelWithOptions(prompt, modelName, options);
+    return await generateWithGeminiModelWithOptions(prompt, modelName, { ...options, onUsage, taskType: ledger.taskType });
   } catch (error) {
     const code = classifyProviderError(error);
     const message = error instanceof Error ? error.message : "Unknown provider error";
@@ -200,18 +321,28 @@ async function runWithModel(
 }
 
 async function runWithModelStream(
+  ledger: UsageLedger,
   prompt: string,
   modelConfig: ModelConfig,
   modelName: string,
   onDelta: DeltaHandler,
   options?: GeminiGenerationOptions,
 ): Promise<string> {
+  const onUsage = recordUsageTo(ledger, modelConfig, modelName);
   try {
-    if (modelConfig.modelType === "custom") {
-      return await generateWithCustomProviderStream(prompt, modelConfig.config, onDelta);
+    if (modelConfig.modelType !== "gemini") {
+      return await getModelProvider(modelConfig.modelType).generateStream(prompt, modelConfig.config, onDelta, {
+        responseSchema: options?.responseSchema,
+        onUsage,
+        taskType: ledger.taskType,
+      });
     }
 
-    return await generateWithGeminiModelStreamWithOptions(prompt, modelName, onDelta, options);
+    return await generateWithGeminiModelStreamWithOptions(prompt, modelName, onDelta, {
+      ...options,
+      onUsage,
+      taskType: ledger.taskType,
+    });
   } catch (error) {
     const code = classifyProviderError(error);
     const message = error instanceof Error ? error.message : "Unknown provider error";
@@ -221,11 +352,52 @@ async function runWithModelStream(
 
 export async function generateWithModelRouter(
   input: RoutedGenerationInput,
+): Promise<{ text: string; meta: RoutingMeta }> {
+  const ledger: UsageLedger = { taskType: input.taskType, entries: [] };
+  const { text, meta } = await routeGeneration(input, ledger);
+  return { text, meta: withUsage(meta, ledger) };
+}
+
+export async function generateWithModelRouterStream(
+  input: RoutedGenerationInput,
+  onDelta: DeltaHandler,
+): Promise<{ text: string; meta: RoutingMeta }> {
+  const ledger: UsageLedger = { taskType: input.taskType, entries: [] };
+  const { text, meta } = await routeGenerationStream(input, onDelta, ledger);
+  return { text, meta: withUsage(meta, ledger) };
+}
+
+async function routeGeneration(
+  input: RoutedGenerationInput,
+  ledger: UsageLedger,
 ): Promise<{ text: string; meta: RoutingMeta }> {
   const startedAt = Date.now();
 
-  if (input.modelConfig.modelType === "custom") {
-    const text = await runWithModel(input.prompt, input.modelConfig, input.modelConfig.config.modelName);
+  const taskRoute = resolveTaskRoute(input);
+  if (taskRoute) {
+    const text = await runWithModel(
+      ledger,
+      input.prompt,
+      taskRoute.modelConfig,
+      taskRoute.modelName,
+      taskRoute.options,
+    );
+    return {
+      text,
+      meta: {
+        taskType: input.taskType,
+        modelUsed: taskRoute.modelName,
+        fallbackTriggered: false,
+        routeOverride: taskRoute.override,
+        latencyMs: Date.now() - startedAt,
+      },
+    };
+  }
+
+  if (input.modelConfig.modelType !== "gemini") {
+    const text = await runWithModel(ledger, input.prompt, input.modelConfig, input.modelConfig.config.modelName, {
+      responseSchema: input.responseSchema,
+    });
     return {
       text,
       meta: {
@@ -243,8 +415,9 @@ export async function generateWithModelRouter(
   let primaryErrorCode: ProviderErrorCode | null = null;
 
   try {
-    primary = await runWithModel(input.prompt, input.modelConfig, primaryModel, {
+    primary = await runWithModel(ledger, input.prompt, input.modelConfig, primaryModel, {
       thinkingLevel: primaryThinking,
+      responseSchema: input.responseSchema,
     });
   } catch (error) {
     primaryErrorCode = classifyProviderError(error);
@@ -270,8 +443,9 @@ export async function generateWithModelRouter(
   }
 
   if (!primary) {
-    const upgradedAfterPrimaryError = await runWithModel(input.prompt, input.modelConfig, SMART_MODEL, {
+    const upgradedAfterPrimaryError = await runWithModel(ledger, input.prompt, input.modelConfig, SMART_MODEL, {
       thinkingLevel: "high",
+      responseSchema: input.responseSchema,
     });
     return {
       text: upgradedAfterPrimaryError,
@@ -285,7 +459,7 @@ export async function generateWithModelRouter(
     };
   }
 
-  const quality = evaluateFastOutputQuality(primary, input.qualitySignals);
+  const quality = evaluateFastOutputQuality(primary, input.qualitySignals, input.responseSchema);
   if (quality.ok) {
     return {
       text: primary,
@@ -298,8 +472,9 @@ export async function generateWithModelRouter(
     };
   }
 
-  const upgraded = await runWithModel(input.prompt, input.modelConfig, SMART_MODEL, {
+  const upgraded = await runWithModel(ledger, input.prompt, input.modelConfig, SMART_MODEL, {
     thinkingLevel: "high",
+    responseSchema: input.responseSchema,
   });
 
   return {
@@ -314,14 +489,44 @@ export async function generateWithModelRouter(
   };
 }
 
-export async function generateWithModelRouterStream(
+async function routeGenerationStream(
   input: RoutedGenerationInput,
   onDelta: DeltaHandler,
+  ledger: UsageLedger,
 ): Promise<{ text: string; meta: RoutingMeta }> {
   const startedAt = Date.now();
 
-  if (input.modelConfig.modelType === "custom") {
-    const text = await runWithModelStream(input.prompt, input.modelConfig, input.modelConfig.config.modelName, onDelta);
+  const taskRoute = resolveTaskRoute(input);
+  if (taskRoute) {
+    const text = await runWithModelStream(
+      ledger,
+      input.prompt,
+      taskRoute.modelConfig,
+      taskRoute.modelName,
+      onDelta,
+      taskRoute.options,
+    );
+    return {
+      text,
+      meta: {
+        taskType: input.taskType,
+        modelUsed: taskRoute.modelName,
+        fallbackTriggered: false,
+        routeOverride: taskRoute.override,
+        latencyMs: Date.now() - startedAt,
+      },
+    };
+  }
+
+  if (input.modelConfig.modelType !== "gemini") {
+    const text = await runWithModelStream(
+      ledger,
+      input.prompt,
+      input.modelConfig,
+      input.modelConfig.config.modelName,
+      onDelta,
+      { responseSchema: input.responseSchema },
+    );
     return {
       text,
       meta: {
@@ -337,8 +542,9 @@ export async function generateWithModelRouterStream(
   const primaryThinking = getThinkingLevel(input.taskType, input.complexityScore);
 
   try {
-    const text = await runWithModelStream(input.prompt, input.modelConfig, primaryModel, onDelta, {
+    const text = await runWithModelStream(ledger, input.prompt, input.modelConfig, primaryModel, onDelta, {
       thinkingLevel: primaryThinking,
+      responseSchema: input.responseSchema,
     });
     return {
       text,
@@ -358,8 +564,9 @@ export async function generateWithModelRouterStream(
       );
     }
 
-    const upgraded = await runWithModelStream(input.prompt, input.modelConfig, SMART_MODEL, onDelta, {
+    const upgraded = await runWithModelStream(ledger, input.prompt, input.modelConfig, SMART_MODEL, onDelta, {
       thinkingLevel: "high",
+      responseSchema: input.responseSchema,
     });
     return {
       text: upgraded,
@@ -374,25 +581,91 @@ export async function generateWithModelRouterStream(
   }
 }
 
-export function resolveModelConfig(selection: RouteModelSelectionInput): ModelConfig {
-  if (selection.modelType === "custom") {
-    if (
-      !selection.modelConfig?.baseUrl ||
-      !selection.modelConfig?.apiKey ||
-      !selection.modelConfig?.modelName
-    ) {
-      throw new Error("Missing custom model configuration");
+function buildSchemaRepairPrompt(schema: StructuredResponseSchema, invalidOutput: string, errors: string[]): string {
+  return [
+    "Your previous response did not match the required JSON Schema.",
+    "Return ONLY the corrected JSON. No markdown, no explanation, no prose.",
+    "Keep every value that was already valid; fix only these problems:",
+    ...errors.map((error) => `- ${error}`),
+    `JSON Schema (${schema.name}):`,
+    JSON.stringify(schema.schema),
+    "Previous response:",
+    invalidOutput,
+  ].join("\n");
+}
+
+/**
+ * Generates a response that must match `responseSchema`. Invalid output gets
+ * one repair round-trip with the validation errors spelled out; if that also
+ * fails, a `StructuredOutputError` is thrown for the caller's fallback.
+ */
+export async function generateStructuredWithModelRouter<T>(
+  input: RoutedGenerationInput & { responseSchema: StructuredResponseSchema },
+): Promise<{ value: T; text: string; meta: RoutingMeta }> {
+  const startedAt = Date.now();
+  const routed = await generateWithModelRouter(input);
+  const first = parseStructuredOutput<T>(routed.text, input.responseSchema.schema);
+  if (first.value !== undefined) {
+    return { value: first.value, text: routed.text, meta: routed.meta };
+  }
+
+  console.warn("[modelRouter] structured output failed validation, attempting repair", {
+    taskType: input.taskType,
+    schema: input.responseSchema.name,
+    errors: first.errors.slice(0, 5),
+  });
+
+  const repaired = await generateWithModelRouter({
+    ...input,
+    prompt: buildSchemaRepairPrompt(input.responseSchema, routed.text, first.errors),
+    complexityScore: Math.max(input.complexityScore ?? 0, 0.6),
+  });
+  const second = parseStructuredOutput<T>(repaired.text, input.responseSchema.schema);
+  if (second.value === undefined) {
+    throw new StructuredOutputError(input.responseSchema.name, second.errors);
+  }
+
+  const usage = sumTokenUsage([routed.meta.usage, repaired.meta.usage]);
+  return {
+    value: second.value,
+    text: repaired.text,
+    meta: {
+      ...repaired.meta,
+      schemaRepaired: true,
+      latencyMs: Date.now() - startedAt,
+      ...(usage ? { usage } : {}),
+    },
+  };
+}
+
+export function resolveModelConfig(selection: RouteModelSelectionInput, routing?: TaskRoutingTable): ModelConfig {
+  const routingField = routing && Object.keys(routing).length ? { routing } : {};
+
+  if (selection.modelType && selection.modelType !== "gemini") {
+    if (!isModelType(selection.modelType)) {
+      throw new Error(`Unknown model provider: ${String(selection.modelType)}`);
+    }
+
+    const missing = missingProviderFields(selection.modelType, selection.modelConfig);
+    if (missing.length) {
+      throw new Error(
+        `Missing ${MODEL_PROVIDER_OPTIONS[selection.modelType].label} model configuration: ${missing.join(", ")}`,
+      );
     }
 
+    const config = selection.modelConfig ?? {};
     return {
-      modelType: "custom",
+      modelType: selection.modelType,
       config: {
-        baseUrl: selection.modelConfig.baseUrl,
-        apiKey: selection.modelConfig.apiKey,
-        modelName: selection.modelConfig.modelName,
+        baseUrl: config.baseUrl?.trim() ?? "",
+        apiKey: config.apiKey?.trim() ?? "",
+        modelName: config.modelName?.trim() ?? "",
+        apiVersion: config.apiVersion?.trim() || undefined,
+        systemPrompt: config.systemPrompt?.trim() || undefined,
       },
+      ...routingField,
     };
   }
 
-  return { modelType: "gemini" };
+  return { modelType: "gemini", ...routingField };
 }
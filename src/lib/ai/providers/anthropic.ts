@@ -0,0 +1,229 @@
+import { DEFAULT_SYSTEM_PROMPT } from "@/lib/ai/providers/catalog";
+import { assertProviderEndpointAllowed } from "@/lib/ai/providers/endpoint-policy";
+import { CustomProviderConfig, ModelProviderAdapter, ProviderErrorCode, ProviderRequestOptions } from "@/lib/ai/types";
+import { reportModelCall } from "@/lib/ai/usage-recorder";
+
+/**
+ * Anthropic Messages API. Authenticates with `x-api-key` plus a pinned
+ * `anthropic-version`, and streams typed SSE events where text arrives as
+ * `content_block_delta` and failures can arrive mid-stream as `error` events.
+ */
+
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_MAX_TOKENS = 8192;
+
+type AnthropicErrorBody = {
+  type?: string;
+  error?: { type?: string; message?: string };
+};
+
+function createAnthropicError(code: ProviderErrorCode, message: string): Error & { code: ProviderErrorCode } {
+  const error = new Error(message) as Error & { code: ProviderErrorCode };
+  error.name = "AnthropicProviderError";
+  error.code = code;
+  return error;
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim() || ANTHROPIC_BASE_URL;
+  return trimmed.replace(/\/+$/, "").replace(/\/v1$/, "");
+}
+
+/** Maps the API's `error.type` (falling back to the HTTP status) onto the shared codes. */
+function classifyAnthropicError(status: number, body: AnthropicErrorBody | null): ProviderErrorCode {
+  const type = body?.error?.type;
+  const message = body?.error?.message?.toLowerCase() ?? "";
+  if (type === "authentication_error" || type === "permission_error" || status === 401 || status === 403) {
+    return "auth_failed";
+  }
+  if (type === "not_found_error" || status === 404) return "model_not_found";
+  if (type === "rate_limit_error" || status === 429) return "rate_limited";
+  if (type === "overloaded_error" || status === 529) return "overloaded";
+  if (type === "invalid_request_error" && (message.includes("prompt is too long") || message.includes("context"))) {
+    return "context_length_exceeded";
+  }
+  return "request_failed";
+}
+
+type AnthropicUsage = { input_tokens?: number; output_tokens?: number };
+
+function parseErrorBody(text: string): AnthropicErrorBody | null {
+  try {
+    return JSON.parse(text) as AnthropicErrorBody;
+  } catch {
+    return null;
+  }
+}
+
+async function requestMessages(prompt: string, config: CustomProviderConfig, stream: boolean): Promise<Response> {
+  if (!config.apiKey) {
+    throw createAnthropicError("missing_api_key", "Missing Anthropic API key");
+  }
+
+  const baseUrl = normalizeBaseUrl(config.baseUrl);
+  await assertProviderEndpointAllowed(baseUrl);
+  const response = await fetch(`${baseUrl}/v1/messages`, {
+    method: "POST",
+    redirect: "error",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": config.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model: config.modelName,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      temperature: 0.2,
+      system: config.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT,
+      messages: [{ role: "user", content: prompt }],
+      ...(stream ? { stream: true } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const body = parseErrorBody(errorText);
+    throw createAnthropicError(
+      classifyAnthropicError(response.status, body),
+      `Anthropic request failed: ${response.status} ${body?.error?.message ?? errorText}`,
+    );
+  }
+
+  return response;
+}
+
+export async function generateWithAnthropic(
+  prompt: string,
+  config: CustomProviderConfig,
+  options?: ProviderRequestOptions,
+): Promise<string> {
+  const response = await requestMessages(prompt, config, false);
+  const data = (await response.json()) as {
+    content?: { type?: string; text?: string }[];
+    stop_reason?: string;
+    usage?: AnthropicUsage;
+  };
+
+  reportModelCall(
+    "anthropic",
+    config.modelName,
+    data.usage
+      ? { promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 }
+      : undefined,
+    options,
+  );
+  const text = (data.content ?? [])
+    .filter((block) => block.type === "text")
+    .map((block) => block.text ?? "")
+    .join("");
+
+  if (!text.trim()) {
+    throw createAnthropicError(
+      data.stop_reason === "refusal" ? "content_filtered" : "empty_response",
+      "Anthropic returned empty response",
+    );
+  }
+
+  return text;
+}
+
+export async function generateWithAnthropicStream(
+  prompt: string,
+  config: CustomProviderConfig,
+  onDelta: (chunk: string) => void,
+  options?: ProviderRequestOptions,
+): Promise<string> {
+  const response = await requestMessages(prompt, config, true);
+
+  if (!response.body) {
+    throw createAnthropicError("request_failed", "Anthropic stream body missing");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let combined = "";
+  let stopReason: string | undefined;
+  // Input tokens arrive with message_start, the cumulative output count with message_delta.
+  let promptTokens: number | undefined;
+  let completionTokens = 0;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    // Events are separated by a blank line; only the `data:` line carries the payload.
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() ?? "";
+
+    for (const frame of frames) {
+      const dataLine = frame.split("\n").find((line) => line.startsWith("data:"));
+      if (!dataLine) {
+        continue;
+      }
+
+      let event: {
+        type?: string;
+        delta?: { type?: string; text?: string; stop_reason?: string };
+        error?: { type?: string; message?: string };
+        message?: { usage?: AnthropicUsage };
+        usage?: AnthropicUsage;
+      };
+      try {
+        event = JSON.parse(dataLine.slice(5).trim()) as typeof event;
+      } catch {
+        continue;
+      }
+
+      if (event.type === "error") {
+        throw createAnthropicError(
+          classifyAnthropicError(0, event),
+          `Anthropic stream failed: ${event.error?.message ?? "unknown error"}`,
+        );
+      }
+
+      if (event.type === "message_start") {
+        promptTokens = event.message?.usage?.input_tokens;
+        continue;
+      }
+
+      if (event.type === "message_delta") {
+        stopReason = event.delta?.stop_reason ?? stopReason;
+        completionTokens = event.usage?.output_tokens ?? completionTokens;
+        continue;
+      }
+
+      if (event.type !== "content_block_delta" || event.delta?.type !== "text_delta" || !event.delta.text) {
+        continue;
+      }
+
+      combined += event.delta.text;
+      onDelta(event.delta.text);
+    }
+  }
+
+  reportModelCall(
+    "anthropic",
+    config.modelName,
+    promptTokens !== undefined ? { promptTokens, completionTokens } : undefined,
+    options,
+  );
+  if (!combined.trim()) {
+    throw createAnthropicError(
+      stopReason === "refusal" ? "content_filtered" : "empty_response",
+      "Anthropic returned empty response",
+    );
+  }
+
+  return combined;
+}
+
+export const anthropicProvider: ModelProviderAdapter = {
+  id: "anthropic",
+  generate: generateWithAnthropic,
+  generateStream: generateWithAnthropicStream,
+};
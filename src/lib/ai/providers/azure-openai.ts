@@ -0,0 +1,220 @@
+import { AZURE_OPENAI_DEFAULT_API_VERSION, DEFAULT_SYSTEM_PROMPT } from "@/lib/ai/providers/catalog";
+import { assertProviderEndpointAllowed } from "@/lib/ai/providers/endpoint-policy";
+import { CustomProviderConfig, ModelProviderAdapter, ProviderErrorCode, ProviderRequestOptions } from "@/lib/ai/types";
+import { reportModelCall } from "@/lib/ai/usage-recorder";
+
+/**
+ * Azure OpenAI chat deployments. The model is addressed by deployment name in
+ * the path, the key travels in an `api-key` header, and every request pins an
+ * `api-version`. Content-filter verdicts come back as 400s or as a
+ * `content_filter` finish reason and are reported as such.
+ */
+
+type AzureErrorBody = {
+  error?: { code?: string; message?: string; innererror?: { code?: string } };
+};
+
+function createAzureOpenAiError(code: ProviderErrorCode, message: string): Error & { code: ProviderErrorCode } {
+  const error = new Error(message) as Error & { code: ProviderErrorCode };
+  error.name = "AzureOpenAiProviderError";
+  error.code = code;
+  return error;
+}
+
+function buildDeploymentUrl(config: CustomProviderConfig): string {
+  // Accept either the bare resource endpoint or one already ending in /openai.
+  const endpoint = config.baseUrl.trim().replace(/\/+$/, "").replace(/\/openai$/, "");
+  const apiVersion = config.apiVersion?.trim() || AZURE_OPENAI_DEFAULT_API_VERSION;
+  return `${endpoint}/openai/deployments/${encodeURIComponent(config.modelName)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`;
+}
+
+function classifyAzureOpenAiError(status: number, body: AzureErrorBody | null): ProviderErrorCode {
+  const code = body?.error?.code ?? "";
+  const innerCode = body?.error?.innererror?.code ?? "";
+  if (code === "content_filter" || innerCode === "ResponsibleAIPolicyViolation") return "content_filtered";
+  if (code === "context_length_exceeded") return "context_length_exceeded";
+  if (code === "DeploymentNotFound" || status === 404) return "model_not_found";
+  if (status === 401 || status === 403) return "auth_failed";
+  if (status === 429) return "rate_limited";
+  if (status === 503) return "overloaded";
+  return "request_failed";
+}
+
+type AzureUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+function reportCall(config: CustomProviderConfig, usage: AzureUsage | null | undefined, options?: ProviderRequestOptions) {
+  reportModelCall(
+    "azure-openai",
+    config.modelName,
+    usage ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 } : undefined,
+    options,
+  );
+}
+
+function parseErrorBody(text: string): AzureErrorBody | null {
+  try {
+    return JSON.parse(text) as AzureErrorBody;
+  } catch {
+    return null;
+  }
+}
+
+async function requestDeployment(
+  prompt: string,
+  config: CustomProviderConfig,
+  stream: boolean,
+  options?: ProviderRequestOptions,
+): Promise<Response> {
+  if (!config.apiKey) {
+    throw createAzureOpenAiError("missing_api_key", "Missing Azure OpenAI API key");
+  }
+
+  const url = buildDeploymentUrl(config);
+  await assertProviderEndpointAllowed(url);
+  const response = await fetch(url, {
+    method: "POST",
+    redirect: "error",
+    headers: {
+      "Content-Type": "application/json",
+      "api-key": config.apiKey,
+    },
+    body: JSON.stringify({
+      temperature: 0.2,
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      ...(options?.responseSchema
+        ? {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: options.responseSchema.name, schema: options.responseSchema.schema, strict: false },
+            },
+          }
+        : {}),
+      messages: [
+        { role: "system", content: config.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT },
+        { role: "user", content: prompt },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const body = parseErrorBody(errorText);
+    throw createAzureOpenAiError(
+      classifyAzureOpenAiError(response.status, body),
+      `Azure OpenAI request failed: ${response.status} ${body?.error?.message ?? errorText}`,
+    );
+  }
+
+  return response;
+}
+
+export async function generateWithAzureOpenAi(
+  prompt: string,
+  config: CustomProviderConfig,
+  options?: ProviderRequestOptions,
+): Promise<string> {
+  const response = await requestDeployment(prompt, config, false, options);
+  const data = (await response.json()) as {
+    choices?: { message?: { content?: string | null }; finish_reason?: string }[];
+    usage?: AzureUsage;
+  };
+
+  reportCall(config, data.usage, options);
+  const choice = data.choices?.[0];
+  const content = choice?.message?.content;
+  if (!content?.trim()) {
+    throw createAzureOpenAiError(
+      choice?.finish_reason === "content_filter" ? "content_filtered" : "empty_response",
+      "Azure OpenAI returned empty response",
+    );
+  }
+
+  return content;
+}
+
+export async function generateWithAzureOpenAiStream(
+  prompt: string,
+  config: CustomProviderConfig,
+  onDelta: (chunk: string) => void,
+  options?: ProviderRequestOptions,
+): Promise<string> {
+  const response = await requestDeployment(prompt, config, true, options);
+
+  if (!response.body) {
+    throw createAzureOpenAiError("request_failed", "Azure OpenAI stream body missing");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let combined = "";
+  let filtered = false;
+  let usage: AzureUsage | undefined;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const rawLine of lines) {
+      const payload = rawLine.trim().replace(/^data:\s*/, "");
+      if (!rawLine.trim().startsWith("data:") || !payload || payload === "[DONE]") {
+        continue;
+      }
+
+      let json: {
+        choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+        usage?: AzureUsage | null;
+      } & AzureErrorBody;
+      try {
+        json = JSON.parse(payload) as typeof json;
+      } catch {
+        continue;
+      }
+
+      if (json.error) {
+        throw createAzureOpenAiError(
+          classifyAzureOpenAiError(0, json),
+          `Azure OpenAI stream failed: ${json.error.message ?? "unknown error"}`,
+        );
+      }
+
+      usage = json.usage ?? usage;
+
+      // The first event only carries prompt filter results and has no choices; the usage event has none either.
+      const choice = json.choices?.[0];
+      if (choice?.finish_reason === "content_filter") {
+        filtered = true;
+      }
+      const chunk = choice?.delta?.content ?? "";
+      if (!chunk) {
+        continue;
+      }
+
+      combined += chunk;
+      onDelta(chunk);
+    }
+  }
+
+  reportCall(config, usage, options);
+  if (filtered) {
+    throw createAzureOpenAiError("content_filtered", "Azure OpenAI content filter stopped the response");
+  }
+
+  if (!combined.trim()) {
+    throw createAzureOpenAiError("empty_response", "Azure OpenAI returned empty response");
+  }
+
+  return combined;
+}
+
+export const azureOpenAiProvider: ModelProviderAdapter = {
+  id: "azure-openai",
+  generate: generateWithAzureOpenAi,
+  generateStream: generateWithAzureOpenAiStream,
+};
@@ -0,0 +1,109 @@
+import { CustomProviderConfig, ModelType } from "@/lib/ai/types";
+
+/**
+ * Display metadata and config rules for every selectable model provider.
+ * Kept free of network code so client components (model switcher, settings)
+ * and the server-side config validation share one definition.
+ */
+
+export type ProviderConfigField = keyof Pick<CustomProviderConfig, "baseUrl" | "apiKey" | "modelName" | "apiVersion">;
+
+export type ProviderFieldSpec = {
+  label: string;
+  placeholder: string;
+  required: boolean;
+  secret?: boolean;
+};
+
+export type ModelProviderOption = {
+  id: ModelType;
+  label: string;
+  description: string;
+  /** Empty for Gemini, which runs on the server's own key. */
+  fields: Partial<Record<ProviderConfigField, ProviderFieldSpec>>;
+};
+
+export const DEFAULT_SYSTEM_PROMPT =
+  "You are KalExam's study assistant. Follow the instructions in the user message exactly, including any required output format, and keep answers accurate and exam-focused.";
+
+export const AZURE_OPENAI_DEFAULT_API_VERSION = "2024-10-21";
+
+/** The Gemini models the router picks between. */
+export const SMART_MODEL = "gemini-3.1-pro-preview";
+export const FAST_MODEL = "gemini-3.1-flash-lite-preview";
+
+export const MODEL_PROVIDER_OPTIONS: Record<ModelType, ModelProviderOption> = {
+  gemini: {
+    id: "gemini",
+    label: "Gemini",
+    description: "The default. Routed between fast and smart Gemini models automatically.",
+    fields: {},
+  },
+  anthropic: {
+    id: "anthropic",
+    label: "Anthropic",
+    description: "Claude models through the Messages API.",
+    fields: {
+      apiKey: { label: "API Key", placeholder: "sk-ant-...", required: true, secret: true },
+      modelName: { label: "Model", placeholder: "claude-sonnet-4-5", required: true },
+      baseUrl: { label: "Base URL (optional)", placeholder: "https://api.anthropic.com", required: false },
+    },
+  },
+  ollama: {
+    id: "ollama",
+    label: "Ollama (self-hosted)",
+    description: "Models served by an Ollama instance the app server can reach. Prompts go from the server to that host.",
+    fields: {
+      modelName: { label: "Model", placeholder: "llama3.1:8b", required: true },
+      baseUrl: { label: "Base URL (optional)", placeholder: "http://localhost:11434", required: false },
+      apiKey: { label: "API Key (only behind an auth proxy)", placeholder: "", required: false, secret: true },
+    },
+  },
+  "azure-openai": {
+    id: "azure-openai",
+    label: "Azure OpenAI",
+    description: "A chat model deployment in your Azure OpenAI resource.",
+    fields: {
+      baseUrl: { label: "Resource endpoint", placeholder: "https://my-resource.openai.azure.com", required: true },
+      apiKey: { label: "API Key", placeholder: "Azure resource key", required: true, secret: true },
+      modelName: { label: "Deployment name", placeholder: "gpt-4o-mini", required: true },
+      apiVersion: {
+        label: "API version (optional)",
+        placeholder: AZURE_OPENAI_DEFAULT_API_VERSION,
+        required: false,
+      },
+    },
+  },
+  custom: {
+    id: "custom",
+    label: "OpenAI-compatible",
+    description: "Any endpoint that speaks the OpenAI /chat/completions API (OpenRouter, vLLM, LM Studio…).",
+    fields: {
+      baseUrl: { label: "Base URL", placeholder: "https://openrouter.ai/api/v1", required: true },
+      apiKey: { label: "API Key", placeholder: "sk-...", required: true, secret: true },
+      modelName: { label: "Model Name", placeholder: "openai/gpt-4o-mini", required: true },
+    },
+  },
+};
+
+export const MODEL_TYPES = Object.keys(MODEL_PROVIDER_OPTIONS) as ModelType[];
+
+export function isModelType(value: unknown): value is ModelType {
+  return typeof value === "string" && MODEL_TYPES.includes(value as ModelType);
+}
+
+export function getModelProviderLabel(modelType: ModelType | undefined): string {
+  return MODEL_PROVIDER_OPTIONS[modelType ?? "gemini"]?.label ?? MODEL_PROVIDER_OPTIONS.gemini.label;
+}
+
+/** Labels of required fields that are blank for the given provider. */
+export function missingProviderFields(modelType: ModelType, config: Partial<CustomProviderConfig> | null | undefined): string[] {
+  const fields = MODEL_PROVIDER_OPTIONS[modelType].fields;
+  return (Object.keys(fields) as ProviderConfigField[])
+    .filter((field) => fields[field]?.required && !config?.[field]?.trim())
+    .map((field) => fields[field]?.label ?? field);
+}
+
+export function createEmptyProviderConfig(): CustomProviderConfig {
+  return { baseUrl: "", apiKey: "", modelName: "", apiVersion: "", systemPrompt: "" };
+}
@@ -1,15 +1,63 @@
-import { CustomProviderConfig } from "@/lib/ai/types";
+import { DEFAULT_SYSTEM_PROMPT } from "@/lib/ai/providers/catalog";
+import { assertProviderEndpointAllowed } from "@/lib/ai/providers/endpoint-policy";
+import { CustomProviderConfig, ModelProviderAdapter, ProviderErrorCode, ProviderRequestOptions } from "@/lib/ai/types";
+import { reportModelCall } from "@/lib/ai/usage-recorder";
+
+/** Any endpoint that implements the OpenAI `/chat/completions` API. */
+
+function createCustomProviderError(code: ProviderErrorCode, message: string): Error & { code: ProviderErrorCode } {
+  const error = new Error(message) as Error & { code: ProviderErrorCode };
+  error.name = "CustomProviderError";
+  error.code = code;
+  return error;
+}
 
 function normalizeBaseUrl(baseUrl: string): string {
   return baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl;
 }
 
-export async function generateWithCustomProvider(
+function classifyCustomProviderError(status: number, errorText: string): ProviderErrorCode {
+  const detail = errorText.toLowerCase();
+  if (status === 401 || status === 403) return "auth_failed";
+  if (status === 404) return "model_not_found";
+  if (status === 429) return "rate_limited";
+  if (status === 503 || status === 529) return "overloaded";
+  if (detail.includes("context_length_exceeded") || detail.includes("maximum context length")) {
+    return "context_length_exceeded";
+  }
+  if (detail.includes("content_filter")) return "content_filtered";
+  return "request_failed";
+}
+
+type OpenAiUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+function reportCall(config: CustomProviderConfig, usage: OpenAiUsage | null | undefined, options?: ProviderRequestOptions) {
+  reportModelCall(
+    "custom",
+    config.modelName,
+    usage ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 } : undefined,
+    options,
+  );
+}
+
+/** `basicRequest` drops the optional OpenAI fields that some compatible servers reject. */
+async function requestChatCompletion(
   prompt: string,
-  config: CustomProviderConfig
-): Promise<string> {
-  const response = await fetch(`${normalizeBaseUrl(config.baseUrl)}/chat/completions`, {
+  config: CustomProviderConfig,
+  stream: boolean,
+  options?: ProviderRequestOptions,
+  basicRequest = false,
+): Promise<Response> {
+  if (!config.apiKey) {
+    throw createCustomProviderError("missing_api_key", "Missing custom provider API key");
+  }
+
+  const responseSchema = basicRequest ? undefined : options?.responseSchema;
+  const baseUrl = normalizeBaseUrl(config.baseUrl);
+  await assertProviderEndpointAllowed(baseUrl);
+  const response = await fetch(`${baseUrl}/chat/completions`, {
     method: "POST",
+    redirect: "error",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${config.apiKey}`,
@@ -17,12 +65,18 @@ export async function generateWithCustomProvider(
     body: JSON.stringify({
       model: config.modelName,
       temperature: 0.2,
+      ...(stream ? { stream: true } : {}),
+      ...(stream && !basicRequest ? { stream_options: { include_usage: true } } : {}),
+      ...(responseSchema
+        ? {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: false },
+            },
+          }
+        : {}),
       messages: [
-        {
-          role: "system",
-          content:
-            "You are a study strategy assistant. Return concise, practical exam preparation plans.",
-        },
+        { role: "system", content: config.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT },
         { role: "user", content: prompt },
       ],
     }),
@@ -30,17 +84,39 @@ export async function generateWithCustomProvider(
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`Custom provider request failed: ${response.status} ${errorText}`);
+    // Not every OpenAI-compatible server implements json_schema or stream usage; the caller still validates the text.
+    if (
+      !basicRequest &&
+      response.status === 400 &&
+      (errorText.includes("response_format") || errorText.includes("stream_options"))
+    ) {
+      return requestChatCompletion(prompt, config, stream, options, true);
+    }
+    throw createCustomProviderError(
+      classifyCustomProviderError(response.status, errorText),
+      `Custom provider request failed: ${response.status} ${errorText}`,
+    );
   }
 
+  return response;
+}
+
+export async function generateWithCustomProvider(
+  prompt: string,
+  config: CustomProviderConfig,
+  options?: ProviderRequestOptions,
+): Promise<string> {
+  const response = await requestChatCompletion(prompt, config, false, options);
   const data = (await response.json()) as {
     choices?: { message?: { content?: string } }[];
+    usage?: OpenAiUsage;
   };
 
+  reportCall(config, data.usage, options);
   const content = data.choices?.[0]?.message?.content;
 
   if (!content?.trim()) {
-    throw new Error("Custom provider returned empty response");
+    throw createCustomProviderError("empty_response", "Custom provider returned empty response");
   }
 
   return content;
@@ -63,41 +139,19 @@ export async function generateWithCustomProviderStream(
   prompt: string,
   config: CustomProviderConfig,
   onDelta: (chunk: string) => void,
+  options?: ProviderRequestOptions,
 ): Promise<string> {
-  const response = await fetch(`${normalizeBaseUrl(config.baseUrl)}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${config.apiKey}`,
-    },
-    body: JSON.stringify({
-      model: config.modelName,
-      temperature: 0.2,
-      stream: true,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a study strategy assistant. Return concise, practical exam preparation plans.",
-        },
-        { role: "user", content: prompt },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Custom provider request failed: ${response.status} ${errorText}`);
-  }
+  const response = await requestChatCompletion(prompt, config, true, options);
 
   if (!response.body) {
-    throw new Error("Custom provider streaming body missing");
+    throw createCustomProviderError("request_failed", "Custom provider streaming body missing");
   }
 
   const reader = response.body.getReader();
   const decoder = new TextDecoder();
   let buffer = "";
   let combined = "";
+  let usage: OpenAiUsage | undefined;
 
   while (true) {
     const { value, done } = await reader.read();
@@ -120,6 +174,18 @@ export async function generateWithCustomProviderStream(
         continue;
       }
 
+      // Some gateways report failures as an in-band event after a 200.
+      const streamError = json.error as { message?: string; code?: string } | undefined;
+      if (streamError) {
+        throw createCustomProviderError(
+          classifyCustomProviderError(0, `${streamError.code ?? ""} ${streamError.message ?? ""}`),
+          `Custom provider stream failed: ${streamError.message ?? "unknown error"}`,
+        );
+      }
+
+      // With include_usage the totals arrive in a final event whose choices are empty.
+      usage = (json.usage as OpenAiUsage | null | undefined) ?? usage;
+
       const choices = json.choices as Array<{ delta?: { content?: string }; message?: { content?: string } }> | undefined;
       const chunk = choices?.[0]?.delta?.content ?? choices?.[0]?.message?.content ?? "";
       if (!chunk) {
@@ -131,9 +197,16 @@ export async function generateWithCustomProviderStream(
     }
   }
 
+  reportCall(config, usage, options);
   if (!combined.trim()) {
-    throw new Error("Custom provider returned empty response");
+    throw createCustomProviderError("empty_response", "Custom provider returned empty response");
   }
 
   return combined;
 }
+
+export const customProvider: ModelProviderAdapter = {
+  id: "custom",
+  generate: generateWithCustomProvider,
+  generateStream: generateWithCustomProviderStream,
+};
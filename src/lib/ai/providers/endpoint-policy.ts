@@ -0,0 +1,49 @@
+import { ProviderErrorCode } from "@/lib/ai/types";
+import { hostOf, isNonPublicAddress, readHostAllowlist, resolveHostAddresses } from "@/lib/server/network-policy";
+
+/**
+ * Bring-your-own provider calls are made by the server, so a user-supplied
+ * base URL must not reach the server's own network: loopback, private,
+ * link-local (cloud metadata) and other non-public addresses are refused.
+ * Hosts listed in PROVIDER_PRIVATE_HOSTS (comma-separated, e.g.
+ * "localhost,ollama.internal") are exempt, for an Ollama the operator runs
+ * next to the app. Adapters also refuse redirects, so a public URL cannot
+ * bounce the request inward.
+ */
+
+function createEndpointError(message: string): Error & { code: ProviderErrorCode } {
+  const error = new Error(message) as Error & { code: ProviderErrorCode };
+  error.name = "ProviderEndpointError";
+  error.code = "request_failed";
+  return error;
+}
+
+export async function assertProviderEndpointAllowed(baseUrl: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw createEndpointError(`Provider base URL is not a valid URL: ${baseUrl}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw createEndpointError("Provider base URL must use http or https");
+  }
+
+  const host = hostOf(url);
+  if (readHostAllowlist(process.env.PROVIDER_PRIVATE_HOSTS).has(host)) {
+    return;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHostAddresses(host);
+  } catch {
+    throw createEndpointError(`Could not resolve provider host ${host}`);
+  }
+  if (!addresses.length || addresses.some(isNonPublicAddress)) {
+    throw createEndpointError(
+      `Provider host ${host} is on a private or local network, which the server does not call. ` +
+        "Use a publicly reachable URL, or have the operator add the host to PROVIDER_PRIVATE_HOSTS.",
+    );
+  }
+}
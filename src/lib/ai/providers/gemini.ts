@@ -1,6 +1,12 @@
+import type { JsonSchema } from "@/lib/ai/json-schema";
 import { GeminiGenerationOptions } from "@/lib/ai/types";
+import { reportModelCall } from "@/lib/ai/usage-recorder";
 
 const DEFAULT_GEMINI_MODEL = process.env.GEMINI_MODEL ?? "gemini-3.1-flash-lite-preview";
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com";
+// Video uploads are processed before they can be referenced in a prompt.
+const GEMINI_FILE_POLL_MS = 3_000;
+const GEMINI_FILE_POLL_ATTEMPTS = 100;
 
 type GeminiErrorCode = "missing_api_key" | "request_failed" | "empty_response";
 
@@ -11,6 +17,32 @@ function createGeminiError(code: GeminiErrorCode, message: string): Error & { co
   return error;
 }
 
+/** A recording or image sent with the prompt: inline base64 for small files, an uploaded file otherwise. */
+export type GeminiMediaPart =
+  | { inlineData: { mimeType: string; data: string } }
+  | { fileData: { mimeType: string; fileUri: string } };
+
+type GeminiPart = GeminiMediaPart | { text: string };
+
+export type GeminiUploadedFile = {
+  name: string;
+  uri: string;
+  mimeType: string;
+};
+
+function requireGeminiApiKey(): string {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw createGeminiError("missing_api_key", "Missing GEMINI_API_KEY");
+  }
+  return apiKey;
+}
+
+// The key travels in a header, not the query string, so it stays out of URL logs.
+function geminiHeaders(apiKey: string, extra?: Record<string, string>): Record<string, string> {
+  return { "Content-Type": "application/json", "x-goog-api-key": apiKey, ...extra };
+}
+
 export async function generateWithGeminiModel(prompt: string, modelName: string): Promise<string> {
   return generateWithGeminiModelWithOptions(prompt, modelName);
 }
@@ -23,38 +55,109 @@ function toThinkingLevel(level?: GeminiGenerationOptions["thinkingLevel"]): "MIN
   return undefined;
 }
 
+/** Gemini's `responseSchema` is an OpenAPI subset: same keywords, upper-case type names. */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  switch (schema.type) {
+    case "object":
+      return {
+        type: "OBJECT",
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, property]) => [key, toGeminiSchema(property)]),
+        ),
+        ...(schema.required?.length ? { required: schema.required } : {}),
+        propertyOrdering: Object.keys(schema.properties),
+      };
+    case "array":
+      return {
+        type: "ARRAY",
+        items: toGeminiSchema(schema.items),
+        ...(schema.minItems !== undefined ? { minItems: schema.minItems } : {}),
+        ...(schema.maxItems !== undefined ? { maxItems: schema.maxItems } : {}),
+      };
+    case "string":
+      return schema.enum ? { type: "STRING", format: "enum", enum: schema.enum } : { type: "STRING" };
+    case "number":
+    case "integer":
+      return {
+        type: schema.type === "integer" ? "INTEGER" : "NUMBER",
+        ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+        ...(schema.maximum !== undefined ? { maximum: schema.maximum } : {}),
+      };
+    case "boolean":
+      return { type: "BOOLEAN" };
+  }
+}
+
+type GeminiUsageMetadata = {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+};
+
+function reportGeminiCall(modelName: string, usage: GeminiUsageMetadata | undefined, options?: GeminiGenerationOptions) {
+  // Thinking tokens are billed at the output rate.
+  reportModelCall(
+    "gemini",
+    modelName,
+    usage
+      ? {
+          promptTokens: usage.promptTokenCount ?? 0,
+          completionTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        }
+      : undefined,
+    options,
+  );
+}
+
+function buildGenerationConfig(options?: GeminiGenerationOptions): Record<string, unknown> | undefined {
+  const thinkingLevel = toThinkingLevel(options?.thinkingLevel);
+  const responseSchema = options?.responseSchema;
+  if (!thinkingLevel && !responseSchema) {
+    return undefined;
+  }
+
+  return {
+    ...(thinkingLevel ? { thinkingConfig: { thinkingLevel } } : {}),
+    ...(responseSchema
+      ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(responseSchema.schema) }
+      : {}),
+  };
+}
+
 export async function generateWithGeminiModelWithOptions(
   prompt: string,
   modelName: string,
   options?: GeminiGenerationOptions,
 ): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw createGeminiError("missing_api_key", "Missing GEMINI_API_KEY");
-  }
+  return generateGeminiContent([{ text: prompt }], modelName, options);
+}
 
-  const thinkingLevel = toThinkingLevel(options?.thinkingLevel);
+/** One prompt about one media file, e.g. transcribing a lecture recording. */
+export async function generateWithGeminiMedia(
+  media: GeminiMediaPart,
+  prompt: string,
+  modelName: string,
+  options?: GeminiGenerationOptions,
+): Promise<string> {
+  return generateGeminiContent([media, { text: prompt }], modelName, options);
+}
 
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${apiKey}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        ...(thinkingLevel
-          ? {
-              generationConfig: {
-                thinkingConfig: {
-                  thinkingLevel,
-                },
-              },
-            }
-          : {}),
-      }),
-    }
-  );
+async function generateGeminiContent(
+  parts: GeminiPart[],
+  modelName: string,
+  options?: GeminiGenerationOptions,
+): Promise<string> {
+  const apiKey = requireGeminiApiKey();
+  const generationConfig = buildGenerationConfig(options);
+
+  const response = await fetch(`${GEMINI_API_BASE}/v1beta/models/${modelName}:generateContent`, {
+    method: "POST",
+    headers: geminiHeaders(apiKey),
+    body: JSON.stringify({
+      contents: [{ parts }],
+      ...(generationConfig ? { generationConfig } : {}),
+    }),
+  });
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -63,7 +166,9 @@ export async function generateWithGeminiModelWithOptions(
 
   const data = (await response.json()) as {
     candidates?: { content?: { parts?: { text?: string }[] } }[];
+    usageMetadata?: GeminiUsageMetadata;
   };
+  reportGeminiCall(modelName, data.usageMetadata, options);
 
   const text =
     data.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("\n") ?? "";
@@ -105,33 +210,17 @@ export async function generateWithGeminiModelStreamWithOptions(
   onDelta: (chunk: string) => void,
   options?: GeminiGenerationOptions,
 ): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw createGeminiError("missing_api_key", "Missing GEMINI_API_KEY");
-  }
-
-  const thinkingLevel = toThinkingLevel(options?.thinkingLevel);
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:streamGenerateContent?alt=sse&key=${apiKey}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        ...(thinkingLevel
-          ? {
-              generationConfig: {
-                thinkingConfig: {
-                  thinkingLevel,
-                },
-              },
-            }
-          : {}),
-      }),
-    },
-  );
+  const apiKey = requireGeminiApiKey();
+  const generationConfig = buildGenerationConfig(options);
+
+  const response = await fetch(`${GEMINI_API_BASE}/v1beta/models/${modelName}:streamGenerateContent?alt=sse`, {
+    method: "POST",
+    headers: geminiHeaders(apiKey),
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      ...(generationConfig ? { generationConfig } : {}),
+    }),
+  });
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -146,6 +235,8 @@ export async function generateWithGeminiModelStreamWithOptions(
   const decoder = new TextDecoder();
   let buffer = "";
   let combined = "";
+  // Every chunk carries the running totals, so the last one seen is the final count.
+  let usage: GeminiUsageMetadata | undefined;
 
   while (true) {
     const { value, done } = await reader.read();
@@ -169,7 +260,8 @@ export async function generateWithGeminiModelStreamWithOptions(
       }
 
       try {
-        const parsed = JSON.parse(payload) as unknown;
+        const parsed = JSON.parse(payload) as { usageMetadata?: GeminiUsageMetadata };
+        usage = parsed.usageMetadata ?? usage;
         const chunk = extractGeminiTextFromPayload(parsed);
         if (!chunk) {
           continue;
@@ -183,6 +275,7 @@ export async function generateWithGeminiModelStreamWithOptions(
     }
   }
 
+  reportGeminiCall(modelName, usage, options);
   if (!combined.trim()) {
     throw createGeminiError("empty_response", "Gemini returned empty response");
   }
@@ -190,6 +283,64 @@ export async function generateWithGeminiModelStreamWithOptions(
   return combined;
 }
 
+/**
+ * Uploads a file through the Files API's resumable protocol, streaming the
+ * body so a large recording is never held in memory, and waits until Gemini
+ * has processed it.
+ */
+export async function uploadGeminiFile(
+  body: ReadableStream<Uint8Array>,
+  size: number,
+  mimeType: string,
+  displayName: string,
+): Promise<GeminiUploadedFile> {
+  const apiKey = requireGeminiApiKey();
+  const start = await fetch(`${GEMINI_API_BASE}/upload/v1beta/files`, {
+    method: "POST",
+    headers: geminiHeaders(apiKey, {
+      "X-Goog-Upload-Protocol": "resumable",
+      "X-Goog-Upload-Command": "start",
+      "X-Goog-Upload-Header-Content-Length": String(size),
+      "X-Goog-Upload-Header-Content-Type": mimeType,
+    }),
+    body: JSON.stringify({ file: { display_name: displayName } }),
+  });
+  const uploadUrl = start.headers.get("x-goog-upload-url");
+  if (!start.ok || !uploadUrl) {
+    throw createGeminiError("request_failed", `Gemini file upload failed to start: ${start.status}`);
+  }
+
+  const upload = await fetch(uploadUrl, {
+    method: "POST",
+    headers: {
+      "Content-Length": String(size),
+      "X-Goog-Upload-Offset": "0",
+      "X-Goog-Upload-Command": "upload, finalize",
+    },
+    body,
+    duplex: "half",
+  } as RequestInit & { duplex: "half" });
+  if (!upload.ok) {
+    throw createGeminiError("request_failed", `Gemini file upload failed: ${upload.status} ${await upload.text()}`);
+  }
+  let file = ((await upload.json()) as { file?: { uri?: string; name?: string; state?: string } }).file;
+
+  for (let attempt = 0; file?.state === "PROCESSING" && attempt < GEMINI_FILE_POLL_ATTEMPTS; attempt += 1) {
+    await new Promise((resolve) => setTimeout(resolve, GEMINI_FILE_POLL_MS));
+    const poll = await fetch(`${GEMINI_API_BASE}/v1beta/${file.name}`, { headers: geminiHeaders(apiKey) });
+    file = poll.ok ? ((await poll.json()) as typeof file) : file;
+  }
+  if (!file?.uri || !file.name || file.state !== "ACTIVE") {
+    throw createGeminiError("request_failed", `Gemini could not process the file (${file?.state ?? "no file"})`);
+  }
+  return { name: file.name, uri: file.uri, mimeType };
+}
+
+/** Uploaded files expire on their own after two days; deleting them is just tidier. */
+export async function deleteGeminiFile(file: GeminiUploadedFile): Promise<void> {
+  await fetch(`${GEMINI_API_BASE}/v1beta/${file.name}`, { method: "DELETE", headers: geminiHeaders(requireGeminiApiKey()) });
+}
+
 export async function generateWithGemini(prompt: string): Promise<string> {
   return generateWithGeminiModel(prompt, DEFAULT_GEMINI_MODEL);
 }
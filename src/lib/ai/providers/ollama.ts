@@ -0,0 +1,199 @@
+import { DEFAULT_SYSTEM_PROMPT } from "@/lib/ai/providers/catalog";
+import { assertProviderEndpointAllowed } from "@/lib/ai/providers/endpoint-policy";
+import { CustomProviderConfig, ModelProviderAdapter, ProviderErrorCode, ProviderRequestOptions } from "@/lib/ai/types";
+import type { ProviderUsage } from "@/lib/ai/usage";
+import { reportModelCall } from "@/lib/ai/usage-recorder";
+
+/**
+ * Ollama's native `/api/chat` endpoint. Calls come from the app server, so
+ * the base URL must be reachable from there; a localhost or private-network
+ * Ollama has to be listed in PROVIDER_PRIVATE_HOSTS. No key is needed; one is
+ * only sent (as a bearer token) when Ollama sits behind an auth proxy.
+ * Streaming responses are newline-delimited JSON, not SSE.
+ */
+
+const OLLAMA_BASE_URL = "http://localhost:11434";
+
+function createOllamaError(code: ProviderErrorCode, message: string): Error & { code: ProviderErrorCode } {
+  const error = new Error(message) as Error & { code: ProviderErrorCode };
+  error.name = "OllamaProviderError";
+  error.code = code;
+  return error;
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim() || OLLAMA_BASE_URL;
+  return trimmed.replace(/\/+$/, "").replace(/\/api$/, "");
+}
+
+function classifyOllamaError(status: number, message: string): ProviderErrorCode {
+  const detail = message.toLowerCase();
+  if (status === 401 || status === 403) return "auth_failed";
+  if (status === 404 || (detail.includes("model") && detail.includes("not found"))) return "model_not_found";
+  if (status === 429) return "rate_limited";
+  if (status === 503 || detail.includes("server busy")) return "overloaded";
+  if (detail.includes("context length") || detail.includes("context window")) return "context_length_exceeded";
+  return "request_failed";
+}
+
+type OllamaChatResponse = {
+  message?: { content?: string };
+  error?: string;
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+};
+
+/** The final (`done`) object carries the token counts. */
+function toUsage(json: OllamaChatResponse | undefined): ProviderUsage | undefined {
+  if (!json?.done || (json.prompt_eval_count === undefined && json.eval_count === undefined)) {
+    return undefined;
+  }
+  return { promptTokens: json.prompt_eval_count ?? 0, completionTokens: json.eval_count ?? 0 };
+}
+
+function readErrorMessage(text: string): string {
+  try {
+    return (JSON.parse(text) as { error?: string }).error ?? text;
+  } catch {
+    return text;
+  }
+}
+
+async function requestChat(
+  prompt: string,
+  config: CustomProviderConfig,
+  stream: boolean,
+  options?: ProviderRequestOptions,
+): Promise<Response> {
+  const baseUrl = normalizeBaseUrl(config.baseUrl);
+  await assertProviderEndpointAllowed(baseUrl);
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/api/chat`, {
+      method: "POST",
+      redirect: "error",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.modelName,
+        stream,
+        options: { temperature: 0.2 },
+        // Ollama takes a plain JSON Schema as `format` and constrains decoding to it.
+        ...(options?.responseSchema ? { format: options.responseSchema.schema } : {}),
+        messages: [
+          { role: "system", content: config.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT },
+          { role: "user", content: prompt },
+        ],
+      }),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "network error";
+    throw createOllamaError("request_failed", `Could not reach Ollama at ${baseUrl}: ${reason}`);
+  }
+
+  if (!response.ok) {
+    const message = readErrorMessage(await response.text());
+    throw createOllamaError(
+      classifyOllamaError(response.status, message),
+      `Ollama request failed: ${response.status} ${message}`,
+    );
+  }
+
+  return response;
+}
+
+export async function generateWithOllama(
+  prompt: string,
+  config: CustomProviderConfig,
+  options?: ProviderRequestOptions,
+): Promise<string> {
+  const response = await requestChat(prompt, config, false, options);
+  const data = (await response.json()) as OllamaChatResponse;
+
+  if (data.error) {
+    throw createOllamaError(classifyOllamaError(0, data.error), `Ollama request failed: ${data.error}`);
+  }
+
+  reportModelCall("ollama", config.modelName, toUsage(data), options);
+  const content = data.message?.content;
+  if (!content?.trim()) {
+    throw createOllamaError("empty_response", "Ollama returned empty response");
+  }
+
+  return content;
+}
+
+export async function generateWithOllamaStream(
+  prompt: string,
+  config: CustomProviderConfig,
+  onDelta: (chunk: string) => void,
+  options?: ProviderRequestOptions,
+): Promise<string> {
+  const response = await requestChat(prompt, config, true, options);
+
+  if (!response.body) {
+    throw createOllamaError("request_failed", "Ollama stream body missing");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let combined = "";
+  let final: OllamaChatResponse | undefined;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let json: OllamaChatResponse;
+    try {
+      json = JSON.parse(line) as typeof json;
+    } catch {
+      return;
+    }
+
+    if (json.error) {
+      throw createOllamaError(classifyOllamaError(0, json.error), `Ollama stream failed: ${json.error}`);
+    }
+
+    const chunk = json.message?.content ?? "";
+    if (chunk) {
+      combined += chunk;
+      onDelta(chunk);
+    }
+    if (json.done) {
+      final = json;
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  // The final object is not always newline-terminated.
+  handleLine(buffer + decoder.decode());
+
+  reportModelCall("ollama", config.modelName, toUsage(final), options);
+  if (!combined.trim()) {
+    throw createOllamaError("empty_response", "Ollama returned empty response");
+  }
+
+  return combined;
+}
+
+export const ollamaProvider: ModelProviderAdapter = {
+  id: "ollama",
+  generate: generateWithOllama,
+  generateStream: generateWithOllamaStream,
+};
@@ -0,0 +1,20 @@
+import { anthropicProvider } from "@/lib/ai/providers/anthropic";
+import { azureOpenAiProvider } from "@/lib/ai/providers/azure-openai";
+import { customProvider } from "@/lib/ai/providers/custom";
+import { ollamaProvider } from "@/lib/ai/providers/ollama";
+import { ExternalModelType, ModelProviderAdapter } from "@/lib/ai/types";
+
+/**
+ * Adapters for the providers a user can bring their own endpoint for. Gemini
+ * is not listed: it runs on the server key through the fast/smart router.
+ */
+const MODEL_PROVIDERS: Record<ExternalModelType, ModelProviderAdapter> = {
+  custom: customProvider,
+  anthropic: anthropicProvider,
+  ollama: ollamaProvider,
+  "azure-openai": azureOpenAiProvider,
+};
+
+export function getModelProvider(modelType: ExternalModelType): ModelProviderAdapter {
+  return MODEL_PROVIDERS[modelType];
+}
@@ -0,0 +1,284 @@
+import type { JsonSchema, StructuredResponseSchema } from "@/lib/ai/json-schema";
+
+/**
+ * Schemas for every task that asks a model for JSON, with the TypeScript shape
+ * a response has once it validates. These describe what the model returns,
+ * not the stored result types: the callers still fill in citations, routing
+ * metadata and defaults around them.
+ */
+
+const PRIORITY: JsonSchema = { type: "string", enum: ["high", "medium", "low"] };
+const DIFFICULTY: JsonSchema = { type: "string", enum: ["easy", "medium", "hard"] };
+const STRING_LIST: JsonSchema = { type: "array", items: { type: "string" } };
+
+type Priority = "high" | "medium" | "low";
+type Difficulty = "easy" | "medium" | "hard";
+
+export type TopicStudyResponse = {
+  whatToLearn: string[];
+  explanation: { concept: string; simpleExplanation: string; example: string; examTip: string };
+  keyExamPoints: string[];
+};
+
+export const TOPIC_STUDY_RESPONSE_SCHEMA: StructuredResponseSchema = {
+  name: "topic_study_content",
+  schema: {
+    type: "object",
+    properties: {
+      whatToLearn: STRING_LIST,
+      explanation: {
+        type: "object",
+        properties: {
+          concept: { type: "string" },
+          simpleExplanation: { type: "string" },
+          example: { type: "string" },
+          examTip: { type: "string" },
+        },
+        required: ["concept", "simpleExplanation", "example", "examTip"],
+      },
+      keyExamPoints: STRING_LIST,
+    },
+    required: ["whatToLearn", "explanation", "keyExamPoints"],
+  },
+};
+
+export type LearnItemResponse = {
+  conceptExplanation: string;
+  example: string;
+  examTip: string;
+  typicalExamQuestion: string;
+  fullAnswer: string;
+};
+
+export const LEARN_ITEM_RESPONSE_SCHEMA: StructuredResponseSchema = {
+  name: "learn_item_content",
+  schema: {
+    type: "object",
+    properties: {
+      conceptExplanation: { type: "string" },
+      example: { type: "string" },
+      examTip: { type: "string" },
+      typicalExamQuestion: { type: "string" },
+      fullAnswer: { type: "string" },
+    },
+    required: ["conceptExplanation", "example", "examTip", "typicalExamQuestion", "fullAnswer"],
+  },
+};
+
+export type ExamModeResponse = {
+  likelyQuestions: Array<{ question: string; expectedAnswer: string; difficulty: Difficulty; timeLimitMinutes: number }>;
+  readinessScore: number;
+  weakAreas: string[];
+  examTip: string;
+};
+
+export const EXAM_MODE_RESPONSE_SCHEMA: StructuredResponseSchema = {
+  name: "exam_mode_content",
+  schema: {
+    type: "object",
+    properties: {
+      likelyQuestions: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          properties: {
+            question: { type: "string" },
+            expectedAnswer: { type: "string" },
+            difficulty: DIFFICULTY,
+            timeLimitMinutes: { type: "number", minimum: 1 },
+          },
+          required: ["question", "expectedAnswer", "difficulty", "timeLimitMinutes"],
+        },
+      },
+      readinessScore: { type: "number", minimum: 0, maximum: 100 },
+      weakAreas: STRING_LIST,
+      examTip: { type: "string" },
+    },
+    required: ["likelyQuestions", "readinessScore", "weakAreas", "examTip"],
+  },
+};
+
+export type MicroQuizResponse = {
+  questions: Array<{ question: string; answer: string; explanation: string; difficulty: Difficulty }>;
+};
+
+export const MICRO_QUIZ_RESPONSE_SCHEMA: StructuredResponseSchema = {
+  name: "micro_quiz_content",
+  schema: {
+    type: "object",
+    properties: {
+      questions: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          properties: {
+            question: { type: "string" },
+            answer: { type: "string" },
+            explanation: { type: "string" },
+            difficulty: DIFFICULTY,
+          },
+          required: ["question", "answer", "explanation", "difficulty"],
+        },
+      },
+    },
+    required: ["questions"],
+  },
+};
+
+type StrategyTopicResponse = {
+  slug: string;
+  title: string;
+  priority: Priority;
+  estimatedTime: string;
+  whatToLearn: string[];
+  explanation: string;
+  keyExamPoints: string[];
+  confidence: Priority;
+  chapterNumber?: number;
+  chapterTitle?: string;
+};
+
+export type StrategyResponse = {
+  strategySummary: { hoursLeft: number; estimatedCoverage: string; highImpactTopics: number };
+  chapters: Array<{
+    chapterNumber: number;
+    chapterTitle: string;
+    weightage?: string;
+    priority: Priority;
+    estimatedTime: string;
+    topics: StrategyTopicResponse[];
+  }>;
+  highPriority: string[];
+  mediumPriority: string[];
+  lowPriority: string[];
+  studyOrder: string[];
+  reasoning: string[];
+  topics: StrategyTopicResponse[];
+  modelUsed: string;
+  efficiencyScore: string;
+};
+
+const STRATEGY_TOPIC: JsonSchema = {
+  type: "object",
+  properties: {
+    slug: { type: "string" },
+    title: { type: "string" },
+    priority: PRIORITY,
+    estimatedTime: { type: "string" },
+    whatToLearn: STRING_LIST,
+    explanation: { type: "string" },
+    keyExamPoints: STRING_LIST,
+    confidence: PRIORITY,
+    chapterNumber: { type: "integer" },
+    chapterTitle: { type: "string" },
+  },
+  required: ["slug", "title", "priority", "estimatedTime", "whatToLearn", "explanation", "keyExamPoints", "confidence"],
+};
+
+export const STRATEGY_RESPONSE_SCHEMA: StructuredResponseSchema = {
+  name: "strategy_result",
+  schema: {
+    type: "object",
+    properties: {
+      strategySummary: {
+        type: "object",
+        properties: {
+          hoursLeft: { type: "number" },
+          estimatedCoverage: { type: "string" },
+          highImpactTopics: { type: "integer" },
+        },
+        required: ["hoursLeft", "estimatedCoverage", "highImpactTopics"],
+      },
+      chapters: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            chapterNumber: { type: "integer" },
+            chapterTitle: { type: "string" },
+            weightage: { type: "string" },
+            priority: PRIORITY,
+            estimatedTime: { type: "string" },
+            topics: { type: "array", items: STRATEGY_TOPIC },
+          },
+          required: ["chapterNumber", "chapterTitle", "priority", "estimatedTime", "topics"],
+        },
+      },
+      highPriority: STRING_LIST,
+      mediumPriority: STRING_LIST,
+      lowPriority: STRING_LIST,
+      studyOrder: STRING_LIST,
+      reasoning: STRING_LIST,
+      topics: { type: "array", items: STRATEGY_TOPIC },
+      modelUsed: { type: "string" },
+      efficiencyScore: { type: "string" },
+    },
+    required: [
+      "strategySummary",
+      "chapters",
+      "highPriority",
+      "mediumPriority",
+      "lowPriority",
+      "studyOrder",
+      "reasoning",
+      "topics",
+      "modelUsed",
+      "efficiencyScore",
+    ],
+  },
+};
+
+export type RerankResponse = {
+  scores: Array<{ id: number; relevance: number }>;
+};
+
+export const RERANK_RESPONSE_SCHEMA: StructuredResponseSchema = {
+  name: "rerank_scores",
+  schema: {
+    type: "object",
+    properties: {
+      scores: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "integer", minimum: 1 },
+            relevance: { type: "number", minimum: 0, maximum: 10 },
+          },
+          required: ["id", "relevance"],
+        },
+      },
+    },
+    required: ["scores"],
+  },
+};
+
+export type TranscriptResponse = {
+  language: string;
+  segments: Array<{ start: number; end: number; text: string }>;
+};
+
+export const TRANSCRIPT_RESPONSE_SCHEMA: StructuredResponseSchema = {
+  name: "recording_transcript",
+  schema: {
+    type: "object",
+    properties: {
+      language: { type: "string" },
+      segments: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            start: { type: "number", minimum: 0 },
+            end: { type: "number", minimum: 0 },
+            text: { type: "string" },
+          },
+          required: ["start", "end", "text"],
+        },
+      },
+    },
+    required: ["language", "segments"],
+  },
+};
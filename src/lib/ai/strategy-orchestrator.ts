@@ -1,15 +1,20 @@
 import { generateStrategy } from "@/lib/ai/ai-client";
+import { mapWithChapterHints } from "@/lib/ai/chapter-mapping";
 import { FAST_MODEL, resolveModelConfig } from "@/lib/ai/modelRouter";
+import { getModelProviderLabel } from "@/lib/ai/providers/catalog";
 import {
+  CustomProviderConfig,
   ModelConfig,
+  ModelType,
   StrategyResult,
-  SyllabusChapterHint,
-  TopicPriority,
   UploadedFile,
   normalizeStrategyResult,
 } from "@/lib/ai/types";
+import { recordModelCallsWith } from "@/lib/ai/usage-recorder";
+import { withTimeout } from "@/lib/async";
 import { parseUploadedFiles } from "@/lib/parsing";
 import { extractSyllabusChapters } from "@/lib/parsing/exam-intelligence";
+import { createAiUsageSink } from "@/lib/firestore/ai-usage-admin";
 import {
   createStrategyJobDoc,
   getStrategyJobDoc,
@@ -17,7 +22,8 @@ import {
   type StrategyJobStage,
   updateStrategyJobDoc,
 } from "@/lib/firestore/strategy-jobs";
-import { computeExamLikelihood } from "@/lib/study/exam-likelihood";
+import { getTaskRoutingAdmin } from "@/lib/firestore/user-preferences-admin";
+import { withDailyAiCallCount } from "@/lib/server/quota";
 
 export type StrategyPipelineRequest = {
   hoursLeft: number;
@@ -25,12 +31,8 @@ export type StrategyPipelineRequest = {
   syllabusTextInput?: string;
   studyMaterialFiles: UploadedFile[];
   previousPaperFiles: UploadedFile[];
-  modelType?: "gemini" | "custom";
-  modelConfig?: {
-    baseUrl?: string;
-    apiKey?: string;
-    modelName?: string;
-  } | null;
+  modelType?: ModelType;
+  modelConfig?: Partial<CustomProviderConfig> | null;
 };
 
 export type StrategyJobState = {
@@ -48,173 +50,16 @@ export type StrategyJobState = {
 const strategyJobRequests = new Map<string, StrategyPipelineRequest>();
 const strategyJobOwners = new Map<string, string>();
 
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
-  return new Promise<T>((resolve, reject) => {
-    const timer = setTimeout(() => {
-      reject(new Error(message));
-    }, timeoutMs);
-
-    promise
-      .then((value) => {
-        clearTimeout(timer);
-        resolve(value);
-      })
-      .catch((error) => {
-        clearTimeout(timer);
-        reject(error);
-      });
-  });
-}
-
-function parseWeightage(weightage?: string): number {
-  if (!weightage) {
-    return 0;
-  }
-
-  const match = weightage.match(/(\d+(?:\.\d+)?)/);
-  if (!match) {
-    return 0;
-  }
-
-  return Number.parseFloat(match[1]);
-}
-
-function topicPriorityScore(priority: TopicPriority): number {
-  if (priority === "high") {
-    return 3;
-  }
-  if (priority === "medium") {
-    return 2;
-  }
-  return 1;
-}
-
-function chapterPriorityFromHint(hint: SyllabusChapterHint, topics: StrategyResult["topics"]): TopicPriority {
-  const topicScore = topics.reduce((score, topic) => score + topicPriorityScore(topic.priority), 0);
-  const weightageScore = parseWeightage(hint.weightage);
-  const blended = weightageScore + hint.emphasisScore + hint.coverageScore + topicScore;
-
-  if (blended >= 16) {
-    return "high";
-  }
-  if (blended >= 8) {
-    return "medium";
-  }
-  return "low";
-}
-
-function hasTokenHit(target: string, chapterTitle: string): boolean {
-  const normalized = target.toLowerCase();
-  const tokens = chapterTitle
-    .toLowerCase()
-    .split(/[^a-z0-9]+/)
-    .filter((token) => token.length > 3);
-
-  return tokens.some((token) => normalized.includes(token));
-}
-
-function toChapterTime(priority: TopicPriority, topicCount: number): string {
-  const count = Math.max(topicCount, 1);
-  if (priority === "high") {
-    return `${Math.max(2, count)}-${Math.max(3, count + 1)} hours`;
-  }
-  if (priority === "medium") {
-    return `${Math.max(1, count)}-${Math.max(2, count)} hours`;
-  }
-  return "45-90 min";
-}
-
-function mapWithChapterHints(
-  result: StrategyResult,
-  chapterHints: SyllabusChapterHint[],
-  previousPaperText: string,
-  allFiles: UploadedFile[]
-): StrategyResult {
-  if (!chapterHints.length) {
-    return result;
-  }
-
-  const hints = [...chapterHints].sort((a, b) => a.chapterNumber - b.chapterNumber);
-  const mappedTopics = result.topics.map((topic) => {
-    if (topic.chapterNumber && hints.some((hint) => hint.chapterNumber === topic.chapterNumber)) {
-      const matchedHint = hints.find((hint) => hint.chapterNumber === topic.chapterNumber);
-      return {
-        ...topic,
-        chapterTitle: matchedHint?.chapterTitle ?? topic.chapterTitle,
-      };
-    }
-
-    const topicText = `${topic.title} ${topic.explanation}`.toLowerCase();
-    const scoredHints = hints
-      .map((hint) => {
-        const tokens = hint.chapterTitle
-          .toLowerCase()
-          .split(/[^a-z0-9]+/)
-          .filter((token) => token.length > 3);
-        const score = tokens.reduce(
-          (sum, token) => (topicText.includes(token) ? sum + 1 : sum),
-          0
-        );
-        return { hint, score };
-      })
-      .sort((a, b) => b.score - a.score || a.hint.chapterNumber - b.hint.chapterNumber);
-
-    const bestHint = scoredHints[0]?.hint ?? hints[0];
-    return {
-      ...topic,
-      chapterNumber: bestHint.chapterNumber,
-      chapterTitle: bestHint.chapterTitle,
-    };
-  });
-
-  const chapters = hints.map((hint) => {
-    const chapterTopics = mappedTopics.filter((topic) => topic.chapterNumber === hint.chapterNumber);
-    const priority = chapterPriorityFromHint(hint, chapterTopics);
-    const likelihood = computeExamLikelihood({
-      appearsInPreviousPaper: hasTokenHit(previousPaperText, hint.chapterTitle),
-      appearsInQuestionBank: allFiles.some((file) => file.name.toLowerCase().includes("question bank")),
-      repeatedInStudyMaterial: hint.coverageScore >= 2,
-      syllabusCoreTopic: hint.emphasisScore >= 2,
-      highChapterWeightage: parseWeightage(hint.weightage) >= 15,
-    });
-
-    return {
-      chapterNumber: hint.chapterNumber,
-      chapterTitle: hint.chapterTitle,
-      weightage: hint.weightage,
-      materialCoverage: hint.materialCoveragePercent,
-      lowMaterialConfidence: hint.materialCoveragePercent < 40,
-      examLikelihoodSummary: {
-        highLikelihoodQuestions: chapterTopics.filter((topic) => topic.priority === "high").length,
-        averageLikelihood: likelihood.score,
-      },
-      materialWarning: hint.materialAvailable ? undefined : "Material not uploaded for this chapter.",
-      priority,
-      estimatedTime: toChapterTime(priority, chapterTopics.length),
-      topics: hint.materialAvailable ? chapterTopics : [],
-    };
-  });
-
-  const activeChapters = chapters.filter((chapter) => chapter.topics.length || chapter.materialWarning);
-
-  return {
-    ...result,
-    schemaVersion: 2,
-    topics: activeChapters.flatMap((chapter) => chapter.topics),
-    chapters: activeChapters,
-  };
-}
-
 function getModelLabel(body: StrategyPipelineRequest): string {
-  if (body.modelType === "custom") {
-    return body.modelConfig?.modelName ?? "Custom Model";
+  if (body.modelType && body.modelType !== "gemini") {
+    return body.modelConfig?.modelName || getModelProviderLabel(body.modelType);
   }
 
   return FAST_MODEL;
 }
 
-function toModelConfig(body: StrategyPipelineRequest): ModelConfig {
-  return resolveModelConfig(body);
+async function toModelConfig(body: StrategyPipelineRequest, userId: string): Promise<ModelConfig> {
+  return resolveModelConfig(body, await getTaskRoutingAdmin(userId));
 }
 
 async function updateJob(userId: string, jobId: string, patch: Partial<StrategyJobState>) {
@@ -259,7 +104,7 @@ async function runStrategyPipeline(jobId: string) {
       throw new Error("Provide syllabus files or syllabus text, and at least one study material file.");
     }
 
-    const modelConfig = toModelConfig(body);
+    const modelConfig = await toModelConfig(body, jobDoc.userId);
     const allFiles = [...syllabusFiles, ...studyMaterialFiles, ...previousPaperFiles];
 
     await updateJob(jobDoc.userId, jobId, { stage: "extracting_text", progress: 45, status: "running" });
@@ -282,6 +127,8 @@ async function runStrategyPipeline(jobId: string) {
           },
           examIntelligence: {
             repeatedTopics: parsed.repeatedTopics,
+            examQuestions: parsed.examQuestions,
+            questionClusters: parsed.questionClusters,
           },
           chapterHints,
           fileWarnings: parsed.warnings,
@@ -296,7 +143,13 @@ async function runStrategyPipeline(jobId: string) {
     const normalized = normalizeStrategyResult(strategy, body.hoursLeft, routedModelLabel);
 
     await updateJob(jobDoc.userId, jobId, { stage: "preparing_study_content", progress: 90, status: "running" });
-    const chapterMapped = mapWithChapterHints(normalized, chapterHints, parsed.previousPaperText, allFiles);
+    const chapterMapped = mapWithChapterHints(
+      normalized,
+      chapterHints,
+      parsed.previousPaperText,
+      allFiles,
+      parsed.questionClusters,
+    );
 
     await updateJob(jobDoc.userId, jobId, {
       status: "complete",
@@ -334,7 +187,7 @@ export async function createStrategyJob(userId: string, request: StrategyPipelin
 
   strategyJobRequests.set(id, request);
   strategyJobOwners.set(id, userId);
-  void runStrategyPipeline(id);
+  void recordModelCallsWith(withDailyAiCallCount(userId, createAiUsageSink(userId)), () => runStrategyPipeline(id));
 
   return {
     id,
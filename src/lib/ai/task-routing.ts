@@ -0,0 +1,117 @@
+import type { AiTaskType } from "@/lib/ai/modelRouter";
+
+/**
+ * Per-task routing overrides a user keeps in their preferences. Tasks without
+ * an entry use the default router (fast model with a smart upgrade, or the
+ * session's own provider). Every table read from storage or a request goes
+ * through `parseTaskRoutingTable`, so the router only ever sees valid rules.
+ */
+
+export type TaskRoute =
+  /** Gemini fast model, without the quality upgrade. */
+  | { target: "fast" }
+  /** Gemini smart model. */
+  | { target: "smart" }
+  /** The provider picked for the session (model switcher); default routing when that is Gemini. */
+  | { target: "session" }
+  /** A model on a local Ollama server. Needs no key, so the whole rule can live in preferences. */
+  | { target: "ollama"; modelName: string; baseUrl?: string };
+
+export type TaskRouteTarget = TaskRoute["target"];
+
+export type TaskRoutingTable = Partial<Record<AiTaskType, TaskRoute>>;
+
+export const AI_TASK_LABELS: Record<AiTaskType, string> = {
+  strategy_generation: "Study strategy",
+  chapter_prioritization: "Chapter prioritization",
+  exam_readiness_scoring: "Exam readiness score",
+  crash_course_generation: "Crash course",
+  topic_ranking: "Topic ranking",
+  adaptive_path: "Adaptive study path",
+  learn_now_answer: "Learn-now answers",
+  quick_explanation: "Quick explanations",
+  chat_follow_up: "Chat follow-ups",
+  concept_summary: "Concept summaries",
+  topic_description: "Topic descriptions",
+  label_generation: "Labels",
+  quiz_generation: "Quizzes",
+  source_summarization: "Source summaries",
+  clarification_question: "Clarifying questions",
+  exam_mode_generation: "Exam mode",
+  retrieval_rerank: "Retrieval reranking",
+};
+
+export const AI_TASK_TYPES = Object.keys(AI_TASK_LABELS) as AiTaskType[];
+
+export const TASK_ROUTE_TARGET_LABELS: Record<TaskRouteTarget, string> = {
+  fast: "Fast Gemini model",
+  smart: "Smart Gemini model",
+  session: "Session provider",
+  ollama: "Local Ollama model",
+};
+
+const OLLAMA_MODEL_PATTERN = /^[\w.\-/]+(:[\w.\-]+)?$/;
+
+function isAiTaskType(value: string): value is AiTaskType {
+  return AI_TASK_TYPES.includes(value as AiTaskType);
+}
+
+function parseTaskRoute(task: AiTaskType, value: unknown): TaskRoute | string {
+  if (!value || typeof value !== "object") {
+    return `${task}: route must be an object`;
+  }
+
+  const rule = value as { target?: unknown; modelName?: unknown; baseUrl?: unknown };
+  if (rule.target === "fast" || rule.target === "smart" || rule.target === "session") {
+    return { target: rule.target };
+  }
+  if (rule.target !== "ollama") {
+    return `${task}: unknown target ${JSON.stringify(rule.target)}`;
+  }
+
+  const modelName = typeof rule.modelName === "string" ? rule.modelName.trim() : "";
+  if (!modelName || modelName.length > 120 || !OLLAMA_MODEL_PATTERN.test(modelName)) {
+    return `${task}: Ollama route needs a model name such as llama3.1:8b`;
+  }
+
+  const baseUrl = typeof rule.baseUrl === "string" ? rule.baseUrl.trim() : "";
+  if (baseUrl) {
+    try {
+      const parsed = new URL(baseUrl);
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+        return `${task}: Ollama base URL must use http or https`;
+      }
+    } catch {
+      return `${task}: Ollama base URL is not a valid URL`;
+    }
+  }
+
+  return baseUrl ? { target: "ollama", modelName, baseUrl } : { target: "ollama", modelName };
+}
+
+/** Keeps the valid rules and reports why any others were dropped. */
+export function parseTaskRoutingTable(value: unknown): { table: TaskRoutingTable; errors: string[] } {
+  const table: TaskRoutingTable = {};
+  const errors: string[] = [];
+  if (value === undefined || value === null) {
+    return { table, errors };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { table, errors: ["routing table must be an object keyed by task type"] };
+  }
+
+  for (const [task, rule] of Object.entries(value)) {
+    if (!isAiTaskType(task)) {
+      errors.push(`${task}: unknown task type`);
+      continue;
+    }
+    const parsed = parseTaskRoute(task, rule);
+    if (typeof parsed === "string") {
+      errors.push(parsed);
+      continue;
+    }
+    table[task] = parsed;
+  }
+
+  return { table, errors };
+}
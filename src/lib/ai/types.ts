@@ -1,4 +1,11 @@
-export type ModelType = "gemini" | "custom";
+import type { StructuredResponseSchema } from "@/lib/ai/json-schema";
+import type { TaskRoutingTable } from "@/lib/ai/task-routing";
+import type { ProviderUsage, UsageTaskType } from "@/lib/ai/usage";
+
+export type ModelType = "gemini" | "custom" | "anthropic" | "ollama" | "azure-openai";
+
+/** Providers called with the user's own endpoint and credentials rather than the server's Gemini key. */
+export type ExternalModelType = Exclude<ModelType, "gemini">;
 
 export type StrategySummary = {
   hoursLeft: number;
@@ -18,8 +25,47 @@ export type SourceCitation = {
   sourceYear?: string;
   importanceLevel: ImportanceLevel;
   section?: string;
+  page?: number;
+  slide?: number;
+  heading?: string;
+  videoId?: string;
+  /** Where the cited part of a video starts and ends, in seconds. */
+  startSeconds?: number;
+  endSeconds?: number;
 };
 
+/** "m:ss", or "h:mm:ss" past the hour. */
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return hours ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+}
+
+/** Human-readable citation such as "Unit3.pdf, p. 14", "Lecture.pptx, slide 3" or "Lecture 4, 12:30". */
+export function formatCitationLabel(citation: Pick<SourceCitation, "sourceName" | "page" | "slide" | "startSeconds">): string {
+  if (typeof citation.page === "number") {
+    return `${citation.sourceName}, p. ${citation.page}`;
+  }
+  if (typeof citation.slide === "number") {
+    return `${citation.sourceName}, slide ${citation.slide}`;
+  }
+  if (typeof citation.startSeconds === "number") {
+    return `${citation.sourceName}, ${formatTimestamp(citation.startSeconds)}`;
+  }
+  return citation.sourceName;
+}
+
+/** Deep link to the cited moment of a YouTube video; other citations have no link. */
+export function citationHref(citation: Pick<SourceCitation, "videoId" | "startSeconds">): string | undefined {
+  if (!citation.videoId) {
+    return undefined;
+  }
+  const time = typeof citation.startSeconds === "number" ? `&t=${Math.floor(citation.startSeconds)}s` : "";
+  return `https://www.youtube.com/watch?v=${encodeURIComponent(citation.videoId)}${time}`;
+}
+
 export type StudyQuestionCard = {
   question: string;
   answer: string;
@@ -525,6 +571,8 @@ export type UploadedFile = {
   url: string;
   extension: string;
   category: FileCategory;
+  /** Photos picked together share a batch id and are indexed as one multi-page source. */
+  batchId?: string;
 };
 
 export type ExtractedTexts = {
@@ -538,8 +586,35 @@ export type RepeatedTopic = {
   frequency: number;
 };
 
+/** One question (or sub-part) split out of a previous exam paper. */
+export type ExtractedExamQuestion = {
+  /** Display label such as "Q3(b)". */
+  label: string;
+  questionNumber: number;
+  subPart?: string;
+  section?: string;
+  marks?: number;
+  text: string;
+  year?: string;
+  sourceName: string;
+  /** Label of the question this one is an "OR" alternative to. */
+  alternativeTo?: string;
+};
+
+/** Near-duplicate questions grouped across previous papers. */
+export type ExamQuestionCluster = {
+  canonicalText: string;
+  years: string[];
+  averageMarks?: number;
+  /** Number of distinct papers the question appeared in. */
+  paperCount: number;
+  questions: ExtractedExamQuestion[];
+};
+
 export type ExamIntelligence = {
   repeatedTopics: RepeatedTopic[];
+  examQuestions?: ExtractedExamQuestion[];
+  questionClusters?: ExamQuestionCluster[];
 };
 
 export type GenerateStrategyInput = {
@@ -551,14 +626,30 @@ export type GenerateStrategyInput = {
 };
 
 export type CustomProviderConfig = {
+  /** Optional for providers with a well-known default endpoint (Anthropic, local Ollama). */
   baseUrl: string;
   apiKey: string;
+  /** Model id, or the deployment name for Azure OpenAI. */
   modelName: string;
+  /** Azure OpenAI `api-version` query parameter. */
+  apiVersion?: string;
+  /** Replaces the adapter's default system prompt. */
+  systemPrompt?: string;
 };
 
 export type GeminiThinkingLevel = "minimal" | "low" | "medium" | "high";
 
-export type GeminiGenerationOptions = {
+/** Per-request options every provider accepts; each applies what its API supports. */
+export type ProviderRequestOptions = {
+  /** Sent as the provider's native structured-output schema where there is one. */
+  responseSchema?: StructuredResponseSchema;
+  /** Called once with the token counts the provider reported, if it reported any. */
+  onUsage?: (usage: ProviderUsage) => void;
+  /** Names the call in the usage rollups; "other" when unset. */
+  taskType?: UsageTaskType;
+};
+
+export type GeminiGenerationOptions = ProviderRequestOptions & {
   thinkingLevel?: GeminiThinkingLevel;
 };
 
@@ -566,12 +657,38 @@ export type ModelConfig =
   | {
       modelType: "gemini";
       config?: undefined;
+      /** The user's per-task overrides, already validated. */
+      routing?: TaskRoutingTable;
     }
   | {
-      modelType: "custom";
+      modelType: ExternalModelType;
       config: CustomProviderConfig;
+      routing?: TaskRoutingTable;
     };
 
+/** Failure classes shared by every provider adapter so the router can react uniformly. */
+export type ProviderErrorCode =
+  | "missing_api_key"
+  | "auth_failed"
+  | "rate_limited"
+  | "overloaded"
+  | "context_length_exceeded"
+  | "model_not_found"
+  | "content_filtered"
+  | "request_failed"
+  | "empty_response";
+
+export type ModelProviderAdapter = {
+  id: ExternalModelType;
+  generate: (prompt: string, config: CustomProviderConfig, options?: ProviderRequestOptions) => Promise<string>;
+  generateStream: (
+    prompt: string,
+    config: CustomProviderConfig,
+    onDelta: (chunk: string) => void,
+    options?: ProviderRequestOptions,
+  ) => Promise<string>;
+};
+
 export function normalizeStrategyResult(
   strategy: StrategyResult | StrategyResultV1,
   hoursLeft: number,
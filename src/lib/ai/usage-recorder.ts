@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import type { ModelType, ProviderRequestOptions } from "@/lib/ai/types";
+import { priceUsage, ProviderUsage, TokenUsage, UsageTaskType } from "@/lib/ai/usage";
+
+/**
+ * Sees every model call made while serving a request, whichever path made it:
+ * routed generations with their fallbacks and schema repairs, calls whose
+ * output ends in a StructuredOutputError, and direct provider calls such as
+ * transcription and video notes. Providers report once per response they
+ * receive; whoever opened the scope decides where the calls are stored.
+ * Calls made outside a scope are not recorded.
+ */
+
+export type ModelCallRecord = {
+  taskType: UsageTaskType;
+  modelType: ModelType;
+  modelName: string;
+  /** Undefined when the provider reported no token counts. */
+  usage?: TokenUsage;
+};
+
+/** Must not throw: it runs inside the provider call. */
+export type ModelCallSink = (call: ModelCallRecord) => void;
+
+const activeSink = new AsyncLocalStorage<ModelCallSink>();
+
+export function recordModelCallsWith<T>(sink: ModelCallSink, run: () => T): T {
+  return activeSink.run(sink, run);
+}
+
+/** True inside `recordModelCallsWith`, which only requests from a signed-in user open. */
+export function hasModelCallScope(): boolean {
+  return activeSink.getStore() !== undefined;
+}
+
+/** Called by the providers once per response, before the response is checked for content. */
+export function reportModelCall(
+  modelType: ModelType,
+  modelName: string,
+  usage: ProviderUsage | undefined,
+  options?: ProviderRequestOptions,
+): void {
+  if (usage) {
+    options?.onUsage?.(usage);
+  }
+  activeSink.getStore()?.({
+    taskType: options?.taskType ?? "other",
+    modelType,
+    modelName,
+    usage: usage ? priceUsage(modelType, modelName, usage) : undefined,
+  });
+}
+
+/** The embedding backends live in a module the browser also loads, so they report through this. */
+export function reportEmbeddingCall(modelName: string, usage: ProviderUsage): void {
+  reportModelCall("gemini", modelName, usage, { taskType: "embeddings" });
+}
@@ -0,0 +1,119 @@
+import type { AiTaskType } from "@/lib/ai/modelRouter";
+import type { ModelType } from "@/lib/ai/types";
+
+/**
+ * Token usage and estimated cost for AI calls, plus the rollup shape kept per
+ * session and per user. Prices are list prices in USD per million tokens and
+ * only approximate the bill: they ignore caching discounts, long-context tiers
+ * and free quotas. Models without a known price report tokens but no cost.
+ */
+
+/** Tokens one provider call reported; thinking tokens count as completion. */
+export type ProviderUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type TokenUsage = ProviderUsage & {
+  /** Undefined when none of the calls ran on a model with a known price. */
+  estimatedCostUsd?: number;
+};
+
+export type AiUsageTotals = {
+  /** Model calls, so a fallback or a schema repair adds a second call to the same response. */
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostUsd: number;
+};
+
+export type AiUsageRollup = AiUsageTotals & {
+  byTaskType: Record<string, AiUsageTotals>;
+};
+
+/** Model calls made outside the router; routed calls are named by their AiTaskType. */
+export const DIRECT_CALL_TASK_LABELS = {
+  video_notes: "Video notes",
+  video_language_detection: "Video language detection",
+  transcript_translation: "Transcript translation",
+  query_expansion: "Query expansion",
+  recording_transcription: "Recording transcription",
+  embeddings: "Embeddings",
+  other: "Other",
+} as const;
+
+export type DirectCallTaskType = keyof typeof DIRECT_CALL_TASK_LABELS;
+
+export type UsageTaskType = AiTaskType | DirectCallTaskType;
+
+type ModelPrice = { inputPerMillion: number; outputPerMillion: number };
+
+// Matched by prefix, so list specific ids before the families they belong to.
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ["gemini-3.1-pro", { inputPerMillion: 2, outputPerMillion: 12 }],
+  ["gemini-3.1-flash-lite", { inputPerMillion: 0.25, outputPerMillion: 1.5 }],
+  ["gemini-3-pro", { inputPerMillion: 2, outputPerMillion: 12 }],
+  ["gemini-2.5-pro", { inputPerMillion: 1.25, outputPerMillion: 10 }],
+  ["gemini-2.5-flash-lite", { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+  ["gemini-2.5-flash", { inputPerMillion: 0.3, outputPerMillion: 2.5 }],
+  ["gemini-embedding", { inputPerMillion: 0.15, outputPerMillion: 0 }],
+  ["claude-opus", { inputPerMillion: 15, outputPerMillion: 75 }],
+  ["claude-sonnet", { inputPerMillion: 3, outputPerMillion: 15 }],
+  ["claude-haiku", { inputPerMillion: 1, outputPerMillion: 5 }],
+  ["gpt-4.1-nano", { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+  ["gpt-4.1-mini", { inputPerMillion: 0.4, outputPerMillion: 1.6 }],
+  ["gpt-4.1", { inputPerMillion: 2, outputPerMillion: 8 }],
+  ["gpt-4o-mini", { inputPerMillion: 0.15, outputPerMillion: 0.6 }],
+  ["gpt-4o", { inputPerMillion: 2.5, outputPerMillion: 10 }],
+];
+
+function findModelPrice(modelType: ModelType, modelName: string): ModelPrice | undefined {
+  // Ollama runs on the user's own hardware.
+  if (modelType === "ollama") {
+    return { inputPerMillion: 0, outputPerMillion: 0 };
+  }
+  const normalized = modelName.trim().toLowerCase();
+  return MODEL_PRICES.find(([prefix]) => normalized.startsWith(prefix))?.[1];
+}
+
+export function priceUsage(modelType: ModelType, modelName: string, usage: ProviderUsage): TokenUsage {
+  const price = findModelPrice(modelType, modelName);
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    ...(price
+      ? {
+          estimatedCostUsd:
+            (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000,
+        }
+      : {}),
+  };
+}
+
+/** Sums the usage of every call behind one response (fast attempt, upgrade, repair). */
+export function sumTokenUsage(entries: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const present = entries.filter((entry): entry is TokenUsage => Boolean(entry));
+  if (!present.length) {
+    return undefined;
+  }
+
+  const priced = present.filter((entry) => entry.estimatedCostUsd !== undefined);
+  return {
+    promptTokens: present.reduce((sum, entry) => sum + entry.promptTokens, 0),
+    completionTokens: present.reduce((sum, entry) => sum + entry.completionTokens, 0),
+    ...(priced.length
+      ? { estimatedCostUsd: priced.reduce((sum, entry) => sum + (entry.estimatedCostUsd ?? 0), 0) }
+      : {}),
+  };
+}
+
+export function emptyUsageRollup(): AiUsageRollup {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, estimatedCostUsd: 0, byTaskType: {} };
+}
+
+export function formatUsd(value: number): string {
+  if (value > 0 && value < 0.01) {
+    return "<$0.01";
+  }
+  return `$${value.toFixed(2)}`;
+}
@@ -0,0 +1,67 @@
+import { DocumentReference, FieldValue } from "firebase-admin/firestore";
+
+import type { ModelCallRecord, ModelCallSink } from "@/lib/ai/usage-recorder";
+import { getAdminFirestore } from "@/lib/firebase-admin";
+
+/**
+ * Server-side (Admin SDK) writes of the AI usage rollups. Every model call is
+ * one set of field increments on the user's lifetime summary and, when the
+ * request belongs to a strategy, on that study session's `aiUsage`, so
+ * concurrent requests never overwrite each other and the totals do not depend
+ * on what a client reports.
+ */
+
+function toIncrements(call: ModelCallRecord) {
+  return {
+    calls: FieldValue.increment(1),
+    promptTokens: FieldValue.increment(call.usage?.promptTokens ?? 0),
+    completionTokens: FieldValue.increment(call.usage?.completionTokens ?? 0),
+    estimatedCostUsd: FieldValue.increment(call.usage?.estimatedCostUsd ?? 0),
+  };
+}
+
+function toRollupIncrements(call: ModelCallRecord) {
+  return { ...toIncrements(call), byTaskType: { [call.taskType]: toIncrements(call) } };
+}
+
+async function findSessionRef(uid: string, strategyId: string): Promise<DocumentReference | undefined> {
+  const snapshot = await getAdminFirestore()
+    .collection("users")
+    .doc(uid)
+    .collection("studySessions")
+    .where("strategyId", "==", strategyId)
+    .limit(1)
+    .get();
+  return snapshot.docs[0]?.ref;
+}
+
+async function writeModelCall(
+  uid: string,
+  sessionRef: Promise<DocumentReference | undefined> | undefined,
+  call: ModelCallRecord,
+): Promise<void> {
+  const summaryRef = getAdminFirestore().collection("users").doc(uid).collection("usage").doc("summary");
+  const session = await sessionRef;
+  await Promise.all([
+    summaryRef.set({ ...toRollupIncrements(call), updatedAt: FieldValue.serverTimestamp() }, { merge: true }),
+    session?.set({ aiUsage: toRollupIncrements(call) }, { merge: true }),
+  ]);
+}
+
+/** Records each call as it happens; a failed write is logged and never fails the request. */
+export function createAiUsageSink(uid: string, strategyId?: string): ModelCallSink {
+  let sessionRef: Promise<DocumentReference | undefined> | undefined;
+
+  return (call) => {
+    if (strategyId && !sessionRef) {
+      sessionRef = findSessionRef(uid, strategyId).catch(() => undefined);
+    }
+    void writeModelCall(uid, sessionRef, call).catch((error) => {
+      console.warn("[ai-usage-admin] Unable to record model call", {
+        uid,
+        taskType: call.taskType,
+        message: error instanceof Error ? error.message : "unknown error",
+      });
+    });
+  };
+}
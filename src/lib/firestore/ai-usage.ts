@@ -0,0 +1,38 @@
+import { doc, getDoc } from "firebase/firestore";
+
+import { AiUsageRollup, AiUsageTotals, emptyUsageRollup } from "@/lib/ai/usage";
+import { getFirebaseDb } from "@/lib/firebase";
+
+/**
+ * Lifetime AI spend for a user across all study sessions. The server writes
+ * it, one increment per model call (see `ai-usage-admin.ts`); clients only
+ * read it.
+ */
+
+function usageRef(uid: string) {
+  return doc(getFirebaseDb(), "users", uid, "usage", "summary");
+}
+
+function toTotals(value: Partial<AiUsageTotals> | undefined): AiUsageTotals {
+  return {
+    calls: value?.calls ?? 0,
+    promptTokens: value?.promptTokens ?? 0,
+    completionTokens: value?.completionTokens ?? 0,
+    estimatedCostUsd: value?.estimatedCostUsd ?? 0,
+  };
+}
+
+export async function getUserAiUsage(uid: string): Promise<AiUsageRollup> {
+  const snap = await getDoc(usageRef(uid));
+  if (!snap.exists()) {
+    return emptyUsageRollup();
+  }
+
+  const data = snap.data() as Partial<AiUsageTotals> & { byTaskType?: Record<string, Partial<AiUsageTotals>> };
+  return {
+    ...toTotals(data),
+    byTaskType: Object.fromEntries(
+      Object.entries(data.byTaskType ?? {}).map(([taskType, totals]) => [taskType, toTotals(totals)]),
+    ),
+  };
+}
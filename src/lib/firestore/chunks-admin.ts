@@ -5,12 +5,16 @@
  * Next.js API routes where the client SDK has no auth context.
  */
 
+import type { ExamQuestionCluster } from "@/lib/ai/types";
 import { getAdminFirestore } from "@/lib/firebase-admin";
 import { ParsedSourceChunk } from "@/lib/parsing/types";
 import type { StudySourceType } from "@/lib/firestore/sources";
+import { Bm25Stats, joinBm25Stats } from "@/lib/study/bm25";
 
 export type IndexedChunk = ParsedSourceChunk & {
   sourceId: string;
+  embedding?: number[];
+  embeddingModel?: string;
 };
 
 type IndexedChunkStored = IndexedChunk & {
@@ -21,11 +25,32 @@ type IndexedChunkMeta = {
   activeVersion?: number;
 };
 
+type Bm25StatsMeta = {
+  version?: number | null;
+  header?: { shardCount?: unknown };
+  sourceIds?: unknown;
+};
+
+type QuestionClusterMeta = {
+  version?: number | null;
+  clusters?: unknown;
+  sourceIds?: unknown;
+};
+
+/** A cached index statistic and the sources whose chunks it was built from. */
+type CachedIndexStat<T> = {
+  value: T;
+  sourceIds: string[];
+};
+
 export type IndexedChunkBundle = {
   chunks: IndexedChunk[];
   sourceTypeMap: Map<string, StudySourceType>;
   enabledSourceIds: Set<string>;
   enabledSourceTitleToId: Map<string, string>;
+  bm25Stats?: Bm25Stats;
+  /** Previous-paper question clusters computed at index time, covering every indexed paper. */
+  questionClusters?: ExamQuestionCluster[];
 };
 
 export type EnabledSourceBundle = {
@@ -38,6 +63,29 @@ function normalizeSourceTitle(value: string): string {
   return value.trim().toLowerCase();
 }
 
+function readSourceIds(value: unknown): string[] | undefined {
+  return Array.isArray(value) && value.every((item) => typeof item === "string") ? value : undefined;
+}
+
+/**
+ * Cached stats are only valid for exactly the chunks being ranked: built from
+ * no source that has since been disabled or removed, and missing none.
+ */
+function readCachedStat<T>(
+  cached: CachedIndexStat<T> | undefined,
+  enabledSourceIds: Set<string>,
+  chunks: IndexedChunk[],
+): T | undefined {
+  if (!cached) {
+    return undefined;
+  }
+  const covered = new Set(cached.sourceIds);
+  const matches =
+    cached.sourceIds.every((sourceId) => enabledSourceIds.has(sourceId)) &&
+    chunks.every((chunk) => covered.has(chunk.sourceId));
+  return matches ? cached.value : undefined;
+}
+
 async function getActiveChunkVersionAdmin(
   db: FirebaseFirestore.Firestore,
   uid: string,
@@ -60,6 +108,72 @@ async function getActiveChunkVersionAdmin(
   return typeof data.activeVersion === "number" ? data.activeVersion : undefined;
 }
 
+/**
+ * Returns the cached BM25 corpus statistics when they were computed for the
+ * active chunk version; stale or missing stats are rebuilt by the caller.
+ */
+async function getBm25StatsAdmin(
+  db: FirebaseFirestore.Firestore,
+  uid: string,
+  strategyId: string,
+  activeVersion: number | undefined,
+): Promise<CachedIndexStat<Bm25Stats> | undefined> {
+  const metaCollection = db
+    .collection("users")
+    .doc(uid)
+    .collection("strategies")
+    .doc(strategyId)
+    .collection("indexedChunksMeta");
+  const snapshot = await metaCollection.doc("bm25").get();
+
+  if (!snapshot.exists) {
+    return undefined;
+  }
+
+  const data = snapshot.data() as Bm25StatsMeta;
+  const shardCount = data.header?.shardCount;
+  const sourceIds = readSourceIds(data.sourceIds);
+  if ((data.version ?? undefined) !== activeVersion || typeof shardCount !== "number" || !sourceIds) {
+    return undefined;
+  }
+
+  const shards = shardCount
+    ? await db.getAll(...Array.from({ length: shardCount }, (_, index) => metaCollection.doc(`bm25-terms-${index}`)))
+    : [];
+  const stats = joinBm25Stats(
+    data.header,
+    shards.map((shard) => (shard.exists ? (shard.data() as { terms?: unknown }).terms : undefined)),
+  );
+  return stats ? { value: stats, sourceIds } : undefined;
+}
+
+async function getQuestionClustersAdmin(
+  db: FirebaseFirestore.Firestore,
+  uid: string,
+  strategyId: string,
+  activeVersion: number | undefined,
+): Promise<CachedIndexStat<ExamQuestionCluster[]> | undefined> {
+  const snapshot = await db
+    .collection("users")
+    .doc(uid)
+    .collection("strategies")
+    .doc(strategyId)
+    .collection("indexedChunksMeta")
+    .doc("questionClusters")
+    .get();
+
+  if (!snapshot.exists) {
+    return undefined;
+  }
+
+  const data = snapshot.data() as QuestionClusterMeta;
+  const sourceIds = readSourceIds(data.sourceIds);
+  if ((data.version ?? undefined) !== activeVersion || !Array.isArray(data.clusters) || !sourceIds) {
+    return undefined;
+  }
+  return { value: data.clusters as ExamQuestionCluster[], sourceIds };
+}
+
 export async function getIndexedChunksAdmin(
   uid: string,
   strategyId: string,
@@ -103,6 +217,8 @@ export async function getIndexedChunksAdmin(
   }
 
   const activeVersion = await getActiveChunkVersionAdmin(db, uid, strategyId);
+  const bm25StatsPromise = getBm25StatsAdmin(db, uid, strategyId, activeVersion).catch(() => undefined);
+  const questionClustersPromise = getQuestionClustersAdmin(db, uid, strategyId, activeVersion).catch(() => undefined);
 
   const chunksRef = db
     .collection("users")
@@ -153,6 +269,14 @@ export async function getIndexedChunksAdmin(
       sourceName: chunk.sourceName,
       sourceYear: chunk.sourceYear,
       section: chunk.section,
+      page: chunk.page,
+      slide: chunk.slide,
+      heading: chunk.heading,
+      videoId: chunk.videoId,
+      startSeconds: chunk.startSeconds,
+      endSeconds: chunk.endSeconds,
+      embedding: chunk.embedding,
+      embeddingModel: chunk.embeddingModel,
     }));
 
   return {
@@ -160,6 +284,8 @@ export async function getIndexedChunksAdmin(
     sourceTypeMap,
     enabledSourceIds,
     enabledSourceTitleToId,
+    bm25Stats: readCachedStat(await bm25StatsPromise, enabledSourceIds, chunks),
+    questionClusters: readCachedStat(await questionClustersPromise, enabledSourceIds, chunks),
   };
 }
 
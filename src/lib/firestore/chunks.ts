@@ -10,12 +10,18 @@ import {
   writeBatch,
 } from "firebase/firestore";
 
+import { ExamQuestionCluster, ExtractedExamQuestion } from "@/lib/ai/types";
 import { getFirebaseDb } from "@/lib/firebase";
+import { clusterExamQuestions, extractPaperQuestions } from "@/lib/parsing/question-clusters";
 import { ParsedSourceChunk } from "@/lib/parsing/types";
-import { StudySourceType } from "@/lib/firestore/sources";
+import type { StudySourceType } from "@/lib/firestore/sources";
+import { Bm25Stats, buildBm25Stats, joinBm25Stats, splitBm25Stats } from "@/lib/study/bm25";
+import { precomputeEmbeddingVectors } from "@/lib/study/precompute";
 
 export type IndexedChunk = ParsedSourceChunk & {
   sourceId: string;
+  embedding?: number[];
+  embeddingModel?: string;
 };
 
 type IndexedChunkStored = IndexedChunk & {
@@ -26,6 +32,32 @@ type IndexedChunkMeta = {
   activeVersion?: number;
 };
 
+type Bm25StatsMeta = {
+  version?: number | null;
+  header?: { shardCount?: unknown };
+  sourceIds?: unknown;
+};
+
+// Every map key is indexed, and Firestore caps index entries per document
+// (two per field), so document frequencies are spread over shard documents.
+const BM25_TERMS_PER_SHARD = 8_000;
+const BM25_MAX_CACHED_TERMS = 160_000;
+
+type QuestionClusterMeta = {
+  version?: number | null;
+  clusters?: unknown;
+  sourceIds?: unknown;
+};
+
+/** A cached index statistic and the sources whose chunks it was built from. */
+type CachedIndexStat<T> = {
+  value: T;
+  sourceIds: string[];
+};
+
+// Keeps the cached question history under Firestore's 1 MiB document limit.
+const QUESTION_CLUSTERS_MAX_BYTES = 800_000;
+
 export type IndexedChunkBundle = {
   chunks: IndexedChunk[];
   sourceTypeMap: Map<string, StudySourceType>;
@@ -59,6 +91,14 @@ function sanitizeChunkForFirestore(chunk: IndexedChunkStored): Record<string, un
   return result;
 }
 
+function toSourceIds(chunks: IndexedChunk[], base: string[] = []): string[] {
+  return [...new Set([...base, ...chunks.map((chunk) => chunk.sourceId)])].sort();
+}
+
+function readSourceIds(value: unknown): string[] | undefined {
+  return Array.isArray(value) && value.every((item) => typeof item === "string") ? value : undefined;
+}
+
 function indexedChunkCollection(uid: string, strategyId: string) {
   const db = getFirebaseDb();
   return collection(db, "users", uid, "strategies", strategyId, "indexedChunks");
@@ -69,6 +109,140 @@ function indexedChunkMetaRef(uid: string, strategyId: string) {
   return doc(db, "users", uid, "strategies", strategyId, "indexedChunksMeta", "current");
 }
 
+function bm25StatsRef(uid: string, strategyId: string) {
+  const db = getFirebaseDb();
+  return doc(db, "users", uid, "strategies", strategyId, "indexedChunksMeta", "bm25");
+}
+
+function bm25TermShardRef(uid: string, strategyId: string, index: number) {
+  const db = getFirebaseDb();
+  return doc(db, "users", uid, "strategies", strategyId, "indexedChunksMeta", `bm25-terms-${index}`);
+}
+
+async function saveBm25Stats(
+  uid: string,
+  strategyId: string,
+  version: number | undefined,
+  stats: Bm25Stats,
+  sourceIds: string[],
+): Promise<void> {
+  if (Object.keys(stats.documentFrequency).length > BM25_MAX_CACHED_TERMS) {
+    return;
+  }
+
+  const { header, shards } = splitBm25Stats(stats, BM25_TERMS_PER_SHARD);
+  try {
+    // One batch, so readers never see a header paired with another write's shards.
+    const batch = writeBatch(getFirebaseDb());
+    shards.forEach((terms, index) => batch.set(bm25TermShardRef(uid, strategyId, index), { terms }));
+    batch.set(bm25StatsRef(uid, strategyId), {
+      version: version ?? null,
+      header,
+      sourceIds,
+      updatedAt: serverTimestamp(),
+    });
+    await batch.commit();
+  } catch (error) {
+    // Stats are a cache; retrieval rebuilds them when missing.
+    console.warn("[chunks] bm25 stats write skipped", {
+      message: error instanceof Error ? error.message : "unknown",
+    });
+  }
+}
+
+async function loadBm25Stats(
+  uid: string,
+  strategyId: string,
+  version: number | undefined,
+): Promise<CachedIndexStat<Bm25Stats> | undefined> {
+  const snapshot = await getDoc(bm25StatsRef(uid, strategyId));
+  if (!snapshot.exists()) {
+    return undefined;
+  }
+
+  const data = snapshot.data() as Bm25StatsMeta;
+  const shardCount = data.header?.shardCount;
+  const sourceIds = readSourceIds(data.sourceIds);
+  if ((data.version ?? undefined) !== version || typeof shardCount !== "number" || !sourceIds) {
+    return undefined;
+  }
+
+  const shards = await Promise.all(
+    Array.from({ length: shardCount }, (_, index) => getDoc(bm25TermShardRef(uid, strategyId, index))),
+  );
+  const stats = joinBm25Stats(
+    data.header,
+    shards.map((shard) => (shard.exists() ? (shard.data() as { terms?: unknown }).terms : undefined)),
+  );
+  return stats ? { value: stats, sourceIds } : undefined;
+}
+
+function questionClustersRef(uid: string, strategyId: string) {
+  const db = getFirebaseDb();
+  return doc(db, "users", uid, "strategies", strategyId, "indexedChunksMeta", "questionClusters");
+}
+
+/**
+ * Clusters previous-paper questions once at index time, so retrieval reads
+ * the question history instead of re-parsing and re-clustering every paper.
+ */
+async function saveQuestionClusters(
+  uid: string,
+  strategyId: string,
+  version: number | undefined,
+  questions: ExtractedExamQuestion[],
+  sourceIds: string[],
+): Promise<void> {
+  // The JSON round trip drops undefined fields, which Firestore rejects.
+  const serialized = JSON.stringify(clusterExamQuestions(questions));
+  if (serialized.length > QUESTION_CLUSTERS_MAX_BYTES) {
+    return;
+  }
+
+  try {
+    await setDoc(questionClustersRef(uid, strategyId), {
+      version: version ?? null,
+      clusters: JSON.parse(serialized),
+      sourceIds,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    // A cache like the BM25 stats; retrieval clusters on the fly when missing.
+    console.warn("[chunks] question cluster write skipped", {
+      message: error instanceof Error ? error.message : "unknown",
+    });
+  }
+}
+
+async function loadQuestionClusters(
+  uid: string,
+  strategyId: string,
+  version: number | undefined,
+): Promise<CachedIndexStat<ExamQuestionCluster[]> | undefined> {
+  const snapshot = await getDoc(questionClustersRef(uid, strategyId));
+  if (!snapshot.exists()) {
+    return undefined;
+  }
+
+  const data = snapshot.data() as QuestionClusterMeta;
+  const sourceIds = readSourceIds(data.sourceIds);
+  if ((data.version ?? undefined) !== version || !Array.isArray(data.clusters) || !sourceIds) {
+    return undefined;
+  }
+  return { value: data.clusters as ExamQuestionCluster[], sourceIds };
+}
+
+/**
+ * Drops the cached BM25 stats and question clusters after chunks are deleted;
+ * readers rebuild both from the chunks they load until the next index write.
+ */
+export async function clearIndexedChunkStats(uid: string, strategyId: string): Promise<void> {
+  const batch = writeBatch(getFirebaseDb());
+  batch.delete(bm25StatsRef(uid, strategyId));
+  batch.delete(questionClustersRef(uid, strategyId));
+  await batch.commit();
+}
+
 async function getActiveChunkVersion(uid: string, strategyId: string): Promise<number | undefined> {
   const metaSnapshot = await getDoc(indexedChunkMetaRef(uid, strategyId));
   if (!metaSnapshot.exists()) {
@@ -115,6 +289,8 @@ export async function replaceIndexedChunks(
     return;
   }
 
+  await precomputeEmbeddingVectors(chunks);
+
   const db = getFirebaseDb();
   const chunkCollection = indexedChunkCollection(uid, strategyId);
   const activeVersion = await getActiveChunkVersion(uid, strategyId);
@@ -131,6 +307,9 @@ export async function replaceIndexedChunks(
   }
 
   await setActiveChunkVersion(uid, strategyId, nextVersion, chunks.length);
+  const sourceIds = toSourceIds(chunks);
+  await saveBm25Stats(uid, strategyId, nextVersion, buildBm25Stats(chunks), sourceIds);
+  await saveQuestionClusters(uid, strategyId, nextVersion, extractPaperQuestions(chunks), sourceIds);
 
   const existing = await getDocs(chunkCollection);
   const oldRefs = existing.docs.filter((item) => {
@@ -208,6 +387,14 @@ export async function getIndexedChunks(
       sourceName: chunk.sourceName,
       sourceYear: chunk.sourceYear,
       section: chunk.section,
+      page: chunk.page,
+      slide: chunk.slide,
+      heading: chunk.heading,
+      videoId: chunk.videoId,
+      startSeconds: chunk.startSeconds,
+      endSeconds: chunk.endSeconds,
+      embedding: chunk.embedding,
+      embeddingModel: chunk.embeddingModel,
     }));
 
   return {
@@ -257,6 +444,8 @@ export async function appendIndexedChunks(
     return;
   }
 
+  await precomputeEmbeddingVectors(chunks);
+
   const db = getFirebaseDb();
   const activeVersion = await getActiveChunkVersion(uid, strategyId);
   const chunkCollection = indexedChunkCollection(uid, strategyId);
@@ -273,4 +462,29 @@ export async function appendIndexedChunks(
     }
     await batch.commit();
   }
+
+  // Merge into the cached stats only when they describe the same chunk version;
+  // otherwise readers rebuild the stats from the chunks they load.
+  const cached = await loadBm25Stats(uid, strategyId, activeVersion);
+  if (cached) {
+    await saveBm25Stats(
+      uid,
+      strategyId,
+      activeVersion,
+      buildBm25Stats(chunks, cached.value),
+      toSourceIds(chunks, cached.sourceIds),
+    );
+  }
+
+  // Re-saved even without new questions, so the cache keeps listing every source it covers.
+  const cachedClusters = await loadQuestionClusters(uid, strategyId, activeVersion);
+  if (cachedClusters) {
+    await saveQuestionClusters(
+      uid,
+      strategyId,
+      activeVersion,
+      [...cachedClusters.value.flatMap((cluster) => cluster.questions), ...extractPaperQuestions(chunks)],
+      toSourceIds(chunks, cachedClusters.sourceIds),
+    );
+  }
 }
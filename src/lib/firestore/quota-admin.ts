@@ -0,0 +1,33 @@
+import { getAdminFirestore } from "@/lib/firebase-admin";
+import type { DailyCounterState, QuotaStore, TokenBucketState } from "@/lib/server/quota-store";
+
+/**
+ * Quota state shared by every server instance. It lives in top-level
+ * collections outside `users/{uid}`, so only the Admin SDK can touch it and a
+ * client cannot reset its own limits. `expiresAt` is there for a Firestore
+ * TTL policy to clean up old daily counters.
+ */
+export function createFirestoreQuotaStore(): QuotaStore {
+  return {
+    async updateBucket(key, update) {
+      const db = getAdminFirestore();
+      const ref = db.collection("quotaBuckets").doc(key);
+      return db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const { state, result } = update(snapshot.exists ? (snapshot.data() as TokenBucketState) : undefined);
+        transaction.set(ref, state);
+        return result;
+      });
+    },
+    async updateDailyCounter(key, expiresAt, update) {
+      const db = getAdminFirestore();
+      const ref = db.collection("quotaDaily").doc(key);
+      return db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const { state, result } = update(snapshot.exists ? (snapshot.data() as DailyCounterState) : undefined);
+        transaction.set(ref, { ...state, expiresAt: new Date(expiresAt) });
+        return result;
+      });
+    },
+  };
+}
@@ -8,11 +8,13 @@ import {
   serverTimestamp,
   setDoc,
   updateDoc,
+  where,
 } from "firebase/firestore";
 
 import { getFirebaseDb } from "@/lib/firebase";
+import { clearIndexedChunkStats } from "@/lib/firestore/chunks";
 
-export type StudySourceType = "pdf" | "ppt" | "docx" | "text" | "url" | "youtube";
+export type StudySourceType = "pdf" | "ppt" | "docx" | "image" | "markdown" | "epub" | "html" | "text" | "recording" | "url" | "youtube";
 export type StudySourceStatus = "processing" | "indexed" | "error";
 
 export type StudySourceRecord = {
@@ -24,6 +26,8 @@ export type StudySourceRecord = {
   fileUrl?: string;
   youtubeUrl?: string;
   websiteUrl?: string;
+  /** Set on each page of a crawled website; points at the site's parent record. */
+  parentSourceId?: string;
   videoId?: string;
   aiGeneratedTranscript?: boolean;
   transcriptSource?: "captions" | "ai-reconstructed";
@@ -31,6 +35,10 @@ export type StudySourceRecord = {
   translatedToEnglish?: boolean;
   chunkCount: number;
   errorMessage?: string;
+  /** Non-fatal parser notes, e.g. pages recovered with OCR and their confidence. */
+  warningMessage?: string;
+  /** SHA-256 of the indexed content; the indexer links re-added copies to this source instead of indexing them again. */
+  contentHash?: string;
   createdAt?: unknown;
   updatedAt?: unknown;
 };
@@ -44,6 +52,7 @@ export type UpsertStudySourceInput = {
   fileUrl?: string;
   youtubeUrl?: string;
   websiteUrl?: string;
+  parentSourceId?: string;
   videoId?: string;
   aiGeneratedTranscript?: boolean;
   transcriptSource?: "captions" | "ai-reconstructed";
@@ -51,6 +60,8 @@ export type UpsertStudySourceInput = {
   translatedToEnglish?: boolean;
   chunkCount?: number;
   errorMessage?: string;
+  warningMessage?: string;
+  contentHash?: string;
 };
 
 function sourcesCollection(uid: string, strategyId: string) {
@@ -75,6 +86,7 @@ export async function upsertStudySource(
       fileUrl: source.fileUrl ?? null,
       youtubeUrl: source.youtubeUrl ?? null,
       websiteUrl: source.websiteUrl ?? null,
+      parentSourceId: source.parentSourceId ?? null,
       videoId: source.videoId ?? null,
       aiGeneratedTranscript: source.aiGeneratedTranscript ?? false,
       transcriptSource: source.transcriptSource ?? null,
@@ -82,6 +94,8 @@ export async function upsertStudySource(
       translatedToEnglish: source.translatedToEnglish ?? false,
       chunkCount: source.chunkCount ?? 0,
       errorMessage: source.errorMessage ?? null,
+      warningMessage: source.warningMessage ?? null,
+      contentHash: source.contentHash ?? null,
       updatedAt: serverTimestamp(),
       createdAt: serverTimestamp(),
     },
@@ -94,6 +108,12 @@ export async function listStudySources(uid: string, strategyId: string): Promise
   return snapshot.docs.map((item) => ({ id: item.id, ...(item.data() as Omit<StudySourceRecord, "id">) }));
 }
 
+async function listChildSourceIds(uid: string, strategyId: string, parentSourceId: string): Promise<string[]> {
+  const snapshot = await getDocs(query(sourcesCollection(uid, strategyId), where("parentSourceId", "==", parentSourceId)));
+  return snapshot.docs.map((item) => item.id);
+}
+
+/** Enabling or disabling a crawled website applies to every page under it. */
 export async function setStudySourceEnabled(
   uid: string,
   strategyId: string,
@@ -101,11 +121,15 @@ export async function setStudySourceEnabled(
   enabled: boolean,
 ): Promise<void> {
   const db = getFirebaseDb();
-  const sourceRef = doc(db, "users", uid, "strategies", strategyId, "sources", sourceId);
-  await updateDoc(sourceRef, {
-    enabled,
-    updatedAt: serverTimestamp(),
-  });
+  const childIds = await listChildSourceIds(uid, strategyId, sourceId);
+  await Promise.all(
+    [sourceId, ...childIds].map((id) =>
+      updateDoc(doc(db, "users", uid, "strategies", strategyId, "sources", id), {
+        enabled,
+        updatedAt: serverTimestamp(),
+      }),
+    ),
+  );
 }
 
 export async function updateStudySourceChunkCount(
@@ -123,16 +147,18 @@ export async function updateStudySourceChunkCount(
   });
 }
 
+/** Removing a crawled website removes its pages and their chunks too. */
 export async function removeStudySource(uid: string, strategyId: string, sourceId: string): Promise<void> {
   const db = getFirebaseDb();
-  const sourceRef = doc(db, "users", uid, "strategies", strategyId, "sources", sourceId);
-  await deleteDoc(sourceRef);
+  const removedIds = new Set([sourceId, ...(await listChildSourceIds(uid, strategyId, sourceId))]);
+  await Promise.all([...removedIds].map((id) => deleteDoc(doc(db, "users", uid, "strategies", strategyId, "sources", id))));
 
   const chunksRef = collection(db, "users", uid, "strategies", strategyId, "indexedChunks");
   const chunksSnapshot = await getDocs(chunksRef);
   await Promise.all(
     chunksSnapshot.docs
-      .filter((item) => (item.data() as { sourceId?: string }).sourceId === sourceId)
+      .filter((item) => removedIds.has((item.data() as { sourceId?: string }).sourceId ?? ""))
       .map((item) => deleteDoc(item.ref)),
   );
+  await clearIndexedChunkStats(uid, strategyId);
 }
@@ -14,6 +14,7 @@ import {
 } from "firebase/firestore";
 
 import { StrategyResult, UploadedFile } from "@/lib/ai/types";
+import { AiUsageRollup, TokenUsage } from "@/lib/ai/usage";
 import { getFirebaseDb } from "@/lib/firebase";
 import {
   isFallbackLikeChatPayload,
@@ -39,6 +40,19 @@ function sanitizeForFirestore<T>(value: T): T {
   return value;
 }
 
+type CachedSourceCitation = {
+  sourceType: string;
+  sourceName: string;
+  sourceYear?: string;
+  importanceLevel: string;
+  page?: number;
+  slide?: number;
+  heading?: string;
+  videoId?: string;
+  startSeconds?: number;
+  endSeconds?: number;
+};
+
 export type StudySession = {
   userId: string;
   strategyId: string;
@@ -66,12 +80,7 @@ export type StudySession = {
       answer: string;
       confidence: "high" | "medium" | "low";
       usedVideoContext?: boolean;
-      citations: Array<{
-        sourceType: string;
-        sourceName: string;
-        sourceYear?: string;
-        importanceLevel: string;
-      }>;
+      citations: CachedSourceCitation[];
     }
   >;
   studyAnswerCache: Record<
@@ -89,12 +98,7 @@ export type StudySession = {
         typicalExamQuestion: string;
         fullAnswer: string;
         confidence: "high" | "medium" | "low";
-        citations: Array<{
-          sourceType: string;
-          sourceName: string;
-          sourceYear?: string;
-          importanceLevel: string;
-        }>;
+        citations: CachedSourceCitation[];
       };
     }
   >;
@@ -142,6 +146,7 @@ export type StudySession = {
       fallbackTriggered: boolean;
       fallbackReason?: string;
       usedVideoContext?: boolean;
+      usage?: TokenUsage;
     }>;
     summary?: {
       totalCalls: number;
@@ -150,6 +155,8 @@ export type StudySession = {
       averageLatencyMs: number;
     };
   };
+  /** Every model call made for this session, written by the server as the calls happen. */
+  aiUsage?: AiUsageRollup;
 };
 
 export type AiTelemetryEvent = {
@@ -160,6 +167,7 @@ export type AiTelemetryEvent = {
   fallbackTriggered: boolean;
   fallbackReason?: string;
   usedVideoContext?: boolean;
+  usage?: TokenUsage;
 };
 
 type CreateStudySessionInput = {
@@ -669,12 +677,7 @@ export async function saveChatCacheToSession(
     answer: string;
     confidence: "high" | "medium" | "low";
     usedVideoContext?: boolean;
-    citations: Array<{
-      sourceType: string;
-      sourceName: string;
-      sourceYear?: string;
-      importanceLevel: string;
-    }>;
+    citations: CachedSourceCitation[];
   },
 ) {
   if (isFallbackLikeChatPayload({ answer: payload.answer })) {
@@ -750,12 +753,7 @@ export async function saveStudyAnswerCacheToSession(
       typicalExamQuestion: string;
       fullAnswer: string;
       confidence: "high" | "medium" | "low";
-      citations: Array<{
-        sourceType: string;
-        sourceName: string;
-        sourceYear?: string;
-        importanceLevel: string;
-      }>;
+      citations: CachedSourceCitation[];
     };
   },
 ) {
@@ -811,6 +809,7 @@ export async function recordAiTelemetryInSession(
       fallbackTriggered: Boolean(event.fallbackTriggered),
       fallbackReason: event.fallbackReason,
       usedVideoContext: event.usedVideoContext,
+      usage: event.usage,
     },
   ].slice(-150);
 
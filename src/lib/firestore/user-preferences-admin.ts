@@ -0,0 +1,39 @@
+/**
+ * Server-side (Admin SDK) access to the parts of user preferences that API
+ * routes act on. The routing table is re-validated on every read, so a value
+ * written around the settings API can never reach the model router.
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+
+import { getAdminFirestore } from "@/lib/firebase-admin";
+import { parseTaskRoutingTable, TaskRoutingTable } from "@/lib/ai/task-routing";
+
+function preferencesRef(uid: string) {
+  return getAdminFirestore().collection("users").doc(uid).collection("preferences").doc("settings");
+}
+
+export async function getTaskRoutingAdmin(uid: string): Promise<TaskRoutingTable> {
+  try {
+    const snapshot = await preferencesRef(uid).get();
+    const { table, errors } = parseTaskRoutingTable(snapshot.data()?.modelRouting);
+    if (errors.length) {
+      console.warn("[user-preferences-admin] Ignoring invalid routing rules", { uid, errors });
+    }
+    return table;
+  } catch (error) {
+    console.warn("[user-preferences-admin] Unable to read routing table, using default routing", {
+      uid,
+      message: error instanceof Error ? error.message : "unknown error",
+    });
+    return {};
+  }
+}
+
+/** Replaces the whole table; callers validate with `parseTaskRoutingTable` first. */
+export async function setTaskRoutingAdmin(uid: string, table: TaskRoutingTable): Promise<void> {
+  await preferencesRef(uid).set(
+    { modelRouting: table, updatedAt: FieldValue.serverTimestamp() },
+    { mergeFields: ["modelRouting", "updatedAt"] },
+  );
+}
@@ -1,9 +1,14 @@
 import { doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
+import { isModelType } from "@/lib/ai/providers/catalog";
+import { parseTaskRoutingTable, TaskRoutingTable } from "@/lib/ai/task-routing";
+import { ModelType } from "@/lib/ai/types";
 import { getFirebaseDb } from "@/lib/firebase";
 
 export type UserPreferences = {
-  defaultModelType: "gemini" | "custom";
+  defaultModelType: ModelType;
   defaultHoursLeft: number;
+  /** Per-task model overrides. Saved through the model-routing API, which validates it. */
+  modelRouting?: TaskRoutingTable;
   updatedAt?: unknown;
 };
 
@@ -21,14 +26,15 @@ export async function getUserPreferences(uid: string): Promise<UserPreferences>
   }
   const data = snap.data() as UserPreferences;
   return {
-    defaultModelType: data.defaultModelType ?? DEFAULT_PREFERENCES.defaultModelType,
+    defaultModelType: isModelType(data.defaultModelType) ? data.defaultModelType : DEFAULT_PREFERENCES.defaultModelType,
     defaultHoursLeft: data.defaultHoursLeft ?? DEFAULT_PREFERENCES.defaultHoursLeft,
+    modelRouting: parseTaskRoutingTable(data.modelRouting).table,
   };
 }
 
 export async function setUserPreferences(
   uid: string,
-  prefs: Partial<Omit<UserPreferences, "updatedAt">>
+  prefs: Partial<Omit<UserPreferences, "updatedAt" | "modelRouting">>
 ): Promise<void> {
   const db = getFirebaseDb();
   const ref = doc(db, "users", uid, "preferences", "settings");
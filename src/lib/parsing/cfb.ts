@@ -0,0 +1,154 @@
+/**
+ * Minimal reader for OLE / Compound File Binary containers (legacy .ppt,
+ * .doc, .xls). Only what is needed to pull a named stream out: the header,
+ * the FAT (including DIFAT extension sectors), the mini FAT and the directory.
+ */
+
+const SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const HEADER_SIZE = 512;
+const HEADER_DIFAT_ENTRIES = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const MAX_REGULAR_SECTOR = 0xfffffffa;
+
+const STREAM_OBJECT = 2;
+const ROOT_STORAGE_OBJECT = 5;
+
+type DirectoryEntry = {
+  name: string;
+  type: number;
+  startSector: number;
+  size: number;
+};
+
+export type CompoundFile = {
+  /** Returns the named stream (case-insensitive), or undefined when the file has none. */
+  getStream: (name: string) => Buffer | undefined;
+};
+
+export function isCompoundFile(buffer: Buffer): boolean {
+  return buffer.length >= HEADER_SIZE && buffer.subarray(0, SIGNATURE.length).equals(SIGNATURE);
+}
+
+function readChain(table: number[], start: number, limit: number): number[] {
+  const chain: number[] = [];
+  const visited = new Set<number>();
+  let sector = start;
+  while (sector <= MAX_REGULAR_SECTOR && sector !== END_OF_CHAIN && sector !== FREE_SECTOR) {
+    if (visited.has(sector) || chain.length >= limit) {
+      throw new Error("corrupt compound file: sector chain loops");
+    }
+    visited.add(sector);
+    chain.push(sector);
+    sector = table[sector] ?? END_OF_CHAIN;
+  }
+  return chain;
+}
+
+export function readCompoundFile(buffer: Buffer): CompoundFile {
+  if (!isCompoundFile(buffer)) {
+    throw new Error("not an OLE compound file");
+  }
+
+  const sectorSize = 1 << buffer.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+  const fatSectorCount = buffer.readUInt32LE(0x2c);
+  const firstDirectorySector = buffer.readUInt32LE(0x30);
+  const miniStreamCutoff = buffer.readUInt32LE(0x38);
+  const firstMiniFatSector = buffer.readUInt32LE(0x3c);
+  const firstDifatSector = buffer.readUInt32LE(0x44);
+  const sectorCount = Math.floor((buffer.length - sectorSize) / sectorSize) + 1;
+
+  if (sectorSize !== 512 && sectorSize !== 4096) {
+    throw new Error(`unsupported compound file sector size (${sectorSize})`);
+  }
+
+  const sectorAt = (sector: number) => {
+    // Sector 0 starts right after the header, which is padded to a full sector in version 4 files.
+    const offset = (sector + 1) * sectorSize;
+    if (offset + sectorSize > buffer.length) {
+      return buffer.subarray(Math.min(offset, buffer.length));
+    }
+    return buffer.subarray(offset, offset + sectorSize);
+  };
+
+  const fatSectors: number[] = [];
+  for (let index = 0; index < HEADER_DIFAT_ENTRIES && fatSectors.length < fatSectorCount; index += 1) {
+    fatSectors.push(buffer.readUInt32LE(0x4c + index * 4));
+  }
+  const entriesPerSector = sectorSize / 4;
+  const visitedDifat = new Set<number>();
+  let difatSector = firstDifatSector;
+  while (difatSector <= MAX_REGULAR_SECTOR && fatSectors.length < fatSectorCount && !visitedDifat.has(difatSector)) {
+    visitedDifat.add(difatSector);
+    const data = sectorAt(difatSector);
+    for (let index = 0; index < entriesPerSector - 1 && fatSectors.length < fatSectorCount; index += 1) {
+      fatSectors.push(data.readUInt32LE(index * 4));
+    }
+    difatSector = data.readUInt32LE((entriesPerSector - 1) * 4);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const data = sectorAt(sector);
+    for (let offset = 0; offset + 4 <= data.length; offset += 4) {
+      fat.push(data.readUInt32LE(offset));
+    }
+  }
+
+  const readRegular = (start: number, size?: number) => {
+    const data = Buffer.concat(readChain(fat, start, sectorCount).map(sectorAt));
+    return size === undefined ? data : data.subarray(0, size);
+  };
+
+  const directoryData = readRegular(firstDirectorySector);
+  const entries: DirectoryEntry[] = [];
+  for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directoryData.length; offset += DIRECTORY_ENTRY_SIZE) {
+    const nameLength = directoryData.readUInt16LE(offset + 64);
+    entries.push({
+      name: directoryData.toString("utf16le", offset, offset + Math.max(0, Math.min(64, nameLength) - 2)),
+      type: directoryData[offset + 66],
+      startSector: directoryData.readUInt32LE(offset + 116),
+      // Version 3 files only define the low 32 bits of the size.
+      size: directoryData.readUInt32LE(offset + 120),
+    });
+  }
+
+  const root = entries.find((entry) => entry.type === ROOT_STORAGE_OBJECT);
+  let miniStream: Buffer | undefined;
+  let miniFat: number[] | undefined;
+  const loadMiniStream = () => {
+    if (!miniStream || !miniFat) {
+      miniStream = root ? readRegular(root.startSector, root.size) : Buffer.alloc(0);
+      const miniFatData = firstMiniFatSector <= MAX_REGULAR_SECTOR ? readRegular(firstMiniFatSector) : Buffer.alloc(0);
+      miniFat = [];
+      for (let offset = 0; offset + 4 <= miniFatData.length; offset += 4) {
+        miniFat.push(miniFatData.readUInt32LE(offset));
+      }
+    }
+    return { miniStream, miniFat };
+  };
+
+  return {
+    getStream(name) {
+      const entry = entries.find((item) => item.type === STREAM_OBJECT && item.name.toLowerCase() === name.toLowerCase());
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.size >= miniStreamCutoff) {
+        return readRegular(entry.startSector, entry.size);
+      }
+
+      const mini = loadMiniStream();
+      const limit = Math.ceil(mini.miniStream.length / miniSectorSize);
+      const data = Buffer.concat(
+        readChain(mini.miniFat, entry.startSector, limit).map((sector) =>
+          mini.miniStream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize),
+        ),
+      );
+      return data.subarray(0, entry.size);
+    },
+  };
+}
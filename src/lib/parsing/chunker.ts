@@ -1,5 +1,6 @@
 /**
- * Smart text chunking shared across YouTube, URL, and manual-text ingestion paths.
+ * Smart text chunking shared by every ingestion path (uploaded files, YouTube,
+ * URL, and manual text).
  *
  * Strategy (in order of preference):
  *  1. Split on paragraph boundaries (double-newline)
@@ -7,11 +8,48 @@
  *  3. Split long paragraphs at sentence boundaries (.!?)
  *  4. Hard-split on word boundary as last resort
  *
+ * On top of that, heading-like lines are tracked so chunks that continue a
+ * section below its heading still know which heading they belong to, and
+ * consecutive chunks of the same section share a short overlap window so a
+ * sentence cut at a boundary is still retrievable from either side.
+ *
  * Target: 300–600 tokens ≈ 1200–2400 chars (we approximate at 4 chars/token).
  */
 
 const DEFAULT_TARGET_CHARS = 1800; // ~450 tokens
 const MAX_CHARS = 2400; // ~600 tokens, hard cap per chunk
+const MAX_HEADING_CHARS = 90;
+
+export type ChunkingOptions = {
+  targetChars?: number;
+  maxChars?: number;
+  /** Characters of trailing context repeated at the start of the next chunk in the same section. */
+  overlapChars?: number;
+  /** Detect heading lines and attach the active heading to every chunk below it. */
+  carryHeading?: boolean;
+  /** Heading in effect before the first line of `text` (e.g. carried over from the previous page). */
+  initialHeading?: string;
+};
+
+export type TextChunk = {
+  text: string;
+  heading?: string;
+};
+
+export type ChunkingProfile = "document" | "url" | "transcript" | "text";
+
+export const CHUNKING_PROFILES: Record<ChunkingProfile, ChunkingOptions> = {
+  document: { targetChars: 1400, maxChars: 2000, overlapChars: 200, carryHeading: true },
+  url: { targetChars: 1800, maxChars: 2400, overlapChars: 200, carryHeading: true },
+  transcript: { targetChars: 1800, maxChars: 2400, overlapChars: 250, carryHeading: false },
+  text: { targetChars: 1200, maxChars: 2000, overlapChars: 150, carryHeading: true },
+};
+
+type Paragraph = {
+  text: string;
+  heading?: string;
+  startsSection: boolean;
+};
 
 function splitAtSentenceBoundary(text: string, maxChars: number): string[] {
   // Split at sentence-ending punctuation followed by whitespace
@@ -50,51 +88,144 @@ function splitAtSentenceBoundary(text: string, maxChars: number): string[] {
   return chunks;
 }
 
-export function splitIntoChunks(text: string, targetChars = DEFAULT_TARGET_CHARS): string[] {
-  const normalized = text.replace(/\r\n/g, "\n").replace(/[ \t]+/g, " ").trim();
-  if (!normalized) return [];
+/**
+ * Heading-like lines: markdown headings, numbered or "Chapter/Unit N" titles,
+ * short ALL-CAPS lines, or (when the line is a paragraph on its own) any short
+ * line that does not end like a sentence.
+ */
+function toHeading(line: string, standalone: boolean): string | undefined {
+  const markdown = /^#{1,6}\s+(.+)$/.exec(line);
+  if (markdown) {
+    return markdown[1].trim();
+  }
 
-  // Step 1: split on paragraph boundaries
-  const paragraphs = normalized.split(/\n{2,}/).map((p) => p.replace(/\n/g, " ").trim()).filter(Boolean);
+  if (line.length < 3 || line.length > MAX_HEADING_CHARS || !/[A-Za-z]{2,}/.test(line) || /[.,;:]$/.test(line)) {
+    return undefined;
+  }
+  if (/^(chapter|unit|module|section|part|lecture|topic)\s+[\dIVXivx]+\b/i.test(line)) {
+    return line;
+  }
+  if (/^\d+(\.\d+)*\.?\s+[A-Z]/.test(line) && line.split(" ").length <= 10) {
+    return line;
+  }
+  if (line === line.toUpperCase() && /[A-Z]{3,}/.test(line)) {
+    return line;
+  }
+  if (standalone && line.split(" ").length <= 10 && /^[A-Z0-9]/.test(line)) {
+    return line;
+  }
+  return undefined;
+}
+
+function toParagraphs(text: string, carryHeading: boolean, initialHeading?: string): Paragraph[] {
+  const blocks = text.split(/\n{2,}/);
+  const paragraphs: Paragraph[] = [];
+  let heading = initialHeading;
+
+  for (const block of blocks) {
+    const lines = block.split("\n").map((line) => line.trim()).filter(Boolean);
+    if (!lines.length) continue;
 
-  const result: string[] = [];
+    let startsSection = false;
+    if (carryHeading) {
+      const detected = toHeading(lines[0], lines.length === 1);
+      if (detected) {
+        heading = detected;
+        startsSection = true;
+      }
+    }
+
+    paragraphs.push({ text: lines.join(" "), heading, startsSection });
+  }
+
+  return paragraphs;
+}
+
+/** Trailing sentences of `text` that fit in `overlapChars`, falling back to trailing words. */
+function takeOverlap(text: string, overlapChars: number): string {
+  if (overlapChars <= 0) return "";
+
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  let overlap = "";
+  for (let index = sentences.length - 1; index >= 0; index -= 1) {
+    const candidate = overlap ? `${sentences[index]} ${overlap}` : sentences[index];
+    if (candidate.length > overlapChars) break;
+    overlap = candidate;
+  }
+  if (overlap) return overlap.trim();
+
+  const words = text.split(/\s+/);
+  for (let index = words.length - 1; index >= 0; index -= 1) {
+    const candidate = overlap ? `${words[index]} ${overlap}` : words[index];
+    if (candidate.length > overlapChars) break;
+    overlap = candidate;
+  }
+  return overlap.trim();
+}
+
+export function chunkText(text: string, options: ChunkingOptions = {}): TextChunk[] {
+  const targetChars = options.targetChars ?? DEFAULT_TARGET_CHARS;
+  const maxChars = Math.max(options.maxChars ?? MAX_CHARS, 200);
+  const pieceChars = Math.min(targetChars, maxChars);
+  const overlapChars = Math.min(options.overlapChars ?? 0, Math.floor(pieceChars / 3));
+  const carryHeading = options.carryHeading ?? false;
+
+  const normalized = text.replace(/\r\n?/g, "\n").replace(/[ \t]+/g, " ").trim();
+  if (!normalized) return [];
+
+  const result: TextChunk[] = [];
   let buffer = "";
+  let bufferHeading: string | undefined;
 
-  for (const para of paragraphs) {
-    const candidate = buffer ? `${buffer}\n\n${para}` : para;
-
-    if (candidate.length <= targetChars) {
-      buffer = candidate;
-    } else if (buffer) {
-      // flush buffer
-      result.push(buffer.trim());
-      // if this paragraph alone is too large, sentence-split it
-      if (para.length > MAX_CHARS) {
-        const sentenceChunks = splitAtSentenceBoundary(para, MAX_CHARS);
-        const last = sentenceChunks.pop();
-        result.push(...sentenceChunks);
-        buffer = last ?? "";
-      } else {
-        buffer = para;
+  const flush = () => {
+    if (buffer.trim()) {
+      result.push({ text: buffer.trim(), heading: bufferHeading });
+    }
+    buffer = "";
+  };
+
+  const startChunk = (piece: string, heading: string | undefined, previous: string) => {
+    const overlap = previous ? takeOverlap(previous, overlapChars) : "";
+    buffer = overlap && overlap.length + piece.length + 2 <= maxChars ? `${overlap}\n\n${piece}` : piece;
+    bufferHeading = heading;
+  };
+
+  for (const paragraph of toParagraphs(normalized, carryHeading, options.initialHeading)) {
+    // A new section starts a new chunk unless the current one is still tiny.
+    if (paragraph.startsSection && buffer.length >= pieceChars / 4) {
+      flush();
+    }
+
+    const pieces = paragraph.text.length > maxChars ? splitAtSentenceBoundary(paragraph.text, pieceChars) : [paragraph.text];
+    for (const piece of pieces) {
+      if (!buffer) {
+        startChunk(piece, paragraph.heading, "");
+        continue;
       }
-    } else {
-      // buffer was empty, para itself exceeds target
-      if (para.length > MAX_CHARS) {
-        const sentenceChunks = splitAtSentenceBoundary(para, MAX_CHARS);
-        const last = sentenceChunks.pop();
-        result.push(...sentenceChunks);
-        buffer = last ?? "";
-      } else {
-        buffer = para;
+
+      const candidate = `${buffer}\n\n${piece}`;
+      if (candidate.length <= targetChars) {
+        buffer = candidate;
+        continue;
       }
+
+      const previous = buffer;
+      const previousHeading = bufferHeading;
+      flush();
+      // Overlap only within the same section; a new heading is a clean break.
+      startChunk(piece, paragraph.heading, previousHeading === paragraph.heading ? previous : "");
     }
   }
 
-  if (buffer.trim()) result.push(buffer.trim());
+  flush();
 
-  // Final safety pass: any chunk still over MAX_CHARS gets hard-split
+  // Final safety pass: any chunk still over maxChars gets hard-split
   return result.flatMap((chunk) => {
-    if (chunk.length <= MAX_CHARS) return [chunk];
-    return splitAtSentenceBoundary(chunk, MAX_CHARS);
+    if (chunk.text.length <= maxChars) return [chunk];
+    return splitAtSentenceBoundary(chunk.text, maxChars).map((piece) => ({ text: piece, heading: chunk.heading }));
   });
 }
+
+export function splitIntoChunks(text: string, targetChars = DEFAULT_TARGET_CHARS): string[] {
+  return chunkText(text, { targetChars }).map((chunk) => chunk.text);
+}
@@ -0,0 +1,73 @@
+/**
+ * Settings for crawling a website source across several pages. Kept free of
+ * server-only imports so the sources card can build and bound the same
+ * options it sends to /api/sources/index.
+ */
+
+export type WebsiteCrawlOptions = {
+  /** Link hops followed from the start page; 0 fetches the start page only. */
+  maxDepth: number;
+  /** Pages fetched in total, the start page included. */
+  maxPages: number;
+  /** Path patterns a linked page must match; empty means every same-origin page. */
+  include: string[];
+  /** Path patterns that are never fetched, checked before `include`. */
+  exclude: string[];
+};
+
+export type WebsiteCrawlRequest = {
+  url: string;
+  options?: Partial<WebsiteCrawlOptions>;
+};
+
+export const CRAWL_LIMITS = {
+  maxDepth: 3,
+  maxPages: 25,
+  patterns: 10,
+} as const;
+
+export const DEFAULT_CRAWL_OPTIONS: WebsiteCrawlOptions = {
+  maxDepth: 1,
+  maxPages: 10,
+  include: [],
+  exclude: [],
+};
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? Math.min(max, Math.max(min, Math.trunc(parsed))) : fallback;
+}
+
+function toPatternList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return items
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => (item.startsWith("/") || item.startsWith("*") ? item : `/${item}`))
+    .slice(0, CRAWL_LIMITS.patterns);
+}
+
+/** Fills defaults and clamps client-supplied values to the crawl limits. */
+export function normalizeCrawlOptions(input: Partial<WebsiteCrawlOptions> | undefined): WebsiteCrawlOptions {
+  return {
+    maxDepth: clampInteger(input?.maxDepth, 0, CRAWL_LIMITS.maxDepth, DEFAULT_CRAWL_OPTIONS.maxDepth),
+    maxPages: clampInteger(input?.maxPages, 1, CRAWL_LIMITS.maxPages, DEFAULT_CRAWL_OPTIONS.maxPages),
+    include: toPatternList(input?.include),
+    exclude: toPatternList(input?.exclude),
+  };
+}
+
+/**
+ * Path patterns match from the start of the URL path (query string included);
+ * `*` matches any run of characters and a trailing `$` anchors the end, so
+ * "/notes/" covers every page below /notes and "/unit-*.html$" only the unit pages.
+ */
+export function matchesPathPattern(pathAndQuery: string, pattern: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`).test(pathAndQuery);
+}
@@ -0,0 +1,225 @@
+import { matchesPathPattern, WebsiteCrawlOptions } from "@/lib/parsing/crawl-options";
+import { ingestUrlContent, UrlIngestResult, WEB_USER_AGENT } from "@/lib/parsing/url";
+import { assertPublicFetchUrl, fetchPublicUrl } from "@/lib/server/network-policy";
+
+/**
+ * Bounded same-origin crawl for website sources spread over several pages
+ * (e.g. a lecturer's "Unit 1…Unit 5" notes). Pages are visited breadth-first
+ * from the start URL, following links up to `maxDepth` hops and stopping at
+ * `maxPages`. Only pages on the start URL's origin are fetched, filtered by the
+ * include/exclude path patterns and by the site's robots.txt. Sites on a
+ * private or local network are refused unless their host is listed in
+ * FETCH_PRIVATE_HOSTS, as the http://127.0.0.1 fixture server's is.
+ */
+
+export type CrawledPage = {
+  url: string;
+  depth: number;
+  result?: UrlIngestResult;
+  errorMessage?: string;
+};
+
+export type WebsiteCrawlResult = {
+  pages: CrawledPage[];
+  /** Same-origin links not fetched because robots.txt disallows them. */
+  robotsBlocked: number;
+  /** Links still queued when the page cap was reached. */
+  truncated: number;
+};
+
+type RobotsRule = {
+  allow: boolean;
+  pattern: string;
+};
+
+type RobotsPolicy = {
+  rules: RobotsRule[];
+  crawlDelayMs: number;
+};
+
+const ROBOTS_AGENT_TOKEN = "kalexam";
+const MAX_CRAWL_DELAY_MS = 5000;
+const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelayMs: 0 };
+const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: "/" }], crawlDelayMs: 0 };
+
+// Links to files the web extractor cannot read.
+const NON_HTML_PATH =
+  /\.(pdf|docx?|pptx?|xlsx?|zip|rar|7z|gz|tar|png|jpe?g|gif|webp|svg|ico|bmp|mp3|mp4|m4a|wav|webm|mov|avi|css|js|json|xml|rss|atom|epub|exe|dmg|apk)$/i;
+
+/**
+ * robots.txt per RFC 9309: the group naming our agent wins over the "*"
+ * group, and within a group the longest matching rule decides (Allow on ties).
+ */
+export function parseRobotsTxt(text: string, agentToken = ROBOTS_AGENT_TOKEN): RobotsPolicy {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelayMs: number }> = [];
+  let current: (typeof groups)[number] | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: 0 };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay" && Number.isFinite(Number(value))) {
+      current.crawlDelayMs = Math.min(MAX_CRAWL_DELAY_MS, Math.max(0, Number(value) * 1000));
+    }
+  }
+
+  const named = groups.filter((group) => group.agents.some((agent) => agent !== "*" && agentToken.includes(agent)));
+  const matching = named.length ? named : groups.filter((group) => group.agents.includes("*"));
+  return {
+    rules: matching.flatMap((group) => group.rules),
+    crawlDelayMs: Math.max(0, ...matching.map((group) => group.crawlDelayMs)),
+  };
+}
+
+export function isAllowedByRobots(policy: RobotsPolicy, pathAndQuery: string): boolean {
+  let decisive: RobotsRule | undefined;
+  for (const rule of policy.rules) {
+    if (!matchesPathPattern(pathAndQuery, rule.pattern)) {
+      continue;
+    }
+    if (
+      !decisive ||
+      rule.pattern.length > decisive.pattern.length ||
+      (rule.pattern.length === decisive.pattern.length && rule.allow)
+    ) {
+      decisive = rule;
+    }
+  }
+  return decisive?.allow ?? true;
+}
+
+async function fetchRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  try {
+    const response = await fetchPublicUrl(`${origin}/robots.txt`, {
+      signal: AbortSignal.timeout(10000),
+      headers: { "User-Agent": WEB_USER_AGENT },
+    });
+    if (response.status >= 400 && response.status < 500) {
+      return ALLOW_ALL;
+    }
+    if (!response.ok) {
+      // A server error means the rules are unknown; RFC 9309 says assume full disallow.
+      return DISALLOW_ALL;
+    }
+    return parseRobotsTxt(await response.text());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown";
+    console.warn("[crawl] robots.txt unreachable", { origin, message });
+    return DISALLOW_ALL;
+  }
+}
+
+function pathAndQueryOf(url: URL): string {
+  return `${url.pathname}${url.search}`;
+}
+
+function isWantedLink(url: URL, origin: string, options: WebsiteCrawlOptions): boolean {
+  if (url.origin !== origin || NON_HTML_PATH.test(url.pathname)) {
+    return false;
+  }
+  const path = pathAndQueryOf(url);
+  if (options.exclude.some((pattern) => matchesPathPattern(path, pattern))) {
+    return false;
+  }
+  return !options.include.length || options.include.some((pattern) => matchesPathPattern(path, pattern));
+}
+
+function visitKey(url: URL): string {
+  return `${url.origin}${url.pathname.replace(/\/index\.html?$/i, "/").replace(/(.)\/$/, "$1")}${url.search}`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function crawlWebsite(
+  startUrl: string,
+  options: WebsiteCrawlOptions,
+  signal?: AbortSignal,
+): Promise<WebsiteCrawlResult> {
+  const start = new URL(startUrl);
+  if (start.protocol !== "http:" && start.protocol !== "https:") {
+    throw new Error("Only http(s) websites can be crawled");
+  }
+  start.hash = "";
+  await assertPublicFetchUrl(start);
+
+  let origin = start.origin;
+  let robots = await fetchRobotsPolicy(origin);
+  if (!isAllowedByRobots(robots, pathAndQueryOf(start))) {
+    throw new Error("robots.txt disallows crawling this page");
+  }
+
+  const pages: CrawledPage[] = [];
+  const queue: Array<{ url: URL; depth: number }> = [{ url: start, depth: 0 }];
+  const seen = new Set([visitKey(start)]);
+  let robotsBlocked = 0;
+
+  // An aborted crawl stops between pages and returns what it has.
+  while (queue.length && pages.length < options.maxPages && !signal?.aborted) {
+    const next = queue.shift();
+    if (!next) {
+      break;
+    }
+    if (pages.length && robots.crawlDelayMs) {
+      await delay(robots.crawlDelayMs);
+    }
+
+    try {
+      const result = await ingestUrlContent(next.url.toString());
+      pages.push({ url: next.url.toString(), depth: next.depth, result });
+
+      // The start page may redirect (http → https, www); later pages stay on the origin it landed on.
+      if (next.depth === 0 && new URL(result.finalUrl).origin !== origin) {
+        origin = new URL(result.finalUrl).origin;
+        robots = await fetchRobotsPolicy(origin);
+      }
+      seen.add(visitKey(new URL(result.finalUrl)));
+      if (next.depth >= options.maxDepth) {
+        continue;
+      }
+
+      for (const link of result.links) {
+        const url = new URL(link);
+        const key = visitKey(url);
+        if (seen.has(key) || !isWantedLink(url, origin, options)) {
+          continue;
+        }
+        seen.add(key);
+        if (!isAllowedByRobots(robots, pathAndQueryOf(url))) {
+          robotsBlocked += 1;
+          continue;
+        }
+        queue.push({ url, depth: next.depth + 1 });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Page fetch failed";
+      console.warn("[crawl] page failed", { url: next.url.toString(), message });
+      pages.push({ url: next.url.toString(), depth: next.depth, errorMessage: message });
+    }
+  }
+
+  return { pages, robotsBlocked, truncated: queue.length };
+}
@@ -88,12 +88,73 @@ function computeEmphasisScore(syllabusText: string, chapterTitle: string): numbe
   return Math.min(normalizedSyllabus.split(title).length - 1, 8);
 }
 
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+
+function toChapterHint(
+  chapterNumber: number,
+  chapterTitle: string,
+  weightage: string | undefined,
+  syllabusText: string,
+  materialText: string
+): SyllabusChapterHint {
+  const coverageScore = computeCoverageScore(materialText, chapterTitle);
+  return {
+    chapterNumber,
+    chapterTitle,
+    weightage,
+    emphasisScore: computeEmphasisScore(syllabusText, chapterTitle),
+    coverageScore,
+    materialCoveragePercent: toCoveragePercent(coverageScore),
+    materialAvailable: coverageScore > 0,
+  };
+}
+
+/**
+ * Chapters from a syllabus whose chapter lines are formatted as headings
+ * (DOCX headings arrive as markdown lines) without a "Unit N:" prefix: the
+ * shallowest heading level with at least two entries, numbered in order.
+ */
+function extractHeadingChapters(lines: string[], syllabusText: string, materialText: string): SyllabusChapterHint[] {
+  const headings = lines
+    .map((line) => MARKDOWN_HEADING.exec(line))
+    .filter((match): match is RegExpExecArray => Boolean(match))
+    .map((match) => ({ level: match[1].length, text: match[2].trim() }));
+
+  const chapterLevel = [1, 2, 3, 4, 5, 6].find((level) => headings.filter((heading) => heading.level === level).length >= 2);
+  if (!chapterLevel) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return headings
+    .filter((heading) => heading.level === chapterLevel)
+    .map((heading) => {
+      const weightage = extractWeightage(heading.text);
+      const title = heading.text
+        .replace(/\s*[(\[]?\s*\d+(?:\.\d+)?\s*(?:%|marks?)\s*[)\]]?\s*$/i, "")
+        .replace(/\s+/g, " ")
+        .trim();
+      return { title, weightage };
+    })
+    .filter(({ title }) => {
+      const key = title.toLowerCase();
+      if (!title || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .map(({ title, weightage }, index) => toChapterHint(index + 1, title, weightage, syllabusText, materialText));
+}
+
 export function extractSyllabusChapters(
   syllabusText: string,
   materialText: string
 ): SyllabusChapterHint[] {
   const normalized = normalizeText(syllabusText);
-  const lines = normalized.split("\n").map((line) => line.trim()).filter(Boolean);
+  const rawLines = normalized.split("\n").map((line) => line.trim()).filter(Boolean);
+  // "## Unit 2: Normalization" should match the same way as the plain line.
+  const lines = rawLines.map((line) => line.replace(MARKDOWN_HEADING, "$2"));
 
   const chapters: SyllabusChapterHint[] = [];
   const seen = new Set<string>();
@@ -123,17 +184,11 @@ export function extractSyllabusChapters(
     const bracketWeightage = extractWeightage(match[4] ?? "");
     const weightage = inlineWeightage ?? bracketWeightage ?? extractWeightage(line);
 
-    const coverageScore = computeCoverageScore(materialText, chapterTitle);
-
-    chapters.push({
-      chapterNumber,
-      chapterTitle,
-      weightage,
-      emphasisScore: computeEmphasisScore(normalized, chapterTitle),
-      coverageScore,
-      materialCoveragePercent: toCoveragePercent(coverageScore),
-      materialAvailable: coverageScore > 0,
-    });
+    chapters.push(toChapterHint(chapterNumber, chapterTitle, weightage, normalized, materialText));
+  }
+
+  if (!chapters.length) {
+    return extractHeadingChapters(rawLines, normalized, materialText);
   }
 
   return chapters.sort((a, b) => a.chapterNumber - b.chapterNumber);
@@ -0,0 +1,38 @@
+/**
+ * Upload extensions shared by the upload form, the study page and the
+ * server-side parsers. Kept free of parser imports so client components can
+ * use it without bundling OCR or PDF code.
+ */
+
+export const IMAGE_EXTENSIONS = new Set(["jpg", "jpeg", "png", "webp", "bmp"]);
+
+export const RECORDING_MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+};
+
+export const RECORDING_EXTENSIONS = new Set(Object.keys(RECORDING_MIME_TYPES));
+
+export const SUPPORTED_EXTENSIONS = new Set([
+  "pdf",
+  "docx",
+  "ppt",
+  "pptx",
+  "md",
+  "markdown",
+  "txt",
+  "epub",
+  "html",
+  "htm",
+  ...IMAGE_EXTENSIONS,
+  ...RECORDING_EXTENSIONS,
+]);
+
+export const SUPPORTED_FORMATS_LABEL = "PDF, DOCX, PPT, PPTX, MD, TXT, EPUB, HTML, JPG, PNG, MP3, M4A, WAV, MP4";
@@ -0,0 +1,237 @@
+import { ParsedSegment } from "@/lib/parsing/types";
+
+/**
+ * Outline shared by the HTML-based parsers (DOCX via mammoth, saved web pages,
+ * EPUB chapters) and Markdown: headings with levels plus content blocks.
+ * Segments carry the heading path, e.g. "Unit 2 > Normalization > 3NF", and
+ * the plain text keeps headings as markdown lines so syllabus chapter
+ * detection can use them.
+ */
+
+const HEADING_PATH_SEPARATOR = " > ";
+// Tags whose start or end is a paragraph boundary.
+const BLOCK_TAGS = new Set(["p", "div", "section", "article", "main", "header", "footer", "aside", "blockquote", "pre", "figcaption", "dd", "dt", "hr"]);
+
+export type OutlineBlock = { kind: "heading"; level: number; text: string } | { kind: "content"; text: string };
+
+type ListState = {
+  ordered: boolean;
+  count: number;
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  deg: "°",
+  times: "×",
+  divide: "÷",
+  plusmn: "±",
+  le: "≤",
+  ge: "≥",
+  ne: "≠",
+  rarr: "→",
+  larr: "←",
+  amp: "&",
+};
+
+export function decodeHtmlEntities(input: string): string {
+  return input.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code = name[1].toLowerCase() === "x" ? Number.parseInt(name.slice(2), 16) : Number.parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanInline(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Walks HTML tag by tag into headings and content blocks (paragraphs, list
+ * items, table rows); lists and tables can nest, so a regex per block is not
+ * enough. Expects script/style content to be removed already.
+ */
+export function toHtmlOutline(html: string): OutlineBlock[] {
+  const blocks: OutlineBlock[] = [];
+  const lists: ListState[] = [];
+  let listLines: string[] = [];
+  let tableRows: string[][] = [];
+  let tableDepth = 0;
+  let cells: string[] = [];
+  let buffer = "";
+
+  const flushListItem = () => {
+    const text = cleanInline(buffer);
+    buffer = "";
+    const list = lists.at(-1);
+    if (!text || !list) {
+      return;
+    }
+    const marker = list.ordered ? `${list.count}.` : "•";
+    listLines.push(`${"  ".repeat(lists.length - 1)}${marker} ${text}`);
+  };
+
+  const flushParagraph = () => {
+    const paragraph = cleanInline(buffer);
+    buffer = "";
+    if (paragraph) {
+      blocks.push({ kind: "content", text: paragraph });
+    }
+  };
+
+  const markup = html.replace(/<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>/g, " ");
+  for (const match of markup.matchAll(/<(\/?)([a-z0-9]+)[^>]*>|([^<]+)/gi)) {
+    const [, closing, rawTag, text] = match;
+    if (text !== undefined) {
+      buffer += decodeHtmlEntities(text);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const heading = /^h([1-6])$/.exec(tag);
+
+    if (tag === "br") {
+      buffer += " ";
+    } else if (heading && closing) {
+      const headingText = cleanInline(buffer);
+      buffer = "";
+      if (headingText) {
+        blocks.push({ kind: "heading", level: Number.parseInt(heading[1], 10), text: headingText });
+      }
+    } else if (heading) {
+      if (lists.length || tableDepth) {
+        buffer = "";
+      } else {
+        flushParagraph();
+      }
+    } else if ((tag === "ul" || tag === "ol") && tableDepth === 0) {
+      if (!closing) {
+        // Text of the parent item comes before its nested list.
+        if (lists.length) {
+          flushListItem();
+        } else {
+          flushParagraph();
+        }
+        lists.push({ ordered: tag === "ol", count: 0 });
+      } else {
+        flushListItem();
+        lists.pop();
+        if (!lists.length && listLines.length) {
+          blocks.push({ kind: "content", text: listLines.join("\n") });
+          listLines = [];
+        }
+      }
+    } else if (tag === "li" && tableDepth === 0) {
+      if (!closing) {
+        flushListItem();
+        const list = lists.at(-1);
+        if (list) list.count += 1;
+      } else {
+        flushListItem();
+      }
+    } else if (tag === "li") {
+      // Lists inside table cells stay inline with the cell text.
+      buffer += " ";
+    } else if (tag === "table") {
+      if (!closing) {
+        tableDepth += 1;
+        if (tableDepth === 1) {
+          if (!lists.length) flushParagraph();
+          tableRows = [];
+        }
+      } else {
+        tableDepth = Math.max(0, tableDepth - 1);
+        if (tableDepth === 0 && tableRows.length) {
+          blocks.push({ kind: "content", text: tableRows.map((row) => row.join(" | ")).join("\n") });
+          tableRows = [];
+        }
+      }
+    } else if (tag === "tr" && tableDepth === 1) {
+      if (closing && cells.some(Boolean)) {
+        tableRows.push(cells);
+      }
+      cells = [];
+    } else if ((tag === "td" || tag === "th") && tableDepth === 1) {
+      if (closing) {
+        cells.push(cleanInline(buffer));
+      }
+      buffer = "";
+    } else if (BLOCK_TAGS.has(tag)) {
+      if (lists.length || tableDepth) {
+        // Paragraphs inside list items and cells are joined into one line.
+        buffer += " ";
+      } else {
+        flushParagraph();
+      }
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/** One segment per heading section, each carrying its full heading path. */
+export function outlineToSegments(blocks: OutlineBlock[]): ParsedSegment[] {
+  const segments: ParsedSegment[] = [];
+  const path: Array<{ level: number; text: string }> = [];
+  let content: string[] = [];
+
+  const flush = () => {
+    if (content.length) {
+      segments.push({
+        text: content.join("\n\n"),
+        heading: path.length ? path.map((item) => item.text).join(HEADING_PATH_SEPARATOR) : undefined,
+        outlined: true,
+      });
+    }
+    content = [];
+  };
+
+  // A heading with nothing under it (common in syllabus outlines) is kept as its own text.
+  const keepLeafHeading = (nextLevel: number) => {
+    const last = path.at(-1);
+    if (!content.length && last && nextLevel <= last.level) {
+      content.push(last.text);
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.kind === "content") {
+      content.push(block.text);
+      continue;
+    }
+    keepLeafHeading(block.level);
+    flush();
+    while (path.length && path[path.length - 1].level >= block.level) {
+      path.pop();
+    }
+    path.push({ level: block.level, text: block.text });
+  }
+  keepLeafHeading(1);
+  flush();
+
+  return segments;
+}
+
+/** Plain text with headings written as markdown lines ("## Normalization"). */
+export function outlineToText(blocks: OutlineBlock[]): string {
+  return blocks
+    .map((block) => (block.kind === "heading" ? `${"#".repeat(block.level)} ${block.text}` : block.text))
+    .join("\n\n");
+}
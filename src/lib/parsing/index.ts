@@ -1,12 +1,25 @@
+import { createHash } from "node:crypto";
+
 import { UploadedFile } from "@/lib/ai/types";
+import { hasModelCallScope } from "@/lib/ai/usage-recorder";
+import { CHUNKING_PROFILES, chunkText } from "@/lib/parsing/chunker";
 import { detectRepeatedTopics, extractSyllabusChapters } from "@/lib/parsing/exam-intelligence";
+import { IMAGE_EXTENSIONS, RECORDING_EXTENSIONS, SUPPORTED_EXTENSIONS } from "@/lib/parsing/file-types";
 import { parseDocx } from "@/lib/parsing/parse-docx";
+import { parseEpub } from "@/lib/parsing/parse-epub";
+import { parseHtml } from "@/lib/parsing/parse-html";
+import { parseImages } from "@/lib/parsing/parse-image";
 import { parsePdf } from "@/lib/parsing/parse-pdf";
 import { parseLegacyPpt } from "@/lib/parsing/parse-ppt";
 import { parsePptx } from "@/lib/parsing/parse-pptx";
-import { byCategory, ParsedCorpus, ParsedSourceChunk } from "@/lib/parsing/types";
-
-const SUPPORTED_EXTENSIONS = new Set(["pdf", "docx", "ppt", "pptx"]);
+import { downloadRecording, DownloadedRecording, parseRecording } from "@/lib/parsing/parse-recording";
+import { parseMarkdown, parsePlainText } from "@/lib/parsing/parse-text";
+import { clusterExamQuestions } from "@/lib/parsing/question-clusters";
+import { parseQuestionPaper } from "@/lib/parsing/question-paper";
+import { formatSegmentLocation } from "@/lib/parsing/segments";
+import { byCategory, ParsedCorpus, ParsedSegment, ParsedSourceChunk } from "@/lib/parsing/types";
+import { groupUploadBatches, toUploadKey, UploadUnit } from "@/lib/parsing/upload-batches";
+import { fetchPublicUrl } from "@/lib/server/network-policy";
 
 function extensionFromFile(file: UploadedFile): string {
   return file.extension.toLowerCase().replace(".", "");
@@ -16,47 +29,142 @@ function toTextLimit(text: string, maxLength = 35_000): string {
   return text.length > maxLength ? `${text.slice(0, maxLength)}\n...[truncated]` : text;
 }
 
+// Keeps line and paragraph breaks so the chunker and the syllabus chapter
+// detector still have structural boundaries to work with.
 function sanitizeExtractedText(input: string): string {
   return input
-    .replace(/[\u0000-\u001f\u007f-\u009f]/g, " ")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u0000-\u0009\u000b-\u001f\u007f-\u009f]/g, " ")
     .replace(/[�]/g, " ")
     .replace(/[|]{2,}/g, " ")
     .replace(/[_=~`^]{3,}/g, " ")
-    .replace(/(\b\w{2,20}\b)(?:\s+\1){3,}/gi, "$1")
+    .replace(/(\b\w{2,20}\b)(?:[ \t]+\1){3,}/gi, "$1")
     .replace(/([a-zA-Z])\1{5,}/g, "$1")
-    .replace(/\s+/g, " ")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
     .trim();
 }
 
-async function parseFileFromUrl(file: UploadedFile): Promise<{ text: string; warning?: string }> {
+type ParsedUnit = { text: string; segments?: ParsedSegment[]; warning?: string; contentHash?: string };
+
+// Identical bytes give the same hash whatever the file is called or which upload group it came through.
+function hashBuffers(buffers: Buffer[]): string {
+  const hash = createHash("sha256");
+  buffers.forEach((buffer) => hash.update(buffer));
+  return hash.digest("hex");
+}
+
+async function fetchFileBuffer(file: UploadedFile): Promise<Buffer> {
+  const response = await fetchPublicUrl(file.url);
+  if (!response.ok) {
+    throw new Error(`failed to fetch file (HTTP ${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+async function parseImageBatch({ file, files }: UploadUnit): Promise<ParsedUnit> {
+  let buffers: Buffer[];
+  try {
+    buffers = await Promise.all(files.map(fetchFileBuffer));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "failed to fetch file";
+    return { text: "", warning: `${file.name}: ${message}` };
+  }
+
+  const contentHash = hashBuffers(buffers);
+  try {
+    const document = await parseImages(buffers);
+    return { ...document, warning: document.warning ? `${file.name}: ${document.warning}` : undefined, contentHash };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown parser error";
+    return { text: "", warning: `${file.name}: parser could not extract readable text (${message})`, contentHash };
+  }
+}
+
+async function parseFileFromUrl(file: UploadedFile): Promise<ParsedUnit> {
   const extension = extensionFromFile(file);
   if (!SUPPORTED_EXTENSIONS.has(extension)) {
     return { text: "", warning: `${file.name}: unsupported format (${extension})` };
   }
+  if (IMAGE_EXTENSIONS.has(extension)) {
+    return parseImageBatch({ file, files: [file] });
+  }
+  if (RECORDING_EXTENSIONS.has(extension)) {
+    return parseRecordingFile(file, extension);
+  }
 
-  const response = await fetch(file.url);
-  if (!response.ok) {
-    return { text: "", warning: `${file.name}: failed to fetch file (HTTP ${response.status})` };
+  let buffer: Buffer;
+  try {
+    buffer = await fetchFileBuffer(file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "failed to fetch file";
+    return { text: "", warning: `${file.name}: ${message}` };
   }
 
-  const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
+  return { ...(await parseFileBuffer(file, buffer)), contentHash: hashBuffers([buffer]) };
+}
+
+// Recordings run to hundreds of megabytes, so they go to a temporary file instead of a buffer.
+async function parseRecordingFile(file: UploadedFile, extension: string): Promise<ParsedUnit> {
+  // Transcription is the most expensive model work there is, so it is only done when it is charged to a user.
+  if (!hasModelCallScope()) {
+    return { text: "", warning: `${file.name}: recordings are only transcribed for signed-in requests` };
+  }
 
+  let recording: DownloadedRecording;
+  try {
+    recording = await downloadRecording(file.url, extension);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "failed to fetch file";
+    return { text: "", warning: `${file.name}: ${message}` };
+  }
+
+  const { contentHash } = recording;
+  try {
+    const document = await parseRecording(recording, file.name, extension);
+    return { ...document, warning: document.warning ? `${file.name}: ${document.warning}` : undefined, contentHash };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown parser error";
+    return { text: "", warning: `${file.name}: parser could not extract readable text (${message})`, contentHash };
+  } finally {
+    await recording.dispose();
+  }
+}
+
+async function parseFileBuffer(file: UploadedFile, buffer: Buffer): Promise<ParsedUnit> {
+  const extension = extensionFromFile(file);
   try {
     if (extension === "pdf") {
-      return { text: await parsePdf(buffer) };
+      const pdfDocument = await parsePdf(buffer);
+      return {
+        ...pdfDocument,
+        warning: pdfDocument.warning ? `${file.name}: ${pdfDocument.warning}` : undefined,
+      };
     }
     if (extension === "docx") {
-      return { text: await parseDocx(buffer) };
+      return await parseDocx(buffer);
     }
     if (extension === "pptx") {
-      return { text: await parsePptx(buffer) };
+      return await parsePptx(buffer);
+    }
+    if (extension === "md" || extension === "markdown") {
+      return await parseMarkdown(buffer);
+    }
+    if (extension === "txt") {
+      return await parsePlainText(buffer);
+    }
+    if (extension === "epub") {
+      return await parseEpub(buffer);
+    }
+    if (extension === "html" || extension === "htm") {
+      return await parseHtml(buffer);
     }
 
-    const pptText = await parseLegacyPpt(buffer);
+    const pptDocument = await parseLegacyPpt(buffer);
     return {
-      text: pptText,
-      warning: `${file.name}: legacy .ppt parsed with best-effort mode; convert to .pptx for better quality.`,
+      ...pptDocument,
+      warning: pptDocument.warning ? `${file.name}: ${pptDocument.warning}` : undefined,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : "unknown parser error";
@@ -65,21 +173,14 @@ async function parseFileFromUrl(file: UploadedFile): Promise<{ text: string; war
 }
 
 async function parseCollection(files: UploadedFile[]) {
-  return Promise.all(files.map((file) => parseFileFromUrl(file).then((result) => ({ file, ...result }))));
-}
-
-function splitSourceText(text: string, size = 700): string[] {
-  const normalized = text.replace(/\s+/g, " ").trim();
-  if (!normalized) {
-    return [];
-  }
-
-  const chunks: string[] = [];
-  for (let index = 0; index < normalized.length; index += size) {
-    chunks.push(normalized.slice(index, index + size));
-  }
-
-  return chunks;
+  return Promise.all(
+    groupUploadBatches(files).map((unit) =>
+      (unit.files.length > 1 ? parseImageBatch(unit) : parseFileFromUrl(unit.file)).then((result) => ({
+        file: unit.file,
+        ...result,
+      })),
+    ),
+  );
 }
 
 function extractYear(fileName: string): string | undefined {
@@ -103,23 +204,65 @@ function toSourceType(file: UploadedFile): ParsedSourceChunk["sourceType"] {
   return "Study Material";
 }
 
-function toSourceChunks(parsedItems: Array<{ file: UploadedFile; text: string }>): ParsedSourceChunk[] {
-  return parsedItems.flatMap(({ file, text }) => {
-    const sanitized = sanitizeExtractedText(text);
-    const pieces = splitSourceText(sanitized);
+function toSectionLabel(segment: ParsedSegment, heading: string | undefined, chunkIndex: number): string {
+  const label = [formatSegmentLocation(segment), heading].filter(Boolean).join(" — ");
+  return label || `Chunk ${chunkIndex + 1}`;
+}
+
+function toSourceChunks(
+  parsedItems: Array<{ file: UploadedFile; text: string; segments?: ParsedSegment[] }>,
+): ParsedSourceChunk[] {
+  return parsedItems.flatMap(({ file, text, segments }) => {
     const sourceType = toSourceType(file);
     const sourceYear = extractYear(file.name);
+    const uploadKey = toUploadKey(file);
+    const located = segments?.length ? segments : [{ text }];
+    let chunkIndex = 0;
+    // A page without its own heading continues the section from the previous page.
+    let carriedHeading: string | undefined;
+
+    return located.flatMap((segment) => {
+      // Transcribed recordings arrive already chunked along their timings.
+      const isTimed = typeof segment.startSeconds === "number";
+      const pieces = chunkText(sanitizeExtractedText(segment.text), {
+        ...(isTimed ? CHUNKING_PROFILES.transcript : CHUNKING_PROFILES.document),
+        ...(segment.outlined ? { carryHeading: false } : {}),
+        initialHeading: segment.heading ?? carriedHeading,
+      });
+      carriedHeading = pieces.at(-1)?.heading ?? carriedHeading;
 
-    return pieces.map((piece, index) => ({
-      text: piece,
-      sourceType,
-      sourceName: file.name,
-      sourceYear,
-      section: `Chunk ${index + 1}`,
-    }));
+      return pieces.map((piece) => ({
+        text: piece.text,
+        sourceType,
+        sourceName: file.name,
+        uploadKey,
+        sourceYear,
+        section: toSectionLabel(segment, piece.heading, chunkIndex++),
+        page: segment.page,
+        slide: segment.slide,
+        heading: piece.heading,
+        startSeconds: segment.startSeconds,
+        endSeconds: segment.endSeconds,
+      }));
+    });
   });
 }
 
+/**
+ * Parses a document downloaded from a pasted link (a PDF, DOCX or PPTX served
+ * behind a URL) with the same parsers and chunking as an uploaded file.
+ */
+export async function parseLinkedDocument(
+  file: UploadedFile,
+  buffer: Buffer,
+): Promise<{ chunks: ParsedSourceChunk[]; warning?: string }> {
+  const parsed = await parseFileBuffer(file, buffer);
+  return {
+    chunks: toSourceChunks([{ file, ...parsed }]),
+    warning: parsed.warning?.replace(`${file.name}: `, ""),
+  };
+}
+
 export async function parseUploadedFiles(files: UploadedFile[]): Promise<ParsedCorpus> {
   const syllabusFiles = byCategory(files, "syllabus");
   const materialFiles = byCategory(files, "studyMaterial");
@@ -134,6 +277,14 @@ export async function parseUploadedFiles(files: UploadedFile[]): Promise<ParsedC
   const warnings = [...parsedSyllabus, ...parsedMaterial, ...parsedPrevious]
     .map((item) => item.warning)
     .filter((warning): warning is string => Boolean(warning));
+  const fileWarnings = Object.fromEntries(
+    [...parsedSyllabus, ...parsedMaterial, ...parsedPrevious]
+      .flatMap((item) => (item.warning ? [[toUploadKey(item.file), item.warning.replace(`${item.file.name}: `, "")]] : [])),
+  );
+  const fileHashes = Object.fromEntries(
+    [...parsedSyllabus, ...parsedMaterial, ...parsedPrevious]
+      .flatMap((item) => (item.contentHash ? [[toUploadKey(item.file), item.contentHash]] : [])),
+  );
 
   const previousPaperText = toTextLimit(
     sanitizeExtractedText(parsedPrevious.map((item) => item.text).filter(Boolean).join("\n")),
@@ -145,14 +296,26 @@ export async function parseUploadedFiles(files: UploadedFile[]): Promise<ParsedC
     sanitizeExtractedText(parsedMaterial.map((item) => item.text).filter(Boolean).join("\n")),
   );
   const sourceChunks = toSourceChunks([...parsedSyllabus, ...parsedMaterial, ...parsedPrevious]);
+  const examQuestions = parsedPrevious.flatMap((item) =>
+    parseQuestionPaper(sanitizeExtractedText(item.text), {
+      sourceName: item.file.name,
+      year: extractYear(item.file.name),
+    }),
+  );
+  // Count topics over question text only, so paper headers and instructions do not dominate.
+  const questionText = examQuestions.map((question) => question.text).join("\n");
 
   return {
     syllabusText,
     materialText,
     previousPaperText,
-    repeatedTopics: detectRepeatedTopics(previousPaperText),
+    repeatedTopics: detectRepeatedTopics(questionText || previousPaperText),
+    examQuestions,
+    questionClusters: clusterExamQuestions(examQuestions),
     chapters: extractSyllabusChapters(syllabusText, materialText),
     sourceChunks,
     warnings,
+    fileWarnings,
+    fileHashes,
   };
 }
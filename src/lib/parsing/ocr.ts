@@ -0,0 +1,226 @@
+import engData from "@tesseract.js-data/eng";
+import { createWorker, OEM, type Worker } from "tesseract.js";
+import PDFJS from "pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js";
+
+import { withTimeout } from "@/lib/async";
+
+/**
+ * Local OCR for scanned PDFs. Runs tesseract.js (WASM) with the bundled
+ * English model, so no network access is needed at parse time.
+ *
+ * Scanned pages are almost always one full-page image, so instead of
+ * rendering the page we pull the decoded image XObjects out of pdf.js and hand
+ * them to tesseract as PNM bitmaps.
+ */
+
+export type OcrPageResult = {
+  page: number;
+  text: string;
+  /** Mean word confidence reported by tesseract, 0-100. */
+  confidence: number;
+};
+
+export type OcrDocumentResult = {
+  pages: OcrPageResult[];
+  /** Pages left unread because the document's time budget ran out. */
+  pagesOutOfTime: number;
+};
+
+type PdfJsImage = {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+};
+
+type PdfJsPage = {
+  getOperatorList: () => Promise<{ fnArray: number[]; argsArray: unknown[][] }>;
+  objs: { get: (id: string) => unknown };
+  cleanup: () => void;
+};
+
+type PdfJsDocument = {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<PdfJsPage>;
+  destroy: () => Promise<void>;
+};
+
+// pdf.js ImageKind values
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+const RGBA_32BPP = 3;
+
+export const MAX_OCR_PAGES = 40;
+const PAGE_TIMEOUT_MS = 30_000;
+// OCR runs inside the upload request, so the whole document gets a budget, not just each page.
+export const OCR_DOCUMENT_BUDGET_MS = 120_000;
+// Skip logos, stamps and rules; scanned pages are far larger than this.
+const MIN_IMAGE_PIXELS = 200 * 200;
+
+export const LOW_OCR_CONFIDENCE = 60;
+
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== "false";
+}
+
+function isPdfJsImage(value: unknown): value is PdfJsImage {
+  const candidate = value as Partial<PdfJsImage> | null;
+  return Boolean(
+    candidate &&
+      typeof candidate.width === "number" &&
+      typeof candidate.height === "number" &&
+      typeof candidate.kind === "number" &&
+      candidate.data,
+  );
+}
+
+/** Encodes decoded pdf.js pixels as PBM/PPM, which tesseract's image reader accepts directly. */
+function toPnm(image: PdfJsImage): Buffer | null {
+  const { width, height, kind, data } = image;
+
+  if (kind === GRAYSCALE_1BPP) {
+    // pdf.js stores 1 as white; PBM uses 1 for black.
+    const bits = Buffer.from(data.buffer, data.byteOffset, data.byteLength).map((byte) => ~byte & 0xff);
+    return Buffer.concat([Buffer.from(`P4\n${width} ${height}\n`), bits]);
+  }
+
+  if (kind === RGB_24BPP) {
+    return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), Buffer.from(data.buffer, data.byteOffset, data.byteLength)]);
+  }
+
+  if (kind === RGBA_32BPP) {
+    const rgb = Buffer.alloc(width * height * 3);
+    for (let source = 0, target = 0; target < rgb.length; source += 4, target += 3) {
+      rgb[target] = data[source];
+      rgb[target + 1] = data[source + 1];
+      rgb[target + 2] = data[source + 2];
+    }
+    return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), rgb]);
+  }
+
+  return null;
+}
+
+async function extractPageImages(page: PdfJsPage): Promise<Buffer[]> {
+  const operatorList = await page.getOperatorList();
+  const images: Buffer[] = [];
+
+  operatorList.fnArray.forEach((fn, index) => {
+    const args = operatorList.argsArray[index] ?? [];
+    let image: unknown;
+    if (fn === PDFJS.OPS.paintImageXObject && typeof args[0] === "string") {
+      image = page.objs.get(args[0]);
+    } else if (fn === PDFJS.OPS.paintInlineImageXObject) {
+      image = args[0];
+    }
+
+    if (!isPdfJsImage(image) || image.width * image.height < MIN_IMAGE_PIXELS) {
+      return;
+    }
+    const pnm = toPnm(image);
+    if (pnm) {
+      images.push(pnm);
+    }
+  });
+
+  return images;
+}
+
+export async function createOcrWorker(): Promise<Worker> {
+  return createWorker(engData.code, OEM.LSTM_ONLY, {
+    langPath: engData.langPath,
+    gzip: engData.gzip,
+    cacheMethod: "none",
+  });
+}
+
+/** OCRs each image in order and joins the text; confidence is weighted by recognised text length. */
+export async function recognizeImages(
+  worker: Worker,
+  images: Buffer[],
+  timeoutMs = PAGE_TIMEOUT_MS,
+): Promise<{ text: string; confidence: number }> {
+  const parts: Array<{ text: string; confidence: number }> = [];
+  for (const image of images) {
+    const result = await withTimeout(worker.recognize(image), timeoutMs, "OCR timed out");
+    const text = result.data.text.trim();
+    if (text) {
+      parts.push({ text, confidence: result.data.confidence });
+    }
+  }
+
+  const totalChars = parts.reduce((sum, part) => sum + part.text.length, 0);
+  return {
+    text: parts.map((part) => part.text).join("\n\n"),
+    confidence: totalChars
+      ? Math.round(parts.reduce((sum, part) => sum + part.confidence * part.text.length, 0) / totalChars)
+      : 0,
+  };
+}
+
+/**
+ * OCRs the given 1-based page numbers. Pages without a usable embedded image
+ * (or whose recognition fails) are left out of the result; at most
+ * `MAX_OCR_PAGES` pages are processed, and pages still waiting when
+ * `OCR_DOCUMENT_BUDGET_MS` runs out are counted in `pagesOutOfTime`.
+ */
+export async function ocrPdfPages(buffer: Buffer, pageNumbers: number[]): Promise<OcrDocumentResult> {
+  if (!pageNumbers.length) {
+    return { pages: [], pagesOutOfTime: 0 };
+  }
+
+  PDFJS.disableWorker = true;
+  const document = (await PDFJS.getDocument({
+    data: new Uint8Array(buffer),
+    // Decode JPEG scans inside pdf.js so we get raw pixels instead of a DOM image.
+    nativeImageDecoderSupport: "none",
+  })) as PdfJsDocument;
+
+  const deadline = Date.now() + OCR_DOCUMENT_BUDGET_MS;
+  const pendingPages = pageNumbers.slice(0, MAX_OCR_PAGES);
+  let worker: Worker | undefined;
+  const results: OcrPageResult[] = [];
+  let pagesOutOfTime = 0;
+
+  try {
+    for (const [index, pageNumber] of pendingPages.entries()) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        pagesOutOfTime = pendingPages.length - index;
+        break;
+      }
+      if (pageNumber < 1 || pageNumber > document.numPages) {
+        continue;
+      }
+
+      try {
+        const page = await document.getPage(pageNumber);
+        const images = await extractPageImages(page);
+        page.cleanup();
+        if (!images.length) {
+          continue;
+        }
+
+        worker ??= await createOcrWorker();
+        const recognized = await recognizeImages(worker, images, Math.min(PAGE_TIMEOUT_MS, remainingMs));
+        if (recognized.text) {
+          results.push({ page: pageNumber, ...recognized });
+        }
+      } catch (error) {
+        // One unreadable page should not cost the rest of the document. A timed-out
+        // job keeps the worker busy, so start the next page on a fresh one.
+        console.warn("[ocr] page recognition failed", {
+          page: pageNumber,
+          message: error instanceof Error ? error.message : "unknown error",
+        });
+        await worker?.terminate();
+        worker = undefined;
+      }
+    }
+  } finally {
+    await worker?.terminate();
+    await document.destroy();
+  }
+
+  return { pages: results, pagesOutOfTime };
+}
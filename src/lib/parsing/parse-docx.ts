@@ -1,6 +1,23 @@
 import mammoth from "mammoth";
 
-export async function parseDocx(buffer: Buffer): Promise<string> {
-  const result = await mammoth.extractRawText({ buffer });
-  return result.value.trim();
+import { outlineToSegments, outlineToText, toHtmlOutline } from "@/lib/parsing/html-outline";
+import { ParsedDocument } from "@/lib/parsing/types";
+
+/**
+ * DOCX is converted to HTML by mammoth (which maps "Heading N" styles to
+ * <hN> and numbered paragraphs to lists) and read back as an outline:
+ * headings, paragraphs, list items and table rows. Each heading starts a new
+ * segment whose `heading` is the full path, e.g. "Unit 2 > Normalization > 3NF".
+ * A "Title"-styled line stays a plain paragraph so it does not become the root
+ * of every path.
+ */
+
+export async function parseDocx(buffer: Buffer): Promise<ParsedDocument> {
+  const result = await mammoth.convertToHtml({ buffer });
+  const blocks = toHtmlOutline(result.value);
+
+  return {
+    text: outlineToText(blocks),
+    segments: outlineToSegments(blocks),
+  };
 }
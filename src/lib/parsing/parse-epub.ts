@@ -0,0 +1,77 @@
+import path from "node:path";
+
+import JSZip from "jszip";
+
+import { decodeHtmlEntities, OutlineBlock, outlineToSegments, outlineToText } from "@/lib/parsing/html-outline";
+import { extractHtmlTitle, htmlToOutline } from "@/lib/parsing/parse-html";
+import { ParsedDocument } from "@/lib/parsing/types";
+
+/**
+ * EPUB textbooks: META-INF/container.xml points at the OPF package, whose
+ * spine lists the XHTML chapters in reading order. Each chapter is read with
+ * the HTML outline parser; a chapter without headings of its own is titled
+ * from its <title> so its text does not fall under the previous chapter.
+ */
+
+type ManifestItem = {
+  href: string;
+  mediaType: string;
+  properties: string;
+};
+
+const XHTML_MEDIA_TYPES = new Set(["application/xhtml+xml", "text/html"]);
+
+function readAttributes(tag: string): Record<string, string> {
+  return Object.fromEntries(Array.from(tag.matchAll(/([\w:-]+)="([^"]*)"/g), (match) => [match[1], decodeHtmlEntities(match[2])]));
+}
+
+async function readZipText(zip: JSZip, name: string): Promise<string | undefined> {
+  return zip.file(name)?.async("text");
+}
+
+export async function parseEpub(buffer: Buffer): Promise<ParsedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await readZipText(zip, "META-INF/container.xml");
+  const packagePath = container ? readAttributes(/<rootfile\b[^>]*>/.exec(container)?.[0] ?? "")["full-path"] : undefined;
+  const packageXml = packagePath ? await readZipText(zip, packagePath) : undefined;
+  if (!packagePath || !packageXml) {
+    throw new Error("EPUB package document not found");
+  }
+
+  const packageDir = path.posix.dirname(packagePath);
+  const manifest = new Map<string, ManifestItem>();
+  for (const match of packageXml.matchAll(/<item\b[^>]*>/g)) {
+    const attributes = readAttributes(match[0]);
+    if (attributes.id && attributes.href) {
+      manifest.set(attributes.id, {
+        href: path.posix.normalize(path.posix.join(packageDir, decodeURIComponent(attributes.href.split("#")[0]))),
+        mediaType: attributes["media-type"] ?? "",
+        properties: attributes.properties ?? "",
+      });
+    }
+  }
+
+  const chapterFiles = Array.from(packageXml.matchAll(/<itemref\b[^>]*>/g))
+    .map((match) => manifest.get(readAttributes(match[0]).idref ?? ""))
+    .filter((item): item is ManifestItem => Boolean(item && XHTML_MEDIA_TYPES.has(item.mediaType) && !item.properties.includes("nav")));
+
+  const blocks: OutlineBlock[] = [];
+  for (const chapter of chapterFiles) {
+    const html = await readZipText(zip, chapter.href);
+    if (!html) {
+      continue;
+    }
+
+    const chapterBlocks = htmlToOutline(html);
+    const title = extractHtmlTitle(html);
+    if (title && chapterBlocks.some((block) => block.kind === "content") && !chapterBlocks.some((block) => block.kind === "heading")) {
+      blocks.push({ kind: "heading", level: 1, text: title });
+    }
+    blocks.push(...chapterBlocks);
+  }
+
+  return {
+    text: outlineToText(blocks),
+    segments: outlineToSegments(blocks),
+  };
+}
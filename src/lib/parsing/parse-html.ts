@@ -0,0 +1,34 @@
+import { decodeHtmlEntities, OutlineBlock, outlineToSegments, outlineToText, toHtmlOutline } from "@/lib/parsing/html-outline";
+import { decodeTextBuffer } from "@/lib/parsing/parse-text";
+import { ParsedDocument } from "@/lib/parsing/types";
+
+// Elements whose content is never study text.
+const NON_CONTENT_ELEMENTS = /<(script|style|noscript|template|svg|head|nav|iframe|form|button)\b[\s\S]*?<\/\1\s*>/gi;
+
+export function extractHtmlTitle(html: string): string | undefined {
+  const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  const title = match ? decodeHtmlEntities(match[1]).replace(/\s+/g, " ").trim() : "";
+  return title || undefined;
+}
+
+/** Outline of an HTML or XHTML document's body, with scripts, styles and navigation removed. */
+export function htmlToOutline(html: string): OutlineBlock[] {
+  const body = /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+  return toHtmlOutline(body.replace(NON_CONTENT_ELEMENTS, " "));
+}
+
+/** Saved web pages (.html / .htm). */
+export async function parseHtml(buffer: Buffer): Promise<ParsedDocument> {
+  const html = decodeTextBuffer(buffer);
+  const blocks = htmlToOutline(html);
+  const title = extractHtmlTitle(html);
+
+  // Pages without their own headings still get the page title as the segment path.
+  const outline: OutlineBlock[] =
+    title && !blocks.some((block) => block.kind === "heading") ? [{ kind: "heading", level: 1, text: title }, ...blocks] : blocks;
+
+  return {
+    text: outlineToText(outline),
+    segments: outlineToSegments(outline),
+  };
+}
@@ -0,0 +1,106 @@
+import {
+  createOcrWorker,
+  isOcrEnabled,
+  LOW_OCR_CONFIDENCE,
+  MAX_OCR_PAGES,
+  OCR_DOCUMENT_BUDGET_MS,
+  recognizeImages,
+} from "@/lib/parsing/ocr";
+import { inferSegmentHeading, toParsedDocument } from "@/lib/parsing/segments";
+import { ParsedDocument, ParsedSegment } from "@/lib/parsing/types";
+
+/**
+ * Photos of handwritten notes or printed papers. Every photo is OCR'd as one
+ * page, so a batch of photos reads like a multi-page scan and chunks cite
+ * "p. N" for the Nth photo.
+ */
+
+// Phone photos are larger and noisier than scanned PDF pages.
+const PHOTO_TIMEOUT_MS = 45_000;
+
+function describePhotos(
+  segments: ParsedSegment[],
+  photoCount: number,
+  failedCount: number,
+  photosOutOfTime: number,
+): string {
+  const read = segments.filter((segment) => typeof segment.ocrConfidence === "number");
+  const outOfTime =
+    photosOutOfTime > 0 ? `${photosOutOfTime} photo(s) were not read because OCR ran out of time` : undefined;
+  if (!read.length) {
+    return outOfTime
+      ? `OCR could not read any text from ${photoCount} photo(s); ${outOfTime}.`
+      : `OCR could not read any text from ${photoCount} photo(s); retake them in better light or upload a PDF.`;
+  }
+
+  const averageConfidence = Math.round(read.reduce((sum, segment) => sum + (segment.ocrConfidence ?? 0), 0) / read.length);
+  const lowConfidence = read
+    .filter((segment) => (segment.ocrConfidence ?? 0) < LOW_OCR_CONFIDENCE)
+    .map((segment) => `photo ${segment.page} (${Math.round(segment.ocrConfidence ?? 0)}%)`);
+  const unreadable = photoCount - read.length - failedCount - photosOutOfTime;
+  const skipped = photoCount - Math.min(photoCount, MAX_OCR_PAGES);
+
+  return [
+    `${read.length} photo(s) read with OCR, average confidence ${averageConfidence}%`,
+    lowConfidence.length ? `low confidence on ${lowConfidence.join(", ")} — check these photos` : undefined,
+    unreadable - skipped > 0 ? `${unreadable - skipped} photo(s) had no readable text` : undefined,
+    failedCount > 0 ? `${failedCount} photo(s) could not be processed` : undefined,
+    outOfTime,
+    skipped > 0 ? `${skipped} photo(s) over the OCR limit were skipped` : undefined,
+  ]
+    .filter(Boolean)
+    .join("; ")
+    .concat(".");
+}
+
+/** OCRs the photos in upload order; one failed photo does not fail the batch. */
+export async function parseImages(images: Buffer[]): Promise<ParsedDocument> {
+  if (!isOcrEnabled()) {
+    throw new Error("image uploads need OCR, which is disabled on this server");
+  }
+
+  const segments: ParsedSegment[] = [];
+  const pendingImages = images.slice(0, MAX_OCR_PAGES);
+  const deadline = Date.now() + OCR_DOCUMENT_BUDGET_MS;
+  let failedCount = 0;
+  let photosOutOfTime = 0;
+  let worker = await createOcrWorker();
+
+  try {
+    for (const [index, image] of pendingImages.entries()) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        photosOutOfTime = pendingImages.length - index;
+        break;
+      }
+
+      try {
+        const recognized = await recognizeImages(worker, [image], Math.min(PHOTO_TIMEOUT_MS, remainingMs));
+        if (recognized.text) {
+          segments.push({
+            text: recognized.text,
+            page: index + 1,
+            heading: inferSegmentHeading(recognized.text),
+            ocrConfidence: recognized.confidence,
+          });
+        }
+      } catch (error) {
+        failedCount += 1;
+        console.warn("[parse-image] photo recognition failed", {
+          photo: index + 1,
+          message: error instanceof Error ? error.message : "unknown error",
+        });
+        // A timed-out job keeps the worker busy; continue on a fresh one.
+        await worker.terminate();
+        worker = await createOcrWorker();
+      }
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  return {
+    ...toParsedDocument(segments),
+    warning: describePhotos(segments, images.length, failedCount, photosOutOfTime),
+  };
+}
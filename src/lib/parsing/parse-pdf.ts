@@ -1,6 +1,129 @@
 import pdfParse from "pdf-parse";
 
-export async function parsePdf(buffer: Buffer): Promise<string> {
-  const parsed = await pdfParse(buffer);
-  return parsed.text?.trim() ?? "";
+import { isOcrEnabled, LOW_OCR_CONFIDENCE, MAX_OCR_PAGES, OcrDocumentResult, ocrPdfPages } from "@/lib/parsing/ocr";
+import { inferSegmentHeading, toParsedDocument } from "@/lib/parsing/segments";
+import { ParsedDocument, ParsedSegment } from "@/lib/parsing/types";
+
+const PARAGRAPH_GAP_RATIO = 1.6;
+// Pages with fewer visible characters than this are treated as scanned.
+const MIN_TEXT_LAYER_CHARS = 40;
+
+type PdfTextItem = {
+  str: string;
+  transform: number[];
+};
+
+type PdfPageData = {
+  pageNumber?: number;
+  getTextContent: (options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }) => Promise<{ items: PdfTextItem[] }>;
+};
+
+// Mirrors pdf-parse's default renderer (new line whenever the baseline moves)
+// but keeps each page separate so chunks can cite page numbers, and emits a
+// blank line when the vertical gap is clearly wider than normal line spacing
+// so the chunker can see paragraph boundaries.
+async function renderPageText(pageData: PdfPageData): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let lineGap: number | undefined;
+  let text = "";
+  for (const item of textContent.items) {
+    const y = item.transform[5];
+    if (lastY === undefined || lastY === y) {
+      text += item.str;
+    } else {
+      const gap = Math.abs(lastY - y);
+      text += lineGap && gap > lineGap * PARAGRAPH_GAP_RATIO ? `\n\n${item.str}` : `\n${item.str}`;
+      lineGap = lineGap ? Math.min(lineGap, gap) : gap;
+    }
+    lastY = y;
+  }
+  return text;
+}
+
+function describeOcr({ pages, pagesOutOfTime }: OcrDocumentResult, scannedPageCount: number): string {
+  const outOfTime =
+    pagesOutOfTime > 0 ? `${pagesOutOfTime} page(s) were not read because OCR ran out of time` : undefined;
+  if (!pages.length) {
+    return [
+      `${scannedPageCount} scanned page(s) had no readable text layer and OCR could not recover any text`,
+      outOfTime,
+    ]
+      .filter(Boolean)
+      .join("; ")
+      .concat(".");
+  }
+
+  const averageConfidence = Math.round(pages.reduce((sum, result) => sum + result.confidence, 0) / pages.length);
+  const lowConfidence = pages
+    .filter((result) => result.confidence < LOW_OCR_CONFIDENCE)
+    .map((result) => `p. ${result.page} (${Math.round(result.confidence)}%)`);
+  const skipped = scannedPageCount - Math.min(scannedPageCount, MAX_OCR_PAGES);
+
+  return [
+    `${pages.length} scanned page(s) read with OCR, average confidence ${averageConfidence}%`,
+    lowConfidence.length ? `low confidence on ${lowConfidence.join(", ")} — check these pages` : undefined,
+    outOfTime,
+    skipped > 0 ? `${skipped} page(s) over the OCR limit were skipped` : undefined,
+  ]
+    .filter(Boolean)
+    .join("; ")
+    .concat(".");
+}
+
+export async function parsePdf(buffer: Buffer): Promise<ParsedDocument> {
+  const segments: ParsedSegment[] = [];
+
+  await pdfParse(buffer, {
+    pagerender: async (pageData: PdfPageData) => {
+      const text = (await renderPageText(pageData)).trim();
+      segments.push({
+        text,
+        page: pageData.pageNumber ?? segments.length + 1,
+        heading: inferSegmentHeading(text),
+      });
+      return text;
+    },
+  });
+
+  const scannedPages = segments
+    .filter((segment) => segment.text.replace(/\s+/g, "").length < MIN_TEXT_LAYER_CHARS)
+    .map((segment) => segment.page)
+    .filter((page): page is number => typeof page === "number");
+
+  if (!scannedPages.length || !isOcrEnabled()) {
+    return toParsedDocument(segments);
+  }
+
+  let ocr: OcrDocumentResult;
+  try {
+    ocr = await ocrPdfPages(buffer, scannedPages);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    return {
+      ...toParsedDocument(segments),
+      warning: `${scannedPages.length} scanned page(s) could not be OCR'd (${message}).`,
+    };
+  }
+
+  for (const result of ocr.pages) {
+    const segment = segments.find((item) => item.page === result.page);
+    if (segment) {
+      segment.text = result.text;
+      segment.heading = inferSegmentHeading(result.text);
+      segment.ocrConfidence = result.confidence;
+    }
+  }
+
+  return {
+    ...toParsedDocument(segments),
+    warning: describeOcr(ocr, scannedPages.length),
+  };
 }
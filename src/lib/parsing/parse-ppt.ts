@@ -1,6 +1,250 @@
+import { isCompoundFile, readCompoundFile } from "@/lib/parsing/cfb";
+import { toParsedDocument } from "@/lib/parsing/segments";
+import { ParsedDocument, ParsedSegment } from "@/lib/parsing/types";
+
+/**
+ * Legacy PowerPoint 97-2003 (.ppt) text extraction.
+ *
+ * The "PowerPoint Document" stream of the OLE container is a tree of binary
+ * records. The newest UserEditAtom (found via the "Current User" stream) points
+ * at the persist directory, which maps persist ids to record offsets. Slide
+ * order comes from the SlidePersistAtoms in the document's SlideListWithText;
+ * placeholder text sits in that list right after each SlidePersistAtom, and
+ * free text boxes live in the slide's own drawing.
+ */
+
+const RT_DOCUMENT = 0x03e8;
+const RT_SLIDE = 0x03ee;
+const RT_SLIDE_PERSIST_ATOM = 0x03f3;
+const RT_TEXT_HEADER_ATOM = 0x0f9f;
+const RT_TEXT_CHARS_ATOM = 0x0fa0;
+const RT_TEXT_BYTES_ATOM = 0x0fa8;
+const RT_SLIDE_LIST_WITH_TEXT = 0x0ff0;
+const RT_USER_EDIT_ATOM = 0x0ff5;
+const RT_CURRENT_USER_ATOM = 0x0ff6;
+const RT_PERSIST_DIRECTORY_ATOM = 0x1772;
+
+const CONTAINER_VERSION = 0xf;
+const RECORD_HEADER_SIZE = 8;
+const SLIDE_LIST_INSTANCE = 0;
+const TITLE_TEXT_TYPES = new Set([0, 6]);
+// Older edits chain back through offsetLastEdit; real files rarely have more than a few.
+const MAX_USER_EDITS = 64;
+
+const BEST_EFFORT_WARNING = "legacy .ppt parsed with best-effort mode; convert to .pptx for better quality.";
+
+type PptRecord = {
+  type: number;
+  instance: number;
+  isContainer: boolean;
+  /** Offset of the record payload (after the 8-byte header). */
+  start: number;
+  end: number;
+};
+
+type SlideText = {
+  text: string;
+  textType?: number;
+};
+
+type SlideDraft = {
+  persistId: number;
+  texts: SlideText[];
+};
+
 const printable = /[A-Za-z][A-Za-z0-9\-_,.()\s]{4,}/g;
 
-export async function parseLegacyPpt(buffer: Buffer): Promise<string> {
+function readRecord(stream: Buffer, offset: number): PptRecord | undefined {
+  if (offset < 0 || offset + RECORD_HEADER_SIZE > stream.length) {
+    return undefined;
+  }
+  const versionAndInstance = stream.readUInt16LE(offset);
+  const length = stream.readUInt32LE(offset + 4);
+  const start = offset + RECORD_HEADER_SIZE;
+  return {
+    type: stream.readUInt16LE(offset + 2),
+    instance: versionAndInstance >> 4,
+    isContainer: (versionAndInstance & 0xf) === CONTAINER_VERSION,
+    start,
+    end: Math.min(start + length, stream.length),
+  };
+}
+
+function childrenOf(stream: Buffer, record: PptRecord): PptRecord[] {
+  const children: PptRecord[] = [];
+  let offset = record.start;
+  while (offset + RECORD_HEADER_SIZE <= record.end) {
+    const child = readRecord(stream, offset);
+    if (!child || child.end <= offset) {
+      break;
+    }
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+function decodeTextAtom(stream: Buffer, record: PptRecord): string {
+  const raw =
+    record.type === RT_TEXT_CHARS_ATOM
+      ? stream.toString("utf16le", record.start, record.end - ((record.end - record.start) % 2))
+      : stream.toString("latin1", record.start, record.end);
+
+  // \r separates paragraphs and \v is a soft line break inside one.
+  return raw
+    .replace(/[\r\u000b]/g, "\n")
+    .replace(/[\u0000-\u0008\u000c\u000e-\u001f]/g, " ")
+    .replace(/[^\S\n]+/g, " ")
+    .trim();
+}
+
+/** Collects text atoms in document order, tagging each with the preceding TextHeaderAtom's type. */
+function collectTexts(stream: Buffer, record: PptRecord, texts: SlideText[] = [], depth = 0): SlideText[] {
+  let textType: number | undefined;
+  for (const child of childrenOf(stream, record)) {
+    if (child.type === RT_TEXT_HEADER_ATOM && child.end - child.start >= 4) {
+      textType = stream.readUInt32LE(child.start);
+    } else if (child.type === RT_TEXT_CHARS_ATOM || child.type === RT_TEXT_BYTES_ATOM) {
+      const text = decodeTextAtom(stream, child);
+      if (text) {
+        texts.push({ text, textType });
+      }
+    } else if (child.isContainer && depth < 32) {
+      collectTexts(stream, child, texts, depth + 1);
+    }
+  }
+  return texts;
+}
+
+/** Maps persist ids to stream offsets, newest edit winning. */
+function readPersistDirectory(stream: Buffer, currentUser: Buffer): { offsets: Map<number, number>; documentPersistId: number } {
+  const currentUserAtom = readRecord(currentUser, 0);
+  if (!currentUserAtom || currentUserAtom.type !== RT_CURRENT_USER_ATOM) {
+    throw new Error("missing CurrentUserAtom");
+  }
+
+  const offsets = new Map<number, number>();
+  let editOffset = currentUser.readUInt32LE(currentUserAtom.start + 8);
+  let documentPersistId: number | undefined;
+  const visited = new Set<number>();
+
+  while (editOffset > 0 && !visited.has(editOffset) && visited.size < MAX_USER_EDITS) {
+    visited.add(editOffset);
+    const userEdit = readRecord(stream, editOffset);
+    if (!userEdit || userEdit.type !== RT_USER_EDIT_ATOM || userEdit.end - userEdit.start < 20) {
+      throw new Error("invalid UserEditAtom");
+    }
+    documentPersistId ??= stream.readUInt32LE(userEdit.start + 16);
+
+    const directory = readRecord(stream, stream.readUInt32LE(userEdit.start + 12));
+    if (!directory || directory.type !== RT_PERSIST_DIRECTORY_ATOM) {
+      throw new Error("invalid PersistDirectoryAtom");
+    }
+    let cursor = directory.start;
+    while (cursor + 4 <= directory.end) {
+      const entry = stream.readUInt32LE(cursor);
+      const firstId = entry & 0xfffff;
+      const count = entry >>> 20;
+      cursor += 4;
+      for (let index = 0; index < count && cursor + 4 <= directory.end; index += 1, cursor += 4) {
+        if (!offsets.has(firstId + index)) {
+          offsets.set(firstId + index, stream.readUInt32LE(cursor));
+        }
+      }
+    }
+
+    editOffset = stream.readUInt32LE(userEdit.start + 8);
+  }
+
+  if (documentPersistId === undefined) {
+    throw new Error("no user edit found");
+  }
+  return { offsets, documentPersistId };
+}
+
+function toSlideDrafts(stream: Buffer, documentRecord: PptRecord): SlideDraft[] {
+  const slideList = childrenOf(stream, documentRecord).find(
+    (child) => child.type === RT_SLIDE_LIST_WITH_TEXT && child.instance === SLIDE_LIST_INSTANCE,
+  );
+  if (!slideList) {
+    return [];
+  }
+
+  const slides: SlideDraft[] = [];
+  let textType: number | undefined;
+  for (const child of childrenOf(stream, slideList)) {
+    const current = slides.at(-1);
+    if (child.type === RT_SLIDE_PERSIST_ATOM && child.end - child.start >= 4) {
+      slides.push({ persistId: stream.readUInt32LE(child.start), texts: [] });
+      textType = undefined;
+    } else if (child.type === RT_TEXT_HEADER_ATOM && child.end - child.start >= 4) {
+      textType = stream.readUInt32LE(child.start);
+    } else if (current && (child.type === RT_TEXT_CHARS_ATOM || child.type === RT_TEXT_BYTES_ATOM)) {
+      const text = decodeTextAtom(stream, child);
+      if (text) {
+        current.texts.push({ text, textType });
+      }
+    }
+  }
+  return slides;
+}
+
+function toSegment(texts: SlideText[], slide: number): ParsedSegment {
+  const seen = new Set<string>();
+  const unique = texts.filter((item) => {
+    // Slide-number and date fields are stored as "*" placeholders.
+    if (seen.has(item.text) || !/[A-Za-z0-9]/.test(item.text)) {
+      return false;
+    }
+    seen.add(item.text);
+    return true;
+  });
+
+  const title = unique.find((item) => item.textType !== undefined && TITLE_TEXT_TYPES.has(item.textType));
+  return {
+    text: unique.map((item) => item.text).join("\n\n"),
+    slide,
+    heading: title?.text.replace(/\s+/g, " "),
+  };
+}
+
+function extractSlides(stream: Buffer, currentUser: Buffer | undefined): ParsedSegment[] {
+  let offsets: Map<number, number> | undefined;
+  let documentRecord: PptRecord | undefined;
+
+  if (currentUser) {
+    try {
+      const directory = readPersistDirectory(stream, currentUser);
+      const candidate = readRecord(stream, directory.offsets.get(directory.documentPersistId) ?? -1);
+      if (candidate?.type === RT_DOCUMENT) {
+        offsets = directory.offsets;
+        documentRecord = candidate;
+      }
+    } catch (error) {
+      console.warn("[parse-ppt] persist directory unreadable, scanning records", {
+        message: error instanceof Error ? error.message : "unknown error",
+      });
+    }
+  }
+
+  // Without a usable persist directory, fall back to the first top-level document record.
+  if (!documentRecord) {
+    documentRecord = childrenOf(stream, { type: 0, instance: 0, isContainer: true, start: 0, end: stream.length }).find(
+      (record) => record.type === RT_DOCUMENT,
+    );
+  }
+  if (!documentRecord) {
+    throw new Error("no Document record");
+  }
+
+  return toSlideDrafts(stream, documentRecord).map((draft, index) => {
+    const slideRecord = offsets ? readRecord(stream, offsets.get(draft.persistId) ?? -1) : undefined;
+    const drawingTexts = slideRecord?.type === RT_SLIDE ? collectTexts(stream, slideRecord) : [];
+    return toSegment([...draft.texts, ...drawingTexts], index + 1);
+  });
+}
+
+function scanPrintableRuns(buffer: Buffer): ParsedDocument {
   const text = buffer.toString("latin1");
   const tokens = Array.from(text.matchAll(printable)).map((match) => match[0].trim());
 
@@ -8,5 +252,30 @@ export async function parseLegacyPpt(buffer: Buffer): Promise<string> {
     .map((token) => token.replace(/\s+/g, " "))
     .filter((token) => token.length >= 5 && token.length <= 160);
 
-  return cleaned.join("\n");
+  return { ...toParsedDocument([{ text: cleaned.join("\n") }]), warning: BEST_EFFORT_WARNING };
+}
+
+export async function parseLegacyPpt(buffer: Buffer): Promise<ParsedDocument> {
+  if (!isCompoundFile(buffer)) {
+    return scanPrintableRuns(buffer);
+  }
+
+  try {
+    const compoundFile = readCompoundFile(buffer);
+    const stream = compoundFile.getStream("PowerPoint Document");
+    if (!stream) {
+      throw new Error("no PowerPoint Document stream");
+    }
+
+    const document = toParsedDocument(extractSlides(stream, compoundFile.getStream("Current User")));
+    if (document.segments.length) {
+      return document;
+    }
+  } catch (error) {
+    console.warn("[parse-ppt] record parsing failed, using best-effort scan", {
+      message: error instanceof Error ? error.message : "unknown error",
+    });
+  }
+
+  return scanPrintableRuns(buffer);
 }
@@ -1,5 +1,26 @@
+import path from "node:path";
+
 import JSZip from "jszip";
 
+import { toParsedDocument } from "@/lib/parsing/segments";
+import { ParsedDocument, ParsedSegment } from "@/lib/parsing/types";
+
+/**
+ * Each slide yields a body segment (text boxes, tables as " | "-separated
+ * rows, SmartArt diagram items and chart labels, in slide order) and, when the
+ * slide has speaker notes, a separate `part: "notes"` segment so chunks can
+ * cite "Slide 4 speaker notes".
+ */
+
+const MAX_CHART_CATEGORIES = 20;
+// Notes placeholders that hold the slide thumbnail, number, header, footer or date rather than notes.
+const NON_NOTES_PLACEHOLDERS = /<p:ph[^>]*type="(?:sldImg|sldNum|hdr|ftr|dt)"/;
+
+type Relationship = {
+  type: string;
+  target: string;
+};
+
 function decodeXmlEntities(input: string): string {
   return input
     .replace(/&amp;/g, "&")
@@ -9,26 +30,170 @@ function decodeXmlEntities(input: string): string {
     .replace(/&#39;/g, "'");
 }
 
-export async function parsePptx(buffer: Buffer): Promise<string> {
+function extractTextRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>/g))
+    .map((match) => decodeXmlEntities(match[1]))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** One line per `<a:p>` paragraph; runs inside a paragraph are joined without separators. */
+function extractParagraphs(xml: string): string[] {
+  return Array.from(xml.matchAll(/<a:p>[\s\S]*?<\/a:p>/g))
+    .map((match) => extractTextRuns(match[0]))
+    .filter(Boolean);
+}
+
+function extractTable(xml: string): string {
+  return Array.from(xml.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g))
+    .map((row) =>
+      Array.from(row[0].matchAll(/<a:tc\b[^>]*?(?:\/>|>[\s\S]*?<\/a:tc>)/g))
+        .map((cell) => extractParagraphs(cell[0]).join(" "))
+        .join(" | "),
+    )
+    .filter((row) => row.replace(/[|\s]/g, ""))
+    .join("\n");
+}
+
+function extractDiagramItems(xml: string): string {
+  return Array.from(xml.matchAll(/<dgm:t>([\s\S]*?)<\/dgm:t>/g))
+    .map((match) => extractParagraphs(match[1]).join(" "))
+    .filter(Boolean)
+    .map((item) => `• ${item}`)
+    .join("\n");
+}
+
+function extractChartText(xml: string): string {
+  const titleXml = /<c:title>([\s\S]*?)<\/c:title>/.exec(xml)?.[1];
+  const title = titleXml ? extractTextRuns(titleXml) : "";
+  const seriesNames = Array.from(xml.matchAll(/<c:ser>[\s\S]*?<c:tx>([\s\S]*?)<\/c:tx>/g))
+    .map((match) => decodeXmlEntities(/<c:v>([\s\S]*?)<\/c:v>/.exec(match[1])?.[1] ?? "").trim())
+    .filter(Boolean);
+  const firstCategories = /<c:cat>([\s\S]*?)<\/c:cat>/.exec(xml)?.[1] ?? "";
+  const categories = Array.from(firstCategories.matchAll(/<c:v>([\s\S]*?)<\/c:v>/g))
+    .map((match) => decodeXmlEntities(match[1]).trim())
+    .filter(Boolean)
+    .slice(0, MAX_CHART_CATEGORIES);
+
+  return [
+    `Chart: ${title || "untitled"}`,
+    seriesNames.length ? `Series: ${seriesNames.join(", ")}` : undefined,
+    categories.length ? `Categories: ${categories.join(", ")}` : undefined,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function slideNumberFromPath(name: string): number | undefined {
+  const match = name.match(/slide(\d+)\.xml$/);
+  return match ? Number.parseInt(match[1], 10) : undefined;
+}
+
+// The slide title lives in the shape whose placeholder type is "title" or "ctrTitle".
+function extractSlideTitle(xml: string): string | undefined {
+  const shapes = xml.match(/<p:sp>[\s\S]*?<\/p:sp>/g) ?? [];
+  const titleShape = shapes.find((shape) => /<p:ph[^>]*type="(?:title|ctrTitle)"/.test(shape));
+  const title = titleShape ? extractTextRuns(titleShape) : "";
+  return title || undefined;
+}
+
+/** Relationships of a part keyed by id, with targets resolved to zip paths. */
+async function readRelationships(zip: JSZip, partName: string): Promise<Map<string, Relationship>> {
+  const relsName = path.posix.join(path.posix.dirname(partName), "_rels", `${path.posix.basename(partName)}.rels`);
+  const xml = await zip.file(relsName)?.async("text");
+  const relationships = new Map<string, Relationship>();
+  if (!xml) {
+    return relationships;
+  }
+
+  for (const match of xml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attributes = Object.fromEntries(Array.from(match[1].matchAll(/(\w+)="([^"]*)"/g), (attribute) => [attribute[1], attribute[2]]));
+    if (!attributes.Id || !attributes.Target || attributes.TargetMode === "External") {
+      continue;
+    }
+    relationships.set(attributes.Id, {
+      type: attributes.Type ?? "",
+      target: attributes.Target.startsWith("/")
+        ? attributes.Target.slice(1)
+        : path.posix.normalize(path.posix.join(path.posix.dirname(partName), attributes.Target)),
+    });
+  }
+  return relationships;
+}
+
+async function readPart(zip: JSZip, relationship: Relationship | undefined): Promise<string | undefined> {
+  return relationship ? zip.file(relationship.target)?.async("text") : undefined;
+}
+
+async function extractSlideBody(zip: JSZip, xml: string, relationships: Map<string, Relationship>): Promise<string> {
+  const blocks: string[] = [];
+  // Shapes and graphic frames (tables, charts, SmartArt) in the order they appear on the slide.
+  for (const match of xml.matchAll(/<p:sp>[\s\S]*?<\/p:sp>|<p:graphicFrame>[\s\S]*?<\/p:graphicFrame>/g)) {
+    const element = match[0];
+    if (element.startsWith("<p:sp>")) {
+      blocks.push(extractParagraphs(element).join("\n"));
+      continue;
+    }
+
+    if (element.includes("<a:tbl>")) {
+      blocks.push(extractTable(element));
+      continue;
+    }
+
+    const chartId = /<c:chart\b[^>]*r:id="([^"]+)"/.exec(element)?.[1];
+    const chartXml = chartId ? await readPart(zip, relationships.get(chartId)) : undefined;
+    if (chartXml) {
+      blocks.push(extractChartText(chartXml));
+      continue;
+    }
+
+    const diagramId = /<dgm:relIds\b[^>]*r:dm="([^"]+)"/.exec(element)?.[1];
+    const diagramXml = diagramId ? await readPart(zip, relationships.get(diagramId)) : undefined;
+    if (diagramXml) {
+      blocks.push(extractDiagramItems(diagramXml));
+    }
+  }
+
+  return blocks.filter(Boolean).join("\n\n");
+}
+
+function extractNotes(xml: string): string {
+  const shapes = xml.match(/<p:sp>[\s\S]*?<\/p:sp>/g) ?? [];
+  return shapes
+    .filter((shape) => !NON_NOTES_PLACEHOLDERS.test(shape))
+    .map((shape) => extractParagraphs(shape).join("\n"))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export async function parsePptx(buffer: Buffer): Promise<ParsedDocument> {
   const zip = await JSZip.loadAsync(buffer);
   const slideFiles = Object.keys(zip.files)
     .filter((name) => name.startsWith("ppt/slides/slide") && name.endsWith(".xml"))
     .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
 
-  const slidesText = await Promise.all(
-    slideFiles.map(async (slideName) => {
+  const slides = await Promise.all(
+    slideFiles.map(async (slideName, index): Promise<ParsedSegment[]> => {
+      const slide = slideNumberFromPath(slideName) ?? index + 1;
       const xml = await zip.file(slideName)?.async("text");
       if (!xml) {
-        return "";
+        return [];
       }
 
-      const textParts = Array.from(xml.matchAll(/<a:t>([\s\S]*?)<\/a:t>/g)).map((match) =>
-        decodeXmlEntities(match[1]).trim()
+      const relationships = await readRelationships(zip, slideName);
+      const heading = extractSlideTitle(xml);
+      const notesRelationship = Array.from(relationships.values()).find((relationship) =>
+        relationship.type.endsWith("/notesSlide"),
       );
+      const notesXml = await readPart(zip, notesRelationship);
 
-      return textParts.filter(Boolean).join(" ");
+      return [
+        { text: await extractSlideBody(zip, xml, relationships), slide, heading },
+        { text: notesXml ? extractNotes(notesXml) : "", slide, heading, part: "notes" },
+      ];
     })
   );
 
-  return slidesText.filter(Boolean).join("\n");
+  return toParsedDocument(slides.flat());
 }
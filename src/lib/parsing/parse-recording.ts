@@ -0,0 +1,98 @@
+import { createHash } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+
+import { RECORDING_MIME_TYPES } from "@/lib/parsing/file-types";
+import { toTimedChunks } from "@/lib/parsing/timed-transcript";
+import { transcribeRecording } from "@/lib/parsing/transcription";
+import { ParsedDocument } from "@/lib/parsing/types";
+import { fetchPublicUrl } from "@/lib/server/network-policy";
+
+/**
+ * Local lecture recordings (audio or video files). The recording is
+ * downloaded to a temporary file, hashed on the way, and transcribed from
+ * there by the configured speech-to-text provider, so a long lecture is never
+ * held in memory. Chunks follow the transcript like a YouTube video's, so
+ * every chunk keeps the time range it covers.
+ */
+
+export type DownloadedRecording = {
+  filePath: string;
+  size: number;
+  /** SHA-256 of the recording's bytes. */
+  contentHash: string;
+  /** Removes the temporary file. */
+  dispose: () => Promise<void>;
+};
+
+const MAX_RECORDING_BYTES = 500 * 1024 * 1024;
+
+export async function downloadRecording(url: string, extension: string): Promise<DownloadedRecording> {
+  const response = await fetchPublicUrl(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`failed to fetch file (HTTP ${response.status})`);
+  }
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_RECORDING_BYTES) {
+    throw new Error("recording is larger than 500 MB; split it or upload the audio only.");
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), "kalexam-recording-"));
+  const dispose = () => rm(workDir, { recursive: true, force: true });
+  const filePath = path.join(workDir, `recording.${extension}`);
+  const hash = createHash("sha256");
+  let size = 0;
+
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>),
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          size += chunk.length;
+          if (size > MAX_RECORDING_BYTES) {
+            throw new Error("recording is larger than 500 MB; split it or upload the audio only.");
+          }
+          hash.update(chunk);
+          yield chunk;
+        }
+      },
+      createWriteStream(filePath),
+    );
+  } catch (error) {
+    await dispose();
+    throw error;
+  }
+
+  return { filePath, size, contentHash: hash.digest("hex"), dispose };
+}
+
+export async function parseRecording(recording: DownloadedRecording, fileName: string, extension: string): Promise<ParsedDocument> {
+  const transcript = await transcribeRecording({
+    filePath: recording.filePath,
+    size: recording.size,
+    contentHash: recording.contentHash,
+    fileName,
+    mimeType: RECORDING_MIME_TYPES[extension] ?? "application/octet-stream",
+  });
+  const chunks = toTimedChunks(transcript.segments, []);
+  if (!chunks.length) {
+    return { text: "", segments: [], warning: "no speech could be transcribed from this recording." };
+  }
+
+  return {
+    text: chunks.map((chunk) => chunk.text).join("\n\n"),
+    segments: chunks.map((chunk) => ({
+      text: chunk.text,
+      startSeconds: chunk.startSeconds,
+      endSeconds: chunk.endSeconds,
+      outlined: true,
+    })),
+    warning: transcript.translatedToEnglish
+      ? `transcribed from ${transcript.language ?? "another language"} and translated to English.`
+      : undefined,
+  };
+}
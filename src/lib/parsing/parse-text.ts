@@ -0,0 +1,127 @@
+import { OutlineBlock, outlineToSegments, outlineToText } from "@/lib/parsing/html-outline";
+import { toParsedDocument } from "@/lib/parsing/segments";
+import { ParsedDocument } from "@/lib/parsing/types";
+
+/**
+ * Plain-text and Markdown notes (Notion / Obsidian exports). Markdown headings
+ * drive segments the same way DOCX headings do; inline syntax (links,
+ * emphasis, wikilinks, callouts, tables) is reduced to its readable text.
+ */
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/** UTF-8 unless the file has a UTF-16 byte order mark; falls back to latin1 when UTF-8 decoding fails. */
+export function decodeTextBuffer(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.toString("utf16le", 2);
+  }
+  const utf8 = buffer.toString("utf8").replace(/^﻿/, "");
+  return utf8.includes("�") ? buffer.toString("latin1") : utf8;
+}
+
+function cleanMarkdownInline(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, "$2")
+    .replace(/\[\[([^\]]+)\]\]/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[\s(])[*_]([^*_\n]+)[*_](?=[\s).,;:!?]|$)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .trim();
+}
+
+function cleanMarkdownLine(line: string): string | undefined {
+  // Horizontal rules and table separator rows carry no text.
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) {
+    return undefined;
+  }
+
+  const text = line
+    .replace(/^\s*>\s*\[!(\w+)\]\s*/, (_, kind: string) => `${kind.charAt(0).toUpperCase()}${kind.slice(1).toLowerCase()}: `)
+    .replace(/^\s*(>\s*)+/, "")
+    .replace(/^(\s*)[-*+]\s+\[[ xX]\]\s+/, "$1• ")
+    .replace(/^(\s*)[-*+]\s+/, "$1• ")
+    .replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) => cells.split("|").map((cell) => cell.trim()).join(" | "));
+
+  const indent = /^\s*/.exec(text)?.[0] ?? "";
+  const cleaned = cleanMarkdownInline(text);
+  return cleaned ? `${indent.replace(/\t/g, "  ")}${cleaned}` : undefined;
+}
+
+function toMarkdownOutline(markdown: string): OutlineBlock[] {
+  const blocks: OutlineBlock[] = [];
+  const lines = markdown
+    .replace(/\r\n?/g, "\n")
+    .replace(/^---\n[\s\S]*?\n---\n/, "")
+    .split("\n");
+
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    if (paragraph.length) {
+      blocks.push({ kind: "content", text: paragraph.join("\n") });
+    }
+    paragraph = [];
+  };
+
+  for (const line of lines) {
+    if (FENCE.test(line)) {
+      // A code block is a paragraph of its own.
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      if (line.trim()) paragraph.push(line.trimEnd());
+      continue;
+    }
+
+    const heading = MARKDOWN_HEADING.exec(line);
+    if (heading) {
+      flush();
+      const text = cleanMarkdownInline(heading[2]);
+      if (text) {
+        blocks.push({ kind: "heading", level: heading[1].length, text });
+      }
+      continue;
+    }
+
+    // Setext headings: a single line underlined with === or ---.
+    const underline = /^\s*(=+|-+)\s*$/.exec(line);
+    if (underline && paragraph.length === 1) {
+      blocks.push({ kind: "heading", level: underline[1].startsWith("=") ? 1 : 2, text: paragraph[0].trim() });
+      paragraph = [];
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const cleaned = cleanMarkdownLine(line);
+    if (cleaned) {
+      paragraph.push(cleaned);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+export async function parseMarkdown(buffer: Buffer): Promise<ParsedDocument> {
+  const blocks = toMarkdownOutline(decodeTextBuffer(buffer));
+  return {
+    text: outlineToText(blocks),
+    segments: outlineToSegments(blocks),
+  };
+}
+
+export async function parsePlainText(buffer: Buffer): Promise<ParsedDocument> {
+  return toParsedDocument([{ text: decodeTextBuffer(buffer).replace(/\r\n?/g, "\n").trim() }]);
+}
@@ -0,0 +1,260 @@
+import { ExamQuestionCluster, ExtractedExamQuestion } from "@/lib/ai/types";
+import { parseQuestionPaper } from "@/lib/parsing/question-paper";
+import { ParsedSourceChunk } from "@/lib/parsing/types";
+
+/**
+ * Groups near-duplicate questions across previous papers so a question that
+ * was asked in 2019, 2021 and 2023 is reported once with its full history.
+ *
+ * Similarity blends token-set overlap on normalized text (command words such
+ * as "explain" or "define" removed, light plural stemming) with character
+ * 5-gram shingles, which tolerate reworded or OCR-damaged phrasing. A question
+ * joins the cluster with the best average similarity to its members.
+ */
+
+const SIMILARITY_THRESHOLD = 0.5;
+const TOKEN_WEIGHT = 0.5;
+const SHINGLE_SIZE = 5;
+
+const FILLER_WORDS = new Set([
+  "the",
+  "and",
+  "with",
+  "for",
+  "its",
+  "their",
+  "this",
+  "that",
+  "what",
+  "are",
+  "how",
+  "why",
+  "any",
+  "suitable",
+  "example",
+  "examples",
+  "explain",
+  "describe",
+  "discuss",
+  "define",
+  "write",
+  "short",
+  "note",
+  "notes",
+  "brief",
+  "briefly",
+  "detail",
+  "details",
+  "give",
+  "state",
+  "list",
+  "mention",
+  "illustrate",
+  "neat",
+  "diagram",
+  "help",
+  "between",
+  "following",
+]);
+
+type QuestionFeatures = {
+  question: ExtractedExamQuestion;
+  tokens: Set<string>;
+  shingles: Set<string>;
+};
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function normalizeQuestionTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !FILLER_WORDS.has(word))
+    .map(stem);
+}
+
+function toShingles(tokens: string[]): Set<string> {
+  const joined = tokens.join(" ");
+  const shingles = new Set<string>();
+  if (joined.length <= SHINGLE_SIZE) {
+    if (joined) shingles.add(joined);
+    return shingles;
+  }
+  for (let index = 0; index <= joined.length - SHINGLE_SIZE; index += 1) {
+    shingles.add(joined.slice(index, index + SHINGLE_SIZE));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) {
+    return 0;
+  }
+  let intersection = 0;
+  for (const value of a) {
+    if (b.has(value)) intersection += 1;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function toFeatures(question: ExtractedExamQuestion): QuestionFeatures {
+  const tokens = normalizeQuestionTokens(question.text);
+  return { question, tokens: new Set(tokens), shingles: toShingles(tokens) };
+}
+
+function questionSimilarity(a: QuestionFeatures, b: QuestionFeatures): number {
+  return TOKEN_WEIGHT * jaccard(a.tokens, b.tokens) + (1 - TOKEN_WEIGHT) * jaccard(a.shingles, b.shingles);
+}
+
+function toCluster(members: QuestionFeatures[]): ExamQuestionCluster {
+  // Canonical wording: the member most similar to the rest, preferring the latest year on ties.
+  const canonical = members
+    .map((member) => ({
+      member,
+      centrality: members.reduce((sum, other) => (other === member ? sum : sum + questionSimilarity(member, other)), 0),
+    }))
+    .sort(
+      (a, b) =>
+        b.centrality - a.centrality || (b.member.question.year ?? "").localeCompare(a.member.question.year ?? ""),
+    )[0].member.question;
+
+  const questions = members.map((member) => member.question);
+  const marks = questions.map((question) => question.marks).filter((value): value is number => typeof value === "number");
+  const years = Array.from(new Set(questions.map((question) => question.year).filter((year): year is string => Boolean(year)))).sort();
+
+  return {
+    canonicalText: canonical.text,
+    years,
+    averageMarks: marks.length ? Math.round((marks.reduce((sum, value) => sum + value, 0) / marks.length) * 10) / 10 : undefined,
+    paperCount: new Set(questions.map((question) => question.sourceName)).size,
+    questions,
+  };
+}
+
+export function clusterExamQuestions(questions: ExtractedExamQuestion[]): ExamQuestionCluster[] {
+  // The same question can be parsed twice from overlapping chunks of one paper.
+  const seen = new Set<string>();
+  const unique = questions.filter((question) => {
+    const key = `${question.sourceName}::${normalizeQuestionTokens(question.text).join(" ")}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const clusters: QuestionFeatures[][] = [];
+  for (const features of unique.map(toFeatures)) {
+    if (!features.tokens.size) {
+      continue;
+    }
+
+    let best: { cluster: QuestionFeatures[]; similarity: number } | undefined;
+    for (const cluster of clusters) {
+      const similarity = cluster.reduce((sum, member) => sum + questionSimilarity(features, member), 0) / cluster.length;
+      if (similarity >= SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { cluster, similarity };
+      }
+    }
+
+    if (best) {
+      best.cluster.push(features);
+    } else {
+      clusters.push([features]);
+    }
+  }
+
+  return clusters
+    .map(toCluster)
+    .sort((a, b) => b.paperCount - a.paperCount || b.years.length - a.years.length);
+}
+
+/** Questions in the previous-paper chunks, parsing each paper's chunks together as one document. */
+export function extractPaperQuestions(chunks: ParsedSourceChunk[]): ExtractedExamQuestion[] {
+  const papers = new Map<string, ParsedSourceChunk[]>();
+  for (const chunk of chunks) {
+    if (chunk.sourceType !== "Previous Paper") {
+      continue;
+    }
+    const paperChunks = papers.get(chunk.sourceName) ?? [];
+    paperChunks.push(chunk);
+    papers.set(chunk.sourceName, paperChunks);
+  }
+
+  return [...papers.entries()].flatMap(([sourceName, paperChunks]) =>
+    parseQuestionPaper(paperChunks.map((chunk) => chunk.text).join("\n"), {
+      sourceName,
+      year: paperChunks.find((chunk) => chunk.sourceYear)?.sourceYear,
+    }),
+  );
+}
+
+/**
+ * Narrows precomputed clusters to the papers in `sourceNames` (e.g. the
+ * enabled sources), recomputing history for clusters that lost questions.
+ */
+export function restrictClustersToSources(
+  clusters: ExamQuestionCluster[],
+  sourceNames: Set<string>,
+): ExamQuestionCluster[] {
+  return clusters
+    .map((cluster) => {
+      const questions = cluster.questions.filter((question) => sourceNames.has(question.sourceName));
+      if (questions.length === cluster.questions.length) {
+        return cluster;
+      }
+      return questions.length ? toCluster(questions.map(toFeatures)) : undefined;
+    })
+    .filter((cluster): cluster is ExamQuestionCluster => Boolean(cluster))
+    .sort((a, b) => b.paperCount - a.paperCount || b.years.length - a.years.length);
+}
+
+/** Clusters whose questions cover at least half of the topic's (or the cluster's) key terms. */
+export function findClustersForTopic(clusters: ExamQuestionCluster[], topic: string): ExamQuestionCluster[] {
+  const topicTokens = new Set(normalizeQuestionTokens(topic));
+  if (!topicTokens.size) {
+    return [];
+  }
+
+  return clusters.filter((cluster) => {
+    const clusterTokens = new Set(cluster.questions.flatMap((question) => normalizeQuestionTokens(question.text)));
+    let overlap = 0;
+    for (const token of topicTokens) {
+      if (clusterTokens.has(token)) overlap += 1;
+    }
+    return overlap > 0 && overlap >= Math.ceil(Math.min(topicTokens.size, clusterTokens.size) * 0.5);
+  });
+}
+
+/**
+ * `examHistory` signal (0-100) for `computeExamLikelihood`: any appearance
+ * counts, repeats across papers count most, and several distinct matching
+ * questions add a small bonus.
+ */
+export function scoreExamHistory(matched: ExamQuestionCluster[], totalPapers: number): number {
+  if (!matched.length) {
+    return 0;
+  }
+
+  const bestPaperCount = Math.max(...matched.map((cluster) => cluster.paperCount));
+  const repeatRatio = totalPapers > 1 ? (bestPaperCount - 1) / (totalPapers - 1) : 0;
+  const breadthBonus = matched.length > 1 ? 10 : 0;
+  return Math.min(100, Math.round(40 + 50 * repeatRatio + breadthBonus));
+}
+
+export function countQuestionPapers(clusters: ExamQuestionCluster[]): number {
+  return new Set(clusters.flatMap((cluster) => cluster.questions.map((question) => question.sourceName))).size;
+}
+
+export function formatAskedIn(cluster: ExamQuestionCluster): string | undefined {
+  return cluster.years.length ? `Asked in ${cluster.years.join(", ")}` : undefined;
+}
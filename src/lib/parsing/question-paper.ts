@@ -0,0 +1,168 @@
+import { ExtractedExamQuestion } from "@/lib/ai/types";
+
+/**
+ * Splits the text of a previous question paper into individual questions.
+ *
+ * Recognises question numbers ("Q1.", "Q.2", "3)", "Question 4:"), sub-parts
+ * ("(a)", "b)", "(ii)"), section headers ("Section A", "Part II"), marks
+ * ("[5]", "(10 marks)", "5M", or a bare number after the final full stop) and
+ * "OR" lines between alternatives. Lines that do not start a new unit are
+ * treated as continuations of the current one.
+ */
+
+type QuestionPaperMeta = {
+  sourceName: string;
+  year?: string;
+};
+
+type DraftQuestion = {
+  questionNumber: number;
+  subPart?: string;
+  section?: string;
+  marks?: number;
+  lines: string[];
+  alternativeTo?: string;
+};
+
+const MAX_QUESTION_NUMBER = 60;
+const MIN_QUESTION_CHARS = 12;
+// A stem such as "Answer any two of the following:" is dropped when it has sub-parts.
+const MAX_INSTRUCTION_STEM_CHARS = 60;
+
+const SECTION_PATTERN = /^(?:section|part)\s*[-–:]?\s*([A-F]|I{1,3}|IV|V|VI|[1-6])\b\s*[-–:.]?\s*(.*)$/i;
+const QUESTION_PATTERN = /^(?:(?:Q(?:uestion)?|Que)\s*\.?\s*(?:no\.?\s*)?(\d{1,2})\s*[.):\-–]?|(\d{1,2})\s*[.):])\s*(.*)$/i;
+const SUB_PART_PATTERN = /^\(?([a-h]|i{1,3}|iv|vi{0,3}|ix|x)[).]\s+(.*)$/i;
+const LEADING_SUB_PART_PATTERN = /^\(([a-h]|i{1,3}|iv|vi{0,3}|ix|x)\)\s*(.*)$/i;
+const OR_PATTERN = /^[([]?\s*or\s*[)\]]?$/i;
+const MARKS_PATTERN = /\s*(?:[[(]\s*(\d{1,2})\s*(?:marks?|m)?\s*[\])]|(\d{1,2})\s*(?:marks?|m)|(?<=[.?])\s+(\d{1,2}))\s*$/i;
+const YEAR_PATTERN = /\b(19|20)\d{2}\b/;
+
+function labelOf(question: Pick<DraftQuestion, "questionNumber" | "subPart">): string {
+  return `Q${question.questionNumber}${question.subPart ? `(${question.subPart})` : ""}`;
+}
+
+function splitMarks(line: string): { text: string; marks?: number } {
+  const match = MARKS_PATTERN.exec(line);
+  if (!match) {
+    return { text: line };
+  }
+  const marks = Number.parseInt(match[1] ?? match[2] ?? match[3] ?? "", 10);
+  return {
+    text: line.slice(0, match.index).trim(),
+    marks: Number.isFinite(marks) && marks > 0 ? marks : undefined,
+  };
+}
+
+// Indexed chunks join wrapped lines with spaces; put question, sub-part,
+// section and "OR" markers back on their own lines before parsing.
+function restoreLineBreaks(text: string): string {
+  return text
+    .replace(/[ \t]+(?=(?:Q(?:uestion)?\.?\s*(?:no\.?\s*)?\d{1,2}\s*[.):\-–]))/gi, "\n")
+    .replace(/[ \t]+(?=\([a-h]\)\s)/g, "\n")
+    .replace(/[ \t]+(?=(?:SECTION|Section|PART|Part)\s*[-–:]?\s*[A-F]\b)/g, "\n")
+    .replace(/[ \t]+OR[ \t]+/g, "\nOR\n");
+}
+
+function detectPaperYear(text: string): string | undefined {
+  return YEAR_PATTERN.exec(text.slice(0, 600))?.[0];
+}
+
+export function parseQuestionPaper(text: string, meta: QuestionPaperMeta): ExtractedExamQuestion[] {
+  const year = meta.year ?? detectPaperYear(text);
+  const lines = restoreLineBreaks(text.replace(/\r\n?/g, "\n"))
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const drafts: DraftQuestion[] = [];
+  let section: string | undefined;
+  let currentNumber: number | undefined;
+  let current: DraftQuestion | undefined;
+  let pendingAlternative: string | undefined;
+
+  const start = (draft: Omit<DraftQuestion, "lines" | "section" | "alternativeTo">, firstLine: string): DraftQuestion => {
+    const { text: body, marks } = splitMarks(firstLine);
+    const next: DraftQuestion = {
+      ...draft,
+      section,
+      marks: marks ?? draft.marks,
+      lines: body ? [body] : [],
+      alternativeTo: pendingAlternative,
+    };
+    pendingAlternative = undefined;
+    drafts.push(next);
+    return next;
+  };
+
+  for (const line of lines) {
+    if (OR_PATTERN.test(line)) {
+      if (current) {
+        pendingAlternative = labelOf(current);
+      }
+      continue;
+    }
+
+    const sectionMatch = SECTION_PATTERN.exec(line);
+    if (sectionMatch && line.length <= 80) {
+      section = sectionMatch[1].toUpperCase();
+      current = undefined;
+      continue;
+    }
+
+    const questionMatch = QUESTION_PATTERN.exec(line);
+    const questionNumber = questionMatch ? Number.parseInt(questionMatch[1] ?? questionMatch[2] ?? "", 10) : NaN;
+    if (questionMatch && questionNumber > 0 && questionNumber <= MAX_QUESTION_NUMBER) {
+      currentNumber = questionNumber;
+      const rest = questionMatch[3] ?? "";
+      const inlineSubPart = LEADING_SUB_PART_PATTERN.exec(rest);
+      if (inlineSubPart) {
+        current = start({ questionNumber, subPart: inlineSubPart[1].toLowerCase() }, inlineSubPart[2]);
+      } else {
+        current = start({ questionNumber }, rest);
+      }
+      continue;
+    }
+
+    const subPartMatch = currentNumber !== undefined ? SUB_PART_PATTERN.exec(line) : null;
+    if (subPartMatch && currentNumber !== undefined) {
+      current = start({ questionNumber: currentNumber, subPart: subPartMatch[1].toLowerCase() }, subPartMatch[2]);
+      continue;
+    }
+
+    if (!current) {
+      // Paper header or instructions before the first question.
+      continue;
+    }
+
+    const { text: body, marks } = splitMarks(line);
+    if (body) {
+      current.lines.push(body);
+    }
+    if (marks !== undefined && current.marks === undefined) {
+      current.marks = marks;
+    }
+  }
+
+  const withSubParts = new Set(drafts.filter((draft) => draft.subPart).map((draft) => `${draft.section ?? ""}:${draft.questionNumber}`));
+
+  return drafts
+    .map((draft) => ({ draft, text: draft.lines.join(" ").trim() }))
+    .filter(({ draft, text }) => {
+      if (text.length < MIN_QUESTION_CHARS) {
+        return false;
+      }
+      const isStem = !draft.subPart && withSubParts.has(`${draft.section ?? ""}:${draft.questionNumber}`);
+      return !(isStem && text.length <= MAX_INSTRUCTION_STEM_CHARS);
+    })
+    .map(({ draft, text }) => ({
+      label: labelOf(draft),
+      questionNumber: draft.questionNumber,
+      subPart: draft.subPart,
+      section: draft.section,
+      marks: draft.marks,
+      text,
+      year,
+      sourceName: meta.sourceName,
+      alternativeTo: draft.alternativeTo,
+    }));
+}
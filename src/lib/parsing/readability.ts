@@ -0,0 +1,276 @@
+import { type AnyNode, type Document, type Element, isTag } from "domhandler";
+import { DomUtils, parseDocument } from "htmlparser2";
+
+import { OutlineBlock, toHtmlOutline } from "@/lib/parsing/html-outline";
+
+/**
+ * Main-content extraction for web pages, after Mozilla Readability:
+ *  1. Parse the page (htmlparser2 decodes every named and numeric entity).
+ *  2. Drop elements that are never article text (scripts, nav, footers,
+ *     cookie banners, share bars, hidden nodes), by tag, ARIA role, or
+ *     class/id names.
+ *  3. Score each paragraph-like block by length and comma count, credit its
+ *     parent and grandparent, and penalise link-heavy containers.
+ *  4. Keep the best container plus any sibling that scores close to it, and
+ *     turn that subtree into an outline so headings and lists survive.
+ */
+
+export type ExtractedArticle = {
+  title?: string;
+  canonicalUrl?: string;
+  siteName?: string;
+  blocks: OutlineBlock[];
+  /** Every http(s) link on the page, menus included, resolved and without fragments. */
+  links: string[];
+};
+
+const REMOVED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "form",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "nav",
+  "footer",
+  "aside",
+  "dialog",
+  "link",
+  "meta",
+]);
+const REMOVED_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "dialog", "alertdialog", "menu", "menubar", "search"]);
+
+const UNLIKELY_CANDIDATES =
+  /-ad-|ad-break|agegate|banner|breadcrumb|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|gdpr|legends|masthead|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|toolbar|widget/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|post|entry|shadow|text|lesson|chapter/i;
+const POSITIVE_NAMES = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story|lesson|chapter|tutorial/i;
+const NEGATIVE_NAMES =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|cookie/i;
+
+const SCORED_TAGS = new Set(["p", "pre", "td", "blockquote", "li", "dd", "section", "h2", "h3"]);
+const MIN_SCORED_CHARS = 25;
+const SIBLING_SCORE_RATIO = 0.2;
+
+function attribute(element: Element, name: string): string {
+  return element.attribs[name] ?? "";
+}
+
+function nameOf(element: Element): string {
+  return `${attribute(element, "class")} ${attribute(element, "id")}`;
+}
+
+function isHidden(element: Element): boolean {
+  const style = attribute(element, "style").replace(/\s+/g, "").toLowerCase();
+  return (
+    "hidden" in element.attribs ||
+    attribute(element, "aria-hidden") === "true" ||
+    style.includes("display:none") ||
+    style.includes("visibility:hidden")
+  );
+}
+
+function shouldRemove(element: Element): boolean {
+  if (REMOVED_TAGS.has(element.name) || REMOVED_ROLES.has(attribute(element, "role")) || isHidden(element)) {
+    return true;
+  }
+  if (element.name === "body" || element.name === "html" || element.name === "article" || element.name === "main") {
+    return false;
+  }
+  const names = nameOf(element);
+  return UNLIKELY_CANDIDATES.test(names) && !MAYBE_CANDIDATE.test(names);
+}
+
+function pruneUnlikelyElements(node: Document | Element) {
+  for (const child of [...node.children]) {
+    if (!isTag(child)) {
+      continue;
+    }
+    if (shouldRemove(child)) {
+      DomUtils.removeElement(child);
+    } else {
+      pruneUnlikelyElements(child);
+    }
+  }
+}
+
+function textOf(node: AnyNode): string {
+  return DomUtils.textContent(node).replace(/\s+/g, " ").trim();
+}
+
+function linkDensity(element: Element): number {
+  const length = textOf(element).length;
+  if (!length) {
+    return 0;
+  }
+  const linkLength = DomUtils.getElementsByTagName("a", element)
+    .map((link) => textOf(link).length)
+    .reduce((sum, value) => sum + value, 0);
+  return linkLength / length;
+}
+
+function classWeight(element: Element): number {
+  const names = nameOf(element);
+  return (POSITIVE_NAMES.test(names) ? 25 : 0) - (NEGATIVE_NAMES.test(names) ? 25 : 0);
+}
+
+function initialScore(element: Element): number {
+  const tagScore: Record<string, number> = {
+    div: 5,
+    article: 10,
+    main: 10,
+    section: 3,
+    pre: 3,
+    td: 3,
+    blockquote: 3,
+    ol: -3,
+    ul: -3,
+    dl: -3,
+    dd: -3,
+    dt: -3,
+    li: -3,
+    th: -5,
+    h1: -5,
+    h2: -5,
+    h3: -5,
+    h4: -5,
+    h5: -5,
+    h6: -5,
+  };
+  return (tagScore[element.name] ?? 0) + classWeight(element);
+}
+
+function findArticleRoot(document: Document): { root: Element; scores: Map<Element, number> } | undefined {
+  const scores = new Map<Element, number>();
+  const credit = (element: Element | null, amount: number) => {
+    if (!element || element.name === "html") {
+      return;
+    }
+    scores.set(element, (scores.get(element) ?? initialScore(element)) + amount);
+  };
+
+  for (const element of DomUtils.findAll((item) => SCORED_TAGS.has(item.name), document.children)) {
+    const text = textOf(element);
+    if (text.length < MIN_SCORED_CHARS) {
+      continue;
+    }
+    const contentScore = 1 + text.split(/[,，]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+    const parent = element.parent && isTag(element.parent) ? element.parent : null;
+    const grandparent = parent?.parent && isTag(parent.parent) ? parent.parent : null;
+    credit(parent, contentScore);
+    credit(grandparent, contentScore / 2);
+  }
+
+  let best: { element: Element; score: number } | undefined;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    scores.set(element, adjusted);
+    if (!best || adjusted > best.score) {
+      best = { element, score: adjusted };
+    }
+  }
+  return best ? { root: best.element, scores } : undefined;
+}
+
+/** The top candidate plus siblings that look like more of the same article. */
+function collectArticleNodes(root: Element, scores: Map<Element, number>): Element[] {
+  const parent = root.parent;
+  if (!parent || !isTag(parent)) {
+    return [root];
+  }
+
+  const threshold = Math.max(10, (scores.get(root) ?? 0) * SIBLING_SCORE_RATIO);
+  return parent.children.filter((sibling): sibling is Element => {
+    if (!isTag(sibling)) {
+      return false;
+    }
+    if (sibling === root) {
+      return true;
+    }
+    if ((scores.get(sibling) ?? 0) >= threshold) {
+      return true;
+    }
+    // A plain paragraph next to the article body, such as a standfirst.
+    const text = textOf(sibling);
+    return sibling.name === "p" && text.length > 80 && linkDensity(sibling) < 0.25;
+  });
+}
+
+function readMeta(document: Document, keys: string[]): string | undefined {
+  for (const meta of DomUtils.getElementsByTagName("meta", document)) {
+    const key = (attribute(meta, "property") || attribute(meta, "name")).toLowerCase();
+    const content = attribute(meta, "content").trim();
+    if (keys.includes(key) && content) {
+      return content;
+    }
+  }
+  return undefined;
+}
+
+function readCanonicalUrl(document: Document, pageUrl: string): string | undefined {
+  const link = DomUtils.getElementsByTagName("link", document).find((item) =>
+    attribute(item, "rel").toLowerCase().split(/\s+/).includes("canonical"),
+  );
+  const href = link ? attribute(link, "href").trim() : "";
+  if (!href) {
+    return undefined;
+  }
+  try {
+    const canonical = new URL(href, pageUrl);
+    return canonical.protocol === "http:" || canonical.protocol === "https:" ? canonical.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readLinks(document: Document, pageUrl: string): string[] {
+  const links = new Set<string>();
+  for (const anchor of DomUtils.getElementsByTagName("a", document)) {
+    const href = attribute(anchor, "href").trim();
+    if (!href || href.startsWith("#") || attribute(anchor, "rel").toLowerCase().includes("nofollow")) {
+      continue;
+    }
+    try {
+      const link = new URL(href, pageUrl);
+      if (link.protocol === "http:" || link.protocol === "https:") {
+        link.hash = "";
+        links.add(link.toString());
+      }
+    } catch {
+      // Malformed hrefs are not worth following.
+    }
+  }
+  return [...links];
+}
+
+export function extractArticle(html: string, pageUrl: string): ExtractedArticle {
+  const document = parseDocument(html, { decodeEntities: true });
+
+  // Metadata and links first: pruning removes <head>'s link and meta elements and the menus.
+  const titleElement = DomUtils.getElementsByTagName("title", document)[0];
+  const title = readMeta(document, ["og:title", "twitter:title"]) ?? (titleElement ? textOf(titleElement) : undefined);
+  const canonicalUrl = readCanonicalUrl(document, pageUrl);
+  const siteName = readMeta(document, ["og:site_name", "application-name"]);
+  const links = readLinks(document, pageUrl);
+
+  pruneUnlikelyElements(document);
+  const body = DomUtils.getElementsByTagName("body", document)[0];
+  const candidate = findArticleRoot(document);
+  const nodes = candidate ? collectArticleNodes(candidate.root, candidate.scores) : body ? [body] : [];
+
+  // Serialisation re-encodes entities; the outline walker decodes them again.
+  const blocks = toHtmlOutline(nodes.map((node) => DomUtils.getOuterHTML(node)).join("\n"));
+
+  return {
+    title: title || undefined,
+    canonicalUrl,
+    siteName,
+    blocks,
+    links,
+  };
+}
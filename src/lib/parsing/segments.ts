@@ -0,0 +1,54 @@
+import { formatTimestamp } from "@/lib/ai/types";
+import { ParsedDocument, ParsedSegment } from "@/lib/parsing/types";
+
+const MAX_HEADING_CHARS = 90;
+const MAX_HEADING_WORDS = 12;
+
+/**
+ * Picks the first line of a page that reads like a title: short, contains
+ * letters, and does not end like a sentence.
+ */
+export function inferSegmentHeading(text: string): string | undefined {
+  const lines = text
+    .split(/\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .slice(0, 3);
+
+  return lines.find((line) => {
+    if (line.length < 3 || line.length > MAX_HEADING_CHARS) {
+      return false;
+    }
+    if (!/[A-Za-z]{3,}/.test(line) || /[.,;]$/.test(line)) {
+      return false;
+    }
+    if (/^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i.test(line)) {
+      return false;
+    }
+    return line.split(" ").length <= MAX_HEADING_WORDS;
+  });
+}
+
+export function toParsedDocument(segments: ParsedSegment[]): ParsedDocument {
+  const nonEmpty = segments.filter((segment) => segment.text.trim());
+  return {
+    text: nonEmpty.map((segment) => segment.text).join("\n\n"),
+    segments: nonEmpty,
+  };
+}
+
+export function formatSegmentLocation(
+  segment: Pick<ParsedSegment, "page" | "slide" | "part" | "startSeconds" | "endSeconds">,
+): string | undefined {
+  if (typeof segment.page === "number") {
+    return `p. ${segment.page}`;
+  }
+  if (typeof segment.slide === "number") {
+    return segment.part === "notes" ? `Slide ${segment.slide} speaker notes` : `Slide ${segment.slide}`;
+  }
+  if (typeof segment.startSeconds === "number") {
+    const end = typeof segment.endSeconds === "number" ? `–${formatTimestamp(segment.endSeconds)}` : "";
+    return `Recording ${formatTimestamp(segment.startSeconds)}${end}`;
+  }
+  return undefined;
+}
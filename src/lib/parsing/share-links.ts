@@ -0,0 +1,106 @@
+/**
+ * Share links from cloud drives open a viewer page rather than the file.
+ * These rewrites turn the common patterns into direct-download URLs so the
+ * document itself is fetched and parsed.
+ */
+
+export type DirectDownloadLink = {
+  url: string;
+  /** True when `url` was rewritten from a share link, so an HTML reply means the file is not public. */
+  rewritten: boolean;
+};
+
+function googleFileId(url: URL): string | undefined {
+  return /\/d\/([\w-]{10,})/.exec(url.pathname)?.[1] ?? url.searchParams.get("id") ?? undefined;
+}
+
+function rewriteShareLink(url: URL): string | undefined {
+  const host = url.hostname.replace(/^www\./, "").toLowerCase();
+
+  if (host === "drive.google.com") {
+    const id = googleFileId(url);
+    // Folders have no single file to download.
+    return id && !url.pathname.includes("/folders/") ? `https://drive.google.com/uc?export=download&id=${id}` : undefined;
+  }
+
+  if (host === "docs.google.com") {
+    const id = googleFileId(url);
+    if (!id) {
+      return undefined;
+    }
+    if (url.pathname.startsWith("/document/")) {
+      return `https://docs.google.com/document/d/${id}/export?format=docx`;
+    }
+    if (url.pathname.startsWith("/presentation/")) {
+      return `https://docs.google.com/presentation/d/${id}/export/pptx`;
+    }
+    return undefined;
+  }
+
+  if (host === "dropbox.com" || host.endsWith(".dropbox.com")) {
+    const rewritten = new URL(url);
+    rewritten.searchParams.set("dl", "1");
+    return rewritten.toString();
+  }
+
+  if (host === "onedrive.live.com" || host === "1drv.ms" || host.endsWith(".sharepoint.com")) {
+    if (url.searchParams.get("download") === "1") {
+      return undefined;
+    }
+    const rewritten = new URL(url);
+    rewritten.searchParams.set("download", "1");
+    return rewritten.toString();
+  }
+
+  if (host === "github.com") {
+    const blob = /^\/([^/]+)\/([^/]+)\/blob\/(.+)$/.exec(url.pathname);
+    return blob ? `https://raw.githubusercontent.com/${blob[1]}/${blob[2]}/${blob[3]}` : undefined;
+  }
+
+  return undefined;
+}
+
+export function toDirectDownloadUrl(rawUrl: string): DirectDownloadLink {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { url: rawUrl, rewritten: false };
+  }
+  const rewritten = rewriteShareLink(url);
+  return rewritten && rewritten !== url.toString() ? { url: rewritten, rewritten: true } : { url: rawUrl, rewritten: false };
+}
+
+function isGoogleDownloadHost(host: string): boolean {
+  return host === "drive.google.com" || host === "drive.usercontent.google.com" || host.endsWith(".googleusercontent.com");
+}
+
+/**
+ * Large Google Drive files answer with a "can't scan for viruses" page whose
+ * form carries the confirm token; returns the download URL that form submits to.
+ * A form pointing anywhere but Google's download hosts is ignored, so the page
+ * cannot send the server somewhere else.
+ */
+export function readDriveConfirmUrl(html: string): string | undefined {
+  const form = /<form[^>]+id="download-form"[^>]*action="([^"]+)"[^>]*>([\s\S]*?)<\/form>/i.exec(html);
+  if (!form) {
+    return undefined;
+  }
+  let action: URL;
+  try {
+    action = new URL(form[1].replace(/&amp;/g, "&"));
+  } catch {
+    return undefined;
+  }
+  if (action.protocol !== "https:" || !isGoogleDownloadHost(action.hostname.toLowerCase())) {
+    return undefined;
+  }
+  for (const input of form[2].matchAll(/<input[^>]+type="hidden"[^>]*>/gi)) {
+    const name = /name="([^"]+)"/.exec(input[0])?.[1];
+    const value = /value="([^"]*)"/.exec(input[0])?.[1];
+    if (name && value !== undefined) {
+      action.searchParams.set(name, value);
+    }
+  }
+  return action.toString();
+}
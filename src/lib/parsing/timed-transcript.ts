@@ -0,0 +1,94 @@
+import { formatTimestamp } from "@/lib/ai/types";
+import { CHUNKING_PROFILES } from "@/lib/parsing/chunker";
+
+/**
+ * Chunking for transcripts that carry timings: YouTube captions and
+ * transcribed lecture recordings. Chunks keep the time range they cover so
+ * citations can point at the moment in the recording.
+ */
+
+export type CaptionSegment = {
+  text: string;
+  /** Seconds from the start of the recording. */
+  offset: number;
+  duration: number;
+};
+
+export type ChapterMarker = {
+  title: string;
+  startSeconds: number;
+};
+
+export type TimedChunk = {
+  text: string;
+  section: string;
+  heading?: string;
+  startSeconds: number;
+  endSeconds: number;
+};
+
+/**
+ * Caption segments grouped into chunks that never cross a chapter boundary
+ * (or, without chapters, consecutive windows of the transcript), so each
+ * chunk knows the time range it covers. Consecutive chunks of a chapter share
+ * a few trailing caption lines, like the text chunker's overlap.
+ */
+export function toTimedChunks(segments: CaptionSegment[], chapters: ChapterMarker[]): TimedChunk[] {
+  const { targetChars = 1800, overlapChars = 0 } = CHUNKING_PROFILES.transcript;
+  const ranges = chapters.length
+    ? chapters.map((chapter, index) => ({
+        title: chapter.title as string | undefined,
+        start: chapter.startSeconds,
+        end: chapters[index + 1]?.startSeconds ?? Number.POSITIVE_INFINITY,
+      }))
+    : [{ title: undefined, start: 0, end: Number.POSITIVE_INFINITY }];
+
+  const chunks: TimedChunk[] = [];
+  for (const range of ranges) {
+    const inRange = segments.filter((segment) => segment.offset >= range.start && segment.offset < range.end);
+    let window: CaptionSegment[] = [];
+    let windowChars = 0;
+    // Caption lines at the head of `window` repeated from the previous chunk.
+    let carried = 0;
+
+    const emit = (isLast: boolean) => {
+      if (!window.length) {
+        return;
+      }
+      const startSeconds = Math.floor(window[0].offset);
+      const lastSegment = window[window.length - 1];
+      const endSeconds = Math.ceil(isLast && Number.isFinite(range.end) ? range.end : lastSegment.offset + lastSegment.duration);
+      const span = `${formatTimestamp(startSeconds)}–${formatTimestamp(endSeconds)}`;
+      chunks.push({
+        text: window.map((segment) => segment.text).join(" "),
+        section: range.title ? `${range.title} (${span})` : `Transcript ${span}`,
+        heading: range.title,
+        startSeconds,
+        endSeconds,
+      });
+
+      const overlap: CaptionSegment[] = [];
+      let overlapLength = 0;
+      for (let index = window.length - 1; index > 0 && overlapLength + window[index].text.length <= overlapChars; index -= 1) {
+        overlap.unshift(window[index]);
+        overlapLength += window[index].text.length + 1;
+      }
+      window = overlap;
+      windowChars = overlapLength;
+      carried = overlap.length;
+    };
+
+    for (const segment of inRange) {
+      window.push(segment);
+      windowChars += segment.text.length + 1;
+      if (windowChars >= targetChars) {
+        emit(false);
+      }
+    }
+    if (window.length > carried) {
+      emit(true);
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,289 @@
+import { execFile } from "node:child_process";
+import { createReadStream } from "node:fs";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { promisify } from "node:util";
+
+import { FAST_MODEL } from "@/lib/ai/modelRouter";
+import {
+  deleteGeminiFile,
+  generateWithGeminiMedia,
+  type GeminiMediaPart,
+  uploadGeminiFile,
+} from "@/lib/ai/providers/gemini";
+import { TRANSCRIPT_RESPONSE_SCHEMA } from "@/lib/ai/response-schemas";
+import { CaptionSegment } from "@/lib/parsing/timed-transcript";
+
+/**
+ * Pluggable speech-to-text backends for uploaded lecture recordings.
+ *
+ * Gemini is the default and needs GEMINI_API_KEY. TRANSCRIPTION_PROVIDER=whisper-cli
+ * runs a local whisper.cpp binary (the recording is converted with ffmpeg
+ * first), and TRANSCRIPTION_PROVIDER=fixture reads prepared SRT, VTT or JSON
+ * transcripts from TRANSCRIPTION_FIXTURE_DIR, so uploads work without network.
+ */
+
+/** A recording already on local disk; providers stream it rather than read it whole. */
+export type TranscriptionInput = {
+  filePath: string;
+  size: number;
+  /** SHA-256 of the recording's bytes. */
+  contentHash: string;
+  fileName: string;
+  mimeType: string;
+};
+
+export type Transcript = {
+  segments: CaptionSegment[];
+  /** Spoken language as reported by the backend, e.g. "english" or "hi". */
+  language?: string;
+  translatedToEnglish: boolean;
+};
+
+export type TranscriptionProvider = {
+  id: string;
+  transcribe: (input: TranscriptionInput) => Promise<Transcript>;
+};
+
+type TranscriptionErrorCode = "missing_config" | "empty_response";
+
+const execFileAsync = promisify(execFile);
+
+// Larger recordings go through the Gemini Files API instead of inline request data.
+const GEMINI_INLINE_LIMIT_BYTES = 18 * 1024 * 1024;
+const CLI_TIMEOUT_MS = 20 * 60 * 1000;
+const TRANSCRIPT_MEMO_LIMIT = 16;
+
+function createTranscriptionError(code: TranscriptionErrorCode, message: string): Error & { code: TranscriptionErrorCode } {
+  const error = new Error(message) as Error & { code: TranscriptionErrorCode };
+  error.name = "TranscriptionProviderError";
+  error.code = code;
+  return error;
+}
+
+/** "01:02:03,500", "02:03.5" or plain seconds. */
+function parseClockTime(value: string): number {
+  const parts = value.trim().replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function toSegment(start: number, end: number, text: string): CaptionSegment | undefined {
+  const cleaned = text.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+  if (!cleaned || !Number.isFinite(start)) {
+    return undefined;
+  }
+  return { text: cleaned, offset: Math.max(0, start), duration: Number.isFinite(end) ? Math.max(0, end - start) : 0 };
+}
+
+function sortSegments(segments: Array<CaptionSegment | undefined>): CaptionSegment[] {
+  return segments
+    .filter((segment): segment is CaptionSegment => Boolean(segment))
+    .sort((a, b) => a.offset - b.offset);
+}
+
+/** SRT and WebVTT cues; cue numbers, NOTE blocks and styling tags are dropped. */
+export function parseSubtitleCues(text: string): CaptionSegment[] {
+  return sortSegments(
+    text
+      .replace(/\r\n?/g, "\n")
+      .split(/\n{2,}/)
+      .map((block) => {
+        const lines = block.split("\n");
+        const timingIndex = lines.findIndex((line) => line.includes("-->"));
+        if (timingIndex < 0) {
+          return undefined;
+        }
+        const [start, end] = lines[timingIndex].split("-->").map((part) => part.trim().split(/\s+/)[0]);
+        return toSegment(parseClockTime(start), parseClockTime(end), lines.slice(timingIndex + 1).join(" "));
+      }),
+  );
+}
+
+/**
+ * Transcript JSON as whisper.cpp writes it (`-oj`: offsets in milliseconds),
+ * as OpenAI Whisper writes it (`segments` with start/end seconds), or a bare
+ * array of `{ start, end, text }`.
+ */
+export function parseTranscriptJson(raw: string): Pick<Transcript, "segments" | "language"> {
+  type TimedText = { start?: number; end?: number; text?: string };
+  const data = JSON.parse(raw) as
+    | TimedText[]
+    | {
+        transcription?: Array<{ offsets?: { from?: number; to?: number }; text?: string }>;
+        result?: { language?: string };
+        segments?: TimedText[];
+        language?: string;
+      };
+
+  if (!Array.isArray(data) && Array.isArray(data.transcription)) {
+    return {
+      segments: sortSegments(
+        data.transcription.map((item) =>
+          toSegment((item.offsets?.from ?? NaN) / 1000, (item.offsets?.to ?? NaN) / 1000, item.text ?? ""),
+        ),
+      ),
+      language: data.result?.language,
+    };
+  }
+
+  const items = Array.isArray(data) ? data : (data.segments ?? []);
+  return {
+    segments: sortSegments(items.map((item) => toSegment(Number(item.start), Number(item.end), item.text ?? ""))),
+    language: Array.isArray(data) ? undefined : data.language,
+  };
+}
+
+function isEnglish(language: string | undefined): boolean {
+  return !language || /^(en|eng|english)$/i.test(language.trim());
+}
+
+export function createGeminiTranscriptionProvider(modelName = FAST_MODEL): TranscriptionProvider {
+  return {
+    id: `gemini:${modelName}`,
+    transcribe: async (input) => {
+      const uploaded =
+        input.size > GEMINI_INLINE_LIMIT_BYTES
+          ? await uploadGeminiFile(
+              Readable.toWeb(createReadStream(input.filePath)) as ReadableStream<Uint8Array>,
+              input.size,
+              input.mimeType,
+              input.fileName,
+            )
+          : undefined;
+      const media: GeminiMediaPart = uploaded
+        ? { fileData: { mimeType: uploaded.mimeType, fileUri: uploaded.uri } }
+        : { inlineData: { mimeType: input.mimeType, data: (await readFile(input.filePath)).toString("base64") } };
+      const prompt = [
+        "Transcribe the speech in this lecture recording.",
+        "Return JSON only: {\"language\": \"<spoken language in English, lowercase>\", \"segments\": [{\"start\": <seconds>, \"end\": <seconds>, \"text\": \"...\"}]}.",
+        "Use one segment per sentence or short phrase, at most 30 seconds each, in order, with timestamps measured from the start of the recording.",
+        "If the speech is not in English, translate each segment's text into English and keep its timestamps.",
+        "Do not summarize, skip or invent content.",
+      ].join("\n");
+
+      try {
+        const text = await generateWithGeminiMedia(media, prompt, modelName, {
+          responseSchema: TRANSCRIPT_RESPONSE_SCHEMA,
+          taskType: "recording_transcription",
+        });
+        const parsed = parseTranscriptJson(text.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+        if (!parsed.segments.length) {
+          throw createTranscriptionError("empty_response", "Gemini returned an empty transcript");
+        }
+        return { ...parsed, translatedToEnglish: !isEnglish(parsed.language) };
+      } finally {
+        if (uploaded) {
+          void deleteGeminiFile(uploaded).catch(() => undefined);
+        }
+      }
+    },
+  };
+}
+
+export function createWhisperCliTranscriptionProvider(
+  binaryPath = process.env.WHISPER_CLI_PATH ?? "whisper-cli",
+  modelPath = process.env.WHISPER_MODEL_PATH,
+  ffmpegPath = process.env.FFMPEG_PATH ?? "ffmpeg",
+): TranscriptionProvider {
+  return {
+    id: `whisper-cli:${path.basename(modelPath ?? "unset")}`,
+    transcribe: async (input) => {
+      if (!modelPath) {
+        throw createTranscriptionError("missing_config", "Missing WHISPER_MODEL_PATH");
+      }
+
+      const workDir = await mkdtemp(path.join(tmpdir(), "kalexam-transcribe-"));
+      try {
+        const audioPath = path.join(workDir, "audio.wav");
+        const outputBase = path.join(workDir, "transcript");
+
+        // whisper.cpp reads 16 kHz mono WAV only.
+        await execFileAsync(ffmpegPath, ["-loglevel", "error", "-y", "-i", input.filePath, "-vn", "-ac", "1", "-ar", "16000", audioPath], {
+          timeout: CLI_TIMEOUT_MS,
+        });
+        await execFileAsync(binaryPath, ["-m", modelPath, "-f", audioPath, "-l", "auto", "--translate", "-oj", "-of", outputBase], {
+          timeout: CLI_TIMEOUT_MS,
+          maxBuffer: 16 * 1024 * 1024,
+        });
+
+        const parsed = parseTranscriptJson(await readFile(`${outputBase}.json`, "utf8"));
+        if (!parsed.segments.length) {
+          throw createTranscriptionError("empty_response", "whisper-cli produced an empty transcript");
+        }
+        return { ...parsed, translatedToEnglish: !isEnglish(parsed.language) };
+      } catch (error) {
+        if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+          throw createTranscriptionError("missing_config", `Transcriber binary not found (${binaryPath} or ${ffmpegPath})`);
+        }
+        throw error;
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Looks up a prepared transcript for the recording: first by the SHA-256 of
+ * its bytes, then by its file name without extension (`lecture-3.mp3` →
+ * `lecture-3.srt`), trying `.json`, `.srt` and `.vtt`.
+ */
+export function createFixtureTranscriptionProvider(fixtureDir = process.env.TRANSCRIPTION_FIXTURE_DIR): TranscriptionProvider {
+  return {
+    id: "fixture",
+    transcribe: async (input) => {
+      if (!fixtureDir) {
+        throw createTranscriptionError("missing_config", "Missing TRANSCRIPTION_FIXTURE_DIR");
+      }
+
+      const baseName = path.basename(input.fileName, path.extname(input.fileName));
+      for (const stem of [input.contentHash, baseName]) {
+        for (const extension of [".json", ".srt", ".vtt"]) {
+          let raw: string;
+          try {
+            raw = await readFile(path.join(fixtureDir, `${stem}${extension}`), "utf8");
+          } catch {
+            continue;
+          }
+          const parsed = extension === ".json" ? parseTranscriptJson(raw) : { segments: parseSubtitleCues(raw) };
+          return { ...parsed, translatedToEnglish: false };
+        }
+      }
+      throw createTranscriptionError("empty_response", `No fixture transcript for ${input.fileName}`);
+    },
+  };
+}
+
+export function resolveTranscriptionProvider(): TranscriptionProvider {
+  const configured = process.env.TRANSCRIPTION_PROVIDER;
+  if (configured === "whisper-cli") {
+    return createWhisperCliTranscriptionProvider();
+  }
+  if (configured === "fixture") {
+    return createFixtureTranscriptionProvider();
+  }
+  return createGeminiTranscriptionProvider();
+}
+
+// Uploads are parsed by both the strategy job and the source index; the memo
+// keeps one recording from being transcribed twice by the same server.
+const transcriptMemo = new Map<string, Promise<Transcript>>();
+
+export async function transcribeRecording(input: TranscriptionInput): Promise<Transcript> {
+  const provider = resolveTranscriptionProvider();
+  const key = `${provider.id}:${input.contentHash}`;
+  const memoized = transcriptMemo.get(key);
+  if (memoized) {
+    return memoized;
+  }
+
+  const pending = provider.transcribe(input);
+  transcriptMemo.set(key, pending);
+  if (transcriptMemo.size > TRANSCRIPT_MEMO_LIMIT) {
+    transcriptMemo.delete(transcriptMemo.keys().next().value as string);
+  }
+  pending.catch(() => transcriptMemo.delete(key));
+  return pending;
+}
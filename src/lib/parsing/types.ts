@@ -1,16 +1,49 @@
-import { FileCategory, RepeatedTopic, SyllabusChapterHint, UploadedFile } from "@/lib/ai/types";
+import { ExamQuestionCluster, ExtractedExamQuestion, FileCategory, RepeatedTopic, SyllabusChapterHint, UploadedFile } from "@/lib/ai/types";
 
 export type ParsedSourceChunk = {
   text: string;
   sourceType: "Previous Paper" | "Question Bank" | "Study Material" | "Syllabus Derived";
   sourceName: string;
+  /** Uploaded files only: `toUploadKey` of the upload the chunk came from. */
+  uploadKey?: string;
   sourceYear?: string;
   section: string;
+  page?: number;
+  slide?: number;
+  heading?: string;
+  /** YouTube and recording chunks: the video (YouTube only) and the time range the chunk covers, in seconds. */
+  videoId?: string;
+  startSeconds?: number;
+  endSeconds?: number;
+};
+
+/** A located piece of a parsed document: one PDF page, one slide, or the whole body. */
+export type ParsedSegment = {
+  text: string;
+  page?: number;
+  slide?: number;
+  heading?: string;
+  /** `heading` is the document's own outline path, so the chunker should not guess headings inside the text. */
+  outlined?: boolean;
+  /** Set for a slide's speaker notes, which are kept apart from the slide body. */
+  part?: "notes";
+  /** Set when the text came from OCR: mean recognition confidence, 0-100. */
+  ocrConfidence?: number;
+  /** Transcribed recordings: the time range the segment covers, in seconds. */
+  startSeconds?: number;
+  endSeconds?: number;
+};
+
+export type ParsedDocument = {
+  text: string;
+  segments: ParsedSegment[];
+  warning?: string;
 };
 
 export type ParsedFile = {
   file: UploadedFile;
   text: string;
+  segments?: ParsedSegment[];
   warning?: string;
 };
 
@@ -25,9 +58,15 @@ export type ParsedCorpus = {
   materialText: string;
   previousPaperText: string;
   repeatedTopics: RepeatedTopic[];
+  examQuestions: ExtractedExamQuestion[];
+  questionClusters: ExamQuestionCluster[];
   chapters: SyllabusChapterHint[];
   sourceChunks: ParsedSourceChunk[];
   warnings: string[];
+  /** Per-file parser warnings keyed by `toUploadKey`, without the file-name prefix. */
+  fileWarnings: Record<string, string>;
+  /** SHA-256 of each file's bytes (of all photos, for a photo batch), keyed by `toUploadKey`. */
+  fileHashes: Record<string, string>;
 };
 
 export function byCategory(files: UploadedFile[], category: FileCategory) {
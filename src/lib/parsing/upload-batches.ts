@@ -0,0 +1,53 @@
+import { UploadedFile } from "@/lib/ai/types";
+
+/**
+ * Photos uploaded together (same `batchId` and category) are one logical
+ * source: one title, one source record, pages numbered in upload order. Kept
+ * free of parser imports so the client can group files the same way.
+ */
+
+export type UploadUnit = {
+  /** The file that represents the unit; for a batch, the first photo renamed to the batch title. */
+  file: UploadedFile;
+  files: UploadedFile[];
+};
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, "");
+}
+
+/** Identifies one upload across parsing and indexing; the same file name may be uploaded under two categories. */
+export function toUploadKey(file: UploadedFile): string {
+  return `${file.category}:${file.name}`;
+}
+
+export function toBatchTitle(files: UploadedFile[]): string {
+  return `${stripExtension(files[0].name)} — ${files.length} photos`;
+}
+
+export function groupUploadBatches(files: UploadedFile[]): UploadUnit[] {
+  const units: UploadUnit[] = [];
+  const batches = new Map<string, UploadedFile[]>();
+
+  for (const file of files) {
+    if (!file.batchId) {
+      units.push({ file, files: [file] });
+      continue;
+    }
+
+    const key = `${file.category}:${file.batchId}`;
+    const batch = batches.get(key);
+    if (batch) {
+      batch.push(file);
+      continue;
+    }
+    const created = [file];
+    batches.set(key, created);
+    // Placeholder keeps the batch at the position of its first photo.
+    units.push({ file, files: created });
+  }
+
+  return units.map((unit) =>
+    unit.files.length > 1 ? { file: { ...unit.files[0], name: toBatchTitle(unit.files) }, files: unit.files } : unit,
+  );
+}
@@ -1,57 +1,232 @@
-import { splitIntoChunks } from "@/lib/parsing/chunker";
+import { createHash } from "node:crypto";
+
+import JSZip from "jszip";
+
+import { parseLinkedDocument } from "@/lib/parsing";
+import { CHUNKING_PROFILES, chunkText } from "@/lib/parsing/chunker";
+import { OutlineBlock, outlineToSegments } from "@/lib/parsing/html-outline";
+import { extractArticle } from "@/lib/parsing/readability";
+import { readDriveConfirmUrl, toDirectDownloadUrl } from "@/lib/parsing/share-links";
 import { ParsedSourceChunk } from "@/lib/parsing/types";
+import { fetchPublicUrl } from "@/lib/server/network-policy";
+
+/**
+ * Website sources. The response body is sniffed before parsing: HTML pages go
+ * through the article extractor, while PDFs, Word and PowerPoint files (and
+ * Markdown/text served raw) behind a link go through the upload parsers.
+ * Cloud-drive share links are rewritten to direct downloads first. Every
+ * request, redirect hop and Drive confirm link is checked against the
+ * private-network policy before it is made.
+ */
 
-type UrlIngestResult = {
+export type LinkedFileType = "pdf" | "docx" | "pptx" | "md" | "txt";
+
+export type UrlIngestResult = {
   title: string;
+  /** The page's `<link rel=canonical>`, when it declares one. */
+  canonicalUrl?: string;
+  /** Address the page was served from, after redirects. */
+  finalUrl: string;
+  links: string[];
+  /** Set when the link served a document file rather than a web page. */
+  fileType?: LinkedFileType;
+  /** SHA-256 of the file's bytes, or of the extracted article text for a web page. */
+  contentHash: string;
+  warning?: string;
   chunks: ParsedSourceChunk[];
 };
 
-function stripHtml(value: string): string {
-  return value
-    .replace(/<script[\s\S]*?<\/script>/gi, " ")
-    .replace(/<style[\s\S]*?<\/style>/gi, " ")
-    .replace(/<noscript[\s\S]*?<\/noscript>/gi, " ")
-    .replace(/<[^>]+>/g, " ")
-    .replace(/&nbsp;/gi, " ")
-    .replace(/&amp;/gi, "&")
-    .replace(/&lt;/gi, "<")
-    .replace(/&gt;/gi, ">")
-    .replace(/&quot;/gi, '"')
-    .replace(/\s+/g, " ")
-    .trim();
-}
+type FetchedBody = {
+  buffer: Buffer;
+  contentType: string;
+  disposition: string;
+  finalUrl: string;
+};
 
-function extractPageTitle(html: string): string | null {
-  const match = /<title[^>]*>([^<]+)<\/title>/i.exec(html);
-  return match?.[1]?.trim() ?? null;
+export const WEB_USER_AGENT = "Mozilla/5.0 (compatible; KalExam/1.0; +https://kalexam.app)";
+
+const MAX_LINKED_FILE_BYTES = 25 * 1024 * 1024;
+
+/** Reads the body chunk by chunk and gives up at `maxBytes`, since content-length may be missing or wrong. */
+async function readCappedBody(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error("Linked file is larger than 25 MB");
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, total);
 }
 
-export async function ingestUrlContent(url: string): Promise<UrlIngestResult> {
-  const response = await fetch(url, {
+async function fetchBody(url: string): Promise<FetchedBody> {
+  const response = await fetchPublicUrl(url, {
     signal: AbortSignal.timeout(20000),
-    headers: { "User-Agent": "Mozilla/5.0 (compatible; KalExam/1.0; +https://kalexam.app)" },
+    headers: { "User-Agent": WEB_USER_AGENT },
   });
   if (!response.ok) {
     throw new Error(`Unable to fetch URL (${response.status})`);
   }
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_LINKED_FILE_BYTES) {
+    throw new Error("Linked file is larger than 25 MB");
+  }
+
+  return {
+    buffer: await readCappedBody(response, MAX_LINKED_FILE_BYTES),
+    contentType: response.headers.get("content-type")?.toLowerCase() ?? "",
+    disposition: response.headers.get("content-disposition") ?? "",
+    finalUrl: response.url || url,
+  };
+}
+
+function readFileName(body: FetchedBody): string | undefined {
+  const encoded = /filename\*\s*=\s*[\w-]+''([^;]+)/i.exec(body.disposition)?.[1];
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded.trim());
+    } catch {
+      // Fall through to the plain filename parameter.
+    }
+  }
+  const plain = /filename\s*=\s*"?([^";]+)"?/i.exec(body.disposition)?.[1]?.trim();
+  if (plain) {
+    return plain;
+  }
+  const segment = new URL(body.finalUrl).pathname.split("/").filter(Boolean).at(-1);
+  try {
+    return segment ? decodeURIComponent(segment) : undefined;
+  } catch {
+    return segment;
+  }
+}
+
+/** Magic bytes decide over the declared content type, which file hosts often get wrong. */
+async function sniffFileType(body: FetchedBody, fileName: string | undefined): Promise<LinkedFileType | "html" | undefined> {
+  const { buffer, contentType } = body;
+  const head = buffer.subarray(0, 512).toString("utf8").replace(/^﻿/, "").trimStart().toLowerCase();
+  // PDF readers accept up to 1 KB of junk before the header.
+  if (!head.startsWith("<") && buffer.subarray(0, 1024).includes("%PDF-")) {
+    return "pdf";
+  }
+  if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    try {
+      const zip = await JSZip.loadAsync(buffer);
+      if (zip.file("word/document.xml")) return "docx";
+      if (zip.file("ppt/presentation.xml")) return "pptx";
+    } catch {
+      // Not a readable archive.
+    }
+    return undefined;
+  }
 
-  const html = await response.text();
-  const text = stripHtml(html);
-  const chunksText = splitIntoChunks(text);
+  if (contentType.includes("html") || contentType.includes("xhtml") || head.startsWith("<!doctype html") || head.startsWith("<html")) {
+    return "html";
+  }
+  if (contentType.startsWith("text/") || contentType.includes("markdown")) {
+    return /\.(md|markdown)$/i.test(fileName ?? "") || contentType.includes("markdown") ? "md" : "txt";
+  }
+  return head.startsWith("<") ? "html" : undefined;
+}
+
+function decodeHtmlBody(body: FetchedBody): string {
+  const charset = /charset=["']?([\w-]+)/.exec(body.contentType)?.[1];
+  try {
+    return new TextDecoder(charset ?? "utf-8").decode(body.buffer);
+  } catch {
+    return body.buffer.toString("utf8");
+  }
+}
+
+function hostnameOf(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, "");
+}
+
+async function ingestLinkedDocument(url: string, body: FetchedBody, fileType: LinkedFileType, fileName: string | undefined): Promise<UrlIngestResult> {
+  const name = fileName && fileName.includes(".") ? fileName : `${fileName ?? "document"}.${fileType}`;
+  const title = `${name} (${hostnameOf(url)})`;
+  const { chunks, warning } = await parseLinkedDocument(
+    { name: title, type: body.contentType, url: body.finalUrl, extension: fileType, category: "studyMaterial" },
+    body.buffer,
+  );
+  if (!chunks.length) {
+    throw new Error(warning ?? "No readable text found in the linked file");
+  }
+  const contentHash = createHash("sha256").update(body.buffer).digest("hex");
+  return { title, finalUrl: body.finalUrl, links: [], fileType, contentHash, warning, chunks };
+}
+
+function ingestHtmlPage(url: string, html: string, finalUrl: string): UrlIngestResult {
+  const article = extractArticle(html, finalUrl);
+  const canonicalUrl = article.canonicalUrl;
+
+  // Without headings of its own, the article still gets its title as the section path.
+  const blocks: OutlineBlock[] =
+    article.title && !article.blocks.some((block) => block.kind === "heading")
+      ? [{ kind: "heading", level: 1, text: article.title }, ...article.blocks]
+      : article.blocks;
+
+  // Headings come from the outline, so the chunker must not guess its own from the text.
+  const chunksText = outlineToSegments(blocks).flatMap((segment) =>
+    chunkText(segment.text, { ...CHUNKING_PROFILES.url, carryHeading: false }).map((chunk) => ({
+      text: chunk.text,
+      heading: segment.heading,
+    })),
+  );
   if (!chunksText.length) {
     throw new Error("No readable text found at that URL");
   }
 
-  const hostname = new URL(url).hostname.replace(/^www\./, "");
-  const pageTitle = extractPageTitle(html);
-  const title = pageTitle ? `${pageTitle} (${hostname})` : `Website: ${hostname}`;
+  const hostname = hostnameOf(canonicalUrl ?? url);
+  const title = article.title ? `${article.title} (${hostname})` : `Website: ${hostname}`;
 
   const chunks: ParsedSourceChunk[] = chunksText.map((chunk, index) => ({
-    text: chunk,
+    text: chunk.text,
     sourceType: "Study Material",
     sourceName: title,
-    section: `Page Chunk ${index + 1}`,
+    section: chunk.heading ?? `Page Chunk ${index + 1}`,
+    heading: chunk.heading,
   }));
 
-  return { title, chunks };
+  // Hashing the article text rather than the page lets the same article match across ads, timestamps and tracking markup.
+  const articleText = chunksText.map((chunk) => chunk.text.replace(/\s+/g, " ").trim()).join("\n");
+  const contentHash = createHash("sha256").update(articleText).digest("hex");
+  return { title, canonicalUrl, finalUrl, links: article.links, contentHash, chunks };
+}
+
+export async function ingestUrlContent(url: string): Promise<UrlIngestResult> {
+  const direct = toDirectDownloadUrl(url);
+  let body = await fetchBody(direct.url);
+  let fileType = await sniffFileType(body, readFileName(body));
+
+  if (fileType === "html" && direct.rewritten) {
+    const confirmUrl = readDriveConfirmUrl(decodeHtmlBody(body));
+    if (confirmUrl) {
+      body = await fetchBody(confirmUrl);
+      fileType = await sniffFileType(body, readFileName(body));
+    }
+    if (fileType === "html") {
+      // A share link that still answers with a page is a sign-in or permission screen.
+      throw new Error("This shared file is not publicly downloadable. Set link sharing to 'Anyone with the link'.");
+    }
+  }
+
+  if (!fileType) {
+    throw new Error(`Unsupported content at that URL (${body.contentType || "unknown type"})`);
+  }
+  if (fileType === "html") {
+    return ingestHtmlPage(url, decodeHtmlBody(body), body.finalUrl);
+  }
+  return ingestLinkedDocument(url, body, fileType, readFileName(body));
 }
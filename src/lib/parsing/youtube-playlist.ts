@@ -0,0 +1,116 @@
+import { decodeHtmlEntities } from "@/lib/parsing/html-outline";
+
+/**
+ * Expands a YouTube playlist URL into its video URLs. The playlist page's
+ * embedded data lists the first ~100 videos in order; when that page cannot
+ * be read (consent walls, layout changes) the public RSS feed, which carries
+ * the 15 most recent entries, is used instead.
+ */
+
+export type PlaylistVideo = {
+  videoId: string;
+  url: string;
+  title?: string;
+};
+
+export type ExpandedPlaylist = {
+  playlistId: string;
+  title?: string;
+  videos: PlaylistVideo[];
+  /** Videos past the cap that were not returned. */
+  skipped: number;
+};
+
+export const PLAYLIST_VIDEO_LIMITS = {
+  default: 25,
+  max: 50,
+} as const;
+
+const REQUEST_HEADERS = { "Accept-Language": "en-US,en;q=0.9" };
+
+/** The `list` id of a playlist page link. A watch link that merely plays inside a playlist is a single video. */
+export function extractYouTubePlaylistId(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.hostname.includes("youtube.com") || parsed.searchParams.has("v")) {
+      return null;
+    }
+    const listId = parsed.searchParams.get("list");
+    return listId && /^[\w-]{10,}$/.test(listId) ? listId : null;
+  } catch {
+    return null;
+  }
+}
+
+function readJsonText(value: string): string {
+  try {
+    return JSON.parse(`"${value}"`) as string;
+  } catch {
+    return value;
+  }
+}
+
+function readPlaylistPage(html: string): { title?: string; videos: PlaylistVideo[] } {
+  const title = /"playlistMetadataRenderer":\{"title":"((?:[^"\\]|\\.)*)"/.exec(html)?.[1];
+  const videos: PlaylistVideo[] = [];
+  const seen = new Set<string>();
+
+  for (const match of html.matchAll(/"playlistVideoRenderer":\{"videoId":"([\w-]{11})"/g)) {
+    const videoId = match[1];
+    if (seen.has(videoId)) {
+      continue;
+    }
+    seen.add(videoId);
+    const window = html.slice(match.index ?? 0, (match.index ?? 0) + 3000);
+    const videoTitle = /"title":\{"runs":\[\{"text":"((?:[^"\\]|\\.)*)"/.exec(window)?.[1];
+    videos.push({
+      videoId,
+      url: `https://www.youtube.com/watch?v=${videoId}`,
+      title: videoTitle ? readJsonText(videoTitle) : undefined,
+    });
+  }
+
+  return { title: title ? readJsonText(title) : undefined, videos };
+}
+
+function readPlaylistFeed(xml: string): { title?: string; videos: PlaylistVideo[] } {
+  const feedTitle = /<title>([^<]*)<\/title>/.exec(xml)?.[1];
+  const videos = Array.from(xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g), (entry): PlaylistVideo | undefined => {
+    const videoId = /<yt:videoId>([\w-]{11})<\/yt:videoId>/.exec(entry[1])?.[1];
+    const title = /<title>([^<]*)<\/title>/.exec(entry[1])?.[1];
+    return videoId
+      ? { videoId, url: `https://www.youtube.com/watch?v=${videoId}`, title: title ? decodeHtmlEntities(title) : undefined }
+      : undefined;
+  }).filter((video): video is PlaylistVideo => Boolean(video));
+  return { title: feedTitle ? decodeHtmlEntities(feedTitle) : undefined, videos };
+}
+
+async function fetchText(url: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000), headers: REQUEST_HEADERS });
+    return response.ok ? await response.text() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function expandYouTubePlaylist(playlistId: string, maxVideos: number = PLAYLIST_VIDEO_LIMITS.default): Promise<ExpandedPlaylist> {
+  const cap = Math.min(PLAYLIST_VIDEO_LIMITS.max, Math.max(1, Math.trunc(maxVideos) || PLAYLIST_VIDEO_LIMITS.default));
+
+  const page = await fetchText(`https://www.youtube.com/playlist?list=${encodeURIComponent(playlistId)}`);
+  let listing = page ? readPlaylistPage(page) : { videos: [] as PlaylistVideo[] };
+  if (!listing.videos.length) {
+    const feed = await fetchText(`https://www.youtube.com/feeds/videos.xml?playlist_id=${encodeURIComponent(playlistId)}`);
+    listing = feed ? readPlaylistFeed(feed) : listing;
+  }
+  if (!listing.videos.length) {
+    throw new Error("YouTube playlist is empty, private or unavailable");
+  }
+
+  return {
+    playlistId,
+    title: listing.title,
+    videos: listing.videos.slice(0, cap),
+    skipped: Math.max(0, listing.videos.length - cap),
+  };
+}
@@ -1,9 +1,12 @@
 import { YoutubeTranscript } from "youtube-transcript";
 
+import { withTimeout } from "@/lib/async";
 import { FAST_MODEL } from "@/lib/ai/modelRouter";
-import { generateWithGeminiModel } from "@/lib/ai/providers/gemini";
+import { generateWithGeminiModelWithOptions } from "@/lib/ai/providers/gemini";
 import { readYoutubeReconstructionCacheAdmin, writeYoutubeReconstructionCacheAdmin } from "@/lib/firestore/youtube-cache-admin";
-import { splitIntoChunks } from "@/lib/parsing/chunker";
+import { CHUNKING_PROFILES, chunkText, splitIntoChunks } from "@/lib/parsing/chunker";
+import { decodeHtmlEntities } from "@/lib/parsing/html-outline";
+import { CaptionSegment, ChapterMarker, TimedChunk, toTimedChunks } from "@/lib/parsing/timed-transcript";
 import { ParsedSourceChunk } from "@/lib/parsing/types";
 
 type TranscriptSource = "captions" | "ai-reconstructed";
@@ -13,6 +16,7 @@ type YouTubeMetadata = {
   author?: string;
   thumbnailUrl?: string;
   description?: string;
+  /** Chapter lines from the description, e.g. "12:30 Normal forms". */
   chapters: string[];
   tags: string[];
 };
@@ -22,6 +26,11 @@ type ReconstructedChunk = {
   section: string;
 };
 
+const CHAPTER_LINE = /^\s*[-•*]?\s*\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*[-–—:|]?\s*(.+?)\s*$/;
+
+/** Progress reported while a video is ingested, in the order the steps run. */
+export type YouTubeIngestStage = "fetching-metadata" | "fetching-transcript" | "ai-reconstruction";
+
 type YouTubeIngestResult = {
   videoId: string;
   title: string;
@@ -34,33 +43,82 @@ type YouTubeIngestResult = {
   chunks: ParsedSourceChunk[];
 };
 
-async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutMessage: string): Promise<T> {
-  let timer: ReturnType<typeof setTimeout> | undefined;
+function parseTimestamp(value: string): number {
+  return value.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
 
-  const timeoutPromise = new Promise<T>((_, reject) => {
-    timer = setTimeout(() => {
-      reject(new Error(timeoutMessage));
-    }, timeoutMs);
-  });
+/**
+ * Chapter markers follow YouTube's own rule: timestamp lines in the
+ * description, the first at 0:00, in ascending order. Anything else is a
+ * stray timestamp in prose and is ignored.
+ */
+export function parseChapterMarkers(lines: string[]): ChapterMarker[] {
+  const markers: ChapterMarker[] = [];
+  for (const line of lines) {
+    const match = CHAPTER_LINE.exec(line);
+    if (!match) {
+      continue;
+    }
+    const startSeconds = parseTimestamp(match[1]);
+    if (markers.length && startSeconds <= markers[markers.length - 1].startSeconds) {
+      return [];
+    }
+    markers.push({ title: match[2], startSeconds });
+  }
+  return markers.length >= 2 && markers[0].startSeconds === 0 ? markers : [];
+}
+
+function readJsonString(html: string, key: string): string | undefined {
+  const match = new RegExp(`"${key}":"((?:[^"\\\\]|\\\\.)*)"`).exec(html);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(`"${match[1]}"`) as string;
+  } catch {
+    return undefined;
+  }
+}
 
+/** Description and keywords from the watch page's embedded player response; oEmbed carries none of them. */
+async function fetchWatchPageDetails(videoId: string): Promise<Pick<YouTubeMetadata, "description" | "chapters" | "tags">> {
   try {
-    return await Promise.race([promise, timeoutPromise]);
-  } finally {
-    if (timer) {
-      clearTimeout(timer);
+    const response = await fetch(`https://www.youtube.com/watch?v=${videoId}`, {
+      signal: AbortSignal.timeout(5000),
+      headers: { "Accept-Language": "en-US,en;q=0.9" },
+    });
+    if (!response.ok) {
+      return { chapters: [], tags: [] };
     }
+
+    const html = await response.text();
+    const description = readJsonString(html, "shortDescription")?.trim() || undefined;
+    let tags: string[] = [];
+    try {
+      tags = JSON.parse(/"keywords":(\[[^\]]*\])/.exec(html)?.[1] ?? "[]") as string[];
+    } catch {
+      tags = [];
+    }
+    const chapterLines = (description ?? "").split("\n").filter((line) => CHAPTER_LINE.test(line));
+    return {
+      description,
+      tags,
+      chapters: parseChapterMarkers(chapterLines).length ? chapterLines.map((line) => line.trim()) : [],
+    };
+  } catch {
+    return { chapters: [], tags: [] };
   }
 }
 
 async function fetchYouTubeMetadata(videoId: string): Promise<YouTubeMetadata> {
+  const details = await fetchWatchPageDetails(videoId);
   try {
     const oembedUrl = `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`;
     const response = await fetch(oembedUrl, { signal: AbortSignal.timeout(5000) });
     if (!response.ok) {
       return {
+        ...details,
         title: `YouTube Video ${videoId}`,
-        chapters: [],
-        tags: [],
       };
     }
 
@@ -73,17 +131,15 @@ async function fetchYouTubeMetadata(videoId: string): Promise<YouTubeMetadata> {
     const author = data.author_name?.trim();
     const thumbnailUrl = data.thumbnail_url?.trim();
     return {
+      ...details,
       title,
       author,
       thumbnailUrl,
-      chapters: [],
-      tags: [],
     };
   } catch {
     return {
+      ...details,
       title: `YouTube Video ${videoId}`,
-      chapters: [],
-      tags: [],
     };
   }
 }
@@ -127,7 +183,11 @@ async function reconstructFromMetadata(
     "Output in long structured plain text format only.",
   ].join("\n");
 
-  const raw = await withTimeout(generateWithGeminiModel(prompt, model), 20_000, "AI reconstruction timed out");
+  const raw = await withTimeout(
+    generateWithGeminiModelWithOptions(prompt, model, { taskType: "video_notes" }),
+    20_000,
+    "AI reconstruction timed out",
+  );
   const transcript = cleanTranscriptText(raw);
   if (!transcript) {
     throw new Error("AI reconstruction text is empty");
@@ -153,7 +213,7 @@ async function detectVideoLanguage(input: {
 
   try {
     const raw = await withTimeout(
-      generateWithGeminiModel(prompt, FAST_MODEL),
+      generateWithGeminiModelWithOptions(prompt, FAST_MODEL, { taskType: "video_language_detection" }),
       5_000,
       "Language detection timed out",
     );
@@ -185,7 +245,7 @@ async function translateTranscriptToEnglish(text: string, sourceLanguage: "hindi
     ].join("\n\n");
 
     const translated = await withTimeout(
-      generateWithGeminiModel(prompt, FAST_MODEL),
+      generateWithGeminiModelWithOptions(prompt, FAST_MODEL, { taskType: "transcript_translation" }),
       30_000,
       "Transcript translation timed out",
     );
@@ -220,7 +280,7 @@ async function generateVideoSummaryFallback(
 
   try {
     const raw = await withTimeout(
-      generateWithGeminiModel(prompt, model),
+      generateWithGeminiModelWithOptions(prompt, model, { taskType: "video_notes" }),
       20_000,
       "AI summary generation timed out",
     );
@@ -250,9 +310,9 @@ function toStructuredChunks(
   transcriptSource: TranscriptSource,
   summary?: string,
 ): ReconstructedChunk[] {
-  const pieces = splitIntoChunks(text);
+  const pieces = chunkText(text, CHUNKING_PROFILES.transcript);
   const result: ReconstructedChunk[] = pieces.map((piece, index) => ({
-    text: piece,
+    text: piece.text,
     section: transcriptSource === "captions" ? `Transcript ${index + 1}` : `Reconstructed Segment ${index + 1}`,
   }));
 
@@ -296,12 +356,16 @@ export function extractYouTubeVideoId(url: string): string | null {
   return null;
 }
 
-export async function ingestYouTubeTranscript(url: string): Promise<YouTubeIngestResult> {
+export async function ingestYouTubeTranscript(
+  url: string,
+  onStage?: (stage: YouTubeIngestStage) => void,
+): Promise<YouTubeIngestResult> {
   const videoId = extractYouTubeVideoId(url);
   if (!videoId) {
     throw new Error("Invalid YouTube URL");
   }
 
+  onStage?.("fetching-metadata");
   const metadata = await fetchYouTubeMetadata(videoId);
   const cacheKey = FAST_MODEL;
   const cached = await readYoutubeReconstructionCacheAdmin(videoId, cacheKey);
@@ -326,11 +390,13 @@ export async function ingestYouTubeTranscript(url: string): Promise<YouTubeInges
 
   let combined = "";
   let rawTranscript = "";
+  let captionSegments: CaptionSegment[] = [];
   let summary: string | undefined;
   let transcriptSource: TranscriptSource = "captions";
   let originalLanguage: "english" | "hindi" | "other" = "english";
   let translatedToEnglish = false;
 
+  onStage?.("fetching-transcript");
   for (let attempt = 0; attempt < 2; attempt += 1) {
     try {
       const transcript = await withTimeout(
@@ -342,10 +408,17 @@ export async function ingestYouTubeTranscript(url: string): Promise<YouTubeInges
         throw new Error("Transcript unavailable for this video");
       }
 
-      combined = transcript
-        .map((segment) => segment.text.replace(/\n/g, " "))
+      // Caption text comes straight out of the caption XML, still entity-encoded.
+      captionSegments = transcript
+        .map((segment) => ({
+          text: decodeHtmlEntities(segment.text).replace(/\s+/g, " ").trim(),
+          offset: segment.offset,
+          duration: segment.duration,
+        }))
+        .filter((segment) => segment.text);
+      combined = captionSegments
+        .map((segment) => segment.text)
         .join(" ")
-        .replace(/\s+/g, " ")
         .trim();
 
       if (!combined) {
@@ -362,6 +435,7 @@ export async function ingestYouTubeTranscript(url: string): Promise<YouTubeInges
   }
 
   if (!combined) {
+    onStage?.("ai-reconstruction");
     try {
       const aiResult = await reconstructFromMetadata(videoId, url, metadata);
       combined = aiResult.transcript;
@@ -382,18 +456,36 @@ export async function ingestYouTubeTranscript(url: string): Promise<YouTubeInges
     description: metadata.description,
     transcriptSample: combined.slice(0, 700),
   });
+  const timedChunks =
+    transcriptSource === "captions" && captionSegments.length
+      ? toTimedChunks(captionSegments, parseChapterMarkers(metadata.chapters))
+      : [];
   if (originalLanguage !== "english") {
-    combined = await translateTranscriptToEnglish(combined, originalLanguage);
+    if (timedChunks.length) {
+      // Translated chunk by chunk so every chunk keeps its time range.
+      for (const chunk of timedChunks) {
+        chunk.text = await translateTranscriptToEnglish(chunk.text, originalLanguage);
+      }
+      combined = timedChunks.map((chunk) => chunk.text).join("\n\n");
+    } else {
+      combined = await translateTranscriptToEnglish(combined, originalLanguage);
+    }
     translatedToEnglish = true;
     summary = "AI generated from video metadata.";
   }
 
-  const structuredChunks = toStructuredChunks(combined, metadata.title, transcriptSource, summary);
+  const structuredChunks: Array<ReconstructedChunk & Partial<TimedChunk>> = timedChunks.length
+    ? timedChunks
+    : toStructuredChunks(combined, metadata.title, transcriptSource, summary);
   const chunks: ParsedSourceChunk[] = structuredChunks.map((chunk) => ({
     text: chunk.text,
     sourceType: "Study Material",
     sourceName: metadata.title,
     section: chunk.section,
+    heading: chunk.heading,
+    videoId,
+    startSeconds: chunk.startSeconds,
+    endSeconds: chunk.endSeconds,
   }));
 
   if (transcriptSource === "ai-reconstructed") {
@@ -23,13 +23,25 @@ function extractBearerToken(request: Request): string {
   return token;
 }
 
-export async function getAuthenticatedUid(request: Request): Promise<string> {
+export type UserPlan = "free" | "pro";
+
+export type AuthenticatedUser = {
+  uid: string;
+  /** From the `plan` custom claim; users without one are on the free plan. */
+  plan: UserPlan;
+};
+
+export async function getAuthenticatedUser(request: Request): Promise<AuthenticatedUser> {
   const token = extractBearerToken(request);
 
   try {
     const decoded = await getAdminAuth().verifyIdToken(token);
-    return decoded.uid;
+    return { uid: decoded.uid, plan: decoded.plan === "pro" ? "pro" : "free" };
   } catch {
     throw new RequestAuthError("Invalid authentication token", 401);
   }
 }
+
+export async function getAuthenticatedUid(request: Request): Promise<string> {
+  return (await getAuthenticatedUser(request)).uid;
+}
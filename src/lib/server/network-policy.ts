@@ -0,0 +1,116 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+/**
+ * Keeps server-side requests to user-supplied URLs off the server's own
+ * network: loopback, private, link-local (cloud metadata) and other
+ * non-public addresses are refused. Shared by the provider endpoint policy
+ * and by the fetches behind website, linked-file and upload sources.
+ */
+
+const MAX_REDIRECTS = 5;
+
+function isNonPublicIpv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && (b === 0 || b === 168)) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+function isNonPublicIpv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(normalized)?.[1];
+  if (mapped) {
+    return isNonPublicIpv4(mapped);
+  }
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized) ||
+    normalized.startsWith("ff")
+  );
+}
+
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return isNonPublicIpv4(address);
+  if (family === 6) return isNonPublicIpv6(address);
+  return true;
+}
+
+/** Reads a comma-separated host list such as PROVIDER_PRIVATE_HOSTS. */
+export function readHostAllowlist(value: string | undefined): Set<string> {
+  return new Set(
+    (value ?? "")
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+  );
+}
+
+/** The URL's host without IPv6 brackets, lowercased. */
+export function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+}
+
+/** Throws when the host cannot be resolved; resolves to every address it has. */
+export async function resolveHostAddresses(host: string): Promise<string[]> {
+  return isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+}
+
+/**
+ * Refuses a URL the server should not fetch for a user: anything but http(s),
+ * and hosts that resolve to a non-public address unless listed in
+ * FETCH_PRIVATE_HOSTS (comma-separated, e.g. "127.0.0.1" for the local
+ * fixture servers behind the checks).
+ */
+export async function assertPublicFetchUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http(s) URLs can be fetched");
+  }
+
+  const host = hostOf(url);
+  if (readHostAllowlist(process.env.FETCH_PRIVATE_HOSTS).has(host)) {
+    return;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHostAddresses(host);
+  } catch {
+    throw new Error(`Could not resolve host ${host}`);
+  }
+  if (!addresses.length || addresses.some(isNonPublicAddress)) {
+    throw new Error(`${host} is on a private or local network, which the server does not fetch`);
+  }
+}
+
+/**
+ * `fetch` for user-supplied URLs. Redirects are followed by hand so every hop
+ * is checked before it is requested; the returned response's `url` is the
+ * address it was finally served from.
+ */
+export async function fetchPublicUrl(input: string, init: RequestInit = {}): Promise<Response> {
+  let url = new URL(input);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    await assertPublicFetchUrl(url);
+    const response = await fetch(url, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel().catch(() => undefined);
+    url = new URL(location, url);
+  }
+  throw new Error(`Too many redirects fetching ${input}`);
+}
@@ -0,0 +1,55 @@
+/**
+ * Storage behind the study API quotas. A store only has to make each read,
+ * update and write atomic; the limit arithmetic lives in `quota.ts` and is
+ * passed in as `update`, so every store enforces identical rules.
+ */
+
+export type TokenBucketState = {
+  tokens: number;
+  /** Epoch ms of the last refill. */
+  updatedAt: number;
+};
+
+export type DailyCounterState = {
+  count: number;
+};
+
+export type QuotaStore = {
+  /** Atomically applies `update` to the bucket at `key` (undefined when it does not exist yet). */
+  updateBucket<T>(
+    key: string,
+    update: (state: TokenBucketState | undefined) => { state: TokenBucketState; result: T },
+  ): Promise<T>;
+  /** Same for a per-day counter; `expiresAt` lets the store drop counters for past days. */
+  updateDailyCounter<T>(
+    key: string,
+    expiresAt: number,
+    update: (state: DailyCounterState | undefined) => { state: DailyCounterState; result: T },
+  ): Promise<T>;
+};
+
+/** Process-local store for tests and single-instance development. */
+export function createMemoryQuotaStore(): QuotaStore {
+  const buckets = new Map<string, TokenBucketState>();
+  const counters = new Map<string, DailyCounterState & { expiresAt: number }>();
+
+  return {
+    async updateBucket(key, update) {
+      const { state, result } = update(buckets.get(key));
+      buckets.set(key, state);
+      return result;
+    },
+    async updateDailyCounter(key, expiresAt, update) {
+      const now = Date.now();
+      for (const [counterKey, counter] of counters) {
+        if (counter.expiresAt <= now) {
+          counters.delete(counterKey);
+        }
+      }
+
+      const { state, result } = update(counters.get(key));
+      counters.set(key, { ...state, expiresAt });
+      return result;
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import { NextResponse } from "next/server";
+
+import type { ModelCallSink } from "@/lib/ai/usage-recorder";
+import { createFirestoreQuotaStore } from "@/lib/firestore/quota-admin";
+import type { UserPlan } from "@/lib/server/auth";
+import {
+  createMemoryQuotaStore,
+  type DailyCounterState,
+  type QuotaStore,
+  type TokenBucketState,
+} from "@/lib/server/quota-store";
+
+/**
+ * Per-user limits on the study API routes. Every request must pass two checks:
+ * a token bucket per uid and route, which absorbs short bursts but stops
+ * hammering, and a daily cap on AI calls per uid set by the user's plan.
+ * The cap counts model calls, not requests: every call a provider reports
+ * inside the request's usage scope (fallbacks, schema repairs, reranking,
+ * transcription) is counted, so a request started just under the cap may
+ * finish a few calls over it. When the quota store cannot be reached the
+ * request is refused rather than let through uncounted.
+ */
+
+export type StudyQuotaRoute = "ask" | "topic" | "learn-item" | "exam-mode" | "micro-quiz" | "sources-index";
+
+type BucketPolicy = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+const ROUTE_BUCKETS: Record<StudyQuotaRoute, BucketPolicy> = {
+  ask: { capacity: 10, refillPerSecond: 1 / 6 },
+  topic: { capacity: 6, refillPerSecond: 1 / 10 },
+  "learn-item": { capacity: 10, refillPerSecond: 1 / 6 },
+  "exam-mode": { capacity: 4, refillPerSecond: 1 / 15 },
+  "micro-quiz": { capacity: 6, refillPerSecond: 1 / 10 },
+  "sources-index": { capacity: 4, refillPerSecond: 1 / 30 },
+};
+
+export const DAILY_AI_CALL_LIMITS: Record<UserPlan, number> = {
+  free: 200,
+  pro: 2000,
+};
+
+export type QuotaDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: "rate_limited" | "daily_limit" | "quota_unavailable";
+      retryAfterSeconds: number;
+      message: string;
+    };
+
+const ALLOWED: QuotaDecision = { allowed: true };
+
+const QUOTA_UNAVAILABLE_RETRY_SECONDS = 30;
+
+function takeFromBucket(
+  state: TokenBucketState | undefined,
+  policy: BucketPolicy,
+  now: number,
+): { state: TokenBucketState; result: number } {
+  const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const tokens = state ? Math.min(policy.capacity, state.tokens + elapsedSeconds * policy.refillPerSecond) : policy.capacity;
+
+  if (tokens >= 1) {
+    return { state: { tokens: tokens - 1, updatedAt: now }, result: 0 };
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: Math.max(1, Math.ceil((1 - tokens) / policy.refillPerSecond)),
+  };
+}
+
+function readDailyCount(state: DailyCounterState | undefined): { state: DailyCounterState; result: number } {
+  const count = state?.count ?? 0;
+  return { state: { count }, result: count };
+}
+
+function countDailyCall(state: DailyCounterState | undefined): { state: DailyCounterState; result: number } {
+  const count = (state?.count ?? 0) + 1;
+  return { state: { count }, result: count };
+}
+
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+function dailyCounterKey(uid: string, now: number): string {
+  return `${uid}__${new Date(now).toISOString().slice(0, 10)}`;
+}
+
+let defaultStore: QuotaStore | undefined;
+
+/** In-memory under tests or with `QUOTA_STORE=memory`; Firestore otherwise. */
+export function getQuotaStore(): QuotaStore {
+  if (!defaultStore) {
+    defaultStore =
+      process.env.NODE_ENV === "test" || process.env.QUOTA_STORE === "memory"
+        ? createMemoryQuotaStore()
+        : createFirestoreQuotaStore();
+  }
+  return defaultStore;
+}
+
+export async function checkStudyQuota(
+  user: { uid: string; plan: UserPlan },
+  route: StudyQuotaRoute,
+  store: QuotaStore = getQuotaStore(),
+  now = Date.now(),
+): Promise<QuotaDecision> {
+  try {
+    const retryAfterSeconds = await store.updateBucket(`${user.uid}__${route}`, (state) =>
+      takeFromBucket(state, ROUTE_BUCKETS[route], now),
+    );
+    if (retryAfterSeconds > 0) {
+      return {
+        allowed: false,
+        reason: "rate_limited",
+        retryAfterSeconds,
+        message: `You're going a little fast. Try again in ${retryAfterSeconds} seconds.`,
+      };
+    }
+
+    const resetAt = nextUtcMidnight(now);
+    const dailyLimit = DAILY_AI_CALL_LIMITS[user.plan];
+    const callsToday = await store.updateDailyCounter(dailyCounterKey(user.uid, now), resetAt, readDailyCount);
+    if (callsToday >= dailyLimit) {
+      return {
+        allowed: false,
+        reason: "daily_limit",
+        retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+        message: `You've used today's ${dailyLimit} AI calls for your plan. The limit resets at midnight UTC.`,
+      };
+    }
+
+    return ALLOWED;
+  } catch (error) {
+    // Without the store nothing would be counted, so the request waits for it instead.
+    console.error("[quota] Quota check failed, refusing request:", error);
+    return {
+      allowed: false,
+      reason: "quota_unavailable",
+      retryAfterSeconds: QUOTA_UNAVAILABLE_RETRY_SECONDS,
+      message: "Usage limits can't be checked right now. Try again in a moment.",
+    };
+  }
+}
+
+/**
+ * Counts every model call reported in the scope toward the user's daily cap,
+ * then hands it on to `sink`. A failed count is logged; it never fails the call.
+ */
+export function withDailyAiCallCount(uid: string, sink: ModelCallSink, store: QuotaStore = getQuotaStore()): ModelCallSink {
+  return (call) => {
+    const now = Date.now();
+    void store.updateDailyCounter(dailyCounterKey(uid, now), nextUtcMidnight(now), countDailyCall).catch((error) => {
+      console.error("[quota] Unable to count model call toward the daily cap", {
+        uid,
+        taskType: call.taskType,
+        message: error instanceof Error ? error.message : "unknown error",
+      });
+    });
+    sink(call);
+  };
+}
+
+type DeniedQuotaDecision = Extract<QuotaDecision, { allowed: false }>;
+
+// An unreachable quota store is the server's problem, not the user's pace.
+function refusalStatus(decision: DeniedQuotaDecision): number {
+  return decision.reason === "quota_unavailable" ? 503 : 429;
+}
+
+export function quotaExceededResponse(decision: DeniedQuotaDecision): NextResponse {
+  return NextResponse.json(
+    { error: decision.message, code: decision.reason, retryAfterSeconds: decision.retryAfterSeconds },
+    { status: refusalStatus(decision), headers: { "Retry-After": String(decision.retryAfterSeconds) } },
+  );
+}
+
+/** The same refusal for clients reading an SSE stream: one `error` event, then close. */
+export function quotaExceededSseResponse(decision: DeniedQuotaDecision): Response {
+  const event = {
+    type: "error",
+    code: decision.reason,
+    message: decision.message,
+    retryAfterSeconds: decision.retryAfterSeconds,
+  };
+
+  return new Response(`data: ${JSON.stringify(event)}\n\n`, {
+    status: refusalStatus(decision),
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Retry-After": String(decision.retryAfterSeconds),
+    },
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * BM25F lexical scoring over the indexed chunk corpus of a strategy.
+ *
+ * Each chunk has two fields: `section` (boosted) and `text`. Corpus statistics
+ * are additive (counts and length totals, not averages) so they can be merged
+ * when chunks are appended and cached next to `indexedChunksMeta`.
+ */
+
+import { ParsedSourceChunk } from "@/lib/parsing/types";
+
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "with",
+  "that",
+  "from",
+  "this",
+  "for",
+  "your",
+  "have",
+  "will",
+  "into",
+  "are",
+  "you",
+  "what",
+  "when",
+  "where",
+  "which",
+  "about",
+  "topic",
+  "exam",
+  "study",
+]);
+
+const K1 = 1.2;
+const FIELD_CONFIG = {
+  section: { weight: 2.5, b: 0.3 },
+  text: { weight: 1, b: 0.75 },
+} as const;
+
+type Bm25Field = keyof typeof FIELD_CONFIG;
+
+export type Bm25Stats = {
+  documentCount: number;
+  totalLength: Record<Bm25Field, number>;
+  documentFrequency: Record<string, number>;
+};
+
+export type Bm25TermContribution = {
+  term: string;
+  score: number;
+};
+
+export type Bm25Result = {
+  score: number;
+  contributions: Bm25TermContribution[];
+};
+
+type Bm25Document = Pick<ParsedSourceChunk, "text" | "section">;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function emptyBm25Stats(): Bm25Stats {
+  return {
+    documentCount: 0,
+    totalLength: { section: 0, text: 0 },
+    documentFrequency: {},
+  };
+}
+
+export function buildBm25Stats(documents: Bm25Document[], base: Bm25Stats = emptyBm25Stats()): Bm25Stats {
+  const stats: Bm25Stats = {
+    documentCount: base.documentCount,
+    totalLength: { ...base.totalLength },
+    documentFrequency: { ...base.documentFrequency },
+  };
+
+  for (const document of documents) {
+    const sectionTokens = tokenize(document.section);
+    const textTokens = tokenize(document.text);
+    stats.documentCount += 1;
+    stats.totalLength.section += sectionTokens.length;
+    stats.totalLength.text += textTokens.length;
+
+    for (const term of new Set([...sectionTokens, ...textTokens])) {
+      stats.documentFrequency[term] = (stats.documentFrequency[term] ?? 0) + 1;
+    }
+  }
+
+  return stats;
+}
+
+export function isBm25Stats(value: unknown): value is Bm25Stats {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const candidate = value as Partial<Bm25Stats>;
+  return (
+    typeof candidate.documentCount === "number" &&
+    typeof candidate.totalLength?.section === "number" &&
+    typeof candidate.totalLength?.text === "number" &&
+    typeof candidate.documentFrequency === "object" &&
+    candidate.documentFrequency !== null
+  );
+}
+
+/** Stats as cached: counts and lengths in a header, document frequencies split into term shards. */
+export type Bm25StatsHeader = Omit<Bm25Stats, "documentFrequency"> & {
+  shardCount: number;
+};
+
+export function splitBm25Stats(
+  stats: Bm25Stats,
+  termsPerShard: number,
+): { header: Bm25StatsHeader; shards: Array<Record<string, number>> } {
+  const entries = Object.entries(stats.documentFrequency);
+  const shards: Array<Record<string, number>> = [];
+  for (let index = 0; index < entries.length; index += termsPerShard) {
+    shards.push(Object.fromEntries(entries.slice(index, index + termsPerShard)));
+  }
+
+  return {
+    header: { documentCount: stats.documentCount, totalLength: { ...stats.totalLength }, shardCount: shards.length },
+    shards,
+  };
+}
+
+/** Reassembles cached stats; undefined when the header or any shard is missing or malformed. */
+export function joinBm25Stats(header: unknown, shards: unknown[]): Bm25Stats | undefined {
+  const candidate = header as Partial<Bm25StatsHeader> | undefined;
+  if (typeof candidate?.shardCount !== "number" || shards.length !== candidate.shardCount) {
+    return undefined;
+  }
+  if (shards.some((shard) => !shard || typeof shard !== "object")) {
+    return undefined;
+  }
+
+  const stats = {
+    documentCount: candidate.documentCount,
+    totalLength: candidate.totalLength,
+    documentFrequency: Object.assign({}, ...(shards as Array<Record<string, number>>)),
+  };
+  return isBm25Stats(stats) ? stats : undefined;
+}
+
+function inverseDocumentFrequency(term: string, stats: Bm25Stats): number {
+  const df = stats.documentFrequency[term] ?? 0;
+  return Math.log(1 + (stats.documentCount - df + 0.5) / (df + 0.5));
+}
+
+export function scoreBm25F(document: Bm25Document, queryTokens: string[], stats: Bm25Stats): Bm25Result {
+  if (!queryTokens.length || !stats.documentCount) {
+    return { score: 0, contributions: [] };
+  }
+
+  const fieldTokens: Record<Bm25Field, string[]> = {
+    section: tokenize(document.section),
+    text: tokenize(document.text),
+  };
+  const fieldCounts: Record<Bm25Field, Map<string, number>> = {
+    section: countTerms(fieldTokens.section),
+    text: countTerms(fieldTokens.text),
+  };
+
+  const contributions: Bm25TermContribution[] = [];
+  for (const term of new Set(queryTokens)) {
+    let weightedFrequency = 0;
+    for (const field of Object.keys(FIELD_CONFIG) as Bm25Field[]) {
+      const frequency = fieldCounts[field].get(term) ?? 0;
+      if (!frequency) {
+        continue;
+      }
+
+      const { weight, b } = FIELD_CONFIG[field];
+      const averageLength = stats.totalLength[field] / stats.documentCount || 1;
+      const lengthNorm = 1 - b + b * (fieldTokens[field].length / averageLength);
+      weightedFrequency += (weight * frequency) / lengthNorm;
+    }
+
+    if (!weightedFrequency) {
+      continue;
+    }
+
+    const score = inverseDocumentFrequency(term, stats) * (weightedFrequency / (K1 + weightedFrequency));
+    contributions.push({ term, score });
+  }
+
+  contributions.sort((a, b) => b.score - a.score);
+  return {
+    score: contributions.reduce((sum, item) => sum + item.score, 0),
+    contributions,
+  };
+}
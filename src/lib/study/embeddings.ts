@@ -0,0 +1,204 @@
+/**
+ * Pluggable embedding backends used for semantic chunk retrieval.
+ *
+ * The hashed n-gram backend is deterministic and runs anywhere (browser,
+ * API routes, offline), so it is always available as a fallback. The Gemini
+ * backend is opt-in via EMBEDDING_PROVIDER=gemini on the server.
+ */
+
+import type { ProviderUsage } from "@/lib/ai/usage";
+
+export type EmbeddingVector = number[];
+
+export type EmbeddingProvider = {
+  id: string;
+  dimensions: number;
+  embed: (texts: string[]) => Promise<EmbeddingVector[]>;
+};
+
+/**
+ * Told about each remote embedding request. This module also ships to the
+ * browser, so server callers pass the usage recorder in rather than it being
+ * imported here.
+ */
+export type EmbeddingCallReporter = (modelName: string, usage: ProviderUsage) => void;
+
+export const HASHED_EMBEDDING_ID = "hashed-ngram-v1";
+export const GEMINI_EMBEDDING_MODEL = "gemini-embedding-001";
+
+const HASHED_DIMENSIONS = 256;
+const GEMINI_DIMENSIONS = 768;
+const GEMINI_BATCH_LIMIT = 100;
+// batchEmbedContents returns no token counts; Gemini tokens average about four characters.
+const ESTIMATED_CHARS_PER_TOKEN = 4;
+
+type EmbeddingErrorCode = "missing_api_key" | "request_failed" | "empty_response";
+
+function createEmbeddingError(code: EmbeddingErrorCode, message: string): Error & { code: EmbeddingErrorCode } {
+  const error = new Error(message) as Error & { code: EmbeddingErrorCode };
+  error.name = "EmbeddingProviderError";
+  error.code = code;
+  return error;
+}
+
+// FNV-1a 32-bit: stable across runtimes, which keeps stored vectors comparable.
+function hashFeature(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function toFeatures(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1);
+
+  const features: string[] = [];
+  for (let index = 0; index < words.length; index += 1) {
+    const word = words[index];
+    features.push(`w:${word}`);
+    if (index > 0) {
+      features.push(`b:${words[index - 1]}_${word}`);
+    }
+
+    const padded = `#${word}#`;
+    for (let offset = 0; offset + 3 <= padded.length; offset += 1) {
+      features.push(`c:${padded.slice(offset, offset + 3)}`);
+    }
+  }
+
+  return features;
+}
+
+export function normalizeVector(vector: EmbeddingVector): EmbeddingVector {
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (!magnitude) {
+    return vector;
+  }
+  return vector.map((value) => value / magnitude);
+}
+
+export function embedTextHashed(text: string, dimensions = HASHED_DIMENSIONS): EmbeddingVector {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const feature of toFeatures(text)) {
+    const hash = hashFeature(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    // Whole words carry more meaning than character trigrams.
+    const weight = feature.startsWith("c:") ? 0.5 : 1;
+    vector[hash % dimensions] += sign * weight;
+  }
+
+  return normalizeVector(vector).map((value) => Number(value.toFixed(5)));
+}
+
+export function cosineSimilarity(a: EmbeddingVector, b: EmbeddingVector): number {
+  if (!a.length || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    dot += a[index] * b[index];
+    magnitudeA += a[index] * a[index];
+    magnitudeB += b[index] * b[index];
+  }
+
+  if (!magnitudeA || !magnitudeB) {
+    return 0;
+  }
+  return dot / Math.sqrt(magnitudeA * magnitudeB);
+}
+
+export function createHashedEmbeddingProvider(dimensions = HASHED_DIMENSIONS): EmbeddingProvider {
+  return {
+    id: HASHED_EMBEDDING_ID,
+    dimensions,
+    embed: async (texts) => texts.map((text) => embedTextHashed(text, dimensions)),
+  };
+}
+
+export function createGeminiEmbeddingProvider(
+  modelName = GEMINI_EMBEDDING_MODEL,
+  dimensions = GEMINI_DIMENSIONS,
+  reportCall?: EmbeddingCallReporter,
+): EmbeddingProvider {
+  return {
+    id: `gemini:${modelName}:${dimensions}`,
+    dimensions,
+    embed: async (texts) => {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw createEmbeddingError("missing_api_key", "Missing GEMINI_API_KEY");
+      }
+
+      const vectors: EmbeddingVector[] = [];
+      for (let index = 0; index < texts.length; index += GEMINI_BATCH_LIMIT) {
+        const batch = texts.slice(index, index + GEMINI_BATCH_LIMIT);
+        const response = await fetch(
+          `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:batchEmbedContents`,
+          {
+            method: "POST",
+            // The key travels in a header, not the query string, so it stays out of URL logs.
+            headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey },
+            body: JSON.stringify({
+              requests: batch.map((text) => ({
+                model: `models/${modelName}`,
+                content: { parts: [{ text }] },
+                outputDimensionality: dimensions,
+              })),
+            }),
+          },
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw createEmbeddingError("request_failed", `Gemini embedding request failed: ${response.status} ${errorText}`);
+        }
+
+        reportCall?.(modelName, {
+          promptTokens: Math.ceil(batch.reduce((sum, text) => sum + text.length, 0) / ESTIMATED_CHARS_PER_TOKEN),
+          completionTokens: 0,
+        });
+
+        const data = (await response.json()) as { embeddings?: Array<{ values?: number[] }> };
+        const values = data.embeddings?.map((item) => item.values ?? []) ?? [];
+        if (values.length !== batch.length || values.some((item) => !item.length)) {
+          throw createEmbeddingError("empty_response", "Gemini returned empty embeddings");
+        }
+
+        vectors.push(...values.map(normalizeVector));
+      }
+
+      return vectors;
+    },
+  };
+}
+
+/**
+ * Returns the provider that produced vectors tagged with `providerId`, or the
+ * configured default when no id is given. Unknown ids fall back to hashed so
+ * retrieval never breaks on stale data.
+ */
+export function resolveEmbeddingProvider(providerId?: string, reportCall?: EmbeddingCallReporter): EmbeddingProvider {
+  if (providerId?.startsWith("gemini:")) {
+    const [, modelName, dimensions] = providerId.split(":");
+    return createGeminiEmbeddingProvider(
+      modelName,
+      Number.parseInt(dimensions ?? "", 10) || GEMINI_DIMENSIONS,
+      reportCall,
+    );
+  }
+
+  if (!providerId && process.env.EMBEDDING_PROVIDER === "gemini" && process.env.GEMINI_API_KEY) {
+    return createGeminiEmbeddingProvider(GEMINI_EMBEDDING_MODEL, GEMINI_DIMENSIONS, reportCall);
+  }
+
+  return createHashedEmbeddingProvider();
+}
@@ -32,6 +32,11 @@ export type LegacyLikelihoodSignals = {
   repeatedInStudyMaterial: boolean;
   syllabusCoreTopic: boolean;
   highChapterWeightage: boolean;
+  /**
+   * Exam history (0-100) derived from clustered previous-paper questions.
+   * When present it replaces the `appearsInPreviousPaper` contribution.
+   */
+  questionHistory?: number;
 };
 
 function isLegacySignals(
@@ -44,7 +49,7 @@ function toLikelihoodSignals(legacy: LegacyLikelihoodSignals): LikelihoodSignals
   return {
     topicFrequency: (legacy.repeatedInStudyMaterial ? 60 : 10),
     examHistory:
-      (legacy.appearsInPreviousPaper ? 70 : 0) +
+      (legacy.questionHistory ?? (legacy.appearsInPreviousPaper ? 70 : 0)) +
       (legacy.appearsInQuestionBank ? 30 : 0),
     weakAreaWeight: 0,
     syllabusPriority:
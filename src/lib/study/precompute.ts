@@ -1,8 +1,59 @@
-import { IndexedChunk } from "@/lib/firestore/chunks";
+import type { IndexedChunk } from "@/lib/firestore/chunks";
+import {
+  EmbeddingProvider,
+  createHashedEmbeddingProvider,
+  resolveEmbeddingProvider,
+} from "@/lib/study/embeddings";
 
+const EMBEDDING_BATCH_SIZE = 64;
+
+function toEmbeddingInput(chunk: IndexedChunk): string {
+  return [chunk.section, chunk.text].filter(Boolean).join("\n");
+}
+
+async function embedAll(chunks: IndexedChunk[], provider: EmbeddingProvider): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let index = 0; index < chunks.length; index += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(index, index + EMBEDDING_BATCH_SIZE);
+    vectors.push(...(await provider.embed(batch.map(toEmbeddingInput))));
+  }
+  return vectors;
+}
+
+/**
+ * Fills `embedding`/`embeddingModel` in place for chunks that do not carry a
+ * vector yet; chunks already embedded (e.g. server-side) are left untouched.
+ * If a remote provider fails on any batch, the whole run is re-embedded with
+ * the local hashed backend, so one upload never mixes two vector spaces.
+ */
 export async function precomputeEmbeddingVectors(
   chunks: IndexedChunk[],
+  provider: EmbeddingProvider = resolveEmbeddingProvider(),
 ): Promise<void> {
-  void chunks;
-  return Promise.resolve();
+  const pending = chunks.filter((chunk) => !chunk.embedding?.length);
+  if (!pending.length) {
+    return;
+  }
+
+  let activeProvider = provider;
+  let vectors: number[][];
+  try {
+    vectors = await embedAll(pending, activeProvider);
+  } catch (error) {
+    const fallback = createHashedEmbeddingProvider();
+    if (activeProvider.id === fallback.id) {
+      throw error;
+    }
+    console.warn("[precompute] embedding provider failed — re-embedding the batch with hashed fallback", {
+      provider: activeProvider.id,
+      message: error instanceof Error ? error.message : "unknown",
+    });
+    activeProvider = fallback;
+    vectors = await embedAll(pending, activeProvider);
+  }
+
+  pending.forEach((chunk, index) => {
+    chunk.embedding = vectors[index];
+    chunk.embeddingModel = activeProvider.id;
+  });
 }
@@ -1,50 +1,61 @@
 import {
+  ExamQuestionCluster,
   ModelConfig,
   SourceCitation,
   StudyQuestionCard,
   TopicConfidence,
   TopicPriority,
   UploadedFile,
+  formatCitationLabel,
 } from "@/lib/ai/types";
 import {
   AiTaskType,
   FAST_MODEL,
   RoutingMeta,
+  StructuredOutputError,
+  generateStructuredWithModelRouter,
   generateWithModelRouter,
   generateWithModelRouterStream,
 } from "@/lib/ai/modelRouter";
-import { generateWithGeminiModel } from "@/lib/ai/providers/gemini";
+import type { StructuredResponseSchema } from "@/lib/ai/json-schema";
+import {
+  EXAM_MODE_RESPONSE_SCHEMA,
+  ExamModeResponse,
+  LEARN_ITEM_RESPONSE_SCHEMA,
+  LearnItemResponse,
+  MICRO_QUIZ_RESPONSE_SCHEMA,
+  MicroQuizResponse,
+  TOPIC_STUDY_RESPONSE_SCHEMA,
+  TopicStudyResponse,
+} from "@/lib/ai/response-schemas";
+import { generateWithGeminiModelWithOptions } from "@/lib/ai/providers/gemini";
+import { reportEmbeddingCall } from "@/lib/ai/usage-recorder";
+import { withTimeout } from "@/lib/async";
 import { getIndexedChunksAdmin } from "@/lib/firestore/chunks-admin";
 import { parseUploadedFiles } from "@/lib/parsing";
+import {
+  clusterExamQuestions,
+  countQuestionPapers,
+  extractPaperQuestions,
+  findClustersForTopic,
+  formatAskedIn,
+  restrictClustersToSources,
+  scoreExamHistory,
+} from "@/lib/parsing/question-clusters";
 import { ParsedSourceChunk } from "@/lib/parsing/types";
 import { computeExamLikelihood, examLikelihoodLabel } from "@/lib/study/exam-likelihood";
+import { Bm25Stats, Bm25TermContribution, buildBm25Stats, scoreBm25F, tokenize } from "@/lib/study/bm25";
+import {
+  EmbeddingVector,
+  HASHED_EMBEDDING_ID,
+  cosineSimilarity,
+  embedTextHashed,
+  resolveEmbeddingProvider,
+} from "@/lib/study/embeddings";
 import { FALLBACK_MESSAGE } from "@/lib/study/constants";
+import { RerankMode, rerankCandidates } from "@/lib/study/rerank";
 import type { StudySourceType } from "@/lib/firestore/sources";
 
-const STOP_WORDS = new Set([
-  "the",
-  "and",
-  "with",
-  "that",
-  "from",
-  "this",
-  "for",
-  "your",
-  "have",
-  "will",
-  "into",
-  "are",
-  "you",
-  "what",
-  "when",
-  "where",
-  "which",
-  "about",
-  "topic",
-  "exam",
-  "study",
-]);
-
 export type TopicStudyContent = {
   whatToLearn: string[];
   explanation: {
@@ -138,6 +149,7 @@ export type StudyGenerationContext = {
   strategyId?: string;
   debugRetrieval?: boolean;
   expandQuery?: boolean;
+  rerank?: RerankMode;
 };
 
 type RetrievalSourceKind = StudySourceType | "unknown";
@@ -146,16 +158,28 @@ type ContextChunk = {
   sourceId?: string;
   chunk: ParsedSourceChunk;
   sourceKind: RetrievalSourceKind;
+  embedding?: EmbeddingVector;
+  embeddingModel?: string;
 };
 
 type ScoredContextChunk = ContextChunk & {
   score: number;
+  lexicalScore?: number;
+  semanticScore?: number;
+  termContributions?: Bm25TermContribution[];
+  originalScore?: number;
+  rerankScore?: number;
 };
 
 export type RetrievalDebugChunk = {
   sourceName: string;
   sourceType: RetrievalSourceKind;
   score: number;
+  lexicalScore?: number;
+  semanticScore?: number;
+  termContributions?: Bm25TermContribution[];
+  originalScore?: number;
+  rerankScore?: number;
   selected: boolean;
 };
 
@@ -164,32 +188,20 @@ type RetrievalOptions = {
   strategyId?: string;
   debugRetrieval?: boolean;
   expandQuery?: boolean;
+  rerank?: RerankMode;
+  modelConfig?: ModelConfig;
 };
 
 const DOCUMENT_SOURCE_TYPES = new Set<RetrievalSourceKind>(["pdf", "docx", "ppt", "url"]);
-
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .split(/\s+/)
-    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
-}
-
-async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutMessage: string): Promise<T> {
-  let timer: ReturnType<typeof setTimeout> | undefined;
-  const timeoutPromise = new Promise<T>((_, reject) => {
-    timer = setTimeout(() => reject(new Error(timeoutMessage)), timeoutMs);
-  });
-
-  try {
-    return await Promise.race([promise, timeoutPromise]);
-  } finally {
-    if (timer) {
-      clearTimeout(timer);
-    }
-  }
-}
+const LEXICAL_SCORE_WEIGHT = 3;
+const SEMANTIC_SCORE_WEIGHT = 10;
+// Cosine similarity below this is noise: even unrelated text shares a few
+// hashed features, so only the margin above it counts toward the score.
+const SEMANTIC_SCORE_THRESHOLD = 0.25;
+const QUERY_EMBEDDING_TIMEOUT_MS = 3_000;
+const RERANK_TIMEOUT_MS = 4_000;
+// Share of the final score taken by reranker relevance; the rest keeps the first-stage score.
+const RERANK_BLEND = 0.6;
 
 function toUniqueTokens(values: string[]): string[] {
   return Array.from(new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean)));
@@ -212,6 +224,11 @@ function inferSourceKind(chunk: ParsedSourceChunk, sourceTypeMap?: Map<string, S
   if (sourceName.endsWith(".pdf")) return "pdf";
   if (sourceName.endsWith(".doc") || sourceName.endsWith(".docx")) return "docx";
   if (sourceName.endsWith(".ppt") || sourceName.endsWith(".pptx")) return "ppt";
+  if (/\.(jpe?g|png|webp|bmp)$/.test(sourceName)) return "image";
+  if (sourceName.endsWith(".md") || sourceName.endsWith(".markdown")) return "markdown";
+  if (sourceName.endsWith(".epub")) return "epub";
+  if (sourceName.endsWith(".html") || sourceName.endsWith(".htm")) return "html";
+  if (/\.(mp3|m4a|aac|wav|ogg|flac|mp4|mov|webm)$/.test(sourceName)) return "recording";
   if (sourceName.startsWith("http://") || sourceName.startsWith("https://")) return "url";
   return "text";
 }
@@ -227,7 +244,18 @@ function toContextLabel(sourceKind: RetrievalSourceKind): string {
   if (sourceKind === "url") {
     return "WEBSITE SOURCE";
   }
-  if (sourceKind === "pdf" || sourceKind === "docx" || sourceKind === "ppt") {
+  if (sourceKind === "recording") {
+    return "LECTURE RECORDING";
+  }
+  if (
+    sourceKind === "pdf" ||
+    sourceKind === "docx" ||
+    sourceKind === "ppt" ||
+    sourceKind === "image" ||
+    sourceKind === "markdown" ||
+    sourceKind === "epub" ||
+    sourceKind === "html"
+  ) {
     return "DOCUMENT SOURCE";
   }
   return "TEXT SOURCE";
@@ -237,7 +265,15 @@ function formatContextForPrompt(chunks: ScoredContextChunk[]): string {
   return chunks
     .map((item) => {
       const body = cleanRetrievedText(item.chunk.text) || item.chunk.text;
-      return [`[${toContextLabel(item.sourceKind)}]`, `Title: ${item.chunk.sourceName}`, `Content: ${body}`].join("\n");
+      return [
+        `[${toContextLabel(item.sourceKind)}]`,
+        `Title: ${item.chunk.sourceName}`,
+        ...(item.chunk.page !== undefined || item.chunk.slide !== undefined || item.chunk.startSeconds !== undefined
+          ? [`Cite as: ${formatCitationLabel(item.chunk)}`]
+          : []),
+        ...(item.chunk.heading ? [`Heading: ${item.chunk.heading}`] : []),
+        `Content: ${body}`,
+      ].join("\n");
     })
     .join("\n\n");
 }
@@ -329,7 +365,7 @@ async function expandQueryTokens(query: string, tokens: string[], enabled: boole
     ].join("\n");
 
     const raw = await withTimeout(
-      generateWithGeminiModel(prompt, FAST_MODEL),
+      generateWithGeminiModelWithOptions(prompt, FAST_MODEL, { taskType: "query_expansion" }),
       3_000,
       "query expansion timed out",
     );
@@ -366,6 +402,27 @@ function toModelPrompt(
   });
 }
 
+function toStructuredModelPrompt<T>(
+  taskType: AiTaskType,
+  modelConfig: ModelConfig,
+  prompt: string,
+  responseSchema: StructuredResponseSchema,
+  qualitySignals?: {
+    retrievalConfidence?: TopicConfidence;
+    minChars?: number;
+  },
+  complexityScore?: number,
+) {
+  return generateStructuredWithModelRouter<T>({
+    taskType,
+    modelConfig,
+    prompt,
+    complexityScore,
+    qualitySignals,
+    responseSchema,
+  });
+}
+
 function toModelPromptStream(
   taskType: AiTaskType,
   modelConfig: ModelConfig,
@@ -405,20 +462,54 @@ function buildContextEnvelope(context?: StudyGenerationContext): string[] {
   ];
 }
 
-function scoreChunk(chunk: string, tokens: string[]): number {
-  if (!chunk || !tokens.length) {
-    return 0;
-  }
+/**
+ * Cosine similarity between the query and each chunk, aligned with `items`.
+ * Chunks are compared in the vector space of the provider that embedded them;
+ * chunks without a stored vector are embedded on the fly with the hashed backend.
+ */
+async function computeSemanticScores(query: string, items: ContextChunk[]): Promise<number[]> {
+  const modelIds = new Set(items.map((item) => (item.embedding?.length ? item.embeddingModel ?? HASHED_EMBEDDING_ID : HASHED_EMBEDDING_ID)));
+  const queryVectors = new Map<string, EmbeddingVector>();
+
+  await Promise.all(
+    [...modelIds].map(async (modelId) => {
+      try {
+        const provider = resolveEmbeddingProvider(modelId, reportEmbeddingCall);
+        const [vector] = await withTimeout(
+          provider.embed([query]),
+          QUERY_EMBEDDING_TIMEOUT_MS,
+          "query embedding timed out",
+        );
+        if (vector?.length) {
+          queryVectors.set(modelId, vector);
+        }
+      } catch (error) {
+        console.warn("[RAG] query embedding failed", {
+          modelId,
+          message: error instanceof Error ? error.message : "unknown",
+        });
+      }
+    }),
+  );
 
-  const normalizedChunk = chunk.toLowerCase();
-  return tokens.reduce((score, token) => {
-    if (!normalizedChunk.includes(token)) {
-      return score;
+  return items.map((item) => {
+    const hasStoredVector = Boolean(item.embedding?.length);
+    const modelId = hasStoredVector ? item.embeddingModel ?? HASHED_EMBEDDING_ID : HASHED_EMBEDDING_ID;
+    const queryVector = queryVectors.get(modelId);
+    if (!queryVector) {
+      return 0;
     }
 
-    const exactMatches = normalizedChunk.split(token).length - 1;
-    return score + Math.max(1, exactMatches);
-  }, 0);
+    const chunkVector = hasStoredVector
+      ? (item.embedding as EmbeddingVector)
+      : embedTextHashed([item.chunk.section, item.chunk.text].filter(Boolean).join("\n"));
+    return Math.max(0, cosineSimilarity(queryVector, chunkVector));
+  });
+}
+
+function toSemanticContribution(semanticScore: number): number {
+  const margin = (semanticScore - SEMANTIC_SCORE_THRESHOLD) / (1 - SEMANTIC_SCORE_THRESHOLD);
+  return Math.max(0, margin) * SEMANTIC_SCORE_WEIGHT;
 }
 
 function toConfidence(score: number): TopicConfidence {
@@ -498,48 +589,17 @@ function cleanRetrievedText(input: string): string {
   return deduped.join("\n\n");
 }
 
-function parseJsonObject(raw: string): Record<string, unknown> | null {
-  const cleaned = raw.trim().replace(/^```json\s*/i, "").replace(/```$/, "").trim();
-  const candidate = cleaned.match(/\{[\s\S]*\}/)?.[0] ?? cleaned;
-
-  try {
-    return JSON.parse(candidate) as Record<string, unknown>;
-  } catch {
-    return null;
-  }
+function orFallback(value: string, fallback: string): string {
+  return value.trim() ? value : fallback;
 }
 
-function parseLearnItemContentFromJson(
-  parsed: Record<string, unknown> | null,
-  item: string,
-): {
-  conceptExplanation: string;
-  example: string;
-  examTip: string;
-  typicalExamQuestion: string;
-  fullAnswer: string;
-} {
+function normalizeLearnItemResponse(parsed: LearnItemResponse, item: string): LearnItemResponse {
   return {
-    conceptExplanation:
-      typeof parsed?.conceptExplanation === "string" && parsed.conceptExplanation.trim()
-        ? parsed.conceptExplanation
-        : "Not found in uploaded material.",
-    example:
-      typeof parsed?.example === "string" && parsed.example.trim()
-        ? parsed.example
-        : "",
-    examTip:
-      typeof parsed?.examTip === "string" && parsed.examTip.trim()
-        ? parsed.examTip
-        : "Focus on scoring patterns and repeated exam wording.",
-    typicalExamQuestion:
-      typeof parsed?.typicalExamQuestion === "string" && parsed.typicalExamQuestion.trim()
-        ? parsed.typicalExamQuestion
-        : `Explain ${item} with exam relevance.`,
-    fullAnswer:
-      typeof parsed?.fullAnswer === "string" && parsed.fullAnswer.trim()
-        ? parsed.fullAnswer
-        : "Not found in uploaded material.",
+    conceptExplanation: orFallback(parsed.conceptExplanation, "Not found in uploaded material."),
+    example: parsed.example.trim() ? parsed.example : "",
+    examTip: orFallback(parsed.examTip, "Focus on scoring patterns and repeated exam wording."),
+    typicalExamQuestion: orFallback(parsed.typicalExamQuestion, `Explain ${item} with exam relevance.`),
+    fullAnswer: orFallback(parsed.fullAnswer, "Not found in uploaded material."),
   };
 }
 
@@ -608,6 +668,12 @@ function toCitation(chunk: ParsedSourceChunk): SourceCitation {
     sourceName: chunk.sourceName,
     sourceYear: chunk.sourceYear,
     section: chunk.section,
+    page: chunk.page,
+    slide: chunk.slide,
+    heading: chunk.heading,
+    videoId: chunk.videoId,
+    startSeconds: chunk.startSeconds,
+    endSeconds: chunk.endSeconds,
     importanceLevel: toImportanceLevel(chunk.sourceType),
   };
 }
@@ -636,6 +702,10 @@ function parseWeightageScore(sourceName: string): number {
 }
 
 function toFallbackReason(error: unknown): string {
+  if (error instanceof StructuredOutputError) {
+    return error.code;
+  }
+
   if (error && typeof error === "object" && "code" in error) {
     const code = String((error as { code?: unknown }).code ?? "").trim();
     if (code) {
@@ -674,6 +744,78 @@ function extractQuestionLikeLine(text: string): string | undefined {
   return questionPattern?.slice(0, 220);
 }
 
+/**
+ * Question history for the enabled previous papers. Clusters come from the
+ * index (or from parsing, on the fallback path); re-clustering per request is
+ * only the last resort for corpora indexed before clusters were cached.
+ */
+function resolveQuestionClusters(
+  items: ContextChunk[],
+  precomputed: ExamQuestionCluster[] | undefined,
+): ExamQuestionCluster[] {
+  const paperChunks = items.map((item) => item.chunk).filter((chunk) => chunk.sourceType === "Previous Paper");
+  if (!paperChunks.length) {
+    return [];
+  }
+  if (!precomputed) {
+    return clusterExamQuestions(extractPaperQuestions(paperChunks));
+  }
+  return restrictClustersToSources(precomputed, new Set(paperChunks.map((chunk) => chunk.sourceName)));
+}
+
+const MAX_TYPICAL_EXAM_QUESTIONS = 3;
+
+type QuestionHistoryRetrieval = {
+  matchedQuestionClusters: ExamQuestionCluster[];
+  topPreviousPaperChunk?: ParsedSourceChunk;
+  examLikelihood: { score: number; label: StudyQuestionCard["examLikelihoodLabel"] };
+  citations: SourceCitation[];
+};
+
+function describePaper(chunk: ParsedSourceChunk): string {
+  return `${chunk.sourceName}${chunk.sourceYear ? ` (${chunk.sourceYear})` : ""}`;
+}
+
+/**
+ * Typical exam questions taken from past papers: the topic's question
+ * clusters (most-repeated first), else a question-like line from the best
+ * previous-paper chunk. Only a topic with no paper history gets a generic one.
+ */
+function buildTypicalExamQuestions(
+  topic: string,
+  retrieval: QuestionHistoryRetrieval,
+  answer: { simpleExplanation: string; example: string; examTip: string },
+): StudyQuestionCard[] {
+  const toCard = (question: string, askedIn?: string, originalQuestion?: string): StudyQuestionCard => ({
+    question,
+    answer: answer.simpleExplanation,
+    simpleExplanation: answer.simpleExplanation,
+    example: answer.example,
+    examTip: answer.examTip,
+    examLikelihoodScore: retrieval.examLikelihood.score,
+    examLikelihoodLabel: retrieval.examLikelihood.label,
+    sources: retrieval.citations,
+    askedIn,
+    originalQuestion,
+  });
+
+  if (retrieval.matchedQuestionClusters.length) {
+    return retrieval.matchedQuestionClusters
+      .slice(0, MAX_TYPICAL_EXAM_QUESTIONS)
+      .map((cluster) => toCard(cluster.canonicalText, formatAskedIn(cluster), cluster.canonicalText));
+  }
+
+  const paperChunk = retrieval.topPreviousPaperChunk;
+  const paperQuestion = paperChunk ? extractQuestionLikeLine(paperChunk.text) : undefined;
+  if (paperChunk && paperQuestion) {
+    return [toCard(paperQuestion, describePaper(paperChunk), paperQuestion)];
+  }
+
+  return [
+    toCard(`What is the exam-relevant explanation of ${topic}?`, paperChunk ? describePaper(paperChunk) : undefined),
+  ];
+}
+
 function titleCase(input: string): string {
   return input
     .trim()
@@ -760,7 +902,7 @@ function buildDifferences(topic: string, context: string): TopicStudyContent["di
 }
 
 function normalizeStudyContent(
-  value: Record<string, unknown> | null,
+  value: TopicStudyResponse,
   fallbackText: string,
   confidence: TopicConfidence,
   estimatedTime: string,
@@ -768,47 +910,22 @@ function normalizeStudyContent(
   materialCoverage: number,
   examLikelihoodScore: number
 ): TopicStudyContent {
-  const toArray = (input: unknown) =>
-    Array.isArray(input)
-      ? input.map((item) => String(item)).filter((item) => item.trim().length > 0).slice(0, 6)
-      : [];
-
-  const explanationInput = (value?.explanation ?? {}) as Record<string, unknown>;
-
-  const concept =
-    typeof explanationInput.concept === "string" && explanationInput.concept.trim()
-      ? explanationInput.concept
-      : "Key concept";
-
-  const simpleExplanation =
-    typeof explanationInput.simpleExplanation === "string" && explanationInput.simpleExplanation.trim()
-      ? explanationInput.simpleExplanation
-      : fallbackText;
-
-  const example =
-    typeof explanationInput.example === "string" && explanationInput.example.trim()
-      ? explanationInput.example
-      : "No direct worked example found in uploaded material.";
-
-  const examTip =
-    typeof explanationInput.examTip === "string" && explanationInput.examTip.trim()
-      ? explanationInput.examTip
-      : "Revise definitions and frequently repeated question patterns.";
+  const toList = (input: string[]) => input.filter((item) => item.trim().length > 0).slice(0, 6);
 
   return {
-    whatToLearn: toArray(value?.whatToLearn),
+    whatToLearn: toList(value.whatToLearn),
     explanation: {
-      concept,
-      simpleExplanation,
-      example,
-      examTip,
+      concept: orFallback(value.explanation.concept, "Key concept"),
+      simpleExplanation: orFallback(value.explanation.simpleExplanation, fallbackText),
+      example: orFallback(value.explanation.example, "No direct worked example found in uploaded material."),
+      examTip: orFallback(value.explanation.examTip, "Revise definitions and frequently repeated question patterns."),
     },
-    keyDefinitions: toArray(value?.keyDefinitions),
+    keyDefinitions: [],
     differences: [],
-    examplesFromMaterial: toArray(value?.examplesFromMaterial),
-    examTips: toArray(value?.examTips),
+    examplesFromMaterial: [],
+    examTips: [],
     typicalExamQuestions: [],
-    keyExamPoints: toArray(value?.keyExamPoints),
+    keyExamPoints: toList(value.keyExamPoints),
     confidence,
     estimatedTime,
     examLikelihoodScore,
@@ -819,6 +936,65 @@ function normalizeStudyContent(
   };
 }
 
+function toRetrievalOptions(context: StudyGenerationContext | undefined, modelConfig: ModelConfig): RetrievalOptions {
+  return {
+    userId: context?.userId,
+    strategyId: context?.strategyId,
+    debugRetrieval: context?.debugRetrieval,
+    expandQuery: context?.expandQuery,
+    rerank: context?.rerank,
+    modelConfig,
+  };
+}
+
+/**
+ * Rescores the candidate pool with the reranker and blends its relevance with
+ * the first-stage score, keeping the result on the same scale so confidence
+ * thresholds still apply. Candidates outside the budget keep their score.
+ */
+async function applyRerank(
+  query: string,
+  candidates: ScoredContextChunk[],
+  mode: RerankMode,
+  budget: number,
+  modelConfig?: ModelConfig,
+): Promise<ScoredContextChunk[]> {
+  const result = await rerankCandidates(
+    query,
+    candidates.map((item) => ({
+      text: item.chunk.text,
+      section: item.chunk.section,
+      sourceName: item.chunk.sourceName,
+    })),
+    {
+      mode,
+      modelConfig,
+      budget,
+      timeoutMs: RERANK_TIMEOUT_MS,
+    },
+  );
+
+  if (result.fallbackReason) {
+    console.warn("[RAG] rerank fell back to heuristic", { reason: result.fallbackReason });
+  }
+
+  const maxScore = candidates.reduce((max, item) => Math.max(max, item.score), 0);
+  return candidates
+    .map((item, index) => {
+      const relevance = result.relevance[index];
+      if (relevance === undefined) {
+        return item;
+      }
+      return {
+        ...item,
+        originalScore: item.score,
+        rerankScore: relevance,
+        score: RERANK_BLEND * relevance * maxScore + (1 - RERANK_BLEND) * item.score,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
 async function getTopChunks(
   files: UploadedFile[],
   query: string,
@@ -829,6 +1005,8 @@ async function getTopChunks(
   let sourceTypeMap: Map<string, StudySourceType> | undefined;
   let enabledSourceIds: Set<string> | undefined;
   let enabledSourceTitleToId: Map<string, string> | undefined;
+  let bm25Stats: Bm25Stats | undefined;
+  let precomputedClusters: ExamQuestionCluster[] | undefined;
   const retrievalWarnings: string[] = [];
 
   if (options?.userId && options.strategyId) {
@@ -850,6 +1028,7 @@ async function getTopChunks(
             label: examLikelihoodLabel(0),
           },
           topPreviousPaperChunk: undefined,
+          matchedQuestionClusters: [],
           usedVideoContext: false,
           retrievalMeta: {
             usedParseFallback: false,
@@ -862,10 +1041,14 @@ async function getTopChunks(
       }
 
       if (indexedBundle.chunks.length) {
+        bm25Stats = indexedBundle.bm25Stats;
+        precomputedClusters = indexedBundle.questionClusters;
         parsedContextChunks = indexedBundle.chunks.map((chunk) => ({
           sourceId: chunk.sourceId,
           chunk,
           sourceKind: inferSourceKind(chunk, indexedBundle.sourceTypeMap, chunk.sourceId),
+          embedding: chunk.embedding,
+          embeddingModel: chunk.embeddingModel,
         }));
       } else if (enabledSourceIds.size > 0) {
         retrievalWarnings.push("indexed_chunks_empty_despite_sources");
@@ -935,6 +1118,7 @@ async function getTopChunks(
         label: examLikelihoodLabel(0),
       },
       topPreviousPaperChunk: undefined,
+      matchedQuestionClusters: [],
       usedVideoContext: false,
       retrievalMeta: {
         usedParseFallback: parsedContextChunks.length === 0,
@@ -963,10 +1147,17 @@ async function getTopChunks(
   const baseTokens = tokenize(query);
   const tokens = await expandQueryTokens(query, baseTokens, options?.expandQuery !== false);
   const conceptualQuery = isConceptualQuery(query);
+  const semanticScores = await computeSemanticScores(query, truthFilteredChunks);
+  const corpusStats = bm25Stats ?? buildBm25Stats(truthFilteredChunks.map((item) => item.chunk));
 
   const scoredCandidates = truthFilteredChunks
-    .map((item) => {
-      let score = scoreChunk(item.chunk.text, tokens) + sourcePriorityBoost(item.chunk.sourceType);
+    .map((item, index) => {
+      const semanticScore = semanticScores[index] ?? 0;
+      const lexical = scoreBm25F(item.chunk, tokens, corpusStats);
+      let score =
+        lexical.score * LEXICAL_SCORE_WEIGHT +
+        toSemanticContribution(semanticScore) +
+        sourcePriorityBoost(item.chunk.sourceType);
       if (item.sourceKind === "youtube") {
         if (score === 0) {
           score = 3;
@@ -983,6 +1174,9 @@ async function getTopChunks(
       return {
         ...item,
         score,
+        lexicalScore: lexical.score,
+        semanticScore,
+        termContributions: lexical.contributions,
       };
     })
     .filter((item) => item.score > 0)
@@ -1011,8 +1205,23 @@ async function getTopChunks(
     })
     .sort((a, b) => b.score - a.score);
 
-  const selectedByDiversity = enforceSourceDiversity(overlapBoost, effectiveMaxChunks);
-  const selected = ensureEnabledSourceCoverage(selectedByDiversity, overlapBoost, enabledSourceIds).slice(0, effectiveMaxChunks);
+  let ranked = overlapBoost;
+  if (options?.rerank) {
+    const rerankBudget = Math.max(effectiveMaxChunks * 2, 8);
+    const pool = ensureEnabledSourceCoverage(
+      enforceSourceDiversity(overlapBoost, rerankBudget),
+      overlapBoost,
+      enabledSourceIds,
+    );
+    const keyFor = (item: ScoredContextChunk) => `${item.sourceId ?? "none"}::${item.chunk.section}::${item.chunk.text.slice(0, 80)}`;
+    const poolKeys = new Set(pool.map(keyFor));
+    const rest = overlapBoost.filter((item) => !poolKeys.has(keyFor(item)));
+    const reranked = await applyRerank(query, pool, options.rerank, pool.length, options.modelConfig);
+    ranked = [...reranked, ...rest];
+  }
+
+  const selectedByDiversity = enforceSourceDiversity(ranked, effectiveMaxChunks);
+  const selected = ensureEnabledSourceCoverage(selectedByDiversity, ranked, enabledSourceIds).slice(0, effectiveMaxChunks);
 
   const youtubeChunks = truthFilteredChunks.filter((item) => item.sourceKind === "youtube").length;
   const pdfChunks = truthFilteredChunks.filter((item) => item.sourceKind === "pdf").length;
@@ -1023,7 +1232,7 @@ async function getTopChunks(
       totalChunks: truthFilteredChunks.length,
       youtubeChunks,
       pdfChunks,
-      retrievedChunks: overlapBoost.slice(0, Math.max(effectiveMaxChunks * 3, 12)).map((item) => ({
+      retrievedChunks: ranked.slice(0, Math.max(effectiveMaxChunks * 3, 12)).map((item) => ({
         sourceId: item.sourceId,
         sourceName: item.chunk.sourceName,
         sourceType: item.sourceKind,
@@ -1052,12 +1261,17 @@ async function getTopChunks(
   const repeatedInMaterial = selected.filter((item) => item.chunk.sourceType === "Study Material").length >= 2;
   const coreTopic = selected.some((item) => item.chunk.sourceType === "Syllabus Derived");
   const highWeightage = parsed?.chapters.some((chapter) => chapter.weightage && parseWeightageScore(chapter.weightage) > 0) ?? false;
+  const questionClusters = resolveQuestionClusters(truthFilteredChunks, precomputedClusters ?? parsed?.questionClusters);
+  const matchedClusters = findClustersForTopic(questionClusters, query);
   const likelihood = computeExamLikelihood({
     appearsInPreviousPaper: hasPreviousPaper,
     appearsInQuestionBank: hasQuestionBank,
     repeatedInStudyMaterial: repeatedInMaterial,
     syllabusCoreTopic: coreTopic,
     highChapterWeightage: highWeightage,
+    questionHistory: questionClusters.length
+      ? scoreExamHistory(matchedClusters, countQuestionPapers(questionClusters))
+      : undefined,
   });
 
   const selectedKeys = new Set(selected.map((item) => `${item.sourceId ?? "none"}::${item.chunk.section}::${item.chunk.text.slice(0, 80)}`));
@@ -1069,16 +1283,25 @@ async function getTopChunks(
     materialCoverage: averageCoverage,
     examLikelihood: likelihood,
     topPreviousPaperChunk: selected.find((item) => item.chunk.sourceType === "Previous Paper")?.chunk,
+    matchedQuestionClusters: matchedClusters,
     usedVideoContext: selected.some((item) => item.sourceKind === "youtube"),
     retrievalMeta: {
       usedParseFallback: parsedContextChunks.length === 0,
       warnings: retrievalWarnings,
     },
     retrievedChunks: options?.debugRetrieval
-      ? overlapBoost.slice(0, Math.max(maxChunks * 3, 12)).map((item) => ({
+      ? ranked.slice(0, Math.max(maxChunks * 3, 12)).map((item) => ({
         sourceName: item.chunk.sourceName,
         sourceType: item.sourceKind,
         score: Number(item.score.toFixed(3)),
+        lexicalScore: item.lexicalScore === undefined ? undefined : Number(item.lexicalScore.toFixed(3)),
+        semanticScore: item.semanticScore === undefined ? undefined : Number(item.semanticScore.toFixed(3)),
+        termContributions: item.termContributions?.map((contribution) => ({
+          term: contribution.term,
+          score: Number(contribution.score.toFixed(3)),
+        })),
+        originalScore: item.originalScore === undefined ? undefined : Number(item.originalScore.toFixed(3)),
+        rerankScore: item.rerankScore === undefined ? undefined : Number(item.rerankScore.toFixed(3)),
         selected: selectedKeys.has(`${item.sourceId ?? "none"}::${item.chunk.section}::${item.chunk.text.slice(0, 80)}`),
       }))
       : undefined,
@@ -1092,12 +1315,7 @@ export async function buildTopicStudyContent(
   modelConfig: ModelConfig,
   options?: { outlineOnly?: boolean; context?: StudyGenerationContext }
 ): Promise<TopicStudyContent> {
-  const retrieval = await getTopChunks(files, topic, 6, {
-    userId: options?.context?.userId,
-    strategyId: options?.context?.strategyId,
-    debugRetrieval: options?.context?.debugRetrieval,
-    expandQuery: options?.context?.expandQuery,
-  });
+  const retrieval = await getTopChunks(files, topic, 6, toRetrievalOptions(options?.context, modelConfig));
   const confidence = toConfidence(retrieval.score);
   const estimatedTime = estimateTime(priority);
 
@@ -1156,21 +1374,20 @@ export async function buildTopicStudyContent(
   ].join("\n");
 
   try {
-    const generated = await toModelPrompt(
+    const generated = await toStructuredModelPrompt<TopicStudyResponse>(
       "topic_description",
       modelConfig,
       prompt,
+      TOPIC_STUDY_RESPONSE_SCHEMA,
       {
-        requiresJson: true,
         minChars: options?.outlineOnly ? 120 : 220,
         retrievalConfidence: confidence,
       },
       0.45,
     );
-    const parsed = parseJsonObject(generated.text);
 
     const strictNormalized = normalizeStudyContent(
-      parsed,
+      generated.value,
       FALLBACK_MESSAGE,
       confidence,
       estimatedTime,
@@ -1197,29 +1414,8 @@ export async function buildTopicStudyContent(
       ? strictNormalized.examTips
       : [strictNormalized.explanation.examTip];
 
-    const questionText = `What is the exam-relevant explanation of ${topic}?`;
-    const previousAskedIn = retrieval.topPreviousPaperChunk
-      ? `${retrieval.topPreviousPaperChunk.sourceName}${retrieval.topPreviousPaperChunk.sourceYear ? ` (${retrieval.topPreviousPaperChunk.sourceYear})` : ""}`
-      : undefined;
-    const previousOriginalQuestion = retrieval.topPreviousPaperChunk
-      ? extractQuestionLikeLine(retrieval.topPreviousPaperChunk.text)
-      : undefined;
-
     strictNormalized.differences = buildDifferences(topic, cleanedContext);
-    strictNormalized.typicalExamQuestions = [
-      {
-        question: questionText,
-        answer: strictNormalized.explanation.simpleExplanation,
-        simpleExplanation: strictNormalized.explanation.simpleExplanation,
-        example: strictNormalized.explanation.example,
-        examTip: strictNormalized.explanation.examTip,
-        examLikelihoodScore: retrieval.examLikelihood.score,
-        examLikelihoodLabel: retrieval.examLikelihood.label,
-        sources: retrieval.citations,
-        askedIn: previousAskedIn,
-        originalQuestion: previousOriginalQuestion,
-      },
-    ];
+    strictNormalized.typicalExamQuestions = buildTypicalExamQuestions(topic, retrieval, strictNormalized.explanation);
     strictNormalized.routingMeta = generated.meta;
     strictNormalized.retrievedChunks = retrieval.retrievedChunks;
 
@@ -1237,24 +1433,11 @@ export async function buildTopicStudyContent(
       differences: [],
       examplesFromMaterial: [],
       examTips: ["Prioritize high-likelihood patterns from previous papers."],
-      typicalExamQuestions: [
-        {
-          question: `What is the exam-relevant explanation of ${topic}?`,
-          answer: FALLBACK_MESSAGE,
-          simpleExplanation: FALLBACK_MESSAGE,
-          example: "No direct example found in uploaded material.",
-          examTip: "Focus on repeated patterns and standard definitions.",
-          examLikelihoodScore: retrieval.examLikelihood.score,
-          examLikelihoodLabel: retrieval.examLikelihood.label,
-          sources: retrieval.citations,
-          askedIn: retrieval.topPreviousPaperChunk
-            ? `${retrieval.topPreviousPaperChunk.sourceName}${retrieval.topPreviousPaperChunk.sourceYear ? ` (${retrieval.topPreviousPaperChunk.sourceYear})` : ""}`
-            : undefined,
-          originalQuestion: retrieval.topPreviousPaperChunk
-            ? extractQuestionLikeLine(retrieval.topPreviousPaperChunk.text)
-            : undefined,
-        },
-      ],
+      typicalExamQuestions: buildTypicalExamQuestions(topic, retrieval, {
+        simpleExplanation: FALLBACK_MESSAGE,
+        example: "No direct example found in uploaded material.",
+        examTip: "Focus on repeated patterns and standard definitions.",
+      }),
       keyExamPoints: defaultKeyExamPoints(topic),
       confidence,
       estimatedTime,
@@ -1282,12 +1465,7 @@ export async function buildLearnItemContent(
   modelConfig: ModelConfig,
   generationContext?: StudyGenerationContext,
 ): Promise<LearnItemContent> {
-  const retrieval = await getTopChunks(files, `${topic} ${item}`, 5, {
-    userId: generationContext?.userId,
-    strategyId: generationContext?.strategyId,
-    debugRetrieval: generationContext?.debugRetrieval,
-    expandQuery: generationContext?.expandQuery,
-  });
+  const retrieval = await getTopChunks(files, `${topic} ${item}`, 5, toRetrievalOptions(generationContext, modelConfig));
   const confidence = toConfidence(retrieval.score);
 
   if (!retrieval.chunks.length) {
@@ -1325,19 +1503,18 @@ export async function buildLearnItemContent(
   ].join("\n");
 
   try {
-    const generated = await toModelPrompt(
+    const generated = await toStructuredModelPrompt<LearnItemResponse>(
       "learn_now_answer",
       modelConfig,
       prompt,
+      LEARN_ITEM_RESPONSE_SCHEMA,
       {
-        requiresJson: true,
         minChars: 180,
         retrievalConfidence: confidence,
       },
       0.35,
     );
-    const parsed = parseJsonObject(generated.text);
-    const normalized = parseLearnItemContentFromJson(parsed, item);
+    const normalized = normalizeLearnItemResponse(generated.value, item);
     return {
       conceptExplanation: normalized.conceptExplanation,
       example: normalized.example,
@@ -1378,12 +1555,7 @@ export async function buildLearnItemContentStream(
   generationContext?: StudyGenerationContext,
   onDelta?: (chunk: string) => void,
 ): Promise<LearnItemContent> {
-  const retrieval = await getTopChunks(files, `${topic} ${item}`, 5, {
-    userId: generationContext?.userId,
-    strategyId: generationContext?.strategyId,
-    debugRetrieval: generationContext?.debugRetrieval,
-    expandQuery: generationContext?.expandQuery,
-  });
+  const retrieval = await getTopChunks(files, `${topic} ${item}`, 5, toRetrievalOptions(generationContext, modelConfig));
   const confidence = toConfidence(retrieval.score);
 
   if (!retrieval.chunks.length) {
@@ -1483,12 +1655,7 @@ export async function answerTopicQuestion(
   history: Array<{ role: "user" | "assistant"; content: string }> = [],
   generationContext?: StudyGenerationContext,
 ): Promise<TopicAnswer> {
-  const retrieval = await getTopChunks(files, `${topic} ${question}`, 5, {
-    userId: generationContext?.userId,
-    strategyId: generationContext?.strategyId,
-    debugRetrieval: generationContext?.debugRetrieval,
-    expandQuery: generationContext?.expandQuery,
-  });
+  const retrieval = await getTopChunks(files, `${topic} ${question}`, 5, toRetrievalOptions(generationContext, modelConfig));
   const confidence = toConfidence(retrieval.score);
 
   if (!retrieval.chunks.length) {
@@ -1516,6 +1683,7 @@ export async function answerTopicQuestion(
     "The following context comes from the student's own uploaded study material.",
     "Answer the question using ONLY this context. Do NOT say the information is not in their material \u2014 it IS their material.",
     "If context comes from a video source, mention that.",
+    'When a context block has a "Cite as" line, cite it in that form, e.g. (Unit3.pdf, p. 14).',
     "Never invent exam facts not supported by the context below.",
     "Keep your answer concise: 4 to 7 sentences maximum.",
     `Topic: ${topic}`,
@@ -1592,12 +1760,7 @@ export async function answerTopicQuestionStream(
   generationContext?: StudyGenerationContext,
   onDelta?: (chunk: string) => void,
 ): Promise<TopicAnswer> {
-  const retrieval = await getTopChunks(files, `${topic} ${question}`, 5, {
-    userId: generationContext?.userId,
-    strategyId: generationContext?.strategyId,
-    debugRetrieval: generationContext?.debugRetrieval,
-    expandQuery: generationContext?.expandQuery,
-  });
+  const retrieval = await getTopChunks(files, `${topic} ${question}`, 5, toRetrievalOptions(generationContext, modelConfig));
   const confidence = toConfidence(retrieval.score);
 
   if (!retrieval.chunks.length) {
@@ -1625,6 +1788,7 @@ export async function answerTopicQuestionStream(
     "The following context comes from the student's own uploaded study material.",
     "Answer the question using ONLY this context. Do NOT say the information is not in their material \u2014 it IS their material.",
     "If context comes from a video source, mention that.",
+    'When a context block has a "Cite as" line, cite it in that form, e.g. (Unit3.pdf, p. 14).',
     "Never invent exam facts not supported by the context below.",
     "Keep your answer concise: 4 to 7 sentences maximum.",
     `Topic: ${topic}`,
@@ -1705,12 +1869,7 @@ export async function buildExamModeContent(
   modelConfig: ModelConfig,
   generationContext?: StudyGenerationContext,
 ): Promise<ExamModeContent> {
-  const retrieval = await getTopChunks(files, `${topic} likely exam questions`, 6, {
-    userId: generationContext?.userId,
-    strategyId: generationContext?.strategyId,
-    debugRetrieval: generationContext?.debugRetrieval,
-    expandQuery: generationContext?.expandQuery,
-  });
+  const retrieval = await getTopChunks(files, `${topic} likely exam questions`, 6, toRetrievalOptions(generationContext, modelConfig));
   const confidence = toConfidence(retrieval.score);
 
   if (!retrieval.chunks.length) {
@@ -1754,52 +1913,32 @@ export async function buildExamModeContent(
   ].join("\n");
 
   try {
-    const generated = await toModelPrompt(
+    const generated = await toStructuredModelPrompt<ExamModeResponse>(
       "exam_mode_generation",
       modelConfig,
       prompt,
+      EXAM_MODE_RESPONSE_SCHEMA,
       {
-        requiresJson: true,
         minChars: 220,
         retrievalConfidence: confidence,
       },
       0.55,
     );
-    const parsed = parseJsonObject(generated.text);
-
-    const likelyQuestionsRaw = Array.isArray(parsed?.likelyQuestions) ? parsed.likelyQuestions : [];
-    const likelyQuestions = likelyQuestionsRaw
-      .map((item) => {
-        const row = item as Record<string, unknown>;
-        const question = typeof row.question === "string" ? row.question.trim() : "";
-        const expectedAnswer = typeof row.expectedAnswer === "string" ? row.expectedAnswer.trim() : "";
-        const difficultyRaw = typeof row.difficulty === "string" ? row.difficulty.toLowerCase() : "medium";
-        const difficulty: "easy" | "medium" | "hard" =
-          difficultyRaw === "easy" || difficultyRaw === "hard" ? difficultyRaw : "medium";
-        const timeLimitMinutesRaw = Number(row.timeLimitMinutes ?? 8);
-        const timeLimitMinutes = Number.isFinite(timeLimitMinutesRaw)
-          ? Math.max(3, Math.min(25, Math.round(timeLimitMinutesRaw)))
-          : 8;
-
-        if (!question || !expectedAnswer) {
-          return null;
-        }
-
-        return {
-          question,
-          expectedAnswer,
-          difficulty,
-          timeLimitMinutes,
-        };
-      })
-      .filter((item): item is NonNullable<typeof item> => Boolean(item))
+    const parsed = generated.value;
+
+    const likelyQuestions = parsed.likelyQuestions
+      .map((row) => ({
+        question: row.question.trim(),
+        expectedAnswer: row.expectedAnswer.trim(),
+        difficulty: row.difficulty,
+        timeLimitMinutes: Math.max(3, Math.min(25, Math.round(row.timeLimitMinutes))),
+      }))
+      .filter((row) => row.question && row.expectedAnswer)
       .slice(0, 3);
 
-    const weakAreas = Array.isArray(parsed?.weakAreas)
-      ? parsed.weakAreas.map((item) => String(item)).filter((item) => item.trim().length > 0).slice(0, 4)
-      : [];
+    const weakAreas = parsed.weakAreas.filter((item) => item.trim().length > 0).slice(0, 4);
 
-    const baseReadiness = typeof parsed?.readinessScore === "number" ? parsed.readinessScore : 50;
+    const baseReadiness = parsed.readinessScore;
     const confidenceBoost = confidence === "high" ? 8 : confidence === "medium" ? 3 : -5;
     const finalReadiness = Math.max(0, Math.min(100, Math.round(baseReadiness + confidenceBoost)));
 
@@ -1818,10 +1957,10 @@ export async function buildExamModeContent(
       readinessScore: finalReadiness,
       confidence,
       weakAreas: weakAreas.length ? weakAreas : ["Key areas need additional revision from uploaded material."],
-      examTip:
-        typeof parsed?.examTip === "string" && parsed.examTip.trim()
-          ? parsed.examTip
-          : "Practice high-likelihood questions first and focus on concise structured answers.",
+      examTip: orFallback(
+        parsed.examTip,
+        "Practice high-likelihood questions first and focus on concise structured answers.",
+      ),
       citations: retrieval.citations,
       retrievedChunks: retrieval.retrievedChunks,
       routingMeta: generated.meta,
@@ -1860,12 +1999,7 @@ export async function buildMicroQuizContent(
   count = 4,
   generationContext?: StudyGenerationContext,
 ): Promise<MicroQuizContent> {
-  const retrieval = await getTopChunks(files, `${topic} quiz questions`, 8, {
-    userId: generationContext?.userId,
-    strategyId: generationContext?.strategyId,
-    debugRetrieval: generationContext?.debugRetrieval,
-    expandQuery: generationContext?.expandQuery,
-  });
+  const retrieval = await getTopChunks(files, `${topic} quiz questions`, 8, toRetrievalOptions(generationContext, modelConfig));
   if (!retrieval.chunks.length) {
     return {
       questions: [],
@@ -1896,36 +2030,25 @@ export async function buildMicroQuizContent(
   ].join("\n");
 
   try {
-    const generated = await toModelPrompt(
+    const generated = await toStructuredModelPrompt<MicroQuizResponse>(
       "quiz_generation",
       modelConfig,
       prompt,
+      MICRO_QUIZ_RESPONSE_SCHEMA,
       {
-        requiresJson: true,
         minChars: 180,
       },
       0.4,
     );
-    const parsed = parseJsonObject(generated.text);
-    const questionsRaw = Array.isArray(parsed?.questions) ? parsed.questions : [];
-
-    const questions = questionsRaw
-      .map((row) => {
-        const item = row as Record<string, unknown>;
-        const question = typeof item.question === "string" ? item.question.trim() : "";
-        const answer = typeof item.answer === "string" ? item.answer.trim() : "";
-        const explanation = typeof item.explanation === "string" ? item.explanation.trim() : "";
-        const difficultyRaw = typeof item.difficulty === "string" ? item.difficulty.toLowerCase() : "medium";
-        const difficulty: "easy" | "medium" | "hard" =
-          difficultyRaw === "easy" || difficultyRaw === "hard" ? difficultyRaw : "medium";
-
-        if (!question || !answer || !explanation) {
-          return null;
-        }
 
-        return { question, answer, explanation, difficulty };
-      })
-      .filter((item): item is MicroQuizQuestion => Boolean(item))
+    const questions: MicroQuizQuestion[] = generated.value.questions
+      .map((row) => ({
+        question: row.question.trim(),
+        answer: row.answer.trim(),
+        explanation: row.explanation.trim(),
+        difficulty: row.difficulty,
+      }))
+      .filter((row) => row.question && row.answer && row.explanation)
       .slice(0, 5);
 
     return {
@@ -0,0 +1,191 @@
+/**
+ * Second-stage reranking for retrieval candidates.
+ *
+ * The first stage (BM25F + embeddings) scores every chunk independently of the
+ * others. The reranker looks at the query and a small pool of top candidates
+ * together, either through the model router ("retrieval_rerank" task) or with a
+ * local heuristic that rewards query coverage, phrase matches and proximity.
+ */
+
+import { ModelConfig } from "@/lib/ai/types";
+import { generateStructuredWithModelRouter } from "@/lib/ai/modelRouter";
+import { RERANK_RESPONSE_SCHEMA, RerankResponse } from "@/lib/ai/response-schemas";
+import { withTimeout } from "@/lib/async";
+import { tokenize } from "@/lib/study/bm25";
+
+export type RerankMode = "model" | "heuristic";
+
+/** Reads an untrusted request field; anything but a known mode means "use the default". */
+export function parseRerankMode(value: unknown): RerankMode | undefined {
+  return value === "model" || value === "heuristic" ? value : undefined;
+}
+
+export type RerankCandidate = {
+  text: string;
+  section: string;
+  sourceName: string;
+};
+
+export type RerankOptions = {
+  mode: RerankMode;
+  modelConfig?: ModelConfig;
+  /** Maximum number of candidates sent to the reranker; the rest keep their original order. */
+  budget?: number;
+  timeoutMs?: number;
+  maxCharsPerCandidate?: number;
+};
+
+export type RerankResult = {
+  /** Relevance in [0, 1] per candidate, aligned with the input; `undefined` when outside the budget. */
+  relevance: Array<number | undefined>;
+  modeUsed: RerankMode;
+  fallbackReason?: string;
+};
+
+const DEFAULT_BUDGET = 10;
+const DEFAULT_TIMEOUT_MS = 4_000;
+const DEFAULT_MAX_CHARS = 600;
+
+function toBigrams(tokens: string[]): Set<string> {
+  const bigrams = new Set<string>();
+  for (let index = 1; index < tokens.length; index += 1) {
+    bigrams.add(`${tokens[index - 1]} ${tokens[index]}`);
+  }
+  return bigrams;
+}
+
+/** Smallest token window (relative to document length) that covers every matched query term. */
+function proximityScore(queryTerms: Set<string>, documentTokens: string[]): number {
+  const positions = new Map<string, number>();
+  let best = Number.POSITIVE_INFINITY;
+  let matchedTerms = 0;
+
+  documentTokens.forEach((token, index) => {
+    if (!queryTerms.has(token)) {
+      return;
+    }
+    positions.set(token, index);
+    matchedTerms = positions.size;
+    if (matchedTerms >= 2) {
+      const window = index - Math.min(...positions.values()) + 1;
+      best = Math.min(best, window / matchedTerms);
+    }
+  });
+
+  if (matchedTerms < 2 || !Number.isFinite(best)) {
+    return 0;
+  }
+  return 1 / best;
+}
+
+export function scoreHeuristicRelevance(query: string, candidate: RerankCandidate): number {
+  const queryTokens = tokenize(query);
+  if (!queryTokens.length) {
+    return 0;
+  }
+
+  const queryTerms = new Set(queryTokens);
+  const textTokens = tokenize(candidate.text);
+  const sectionTokens = new Set(tokenize(candidate.section));
+  const textTerms = new Set(textTokens);
+
+  const coverage = [...queryTerms].filter((term) => textTerms.has(term) || sectionTokens.has(term)).length / queryTerms.size;
+  const queryBigrams = toBigrams(queryTokens);
+  const textBigrams = toBigrams(textTokens);
+  const phraseMatch = queryBigrams.size
+    ? [...queryBigrams].filter((bigram) => textBigrams.has(bigram)).length / queryBigrams.size
+    : 0;
+  const sectionMatch = [...queryTerms].some((term) => sectionTokens.has(term)) ? 1 : 0;
+  const proximity = proximityScore(queryTerms, textTokens);
+
+  return Math.min(1, 0.5 * coverage + 0.2 * phraseMatch + 0.2 * proximity + 0.1 * sectionMatch);
+}
+
+function rerankHeuristically(query: string, candidates: RerankCandidate[]): number[] {
+  return candidates.map((candidate) => scoreHeuristicRelevance(query, candidate));
+}
+
+function toModelRelevance(response: RerankResponse, count: number): number[] {
+  const relevance = new Array<number>(count).fill(0);
+  for (const row of response.scores) {
+    if (row.id > count) {
+      continue;
+    }
+    relevance[row.id - 1] = row.relevance / 10;
+  }
+  return relevance;
+}
+
+async function rerankWithModel(
+  query: string,
+  candidates: RerankCandidate[],
+  modelConfig: ModelConfig,
+  maxChars: number,
+): Promise<number[]> {
+  const passages = candidates.map((candidate, index) =>
+    [
+      `[${index + 1}] ${candidate.sourceName}${candidate.section ? ` — ${candidate.section}` : ""}`,
+      candidate.text.replace(/\s+/g, " ").slice(0, maxChars),
+    ].join("\n"),
+  );
+
+  const prompt = [
+    "You are ranking study-material passages for a student's query.",
+    "Rate how directly each passage helps answer the query on a 0-10 scale.",
+    "Judge only relevance, not writing quality.",
+    'Return ONLY valid JSON: { "scores": [{ "id": number, "relevance": number }] }',
+    `Query: ${query}`,
+    "Passages:",
+    passages.join("\n\n"),
+  ].join("\n");
+
+  const generated = await generateStructuredWithModelRouter<RerankResponse>({
+    taskType: "retrieval_rerank",
+    modelConfig,
+    prompt,
+    complexityScore: 0.2,
+    responseSchema: RERANK_RESPONSE_SCHEMA,
+    qualitySignals: {
+      minChars: 20,
+    },
+  });
+
+  return toModelRelevance(generated.value, candidates.length);
+}
+
+export async function rerankCandidates(
+  query: string,
+  candidates: RerankCandidate[],
+  options: RerankOptions,
+): Promise<RerankResult> {
+  const budget = Math.max(0, options.budget ?? DEFAULT_BUDGET);
+  const pool = candidates.slice(0, budget);
+  const pad = (scores: number[]) => candidates.map((_, index) => (index < pool.length ? scores[index] : undefined));
+
+  if (!pool.length) {
+    return { relevance: pad([]), modeUsed: options.mode };
+  }
+
+  if (options.mode === "model" && options.modelConfig) {
+    try {
+      const scores = await withTimeout(
+        rerankWithModel(query, pool, options.modelConfig, options.maxCharsPerCandidate ?? DEFAULT_MAX_CHARS),
+        options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        "rerank timed out",
+      );
+      return { relevance: pad(scores), modeUsed: "model" };
+    } catch (error) {
+      return {
+        relevance: pad(rerankHeuristically(query, pool)),
+        modeUsed: "heuristic",
+        fallbackReason: error instanceof Error ? error.message : "rerank failed",
+      };
+    }
+  }
+
+  return {
+    relevance: pad(rerankHeuristically(query, pool)),
+    modeUsed: "heuristic",
+    fallbackReason: options.mode === "model" ? "missing_model_config" : undefined,
+  };
+}
@@ -1 +1,2 @@
 declare module "pdf-parse";
+declare module "pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js";
@@ -0,0 +1 @@
+declare module "@tesseract.js-data/eng";